@@ -281,6 +281,15 @@ describe('Financial Statement API Integration Tests', () => {
         .get('/api/companies/AAPL/refresh/nonexistent-job-id')
         .expect(404);
     });
+
+    it('should reject a string force flag on a batch refresh', async () => {
+      if (process.env.NODE_ENV !== 'integration') return;
+
+      await request(app)
+        .post('/api/refresh/batch')
+        .send({ tickers: ['AAPL'], force: 'false' })
+        .expect(400);
+    });
   });
 
   describe('Metric Time Series', () => {
@@ -396,6 +405,29 @@ describe('Financial Statement API Integration Tests', () => {
     });
   });
 
+  describe('User Scoping', () => {
+    it('should only trust X-User-Id alongside the proxy token', async () => {
+      if (process.env.NODE_ENV !== 'integration') return;
+
+      process.env.USER_PROXY_TOKEN = 'test-proxy-token';
+      try {
+        const response = await request(app)
+          .get('/api/watchlists')
+          .set('X-User-Id', 'integration-user')
+          .expect(401);
+        expect(response.body.error.code).toBe('UNAUTHORIZED');
+
+        await request(app)
+          .get('/api/watchlists')
+          .set('X-User-Id', 'integration-user')
+          .set('X-Proxy-Token', 'test-proxy-token')
+          .expect(200);
+      } finally {
+        delete process.env.USER_PROXY_TOKEN;
+      }
+    });
+  });
+
   describe('Error Handling', () => {
     it('should return 404 for non-existent routes', async () => {
       if (process.env.NODE_ENV !== 'integration') return;
@@ -449,9 +481,10 @@ describe('Financial Statement API Integration Tests', () => {
     // Add some test metrics if they don't exist
     await prisma.metricView.upsert({
       where: {
-        cik_metric_periodEnd: {
+        cik_metric_frequency_periodEnd: {
           cik: apple.cik,
           metric: 'Revenues',
+          frequency: 'annual',
           periodEnd: new Date('2023-09-30'),
         },
       },
@@ -459,6 +492,8 @@ describe('Financial Statement API Integration Tests', () => {
       create: {
         cik: apple.cik,
         metric: 'Revenues',
+        frequency: 'annual',
+        periodStart: new Date('2022-09-25'),
         periodEnd: new Date('2023-09-30'),
         value: 383285000000,
         fiscalPeriod: 'FY',
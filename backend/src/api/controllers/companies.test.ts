@@ -3,6 +3,7 @@ import type { Request, Response } from 'express';
 import { CompaniesController } from './companies';
 import type { IFinancialDataProvider } from '../../providers';
 import { ApiError } from '../middleware';
+import type { CompanySearchQuery } from '../types';
 
 // Mock Prisma
 const mockPrisma = {
@@ -14,6 +15,15 @@ const mockPrisma = {
     findMany: vi.fn(),
     findFirst: vi.fn(),
   },
+  tickerDirectory: {
+    findMany: vi.fn(),
+  },
+  companyNameHistory: {
+    findMany: vi.fn(),
+  },
+  dataQualityFlag: {
+    findMany: vi.fn(),
+  },
 };
 
 // Mock Provider
@@ -48,6 +58,9 @@ vi.mock('../../lib/queue', () => ({
   }),
 }));
 
+// Search queries as validateQuery leaves them, with the limit coerced to a number
+const searchQuery = (query: CompanySearchQuery) => query as unknown as Request['query'];
+
 describe('CompaniesController', () => {
   let controller: CompaniesController;
   let mockReq: Partial<Request>;
@@ -55,6 +68,9 @@ describe('CompaniesController', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    mockPrisma.tickerDirectory.findMany.mockResolvedValue([]);
+    mockPrisma.companyNameHistory.findMany.mockResolvedValue([]);
+    mockPrisma.dataQualityFlag.findMany.mockResolvedValue([]);
     controller = new CompaniesController(mockPrisma as any, mockProvider);
     
     mockReq = {
@@ -81,7 +97,7 @@ describe('CompaniesController', () => {
       ];
 
       mockPrisma.company.findMany.mockResolvedValue(mockCompanies);
-      mockReq.query = { q: 'AAPL', limit: '10' };
+      mockReq.query = searchQuery({ q: 'AAPL', limit: 10 });
 
       await controller.search(mockReq as Request, mockRes as Response);
 
@@ -107,8 +123,9 @@ describe('CompaniesController', () => {
             ticker: 'AAPL',
             name: 'Apple Inc.',
             sic: '3571',
-            sector: undefined,
-            industry: undefined,
+            // Classified from the SIC code
+            sector: 'Technology',
+            industry: 'Industrial and Commercial Machinery and Computer Equipment',
           },
         ],
         meta: {
@@ -119,9 +136,36 @@ describe('CompaniesController', () => {
       });
     });
 
+    it('should rank directory companies that were never ingested', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([]);
+      mockPrisma.tickerDirectory.findMany.mockResolvedValue([
+        { cik: '0001326801', ticker: 'META', name: 'Meta Platforms, Inc.', exchange: 'Nasdaq' },
+        { cik: '0000789019', ticker: 'MSFT', name: 'MICROSOFT CORP', exchange: 'Nasdaq' },
+        { cik: '0000320193', ticker: 'AAPL', name: 'Apple Inc.', exchange: 'Nasdaq' },
+      ]);
+      mockPrisma.companyNameHistory.findMany.mockResolvedValue([
+        { cik: '0001326801', name: 'Facebook Inc' },
+      ]);
+
+      mockReq.query = searchQuery({ q: 'm', limit: 10 });
+      await controller.search(mockReq as Request, mockRes as Response);
+      expect(mockRes.json).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        data: [
+          expect.objectContaining({ ticker: 'META' }),
+          expect.objectContaining({ ticker: 'MSFT' }),
+        ],
+      }));
+
+      mockReq.query = searchQuery({ q: 'facebok', limit: 10 });
+      await controller.search(mockReq as Request, mockRes as Response);
+      expect(mockRes.json).toHaveBeenNthCalledWith(2, expect.objectContaining({
+        data: [expect.objectContaining({ ticker: 'META', name: 'Meta Platforms, Inc.' })],
+      }));
+    });
+
     it('should handle database errors', async () => {
       mockPrisma.company.findMany.mockRejectedValue(new Error('Database error'));
-      mockReq.query = { q: 'AAPL', limit: '10' };
+      mockReq.query = searchQuery({ q: 'AAPL', limit: 10 });
 
       await expect(
         controller.search(mockReq as Request, mockRes as Response)
@@ -156,6 +200,8 @@ describe('CompaniesController', () => {
           ticker: 'AAPL',
           name: 'Apple Inc.',
           sic: '3571',
+          sector: 'Technology',
+          industry: 'Industrial and Commercial Machinery and Computer Equipment',
           fiscalYearEnd: '0930',
           createdAt: '2023-01-01T00:00:00.000Z',
           updatedAt: '2023-12-01T00:00:00.000Z',
@@ -188,6 +234,8 @@ describe('CompaniesController', () => {
         {
           metric: 'Revenues',
           value: 383285000000,
+          frequency: 'annual',
+          periodStart: new Date('2022-09-25'),
           periodEnd: new Date('2023-09-30'),
           fiscalPeriod: 'FY',
           fiscalYear: 2023,
@@ -195,6 +243,8 @@ describe('CompaniesController', () => {
         {
           metric: 'NetIncomeLoss',
           value: 97000000000,
+          frequency: 'annual',
+          periodStart: new Date('2022-09-25'),
           periodEnd: new Date('2023-09-30'),
           fiscalPeriod: 'FY',
           fiscalYear: 2023,
@@ -222,6 +272,8 @@ describe('CompaniesController', () => {
             ticker: 'AAPL',
             name: 'Apple Inc.',
             sic: '3571',
+            sector: 'Technology',
+            industry: 'Industrial and Commercial Machinery and Computer Equipment',
             fiscalYearEnd: '0930',
           },
           metrics: expect.arrayContaining([
@@ -244,6 +296,74 @@ describe('CompaniesController', () => {
       });
     });
 
+    it('should attach reconciliation flags to the metrics they involve', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue({
+        cik: '0000320193',
+        ticker: 'AAPL',
+        name: 'Apple Inc.',
+        updatedAt: new Date('2023-12-01'),
+      });
+      mockPrisma.metricView.findMany.mockResolvedValue([
+        { metric: 'Revenues', value: 383285000000, frequency: 'annual', periodStart: new Date('2022-09-25'), periodEnd: new Date('2023-09-30'), fiscalPeriod: 'FY', fiscalYear: 2023 },
+        { metric: 'NetIncomeLoss', value: 97000000000, frequency: 'annual', periodStart: new Date('2022-09-25'), periodEnd: new Date('2023-09-30'), fiscalPeriod: 'FY', fiscalYear: 2023 },
+      ]);
+      mockPrisma.metricView.findFirst.mockResolvedValue(null);
+      mockPrisma.dataQualityFlag.findMany.mockResolvedValue([{
+        periodEnd: new Date('2023-09-30'),
+        check: 'gross_profit',
+        severity: 'warning',
+        message: 'Gross profit does not equal revenue less cost of revenue',
+        concepts: ['GrossProfit', 'Revenues', 'CostOfRevenue'],
+      }]);
+
+      mockReq.params = { ticker: 'AAPL' };
+      mockReq.query = { range: '3y', refresh: 'false' };
+
+      await controller.getOverview(mockReq as Request, mockRes as Response);
+
+      const { metrics } = (mockRes.json as any).mock.calls[0][0].data;
+      expect(metrics.find((m: any) => m.concept === 'Revenues').qualityFlags).toEqual([{
+        check: 'gross_profit',
+        severity: 'warning',
+        message: 'Gross profit does not equal revenue less cost of revenue',
+      }]);
+      expect(metrics.find((m: any) => m.concept === 'NetIncomeLoss').qualityFlags).toBeUndefined();
+    });
+
+    it('should show the latest quarter and compare it with the previous quarter', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue({
+        cik: '0000320193',
+        ticker: 'AAPL',
+        name: 'Apple Inc.',
+        updatedAt: new Date('2023-12-01'),
+      });
+      mockPrisma.metricView.findMany.mockResolvedValue([
+        { cik: '0000320193', metric: 'Revenues', frequency: 'annual', value: 383285000000, periodStart: new Date('2022-09-25'), periodEnd: new Date('2023-09-30'), fiscalPeriod: 'FY', fiscalYear: 2023 },
+        { cik: '0000320193', metric: 'Revenues', frequency: 'quarterly', value: 89498000000, periodStart: new Date('2023-07-02'), periodEnd: new Date('2023-09-30'), fiscalPeriod: 'Q4', fiscalYear: 2023 },
+      ]);
+      mockPrisma.metricView.findFirst.mockResolvedValue({
+        cik: '0000320193', metric: 'Revenues', frequency: 'quarterly', value: 81797000000, periodEnd: new Date('2023-07-01'),
+      });
+      mockPrisma.dataQualityFlag.findMany.mockResolvedValue([]);
+
+      mockReq.params = { ticker: 'AAPL' };
+      mockReq.query = { range: '3y', refresh: 'false' };
+
+      await controller.getOverview(mockReq as Request, mockRes as Response);
+
+      expect(mockPrisma.metricView.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ metric: 'Revenues', frequency: 'quarterly' }),
+      }));
+      const { metrics } = (mockRes.json as any).mock.calls[0][0].data;
+      expect(metrics).toHaveLength(1);
+      expect(metrics[0]).toMatchObject({
+        value: 89498000000,
+        frequency: 'quarterly',
+        fiscalPeriod: 'Q4',
+        change: { value: 7701000000, period: 'QoQ' },
+      });
+    });
+
     it('should handle company not found', async () => {
       mockPrisma.company.findUnique.mockResolvedValue(null);
       mockReq.params = { ticker: 'NONEXISTENT' };
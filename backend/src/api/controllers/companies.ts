@@ -1,5 +1,5 @@
 import type { Request, Response } from 'express';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, MetricView } from '@prisma/client';
 import type { IFinancialDataProvider } from '../../providers';
 import { DataNotFoundError } from '../../providers';
 import { ApiError } from '../middleware';
@@ -13,12 +13,28 @@ import type {
 } from '../types';
 import { FINANCIAL_CONCEPTS } from '../types';
 import { addIngestJob, getJobStatus } from '../../lib/queue';
+import { getConceptDefinition, listConcepts } from '../../lib/concept-catalog';
+import { rankDirectoryMatches } from '../../lib/company-directory';
+import { getCompanyClassification } from '../../lib/sic-taxonomy';
+import { groupFlagsByPeriod } from '../../lib/reconciliation';
+import { FxRateService } from '../../services/fxRates';
+import { CompanyDirectoryService } from '../../services/companyDirectory';
+
+// Views shown on the overview, preferred in this order for the same period end:
+// the latest quarter, the latest balance, and the fiscal year for annual-only filers
+const OVERVIEW_FREQUENCIES = ['quarterly', 'instant', 'annual'];
 
 export class CompaniesController {
+  private fxRates: FxRateService;
+  private directory: CompanyDirectoryService;
+
   constructor(
     private prisma: PrismaClient,
     private provider: IFinancialDataProvider
-  ) {}
+  ) {
+    this.fxRates = new FxRateService(prisma);
+    this.directory = new CompanyDirectoryService(prisma);
+  }
 
   // GET /api/companies/search?q=AAPL&limit=10
   search = async (req: Request, res: Response) => {
@@ -42,18 +58,29 @@ export class CompaniesController {
         ],
       });
 
-      const results: CompanySearchResult[] = companies.map(company => ({
-        cik: company.cik,
-        ticker: company.ticker,
-        name: company.name,
-        sic: company.sic || undefined,
-        sector: undefined, // TODO: Add sector mapping from SIC
-        industry: undefined,
-      }));
-
-      // If we don't have enough results, could try provider search
-      // but SEC EDGAR doesn't have search functionality
-      
+      // The SEC ticker directory covers companies that were never ingested
+      const maxResults = Number(limit);
+      const listed = await this.directory.search(q, companies.length + maxResults);
+      const ingested = new Map(companies.map(company => [company.ticker, company]));
+      const matches = [
+        ...rankDirectoryMatches(companies.map(company => ({ ...company, exchange: null })), q, companies.length),
+        ...listed.filter(match => !ingested.has(match.entry.ticker)),
+      ];
+
+      const results: CompanySearchResult[] = matches
+        .sort((a, b) => b.score - a.score)
+        .slice(0, maxResults)
+        .map(({ entry }) => {
+          const company = ingested.get(entry.ticker);
+          return {
+            cik: entry.cik,
+            ticker: entry.ticker,
+            name: entry.name,
+            sic: company?.sic || undefined,
+            ...(company && getCompanyClassification(company)),
+          };
+        });
+
       res.json({
         data: results,
         meta: {
@@ -90,6 +117,7 @@ export class CompaniesController {
           ticker: company.ticker,
           name: company.name,
           sic: company.sic,
+          ...getCompanyClassification(company),
           fiscalYearEnd: company.fiscalYearEnd,
           createdAt: company.createdAt.toISOString(),
           updatedAt: company.updatedAt.toISOString(),
@@ -103,10 +131,10 @@ export class CompaniesController {
     }
   };
 
-  // GET /api/companies/:ticker/overview?range=3y&refresh=false
+  // GET /api/companies/:ticker/overview?range=3y&refresh=false&currency=EUR
   getOverview = async (req: Request, res: Response) => {
     const { ticker } = req.params;
-    const { range, refresh } = req.query as OverviewQuery;
+    const { range, refresh, currency } = req.query as OverviewQuery;
 
     if (!ticker) {
       throw new ApiError(400, 'INVALID_TICKER', 'Ticker parameter is required');
@@ -123,40 +151,75 @@ export class CompaniesController {
       }
 
       // Key metrics for dashboard
-      const dashboardConcepts = [
-        'Revenues',
-        'NetIncomeLoss',
-        'CashAndCashEquivalentsAtCarryingValue',
-        'LongTermDebtNoncurrent',
-      ];
+      const dashboardConcepts = listConcepts({ dashboard: true });
 
       // Get latest metrics from metric views
-      const latestMetrics = await this.prisma.metricView.findMany({
+      const latestViews = await this.prisma.metricView.findMany({
         where: {
           cik: company.cik,
           metric: { in: dashboardConcepts },
+          frequency: { in: OVERVIEW_FREQUENCIES },
         },
         orderBy: [
           { metric: 'asc' },
           { periodEnd: 'desc' },
         ],
-        distinct: ['metric'],
+        distinct: ['metric', 'frequency'],
       });
+      const latestMetrics = this.selectOverviewViews(latestViews);
+
+      // Reconciliation breaks at the periods shown
+      const qualityFlags = await this.prisma.dataQualityFlag.findMany({
+        where: {
+          cik: company.cik,
+          periodEnd: { in: latestMetrics.map(metric => metric.periodEnd) },
+        },
+        select: { periodEnd: true, check: true, severity: true, message: true, concepts: true },
+      });
+
+      // Metric views hold values in the reporting currency
+      const reportingCurrency = company.reportingCurrency || 'USD';
+      const displayCurrency = currency || reportingCurrency;
+      const rates = displayCurrency !== reportingCurrency
+        ? await this.fxRates.getRateTable([reportingCurrency, displayCurrency])
+        : null;
 
       // Calculate changes (QoQ and YoY)
       const metricsWithChanges: MetricOverview[] = await Promise.all(
         latestMetrics.map(async (metric) => {
-          const change = await this.calculateChange(company.cik, metric.metric, metric.periodEnd);
+          const change = await this.calculateChange(metric);
+
+          const unitFamily = getConceptDefinition(metric.metric)?.unit;
+          let rate = 1;
+          if (rates && (unitFamily === 'monetary' || unitFamily === 'perShare')) {
+            const periodRate = rates.getRate(reportingCurrency, displayCurrency, {
+              periodStart: metric.periodStart,
+              periodEnd: metric.periodEnd,
+            });
+            if (periodRate === null) {
+              throw new ApiError(
+                422,
+                'FX_RATE_UNAVAILABLE',
+                `No ${reportingCurrency}/${displayCurrency} exchange rate for the period ending ${metric.periodEnd.toISOString().slice(0, 10)}`
+              );
+            }
+            rate = periodRate;
+          }
+
+          const flags = groupFlagsByPeriod(qualityFlags.filter(flag => flag.concepts.includes(metric.metric)))
+            .get(metric.periodEnd.toISOString().slice(0, 10));
 
           return {
             concept: metric.metric,
             label: FINANCIAL_CONCEPTS[metric.metric as keyof typeof FINANCIAL_CONCEPTS] || metric.metric,
-            value: Number(metric.value),
-            unit: this.getMetricUnit(metric.metric),
+            value: Number(metric.value) * rate,
+            unit: this.getMetricUnit(metric.metric, displayCurrency),
             periodEnd: metric.periodEnd.toISOString(),
+            frequency: metric.frequency as MetricOverview['frequency'],
             fiscalPeriod: metric.fiscalPeriod,
             fiscalYear: metric.fiscalYear,
-            change,
+            change: change && { ...change, value: change.value * rate },
+            ...(flags && { qualityFlags: flags }),
           };
         })
       );
@@ -167,7 +230,9 @@ export class CompaniesController {
           ticker: company.ticker,
           name: company.name,
           sic: company.sic || undefined,
+          ...getCompanyClassification(company),
           fiscalYearEnd: company.fiscalYearEnd || undefined,
+          reportingCurrency: company.reportingCurrency || undefined,
         },
         metrics: metricsWithChanges,
         lastUpdated: company.updatedAt.toISOString(),
@@ -250,13 +315,29 @@ export class CompaniesController {
     }
   };
 
-  private async calculateChange(cik: string, concept: string, currentPeriodEnd: Date) {
-    // Get previous period for comparison
+  private selectOverviewViews(views: MetricView[]): MetricView[] {
+    const latest = new Map<string, MetricView>();
+    for (const view of views) {
+      const current = latest.get(view.metric);
+      const newer = !current
+        || view.periodEnd > current.periodEnd
+        || (view.periodEnd.getTime() === current.periodEnd.getTime()
+          && OVERVIEW_FREQUENCIES.indexOf(view.frequency) < OVERVIEW_FREQUENCIES.indexOf(current.frequency));
+      if (newer) {
+        latest.set(view.metric, view);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  private async calculateChange(current: MetricView) {
+    // Previous period of the same frequency, so a quarter compares with a quarter
     const previousMetric = await this.prisma.metricView.findFirst({
       where: {
-        cik,
-        metric: concept,
-        periodEnd: { lt: currentPeriodEnd },
+        cik: current.cik,
+        metric: current.metric,
+        frequency: current.frequency,
+        periodEnd: { lt: current.periodEnd },
       },
       orderBy: { periodEnd: 'desc' },
     });
@@ -265,7 +346,7 @@ export class CompaniesController {
       return undefined;
     }
 
-    const currentValue = Number(previousMetric.value);
+    const currentValue = Number(current.value);
     const previousValue = Number(previousMetric.value);
     
     if (previousValue === 0) {
@@ -277,7 +358,7 @@ export class CompaniesController {
 
     // Determine period type (QoQ vs YoY based on fiscal periods)
     const periodType = this.determinePeriodType(
-      currentPeriodEnd,
+      current.periodEnd,
       previousMetric.periodEnd
     );
 
@@ -303,25 +384,16 @@ export class CompaniesController {
     }
   }
 
-  private getMetricUnit(concept: string): string {
-    const monetaryConcepts = [
-      'Revenues',
-      'NetIncomeLoss',
-      'CashAndCashEquivalentsAtCarryingValue',
-      'LongTermDebtNoncurrent',
-      'Assets',
-      'Liabilities',
-      'StockholdersEquity',
-    ];
-
-    if (monetaryConcepts.includes(concept)) {
-      return 'USD';
+  private getMetricUnit(concept: string, currency = 'USD'): string {
+    switch (getConceptDefinition(concept)?.unit) {
+      case 'monetary':
+        return currency;
+      case 'perShare':
+        return `${currency} per share`;
+      case 'shares':
+        return 'shares';
+      default:
+        return 'pure';
     }
-
-    if (concept === 'EarningsPerShareDiluted') {
-      return 'USD per share';
-    }
-
-    return 'pure';
   }
 }
\ No newline at end of file
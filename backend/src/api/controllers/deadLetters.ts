@@ -0,0 +1,129 @@
+import type { Request, Response } from 'express';
+import { PrismaClient, FailedIngestion as FailedIngestionRow } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { DeadLetterQuery, FailedIngestion } from '../types';
+import { addIngestJob } from '../../lib/queue';
+
+export class DeadLetterController {
+  constructor(private prisma: PrismaClient) {}
+
+  // GET /api/admin/dead-letters?status=open&category=rate_limit&ticker=AAPL&limit=50&offset=0
+  list = async (req: Request, res: Response) => {
+    const { status, category, ticker, limit, offset } = req.query as unknown as DeadLetterQuery;
+
+    try {
+      const where = {
+        status,
+        ...(category && { category }),
+        ...(ticker && { ticker: ticker.toUpperCase() }),
+      };
+
+      const [rows, total] = await Promise.all([
+        this.prisma.failedIngestion.findMany({
+          where,
+          orderBy: { failedAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        this.prisma.failedIngestion.count({ where }),
+      ]);
+
+      res.json({
+        data: rows.map(row => this.formatRow(row)),
+        meta: { total, limit, offset },
+      });
+    } catch (error) {
+      throw new ApiError(500, 'DEAD_LETTER_ERROR', 'Failed to list failed ingestions');
+    }
+  };
+
+  // GET /api/admin/dead-letters/:id
+  get = async (req: Request, res: Response) => {
+    const row = await this.findRow(req.params.id);
+    res.json({ data: this.formatRow(row, true) });
+  };
+
+  // POST /api/admin/dead-letters/:id/retry
+  retry = async (req: Request, res: Response) => {
+    const row = await this.findOpen(req.params.id);
+
+    try {
+      // A fresh job id: the failed job may still hold the original one
+      const job = await addIngestJob(
+        { cik: row.cik, ticker: row.ticker, force: row.force },
+        { jobId: `retry-${row.id}` }
+      );
+
+      const updated = await this.prisma.failedIngestion.update({
+        where: { id: row.id },
+        data: { status: 'retried', retryJobId: job.id ?? null, resolvedAt: new Date() },
+      });
+
+      res.json({ data: this.formatRow(updated) });
+    } catch (error) {
+      throw new ApiError(500, 'DEAD_LETTER_ERROR', 'Failed to retry failed ingestion');
+    }
+  };
+
+  // POST /api/admin/dead-letters/:id/discard
+  discard = async (req: Request, res: Response) => {
+    const row = await this.findOpen(req.params.id);
+
+    try {
+      const updated = await this.prisma.failedIngestion.update({
+        where: { id: row.id },
+        data: { status: 'discarded', resolvedAt: new Date() },
+      });
+
+      res.json({ data: this.formatRow(updated) });
+    } catch (error) {
+      throw new ApiError(500, 'DEAD_LETTER_ERROR', 'Failed to discard failed ingestion');
+    }
+  };
+
+  private async findRow(id: string | undefined): Promise<FailedIngestionRow> {
+    if (!id) {
+      throw new ApiError(400, 'INVALID_ID', 'Failed ingestion id is required');
+    }
+
+    const row = await this.prisma.failedIngestion.findUnique({ where: { id } });
+
+    if (!row) {
+      throw new ApiError(404, 'FAILED_INGESTION_NOT_FOUND', `Failed ingestion ${id} not found`);
+    }
+
+    return row;
+  }
+
+  private async findOpen(id: string | undefined): Promise<FailedIngestionRow> {
+    const row = await this.findRow(id);
+
+    // A retry that fails again is recorded as a new failure
+    if (row.status !== 'open') {
+      throw new ApiError(409, 'ALREADY_RESOLVED', `Failed ingestion ${row.id} was already ${row.status}`);
+    }
+
+    return row;
+  }
+
+  private formatRow(row: FailedIngestionRow, withStack = false): FailedIngestion {
+    return {
+      id: row.id,
+      jobId: row.jobId,
+      cik: row.cik,
+      ticker: row.ticker,
+      force: row.force,
+      category: row.category as FailedIngestion['category'],
+      ...(row.provider && { provider: row.provider }),
+      ...(row.code && { code: row.code }),
+      ...(row.statusCode !== null && { statusCode: row.statusCode }),
+      message: row.message,
+      ...(withStack && row.stack && { stack: row.stack }),
+      attempts: row.attempts,
+      status: row.status as FailedIngestion['status'],
+      ...(row.retryJobId && { retryJobId: row.retryJobId }),
+      failedAt: row.failedAt.toISOString(),
+      ...(row.resolvedAt && { resolvedAt: row.resolvedAt.toISOString() }),
+    };
+  }
+}
\ No newline at end of file
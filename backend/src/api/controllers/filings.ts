@@ -0,0 +1,85 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { Filing, FilingsQuery } from '../types';
+import { getFilingUrls } from '../../lib/filings';
+import { SECAPIError } from '../../lib/sec-client';
+import { FilingService } from '../../services/filings';
+
+export class FilingsController {
+  private filings: FilingService;
+
+  constructor(private prisma: PrismaClient) {
+    this.filings = new FilingService(prisma);
+  }
+
+  // GET /api/companies/:ticker/filings?form=10-K,10-Q&from=2020-01-01&to=2023-12-31
+  getFilings = async (req: Request, res: Response) => {
+    const { ticker } = req.params;
+    const { form, from, to, limit, offset } = req.query as unknown as FilingsQuery;
+
+    if (!ticker) {
+      throw new ApiError(400, 'INVALID_TICKER', 'Ticker parameter is required');
+    }
+
+    try {
+      const company = await this.prisma.company.findUnique({
+        where: { ticker: ticker.toUpperCase() },
+        select: { cik: true, filerCategory: true, filingsSyncedAt: true },
+      });
+
+      if (!company) {
+        throw new ApiError(404, 'COMPANY_NOT_FOUND', `Company with ticker ${ticker} not found`);
+      }
+
+      // Companies ingested before the filing index existed are synced on first request
+      let { filerCategory, filingsSyncedAt } = company;
+      if (!filingsSyncedAt) {
+        const sync = await this.filings.syncFilings(company.cik);
+        filerCategory = sync.filerCategory;
+        filingsSyncedAt = new Date();
+      }
+
+      const { filings, total } = await this.filings.listFilings(company.cik, {
+        ...(form?.length && { forms: form }),
+        ...(from && { from: new Date(from) }),
+        ...(to && { to: new Date(`${to}T23:59:59.999Z`) }),
+        limit,
+        offset,
+      });
+
+      const data: Filing[] = filings.map(filing => ({
+        accession: filing.accession,
+        form: filing.form,
+        filingDate: filing.filingDate.toISOString(),
+        ...(filing.reportDate && { reportDate: filing.reportDate.toISOString() }),
+        ...(filing.acceptedAt && { acceptedAt: filing.acceptedAt.toISOString() }),
+        ...(filing.primaryDocument && { primaryDocument: filing.primaryDocument }),
+        ...(filing.primaryDocDescription && { primaryDocDescription: filing.primaryDocDescription }),
+        isXBRL: filing.isXBRL,
+        isInlineXBRL: filing.isInlineXBRL,
+        ...(filing.size !== null && { size: filing.size }),
+        ...getFilingUrls(company.cik, filing.accession, filing.primaryDocument),
+      }));
+
+      res.json({
+        data,
+        meta: {
+          total,
+          limit,
+          offset,
+          filerCategory,
+          syncedAt: filingsSyncedAt.toISOString(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      if (error instanceof SECAPIError) {
+        throw new ApiError(502, 'FILINGS_UNAVAILABLE', `Failed to fetch filings for ${ticker} from SEC`);
+      }
+      throw new ApiError(500, 'FILINGS_ERROR', 'Failed to retrieve filings');
+    }
+  };
+}
\ No newline at end of file
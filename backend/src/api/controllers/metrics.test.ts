@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { MetricsController } from './metrics';
+
+const mockPrisma = {
+  company: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+  },
+  metricView: {
+    findMany: vi.fn(),
+  },
+  fxRate: {
+    findMany: vi.fn(),
+  },
+};
+
+const view = (cik: string, ticker: string, value: number, reportingCurrency: string | null) => ({
+  cik,
+  value,
+  periodStart: new Date('2023-01-01'),
+  periodEnd: new Date('2023-12-31'),
+  company: { ticker, name: `${ticker} Corp`, reportingCurrency },
+});
+
+// Flat 2023 rates, units per USD
+const rates = (currency: string, rate: number) => Array.from({ length: 12 }, (_, month) => ({
+  currency,
+  month: new Date(Date.UTC(2023, month, 1)),
+  average: rate,
+  closing: rate,
+}));
+
+describe('MetricsController', () => {
+  let controller: MetricsController;
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    controller = new MetricsController(mockPrisma as any);
+
+    mockReq = {
+      params: { ticker: 'aapl', concept: 'Revenues' },
+      query: {},
+    };
+
+    mockRes = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+    };
+
+    mockPrisma.company.findUnique.mockResolvedValue({
+      cik: '0000320193',
+      sic: '3571',
+      name: 'Apple Inc.',
+      reportingCurrency: 'USD',
+    });
+    mockPrisma.company.findMany.mockResolvedValue([
+      { cik: '0000000001' },
+      { cik: '0000000002' },
+      { cik: '0000000003' },
+    ]);
+  });
+
+  describe('getPeerComparison', () => {
+    it('should convert peers into the target currency and leave out those without rates', async () => {
+      mockPrisma.metricView.findMany.mockResolvedValue([
+        view('0000320193', 'AAPL', 383285000000, 'USD'),
+        view('0000000001', 'EURO', 90000000, 'EUR'),
+        view('0000000002', 'DELL', 50000000, null),
+        view('0000000003', 'NOFX', 1000000, 'JPY'),
+      ]);
+      mockPrisma.fxRate.findMany.mockResolvedValue(rates('EUR', 0.9));
+
+      await controller.getPeerComparison(mockReq as Request, mockRes as Response);
+
+      const { data } = vi.mocked(mockRes.json!).mock.calls[0]![0];
+      expect(data.target.value).toBe(383285000000);
+      expect(data.peers).toEqual([
+        expect.objectContaining({ company: { ticker: 'EURO', name: 'EURO Corp' }, convertedFrom: 'EUR' }),
+        expect.not.objectContaining({ convertedFrom: expect.anything() }),
+      ]);
+      expect(data.peers[0].value).toBeCloseTo(100000000);
+      expect(data.peers[1]).toMatchObject({ company: { ticker: 'DELL', name: 'DELL Corp' }, value: 50000000 });
+      expect(data.metadata).toMatchObject({
+        currency: 'USD',
+        excludedPeers: [{ ticker: 'NOFX', reason: 'No JPY/USD exchange rate for the period ending 2023-12-31' }],
+      });
+    });
+
+    it('should compare ratios and share counts without conversion', async () => {
+      mockReq.params = { ticker: 'aapl', concept: 'WeightedAverageNumberOfDilutedSharesOutstanding' };
+      mockPrisma.metricView.findMany.mockResolvedValue([
+        view('0000320193', 'AAPL', 15800000000, 'USD'),
+        view('0000000003', 'NOFX', 2000000000, 'JPY'),
+      ]);
+
+      await controller.getPeerComparison(mockReq as Request, mockRes as Response);
+
+      const { data } = vi.mocked(mockRes.json!).mock.calls[0]![0];
+      expect(mockPrisma.fxRate.findMany).not.toHaveBeenCalled();
+      expect(data.peers).toEqual([expect.objectContaining({ value: 2000000000 })]);
+      expect(data.metadata).not.toHaveProperty('currency');
+      expect(data.metadata).not.toHaveProperty('excludedPeers');
+    });
+  });
+});
\ No newline at end of file
@@ -3,14 +3,45 @@ import { PrismaClient } from '@prisma/client';
 import { ApiError } from '../middleware';
 import type { MetricQuery, MetricTimeSeries } from '../types';
 import { FINANCIAL_CONCEPTS } from '../types';
+import { getConceptDefinition, isCatalogConcept } from '../../lib/concept-catalog';
+import { computeTrailingTwelveMonths, normalizePeriods } from '../../lib/period-normalizer';
+import type { PeriodBasis } from '../../lib/period-normalizer';
+import { isCurrencyCode } from '../../lib/fx-rates';
+import { getFilingUrls, isAccessionNumber } from '../../lib/filings';
+import { adjustForSplits, getShareBasis, toCorporateActions } from '../../lib/corporate-actions';
+import type { CorporateAction } from '../../lib/corporate-actions';
+import { groupFlagsByPeriod } from '../../lib/reconciliation';
+import { getFactVersionFilter, selectAsOf } from '../../lib/restatements';
+import { getComparableFrequency } from '../../lib/metric-views';
+import { FxRateService } from '../../services/fxRates';
+
+interface MetricPoint {
+  periodStart: Date | null;
+  periodEnd: Date;
+  value: number;
+  fiscalPeriod: string;
+  fiscalYear: number;
+  filingAccession: string;
+  form: string;
+  unit: string;
+  sourceConcept: string | null;
+  derived: boolean;
+}
+
+const MAX_DATA_POINTS = 50; // Limit to prevent huge responses
 
 export class MetricsController {
-  constructor(private prisma: PrismaClient) {}
+  private fxRates: FxRateService;
 
-  // GET /api/companies/:ticker/metrics/:concept?frequency=quarterly&range=3y
+  constructor(private prisma: PrismaClient) {
+    this.fxRates = new FxRateService(prisma);
+  }
+
+  // GET /api/companies/:ticker/metrics/:concept?frequency=quarterly&basis=discrete&range=3y&currency=EUR&asOf=2020-06-30
   getMetricTimeSeries = async (req: Request, res: Response) => {
     const { ticker, concept } = req.params;
-    const { frequency, range, start_date, end_date } = req.query as MetricQuery;
+    const { frequency, basis, range, start_date, end_date, currency, asOf } = req.query as MetricQuery;
+    const asOfDate = asOf ? new Date(asOf) : undefined;
 
     if (!ticker) {
       throw new ApiError(400, 'INVALID_TICKER', 'Ticker parameter is required');
@@ -22,7 +53,7 @@ export class MetricsController {
 
     try {
       // Validate concept
-      if (!(concept in FINANCIAL_CONCEPTS)) {
+      if (!isCatalogConcept(concept)) {
         throw new ApiError(
           400,
           'INVALID_CONCEPT',
@@ -33,62 +64,87 @@ export class MetricsController {
       // Get company CIK
       const company = await this.prisma.company.findUnique({
         where: { ticker: ticker.toUpperCase() },
-        select: { cik: true, name: true },
+        select: { cik: true, name: true, fiscalYearEnd: true },
       });
 
       if (!company) {
         throw new ApiError(404, 'COMPANY_NOT_FOUND', `Company with ticker ${ticker} not found`);
       }
 
-      // Calculate date range
-      const dateRange = this.calculateDateRange(range, start_date, end_date);
-
-      // Build frequency filter
-      const fiscalPeriodFilter = this.buildFiscalPeriodFilter(frequency);
-
-      // Fetch time series data
-      const facts = await this.prisma.fact.findMany({
-        where: {
-          cik: company.cik,
-          concept,
-          periodEnd: {
-            gte: dateRange.start,
-            lte: dateRange.end,
-          },
-          ...(fiscalPeriodFilter && { fiscalPeriod: fiscalPeriodFilter }),
-        },
-        orderBy: { periodEnd: 'desc' },
-        take: 50, // Limit to prevent huge responses
-      });
-
-      if (facts.length === 0) {
+      // Calculate date range; a point-in-time range ends at the as-of date
+      const dateRange = this.calculateDateRange(range, start_date, end_date ?? asOfDate?.toISOString());
+
+      // Share counts and per-share values are restated to the current share
+      // basis, or the basis on the as-of date
+      const splits = getShareBasis(concept)
+        ? toCorporateActions(await this.prisma.corporateAction.findMany({
+          where: { cik: company.cik, ...(asOfDate && { effectiveDate: { lte: asOfDate } }) },
+        }))
+        : [];
+
+      // Duration concepts are normalized into discrete or YTD periods;
+      // instants are served as reported
+      const isDuration = getConceptDefinition(concept)?.periodType === 'duration';
+      const reported = isDuration
+        ? await this.getDurationPoints(company.cik, concept, frequency, basis, dateRange, splits, asOfDate, company.fiscalYearEnd)
+        : await this.getReportedPoints(company.cik, concept, frequency, dateRange, splits, asOfDate);
+
+      if (reported.length === 0) {
         throw new ApiError(
           404,
           'NO_DATA_FOUND',
-          `No data found for ${concept} for ${ticker} in the specified time range`
+          `No data found for ${concept} for ${ticker} in the specified time range${asOf ? ` as of ${asOf}` : ''}`
         );
       }
 
+      const nativeUnit = reported[0]?.unit;
+      const points = currency ? await this.convertPoints(reported, currency) : reported;
+
+      // Reconciliation breaks involving this concept, by period end. Flags
+      // describe the current facts, so point-in-time values go without them
+      const qualityFlags = groupFlagsByPeriod(asOf ? [] : await this.prisma.dataQualityFlag.findMany({
+        where: {
+          cik: company.cik,
+          concepts: { has: concept },
+          periodEnd: { gte: dateRange.start, lte: dateRange.end },
+        },
+        select: { periodEnd: true, check: true, severity: true, message: true },
+      }));
+
       // Transform to API format
       const timeSeries: MetricTimeSeries = {
         concept,
-        label: FINANCIAL_CONCEPTS[concept as keyof typeof FINANCIAL_CONCEPTS],
-        unit: this.getDisplayUnit(facts[0].unit),
-        data: facts.map(fact => ({
-          periodEnd: fact.periodEnd.toISOString(),
-          value: Number(fact.value),
-          fiscalPeriod: fact.fiscalPeriod,
-          fiscalYear: fact.fiscalYear,
-          filingAccession: fact.filingAccession,
-          form: fact.form,
-        })),
+        label: FINANCIAL_CONCEPTS[concept],
+        unit: this.getDisplayUnit(points[0].unit),
+        data: points.map(point => {
+          const flags = qualityFlags.get(point.periodEnd.toISOString().slice(0, 10));
+          return {
+            ...(point.periodStart && { periodStart: point.periodStart.toISOString() }),
+            periodEnd: point.periodEnd.toISOString(),
+            value: point.value,
+            fiscalPeriod: point.fiscalPeriod,
+            fiscalYear: point.fiscalYear,
+            filingAccession: point.filingAccession,
+            ...(isAccessionNumber(point.filingAccession) && {
+              filingUrl: getFilingUrls(company.cik, point.filingAccession).indexUrl,
+            }),
+            form: point.form,
+            ...(point.sourceConcept && { sourceConcept: point.sourceConcept }),
+            ...(point.derived && { derived: true }),
+            ...(flags && { qualityFlags: flags }),
+          };
+        }),
         metadata: {
-          dataPoints: facts.length,
+          dataPoints: points.length,
           periodRange: {
-            start: facts[facts.length - 1].periodEnd.toISOString(),
-            end: facts[0].periodEnd.toISOString(),
+            start: points[points.length - 1].periodEnd.toISOString(),
+            end: points[0].periodEnd.toISOString(),
           },
-          frequency: this.detectFrequency(facts.map(f => f.fiscalPeriod)),
+          frequency: frequency === 'ttm' ? 'ttm' : this.detectFrequency(points.map(p => p.fiscalPeriod)),
+          ...(isDuration && { basis: frequency === 'ttm' ? 'ttm' : basis }),
+          ...(currency && isCurrencyCode(nativeUnit) && nativeUnit !== currency && { convertedFrom: nativeUnit }),
+          ...(splits.length > 0 && { splitAdjusted: true }),
+          ...(asOf && { asOf }),
         },
       };
 
@@ -115,14 +171,14 @@ export class MetricsController {
 
     try {
       // Validate concept
-      if (!(concept in FINANCIAL_CONCEPTS)) {
+      if (!isCatalogConcept(concept)) {
         throw new ApiError(400, 'INVALID_CONCEPT', `Invalid financial concept: ${concept}`);
       }
 
       // Get company info
       const company = await this.prisma.company.findUnique({
         where: { ticker: ticker.toUpperCase() },
-        select: { cik: true, sic: true, name: true },
+        select: { cik: true, sic: true, name: true, reportingCurrency: true },
       });
 
       if (!company) {
@@ -151,45 +207,78 @@ export class MetricsController {
         throw new ApiError(404, 'NO_PEERS_FOUND', 'No peer companies found with same SIC code');
       }
 
-      // Get latest metric for target company and peers
+      // Get latest metric for target company and peers; TTM values line up
+      // companies whose fiscal years end in different months
       const allCiks = [company.cik, ...peers.map(p => p.cik)];
-      
+      const frequency = getComparableFrequency(concept);
+
       const latestMetrics = await this.prisma.metricView.findMany({
         where: {
           cik: { in: allCiks },
           metric: concept,
+          frequency,
         },
         include: {
           company: {
-            select: { ticker: true, name: true },
+            select: { ticker: true, name: true, reportingCurrency: true },
           },
         },
         orderBy: { periodEnd: 'desc' },
         distinct: ['cik'],
       });
 
+      // Views hold each filer's reporting currency: monetary and per-share
+      // peer values are converted into the target's, and peers without a
+      // rate for their period are left out rather than compared unconverted
+      const currency = company.reportingCurrency || 'USD';
+      const conceptUnit = getConceptDefinition(concept)?.unit;
+      const inCurrency = conceptUnit === 'monetary' || conceptUnit === 'perShare';
+      const targetView = latestMetrics.find(m => m.cik === company.cik);
+      const peerViews = latestMetrics.filter(m => m.cik !== company.cik);
+      const rates = inCurrency
+        ? await this.fxRates.getRateTable([currency, ...peerViews.map(m => m.company.reportingCurrency || 'USD')])
+        : null;
+
+      const peerValues = peerViews.map(metric => {
+        const peerCurrency = metric.company.reportingCurrency || 'USD';
+        const value = rates
+          ? rates.convert(Number(metric.value), peerCurrency, currency, metric)
+          : Number(metric.value);
+        return { metric, peerCurrency, value };
+      });
+      const excluded = peerValues.filter(peer => peer.value === null);
+
       // Transform to comparison format
       const comparison = {
         concept,
-        label: FINANCIAL_CONCEPTS[concept as keyof typeof FINANCIAL_CONCEPTS],
+        label: FINANCIAL_CONCEPTS[concept],
         target: {
           company: { ticker: ticker.toUpperCase(), name: company.name },
-          value: latestMetrics.find(m => m.cik === company.cik)?.value || null,
-          periodEnd: latestMetrics.find(m => m.cik === company.cik)?.periodEnd?.toISOString(),
+          value: targetView ? Number(targetView.value) : null,
+          periodEnd: targetView?.periodEnd.toISOString(),
         },
-        peers: latestMetrics
-          .filter(m => m.cik !== company.cik)
-          .map(metric => ({
+        peers: peerValues
+          .filter(peer => peer.value !== null)
+          .map(({ metric, peerCurrency, value }) => ({
             company: {
               ticker: metric.company.ticker,
               name: metric.company.name,
             },
-            value: Number(metric.value),
+            value,
             periodEnd: metric.periodEnd.toISOString(),
+            ...(inCurrency && peerCurrency !== currency && { convertedFrom: peerCurrency }),
           })),
         metadata: {
           sicCode: company.sic,
+          frequency,
+          ...(inCurrency && { currency }),
           totalPeers: peers.length,
+          ...(excluded.length > 0 && {
+            excludedPeers: excluded.map(({ metric, peerCurrency }) => ({
+              ticker: metric.company.ticker,
+              reason: `No ${peerCurrency}/${currency} exchange rate for the period ending ${metric.periodEnd.toISOString().slice(0, 10)}`,
+            })),
+          }),
           dataDate: new Date().toISOString(),
         },
       };
@@ -218,6 +307,148 @@ export class MetricsController {
     return { start, end };
   }
 
+  private async getReportedPoints(
+    cik: string,
+    concept: string,
+    frequency: string,
+    dateRange: { start: Date; end: Date },
+    splits: CorporateAction[],
+    asOf?: Date
+  ): Promise<MetricPoint[]> {
+    const fiscalPeriodFilter = this.buildFiscalPeriodFilter(frequency);
+
+    const versions = await this.prisma.fact.findMany({
+      where: {
+        cik,
+        concept,
+        ...getFactVersionFilter(asOf),
+        periodEnd: {
+          gte: dateRange.start,
+          lte: dateRange.end,
+        },
+        ...(fiscalPeriodFilter && { fiscalPeriod: fiscalPeriodFilter }),
+      },
+      // TTM uses the latest reported instant at each period end
+      orderBy: [{ periodEnd: 'desc' }, { filingAccession: 'desc' }],
+      // Every version of a period is needed to pick the one known on the as-of date
+      ...(!asOf && frequency === 'ttm' && { distinct: ['periodEnd'] }),
+      ...(!asOf && { take: MAX_DATA_POINTS }),
+    });
+    const facts = asOf ? selectAsOf(versions, asOf).slice(0, MAX_DATA_POINTS) : versions;
+
+    return adjustForSplits(facts.map(fact => ({ ...fact, value: Number(fact.value) })), splits).map(fact => ({
+      periodStart: fact.periodStart,
+      periodEnd: fact.periodEnd,
+      value: fact.value,
+      fiscalPeriod: fact.fiscalPeriod,
+      fiscalYear: fact.fiscalYear,
+      filingAccession: fact.filingAccession,
+      form: fact.form,
+      unit: fact.unit,
+      sourceConcept: fact.sourceConcept,
+      derived: false,
+    }));
+  }
+
+  private async getDurationPoints(
+    cik: string,
+    concept: string,
+    frequency: string,
+    basis: PeriodBasis,
+    dateRange: { start: Date; end: Date },
+    splits: CorporateAction[],
+    asOf?: Date,
+    fiscalYearEnd?: string | null
+  ): Promise<MetricPoint[]> {
+    // Look back so the first periods in range have their YTD (and TTM window) context
+    const lookback = new Date(dateRange.start);
+    lookback.setFullYear(lookback.getFullYear() - (frequency === 'ttm' ? 2 : 1));
+
+    const versions = await this.prisma.fact.findMany({
+      where: {
+        cik,
+        concept,
+        ...getFactVersionFilter(asOf),
+        periodStart: { not: null },
+        periodEnd: {
+          gte: lookback,
+          lte: dateRange.end,
+        },
+      },
+      orderBy: { periodEnd: 'desc' },
+    });
+    const facts = asOf ? selectAsOf(versions, asOf) : versions;
+
+    // Adjust before normalizing so derived quarters never mix share bases
+    const series = normalizePeriods(adjustForSplits(facts.map(fact => ({
+      concept: fact.concept,
+      value: Number(fact.value),
+      periodStart: fact.periodStart,
+      periodEnd: fact.periodEnd,
+      fiscalYear: fact.fiscalYear,
+      fiscalPeriod: fact.fiscalPeriod,
+      filingAccession: fact.filingAccession,
+      form: fact.form,
+      filed: fact.filed,
+      unit: fact.unit,
+      sourceConcept: fact.sourceConcept,
+    })), splits), { fiscalYearEnd });
+
+    // The YTD series already ends each fiscal year with the FY value
+    const quarterly = basis === 'ytd' ? series.ytd : series.quarterly;
+    const selected = frequency === 'ttm'
+      ? computeTrailingTwelveMonths(series.quarterly)
+      : frequency === 'annual'
+        ? series.annual
+        : frequency === 'all' && basis === 'discrete'
+          ? [...quarterly, ...series.annual]
+          : quarterly;
+
+    return selected
+      .filter(period => period.periodEnd >= dateRange.start && period.periodEnd <= dateRange.end)
+      .sort((a, b) => b.periodEnd.getTime() - a.periodEnd.getTime())
+      .slice(0, MAX_DATA_POINTS)
+      .map(period => ({
+        periodStart: period.periodStart,
+        periodEnd: period.periodEnd,
+        value: period.value,
+        fiscalPeriod: period.fiscalPeriod,
+        fiscalYear: period.fiscalYear,
+        filingAccession: period.source.filingAccession,
+        form: period.source.form,
+        unit: period.source.unit,
+        sourceConcept: period.source.sourceConcept,
+        derived: period.derived,
+      }));
+  }
+
+  // Monetary points convert at period-average (durations) or period-end (instants) rates
+  private async convertPoints(points: MetricPoint[], currency: string): Promise<MetricPoint[]> {
+    const currencies = points.map(point => point.unit).filter(isCurrencyCode);
+    if (currencies.length === 0) {
+      return points;
+    }
+
+    const rates = await this.fxRates.getRateTable([...currencies, currency]);
+
+    return points.map(point => {
+      if (!isCurrencyCode(point.unit)) {
+        return point;
+      }
+
+      const value = rates.convert(point.value, point.unit, currency, point);
+      if (value === null) {
+        throw new ApiError(
+          422,
+          'FX_RATE_UNAVAILABLE',
+          `No ${point.unit}/${currency} exchange rate for the period ending ${point.periodEnd.toISOString().slice(0, 10)}`
+        );
+      }
+
+      return { ...point, value, unit: currency };
+    });
+  }
+
   private buildFiscalPeriodFilter(frequency: string) {
     switch (frequency) {
       case 'quarterly':
@@ -247,6 +478,9 @@ export class MetricsController {
     if (unit.toLowerCase().includes('usd')) {
       return 'USD';
     }
+    if (/^[A-Z]{3}$/.test(unit)) {
+      return unit; // Native currency of a foreign filer
+    }
     if (unit.toLowerCase().includes('shares')) {
       return 'shares';
     }
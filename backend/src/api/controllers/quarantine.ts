@@ -0,0 +1,177 @@
+import type { Request, Response } from 'express';
+import { PrismaClient, QuarantinedFact as QuarantinedFactRow } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { QuarantinedFact, QuarantineQuery } from '../types';
+import { findSupersessionUpdates, isAmendmentForm } from '../../lib/restatements';
+import { METRIC_VIEW_REFRESH_TIMEOUT_MS, MetricViewService } from '../../services/metricViews';
+import { ReconciliationService } from '../../services/reconciliation';
+
+type QuarantineRow = QuarantinedFactRow & { company: { ticker: string; name: string } };
+
+export class QuarantineController {
+  private metricViews: MetricViewService;
+  private reconciliation: ReconciliationService;
+
+  constructor(private prisma: PrismaClient) {
+    this.metricViews = new MetricViewService(prisma);
+    this.reconciliation = new ReconciliationService(prisma);
+  }
+
+  // GET /api/admin/quarantine?status=pending&ticker=AAPL&limit=50&offset=0
+  list = async (req: Request, res: Response) => {
+    const { status, ticker, limit, offset } = req.query as unknown as QuarantineQuery;
+
+    try {
+      const where = {
+        status,
+        ...(ticker && { company: { ticker: ticker.toUpperCase() } }),
+      };
+
+      const [rows, total] = await Promise.all([
+        this.prisma.quarantinedFact.findMany({
+          where,
+          include: { company: { select: { ticker: true, name: true } } },
+          orderBy: { createdAt: 'desc' },
+          take: limit,
+          skip: offset,
+        }),
+        this.prisma.quarantinedFact.count({ where }),
+      ]);
+
+      res.json({
+        data: rows.map(row => this.formatRow(row)),
+        meta: { total, limit, offset },
+      });
+    } catch (error) {
+      throw new ApiError(500, 'QUARANTINE_ERROR', 'Failed to list quarantined facts');
+    }
+  };
+
+  // POST /api/admin/quarantine/:id/approve
+  approve = async (req: Request, res: Response) => {
+    const row = await this.findPending(req.params.id);
+
+    try {
+      const updated = await this.prisma.$transaction(async (tx) => {
+        const fact = {
+          cik: row.cik,
+          concept: row.concept,
+          sourceConcept: row.sourceConcept,
+          taxonomy: row.taxonomy,
+          unit: row.unit,
+          periodStart: row.periodStart,
+          periodEnd: row.periodEnd,
+          durationDays: row.durationDays,
+          value: row.value,
+          instant: row.instant,
+          fiscalYear: row.fiscalYear,
+          fiscalPeriod: row.fiscalPeriod,
+          filingAccession: row.filingAccession,
+          form: row.form,
+          filed: row.filed,
+          amended: isAmendmentForm(row.form),
+        };
+
+        await tx.fact.upsert({
+          where: {
+            cik_concept_periodEnd_durationDays_filingAccession: {
+              cik: row.cik,
+              concept: row.concept,
+              periodEnd: row.periodEnd,
+              durationDays: row.durationDays,
+              filingAccession: row.filingAccession,
+            },
+          },
+          update: { value: row.value, unit: row.unit },
+          create: fact,
+        });
+
+        // The approved value may replace, or be replaced by, another filing's value for the period
+        const reported = await tx.fact.findMany({ where: { cik: row.cik, concept: row.concept } });
+        const updates = findSupersessionUpdates(reported.map(other => ({ ...other, value: Number(other.value) })));
+        await Promise.all(updates.map(update =>
+          tx.fact.update({
+            where: { id: update.id },
+            data: { superseded: update.superseded, supersededBy: update.supersededBy },
+          })
+        ));
+
+        // Views and reconciliation flags change with the approved value, as after ingestion
+        await this.metricViews.refresh(row.cik, tx);
+        await this.reconciliation.reconcile(row.cik, tx);
+
+        return tx.quarantinedFact.update({
+          where: { id: row.id },
+          data: { status: 'approved', reviewedAt: new Date() },
+          include: { company: { select: { ticker: true, name: true } } },
+        });
+      }, { timeout: METRIC_VIEW_REFRESH_TIMEOUT_MS });
+
+      res.json({ data: this.formatRow(updated) });
+    } catch (error) {
+      throw new ApiError(500, 'QUARANTINE_ERROR', 'Failed to approve quarantined fact');
+    }
+  };
+
+  // POST /api/admin/quarantine/:id/reject
+  reject = async (req: Request, res: Response) => {
+    const row = await this.findPending(req.params.id);
+
+    try {
+      const updated = await this.prisma.quarantinedFact.update({
+        where: { id: row.id },
+        data: { status: 'rejected', reviewedAt: new Date() },
+        include: { company: { select: { ticker: true, name: true } } },
+      });
+
+      res.json({ data: this.formatRow(updated) });
+    } catch (error) {
+      throw new ApiError(500, 'QUARANTINE_ERROR', 'Failed to reject quarantined fact');
+    }
+  };
+
+  private async findPending(id: string | undefined): Promise<QuarantineRow> {
+    if (!id) {
+      throw new ApiError(400, 'INVALID_ID', 'Quarantined fact id is required');
+    }
+
+    const row = await this.prisma.quarantinedFact.findUnique({
+      where: { id },
+      include: { company: { select: { ticker: true, name: true } } },
+    });
+
+    if (!row) {
+      throw new ApiError(404, 'QUARANTINED_FACT_NOT_FOUND', `Quarantined fact ${id} not found`);
+    }
+
+    // Decisions are final: an approved fact is already in facts, and later
+    // ingestions skip rejected ones
+    if (row.status !== 'pending') {
+      throw new ApiError(409, 'ALREADY_REVIEWED', `Quarantined fact ${id} was already ${row.status}`);
+    }
+
+    return row;
+  }
+
+  private formatRow(row: QuarantineRow): QuarantinedFact {
+    return {
+      id: row.id,
+      company: row.company,
+      concept: row.concept,
+      ...(row.periodStart && { periodStart: row.periodStart.toISOString() }),
+      periodEnd: row.periodEnd.toISOString(),
+      fiscalYear: row.fiscalYear,
+      fiscalPeriod: row.fiscalPeriod,
+      value: Number(row.value),
+      unit: row.unit,
+      filingAccession: row.filingAccession,
+      form: row.form,
+      reason: row.reason as QuarantinedFact['reason'],
+      ...(row.expected !== null && { expected: Number(row.expected) }),
+      message: row.message,
+      status: row.status as QuarantinedFact['status'],
+      ...(row.reviewedAt && { reviewedAt: row.reviewedAt.toISOString() }),
+      createdAt: row.createdAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { RatioQuery } from '../types';
+import { FinancialCalculationsService } from '../../services/financialCalculations';
+
+export class RatiosController {
+  private calculations: FinancialCalculationsService;
+
+  constructor(private prisma: PrismaClient) {
+    this.calculations = new FinancialCalculationsService(prisma);
+  }
+
+  // GET /api/companies/:ticker/ratios?periods=8&asOf=2020-06-30
+  getRatios = async (req: Request, res: Response) => {
+    const { ticker } = req.params;
+    const { periods, asOf } = req.query as unknown as RatioQuery;
+    const asOfDate = asOf ? new Date(asOf) : undefined;
+
+    if (!ticker) {
+      throw new ApiError(400, 'INVALID_TICKER', 'Ticker parameter is required');
+    }
+
+    const company = await this.prisma.company.findUnique({
+      where: { ticker: ticker.toUpperCase() },
+      select: { name: true },
+    });
+
+    if (!company) {
+      throw new ApiError(404, 'COMPANY_NOT_FOUND', `Company with ticker ${ticker} not found`);
+    }
+
+    try {
+      // Calculated from stored XBRL facts, so a point-in-time request sees
+      // only what had been filed by the as-of date
+      const ratios = await this.calculations.calculateAdvancedRatios(ticker, periods, asOfDate);
+
+      res.json({
+        data: {
+          company: { ticker: ticker.toUpperCase(), name: company.name },
+          ratios: ratios.map(ratio => ({ ...ratio, periodEnd: ratio.periodEnd.toISOString() })),
+          metadata: {
+            count: ratios.length,
+            periods: new Set(ratios.map(ratio => ratio.period)).size,
+            ...(asOf && { asOf }),
+          },
+        },
+      });
+    } catch (error) {
+      throw new ApiError(500, 'RATIOS_ERROR', 'Failed to calculate financial ratios');
+    }
+  };
+}
\ No newline at end of file
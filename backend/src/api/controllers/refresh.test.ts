@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { RefreshController } from './refresh';
+import { ApiError } from '../middleware';
+import { addBatchIngestJob, getBatchStatus } from '../../lib/queue';
+
+const mockPrisma = {
+  company: {
+    findMany: vi.fn(),
+  },
+  tickerDirectory: {
+    findMany: vi.fn(),
+  },
+};
+
+// Mock queue functions
+vi.mock('../../lib/queue', () => ({
+  addBatchIngestJob: vi.fn().mockResolvedValue('batch-123'),
+  getBatchStatus: vi.fn(),
+}));
+
+describe('RefreshController', () => {
+  let controller: RefreshController;
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    controller = new RefreshController(mockPrisma as any);
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockRes = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+    };
+  });
+
+  describe('batch', () => {
+    it('should queue a batch for the stored companies and report unknown tickers', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([
+        { cik: '0000320193', ticker: 'AAPL' },
+        { cik: '0000789019', ticker: 'MSFT' },
+      ]);
+      mockPrisma.tickerDirectory.findMany.mockResolvedValue([]);
+      mockReq.body = { tickers: ['aapl', 'MSFT', 'AAPL', 'NOPE'], force: false };
+
+      await controller.batch(mockReq as Request, mockRes as Response);
+
+      expect(mockPrisma.company.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { ticker: { in: ['AAPL', 'MSFT', 'NOPE'] } },
+      }));
+      expect(addBatchIngestJob).toHaveBeenCalledWith(
+        [{ cik: '0000320193', ticker: 'AAPL' }, { cik: '0000789019', ticker: 'MSFT' }],
+        { force: false }
+      );
+      expect(mockRes.json).toHaveBeenCalledWith({
+        data: {
+          batchId: 'batch-123',
+          status: 'queued',
+          total: 2,
+          notFound: ['NOPE'],
+          message: 'Data refresh queued for 2 companies',
+        },
+      });
+    });
+
+    it('should queue listed tickers that were never ingested', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([{ cik: '0000320193', ticker: 'AAPL' }]);
+      mockPrisma.tickerDirectory.findMany.mockResolvedValue([
+        { cik: '0001045810', ticker: 'NVDA', name: 'NVIDIA CORP', exchange: 'Nasdaq' },
+      ]);
+      mockReq.body = { tickers: ['AAPL', 'NVDA', 'NOPE'], force: false };
+
+      await controller.batch(mockReq as Request, mockRes as Response);
+
+      expect(mockPrisma.tickerDirectory.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { ticker: { in: ['NVDA', 'NOPE'] }, active: true },
+      }));
+      expect(addBatchIngestJob).toHaveBeenCalledWith(
+        [{ cik: '0000320193', ticker: 'AAPL' }, { cik: '0001045810', ticker: 'NVDA' }],
+        { force: false }
+      );
+      expect(mockRes.json).toHaveBeenCalledWith({
+        data: expect.objectContaining({ total: 2, notFound: ['NOPE'] }),
+      });
+    });
+
+    it('should reject a batch with no stored companies', async () => {
+      mockPrisma.company.findMany.mockResolvedValue([]);
+      mockReq.body = { sector: 'Utilities', force: false };
+
+      await expect(
+        controller.batch(mockReq as Request, mockRes as Response)
+      ).rejects.toThrow(ApiError);
+      expect(addBatchIngestJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getBatchStatus', () => {
+    it('should aggregate child progress and failures', async () => {
+      vi.mocked(getBatchStatus).mockResolvedValue({
+        data: { batchId: 'batch-123', total: 4 },
+        createdAt: Date.parse('2024-01-01T00:00:00Z'),
+        finishedOn: undefined,
+        completed: [{ metricsIngested: 120 }, { metricsIngested: 80 }],
+        // Failed children leave the parent's dependencies and are read from its log
+        failures: [{ cik: '0000012345', ticker: 'FAIL', error: 'Ingestion failed: not found' }],
+        unprocessed: [
+          { data: { cik: '0001045810', ticker: 'NVDA' }, state: 'active', progress: 50 },
+        ],
+      });
+      mockReq.params = { batchId: 'batch-123' };
+
+      await controller.getBatchStatus(mockReq as Request, mockRes as Response);
+
+      expect(mockRes.json).toHaveBeenCalledWith({
+        data: {
+          batchId: 'batch-123',
+          status: 'running',
+          total: 4,
+          completed: 2,
+          failed: 1,
+          pending: 1,
+          progress: 88,
+          metricsIngested: 200,
+          failures: [{ cik: '0000012345', ticker: 'FAIL', error: 'Ingestion failed: not found' }],
+          createdAt: '2024-01-01T00:00:00.000Z',
+        },
+      });
+    });
+
+    it('should handle an unknown batch', async () => {
+      vi.mocked(getBatchStatus).mockResolvedValue(null);
+      mockReq.params = { batchId: 'missing' };
+
+      await expect(
+        controller.getBatchStatus(mockReq as Request, mockRes as Response)
+      ).rejects.toThrow(ApiError);
+    });
+  });
+});
\ No newline at end of file
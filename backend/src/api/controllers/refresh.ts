@@ -0,0 +1,137 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { BatchRefreshRequest, BatchRefreshStatus } from '../types';
+import { addBatchIngestJob, getBatchStatus } from '../../lib/queue';
+import { CompanyDirectoryService } from '../../services/companyDirectory';
+
+type BatchState = NonNullable<Awaited<ReturnType<typeof getBatchStatus>>>;
+
+export class RefreshController {
+  private directory: CompanyDirectoryService;
+
+  constructor(private prisma: PrismaClient) {
+    this.directory = new CompanyDirectoryService(prisma);
+  }
+
+  // POST /api/refresh/batch
+  batch = async (req: Request, res: Response) => {
+    const { tickers, sector, force } = req.body as BatchRefreshRequest;
+
+    try {
+      const requested = tickers && [...new Set(tickers.map(ticker => ticker.toUpperCase()))];
+      const stored = await this.prisma.company.findMany({
+        where: requested
+          ? { ticker: { in: requested } }
+          : { sector: { equals: sector!, mode: 'insensitive' } }, // The request schema requires one of the two
+        select: { cik: true, ticker: true },
+        orderBy: { ticker: 'asc' },
+      });
+
+      // Tickers that were never ingested are queued from the SEC ticker directory
+      const storedTickers = new Set(stored.map(company => company.ticker));
+      const listed = await this.directory.find(requested?.filter(ticker => !storedTickers.has(ticker)) ?? []);
+
+      // A listed ticker can belong to a stored company that has since changed ticker
+      const companies = [...stored];
+      const ciks = new Set(stored.map(company => company.cik));
+      for (const entry of listed) {
+        if (ciks.has(entry.cik)) continue;
+        ciks.add(entry.cik);
+        companies.push({ cik: entry.cik, ticker: entry.ticker });
+      }
+
+      if (companies.length === 0) {
+        throw new ApiError(404, 'COMPANIES_NOT_FOUND', 'No stored or listed companies match the batch');
+      }
+
+      const found = new Set([...storedTickers, ...listed.map(entry => entry.ticker)]);
+      const notFound = requested?.filter(ticker => !found.has(ticker)) ?? [];
+
+      const batchId = await addBatchIngestJob(companies, { force });
+
+      res.json({
+        data: {
+          batchId,
+          status: 'queued',
+          total: companies.length,
+          ...(notFound.length > 0 && { notFound }),
+          message: `Data refresh queued for ${companies.length} companies`,
+        },
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'REFRESH_ERROR', 'Failed to queue batch refresh');
+    }
+  };
+
+  // GET /api/refresh/batch/:batchId
+  getBatchStatus = async (req: Request, res: Response) => {
+    const { batchId } = req.params;
+
+    if (!batchId) {
+      throw new ApiError(400, 'INVALID_BATCH_ID', 'Batch ID parameter is required');
+    }
+
+    try {
+      const batch = await getBatchStatus(batchId);
+
+      if (!batch) {
+        throw new ApiError(404, 'BATCH_NOT_FOUND', `Batch ${batchId} not found`);
+      }
+
+      res.json({ data: this.summarize(batchId, batch) });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'STATUS_ERROR', 'Failed to fetch batch status');
+    }
+  };
+
+  private summarize(batchId: string, batch: BatchState): BatchRefreshStatus {
+    const { total } = batch.data;
+    const failed = batch.failures;
+    const active = batch.unprocessed.filter(child => child.state === 'active');
+    const completed = batch.completed.length;
+    const pending = total - completed - failed.length;
+
+    // Finished companies count fully, running ones by their reported progress
+    const activeProgress = active.reduce(
+      (sum, child) => sum + (typeof child.progress === 'number' ? child.progress / 100 : 0),
+      0
+    );
+    const progress = total > 0
+      ? Math.round(((completed + failed.length + activeProgress) / total) * 100)
+      : 100;
+
+    let status: BatchRefreshStatus['status'] = 'queued';
+    if (pending === 0) {
+      status = failed.length > 0 ? 'completed_with_failures' : 'completed';
+    } else if (active.length > 0 || completed > 0 || failed.length > 0) {
+      status = 'running';
+    }
+
+    const metricsIngested = batch.completed.reduce<number>((sum, result) => {
+      const metrics = (result as { metricsIngested?: unknown } | null)?.metricsIngested;
+      return sum + (typeof metrics === 'number' ? metrics : 0);
+    }, 0);
+
+    return {
+      batchId,
+      status,
+      total,
+      completed,
+      failed: failed.length,
+      pending,
+      progress,
+      metricsIngested,
+      failures: failed,
+      createdAt: new Date(batch.createdAt).toISOString(),
+      // The parent job finishes once every company completed or failed
+      ...(batch.finishedOn && { finishedAt: new Date(batch.finishedOn).toISOString() }),
+    };
+  }
+}
\ No newline at end of file
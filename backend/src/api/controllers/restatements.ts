@@ -0,0 +1,108 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { RestatementDiff, RestatementQuery } from '../types';
+import { FINANCIAL_CONCEPTS } from '../types';
+import { isCatalogConcept } from '../../lib/concept-catalog';
+import { diffRestatements } from '../../lib/restatements';
+import type { ReportedValue } from '../../lib/restatements';
+
+export class RestatementsController {
+  constructor(private prisma: PrismaClient) {}
+
+  // GET /api/companies/:ticker/restatements?concept=Revenues&range=5y
+  getRestatements = async (req: Request, res: Response) => {
+    const { ticker } = req.params;
+    const { concept, range } = req.query as RestatementQuery;
+
+    if (!ticker) {
+      throw new ApiError(400, 'INVALID_TICKER', 'Ticker parameter is required');
+    }
+
+    try {
+      if (concept && !isCatalogConcept(concept)) {
+        throw new ApiError(400, 'INVALID_CONCEPT', `Invalid financial concept: ${concept}`);
+      }
+
+      const company = await this.prisma.company.findUnique({
+        where: { ticker: ticker.toUpperCase() },
+        select: { cik: true, name: true },
+      });
+
+      if (!company) {
+        throw new ApiError(404, 'COMPANY_NOT_FOUND', `Company with ticker ${ticker} not found`);
+      }
+
+      const since = new Date();
+      since.setFullYear(since.getFullYear() - parseInt(range.replace('y', '')));
+
+      // Every reported value, including superseded ones, forms the history
+      const facts = await this.prisma.fact.findMany({
+        where: {
+          cik: company.cik,
+          ...(concept && { concept }),
+          periodEnd: { gte: since },
+        },
+        select: {
+          id: true,
+          concept: true,
+          periodStart: true,
+          periodEnd: true,
+          value: true,
+          fiscalYear: true,
+          fiscalPeriod: true,
+          filingAccession: true,
+          form: true,
+          filed: true,
+          superseded: true,
+          supersededBy: true,
+        },
+      });
+
+      const restatements: RestatementDiff[] = diffRestatements(
+        facts.map(fact => ({ ...fact, value: Number(fact.value) }))
+      ).map(restatement => ({
+        concept: restatement.concept,
+        label: isCatalogConcept(restatement.concept)
+          ? FINANCIAL_CONCEPTS[restatement.concept]
+          : restatement.concept,
+        ...(restatement.periodStart && { periodStart: restatement.periodStart.toISOString() }),
+        periodEnd: restatement.periodEnd.toISOString(),
+        fiscalYear: restatement.fiscalYear,
+        fiscalPeriod: restatement.fiscalPeriod,
+        original: this.formatReportedValue(restatement.original),
+        latest: this.formatReportedValue(restatement.latest),
+        change: restatement.change,
+        changePercent: restatement.changePercent,
+        amended: restatement.amended,
+        revisions: restatement.revisions,
+      }));
+
+      res.json({
+        data: {
+          company: { ticker: ticker.toUpperCase(), name: company.name },
+          restatements,
+          metadata: {
+            count: restatements.length,
+            amendments: restatements.filter(r => r.amended).length,
+            since: since.toISOString(),
+          },
+        },
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'RESTATEMENTS_ERROR', 'Failed to fetch restatements');
+    }
+  };
+
+  private formatReportedValue(reported: ReportedValue) {
+    return {
+      value: reported.value,
+      filingAccession: reported.filingAccession,
+      form: reported.form,
+      ...(reported.filed && { filed: reported.filed.toISOString() }),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,54 @@
+import type { Request, Response } from 'express';
+import { ApiError } from '../middleware';
+import type { RefreshSchedule } from '../types';
+import { getRefreshSchedule } from '../../lib/queue';
+import type { RefreshRunSummary } from '../../services/refreshScheduler';
+
+function toIsoString(timestamp: number | null | undefined): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined;
+}
+
+export class ScheduleController {
+  // GET /api/admin/schedule
+  getState = async (req: Request, res: Response) => {
+    try {
+      const { schedules, lastRun, ingestCounts } = await getRefreshSchedule();
+      const nextRuns = schedules.map(schedule => schedule.next).filter(next => next > 0);
+
+      const startedAt = toIsoString(lastRun?.processedOn);
+      const finishedAt = toIsoString(lastRun?.finishedOn);
+      const nextRunAt = toIsoString(nextRuns.length > 0 ? Math.min(...nextRuns) : null);
+      const summary = lastRun?.result as RefreshRunSummary | undefined;
+
+      const state: RefreshSchedule = {
+        schedules: schedules.map(schedule => {
+          const scheduleNextRunAt = toIsoString(schedule.next);
+          return {
+            pattern: schedule.pattern,
+            ...(scheduleNextRunAt && { nextRunAt: scheduleNextRunAt }),
+          };
+        }),
+        ...(nextRunAt && { nextRunAt }),
+        ...(lastRun && {
+          lastRun: {
+            status: lastRun.state,
+            ...(startedAt && { startedAt }),
+            ...(finishedAt && { finishedAt }),
+            ...(summary && {
+              companies: summary.companies,
+              enqueued: summary.enqueued,
+              byReason: summary.byReason,
+              ...(summary.feedError && { feedError: summary.feedError }),
+            }),
+            ...(lastRun.failedReason && { error: lastRun.failedReason }),
+          },
+        }),
+        ingestQueue: ingestCounts,
+      };
+
+      res.json({ data: state });
+    } catch (error) {
+      throw new ApiError(500, 'SCHEDULE_ERROR', 'Failed to fetch refresh schedule');
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { ScreenRequest } from '../types';
+import { ScreenerService } from '../../services/screener';
+import type { ScreenRow } from '../../services/screener';
+
+export class ScreenerController {
+  private screener: ScreenerService;
+
+  constructor(prisma: PrismaClient) {
+    this.screener = new ScreenerService(prisma);
+  }
+
+  // POST /api/screener
+  screen = async (req: Request, res: Response) => {
+    const body = req.body as ScreenRequest;
+
+    try {
+      const { rows, total, columns, currencyExclusion } = await this.screener.run(body);
+
+      res.json({
+        data: rows.map(formatScreenRow),
+        meta: { total, limit: body.limit, offset: body.offset, columns, ...(currencyExclusion && { currencyExclusion }) },
+      });
+    } catch (error) {
+      throw new ApiError(500, 'SCREENER_ERROR', 'Failed to run screen');
+    }
+  };
+}
+
+// Shared with saved screen runs
+export function formatScreenRow(row: ScreenRow) {
+  return {
+    cik: row.cik,
+    ticker: row.ticker,
+    name: row.name,
+    ...(row.sector && { sector: row.sector }),
+    ...(row.industry && { industry: row.industry }),
+    metrics: Object.fromEntries(Object.entries(row.metrics).map(([metric, cell]) => [
+      metric,
+      cell && { ...cell, periodEnd: cell.periodEnd.toISOString().slice(0, 10) },
+    ])),
+  };
+}
\ No newline at end of file
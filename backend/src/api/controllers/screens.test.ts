@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { SavedScreenController } from './screens';
+
+const mockPrisma = {
+  savedScreen: {
+    findFirst: vi.fn(),
+    update: vi.fn(),
+  },
+  $queryRaw: vi.fn(),
+};
+
+const screen = (definition: unknown) => ({
+  id: 'screen-1',
+  userId: 'user-1',
+  name: 'Quality',
+  description: null,
+  definition,
+  lastRunAt: null,
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-01T00:00:00Z'),
+});
+
+describe('SavedScreenController', () => {
+  let controller: SavedScreenController;
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    controller = new SavedScreenController(mockPrisma as any);
+
+    mockReq = {
+      params: { id: 'screen-1' },
+      query: {},
+      body: { limit: 50, offset: 0 },
+    };
+
+    mockRes = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      locals: { userId: 'user-1' },
+    };
+  });
+
+  describe('run', () => {
+    it('should re-run the saved definition against current views', async () => {
+      mockPrisma.savedScreen.findFirst.mockResolvedValue(screen({
+        filters: [{ metric: 'NetMargin', op: 'gt', value: 20 }],
+      }));
+      mockPrisma.$queryRaw
+        .mockResolvedValueOnce([{
+          cik: '0000320193',
+          ticker: 'AAPL',
+          name: 'Apple Inc.',
+          sector: 'Technology',
+          industry: null,
+          m0_value: 26,
+          m0_periodEnd: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+          m0_frequency: 'ttm',
+        }])
+        .mockResolvedValueOnce([{ total: BigInt(1), nonUsd: BigInt(0) }]);
+
+      await controller.run(mockReq as Request, mockRes as Response);
+
+      expect(mockPrisma.savedScreen.update).toHaveBeenCalledWith({
+        where: { id: 'screen-1' },
+        data: { lastRunAt: expect.any(Date) },
+      });
+      expect(mockRes.json).toHaveBeenCalledWith({
+        data: [expect.objectContaining({ ticker: 'AAPL', metrics: { NetMargin: expect.objectContaining({ value: 26 }) } })],
+        meta: expect.objectContaining({ total: 1, limit: 50, offset: 0, screen: { id: 'screen-1', name: 'Quality' } }),
+      });
+    });
+
+    it('should refuse a definition that no longer validates', async () => {
+      mockPrisma.savedScreen.findFirst.mockResolvedValue(screen({
+        filters: [{ metric: 'RetiredMetric', op: 'gt', value: 1 }],
+      }));
+
+      await expect(controller.run(mockReq as Request, mockRes as Response))
+        .rejects.toMatchObject({ statusCode: 422, code: 'INVALID_SAVED_SCREEN' });
+      expect(mockPrisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,158 @@
+import type { Request, Response } from 'express';
+import { PrismaClient, SavedScreen as SavedScreenRow } from '@prisma/client';
+import { ApiError } from '../middleware';
+import { ScreenRequestSchema } from '../types';
+import type { SavedScreenRequest, SavedScreenRunRequest } from '../types';
+import { ScreenerService } from '../../services/screener';
+import { formatScreenRow } from './screener';
+
+export class SavedScreenController {
+  private screener: ScreenerService;
+
+  constructor(private prisma: PrismaClient) {
+    this.screener = new ScreenerService(prisma);
+  }
+
+  // GET /api/screens
+  list = async (req: Request, res: Response) => {
+    const userId = res.locals.userId as string;
+
+    try {
+      const rows = await this.prisma.savedScreen.findMany({
+        where: { userId },
+        orderBy: { name: 'asc' },
+      });
+
+      res.json({ data: rows.map(row => this.formatRow(row)) });
+    } catch (error) {
+      throw new ApiError(500, 'SAVED_SCREEN_ERROR', 'Failed to list saved screens');
+    }
+  };
+
+  // POST /api/screens
+  create = async (req: Request, res: Response) => {
+    const userId = res.locals.userId as string;
+    const { name, description, definition } = req.body as SavedScreenRequest;
+
+    await this.assertNameFree(userId, name);
+
+    try {
+      const row = await this.prisma.savedScreen.create({
+        data: { userId, name, ...(description && { description }), definition },
+      });
+
+      res.status(201).json({ data: this.formatRow(row) });
+    } catch (error) {
+      throw new ApiError(500, 'SAVED_SCREEN_ERROR', 'Failed to save screen');
+    }
+  };
+
+  // GET /api/screens/:id
+  get = async (req: Request, res: Response) => {
+    const row = await this.findRow(req.params.id, res.locals.userId as string);
+    res.json({ data: this.formatRow(row) });
+  };
+
+  // PUT /api/screens/:id
+  update = async (req: Request, res: Response) => {
+    const userId = res.locals.userId as string;
+    const { name, description, definition } = req.body as SavedScreenRequest;
+
+    const existing = await this.findRow(req.params.id, userId);
+    if (name !== existing.name) {
+      await this.assertNameFree(userId, name);
+    }
+
+    try {
+      const row = await this.prisma.savedScreen.update({
+        where: { id: existing.id },
+        data: { name, description: description ?? null, definition },
+      });
+
+      res.json({ data: this.formatRow(row) });
+    } catch (error) {
+      throw new ApiError(500, 'SAVED_SCREEN_ERROR', 'Failed to update saved screen');
+    }
+  };
+
+  // DELETE /api/screens/:id
+  remove = async (req: Request, res: Response) => {
+    const existing = await this.findRow(req.params.id, res.locals.userId as string);
+
+    try {
+      await this.prisma.savedScreen.delete({ where: { id: existing.id } });
+      res.status(204).end();
+    } catch (error) {
+      throw new ApiError(500, 'SAVED_SCREEN_ERROR', 'Failed to delete saved screen');
+    }
+  };
+
+  // POST /api/screens/:id/run
+  run = async (req: Request, res: Response) => {
+    const { limit, offset } = req.body as SavedScreenRunRequest;
+
+    const row = await this.findRow(req.params.id, res.locals.userId as string);
+
+    // Re-validated on every run: a metric may have left the catalog since the screen was saved
+    const parsed = ScreenRequestSchema.safeParse({ ...(row.definition as object), limit, offset });
+    if (!parsed.success) {
+      throw new ApiError(422, 'INVALID_SAVED_SCREEN', `Saved screen ${row.id} is no longer valid`, {
+        errors: parsed.error.errors.map(err => ({ field: err.path.join('.'), message: err.message })),
+      });
+    }
+
+    try {
+      const { rows, total, columns, currencyExclusion } = await this.screener.run(parsed.data);
+      await this.prisma.savedScreen.update({ where: { id: row.id }, data: { lastRunAt: new Date() } });
+
+      res.json({
+        data: rows.map(formatScreenRow),
+        meta: {
+          total,
+          limit,
+          offset,
+          columns,
+          ...(currencyExclusion && { currencyExclusion }),
+          screen: { id: row.id, name: row.name },
+        },
+      });
+    } catch (error) {
+      throw new ApiError(500, 'SCREENER_ERROR', 'Failed to run saved screen');
+    }
+  };
+
+  private async findRow(id: string | undefined, userId: string): Promise<SavedScreenRow> {
+    if (!id) {
+      throw new ApiError(400, 'INVALID_ID', 'Saved screen id is required');
+    }
+
+    // Another user's screen is reported as missing
+    const row = await this.prisma.savedScreen.findFirst({ where: { id, userId } });
+
+    if (!row) {
+      throw new ApiError(404, 'SAVED_SCREEN_NOT_FOUND', `Saved screen ${id} not found`);
+    }
+
+    return row;
+  }
+
+  private async assertNameFree(userId: string, name: string): Promise<void> {
+    const clash = await this.prisma.savedScreen.findFirst({ where: { userId, name }, select: { id: true } });
+
+    if (clash) {
+      throw new ApiError(409, 'SAVED_SCREEN_EXISTS', `A saved screen named "${name}" already exists`);
+    }
+  }
+
+  private formatRow(row: SavedScreenRow) {
+    return {
+      id: row.id,
+      name: row.name,
+      ...(row.description && { description: row.description }),
+      definition: row.definition,
+      ...(row.lastRunAt && { lastRunAt: row.lastRunAt.toISOString() }),
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
\ No newline at end of file
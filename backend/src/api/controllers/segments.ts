@@ -0,0 +1,114 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { SegmentBreakdown, SegmentQuery } from '../types';
+import { FINANCIAL_CONCEPTS } from '../types';
+import {
+  SEGMENT_AXES,
+  SEGMENT_CONCEPTS,
+  buildSegmentPeriods,
+  getMemberLabel,
+  rankMembers,
+} from '../../lib/segments';
+import type { SegmentFactInput } from '../../lib/segments';
+
+export class SegmentsController {
+  constructor(private prisma: PrismaClient) {}
+
+  // GET /api/companies/:ticker/segments?axis=geographic&frequency=quarterly&range=5y
+  getSegments = async (req: Request, res: Response) => {
+    const { ticker } = req.params;
+    const { axis, frequency, range } = req.query as unknown as SegmentQuery;
+
+    if (!ticker) {
+      throw new ApiError(400, 'INVALID_TICKER', 'Ticker parameter is required');
+    }
+
+    try {
+      const company = await this.prisma.company.findUnique({
+        where: { ticker: ticker.toUpperCase() },
+        select: { cik: true, name: true, fiscalYearEnd: true },
+      });
+
+      if (!company) {
+        throw new ApiError(404, 'COMPANY_NOT_FOUND', `Company with ticker ${ticker} not found`);
+      }
+
+      const since = new Date();
+      since.setFullYear(since.getFullYear() - parseInt(range.replace('y', '')));
+      // A year of lookback lets Q4 be derived for the first fiscal year in range
+      const lookback = new Date(since);
+      lookback.setFullYear(lookback.getFullYear() - 1);
+
+      const facts = await this.prisma.segmentFact.findMany({
+        where: {
+          cik: company.cik,
+          axis: { in: [...SEGMENT_AXES[axis]] },
+          concept: { in: [...SEGMENT_CONCEPTS] },
+          periodEnd: { gte: lookback },
+        },
+        orderBy: { periodEnd: 'asc' },
+      });
+
+      if (facts.length === 0) {
+        throw new ApiError(
+          404,
+          'NO_SEGMENT_DATA',
+          `No ${axis} segment data found for ${ticker}; segments come from inline XBRL filings`
+        );
+      }
+
+      const series: SegmentBreakdown['series'] = [];
+      const members = new Set<string>();
+
+      for (const concept of SEGMENT_CONCEPTS) {
+        const conceptFacts = facts.filter(fact => fact.concept === concept);
+        const unit = conceptFacts[0]?.unit;
+        if (!unit) continue;
+
+        const inputs: SegmentFactInput[] = conceptFacts
+          .filter(fact => fact.unit === unit)
+          .map(fact => ({ ...fact, value: Number(fact.value) }));
+        const periods = buildSegmentPeriods(inputs, frequency, { fiscalYearEnd: company.fiscalYearEnd }).filter(period => period.periodEnd >= since);
+        if (periods.length === 0) continue;
+
+        rankMembers(periods).forEach(member => members.add(member));
+        series.push({
+          concept,
+          label: FINANCIAL_CONCEPTS[concept],
+          unit,
+          periods: periods.map(period => ({
+            periodStart: period.periodStart.toISOString(),
+            periodEnd: period.periodEnd.toISOString(),
+            fiscalYear: period.fiscalYear,
+            fiscalPeriod: period.fiscalPeriod,
+            values: period.values,
+            total: period.total,
+            derived: period.derived,
+          })),
+        });
+      }
+
+      const data: SegmentBreakdown = {
+        company: { ticker: ticker.toUpperCase(), name: company.name },
+        axis,
+        frequency,
+        segments: Array.from(members).map(member => ({ member, label: getMemberLabel(member) })),
+        series,
+      };
+
+      res.json({
+        data,
+        metadata: {
+          segmentCount: data.segments.length,
+          since: since.toISOString(),
+        },
+      });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'SEGMENTS_ERROR', 'Failed to fetch segment data');
+    }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,114 @@
+import type { Request, Response } from 'express';
+import { PrismaClient } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { FinancialStatement, StatementQuery } from '../types';
+import type { FinancialStatement as StatementType } from '../../lib/concept-catalog';
+import { adjustForSplits, toCorporateActions } from '../../lib/corporate-actions';
+import { STATEMENT_TEMPLATES, buildStatement, getStatementConcepts } from '../../lib/financial-statements';
+import { getFactVersionFilter, selectAsOf } from '../../lib/restatements';
+import type { StatementLine } from '../../lib/financial-statements';
+
+const STATEMENTS = Object.keys(STATEMENT_TEMPLATES) as StatementType[];
+
+export class StatementsController {
+  constructor(private prisma: PrismaClient) {}
+
+  // GET /api/companies/:ticker/statements/:statement?frequency=annual&periods=5&asOf=2020-06-30
+  getStatement = async (req: Request, res: Response) => {
+    const { ticker, statement } = req.params;
+    const { frequency, periods, asOf } = req.query as unknown as StatementQuery;
+    const asOfDate = asOf ? new Date(asOf) : undefined;
+
+    if (!ticker) {
+      throw new ApiError(400, 'INVALID_TICKER', 'Ticker parameter is required');
+    }
+
+    if (!statement || !STATEMENTS.includes(statement as StatementType)) {
+      throw new ApiError(
+        400,
+        'INVALID_STATEMENT',
+        `Invalid statement: ${statement}. Valid statements: ${STATEMENTS.join(', ')}`
+      );
+    }
+
+    try {
+      const company = await this.prisma.company.findUnique({
+        where: { ticker: ticker.toUpperCase() },
+        select: { cik: true, name: true, reportingCurrency: true, fiscalYearEnd: true },
+      });
+
+      if (!company) {
+        throw new ApiError(404, 'COMPANY_NOT_FOUND', `Company with ticker ${ticker} not found`);
+      }
+
+      const [facts, corporateActions] = await Promise.all([
+        this.prisma.fact.findMany({
+          where: {
+            cik: company.cik,
+            concept: { in: getStatementConcepts(statement as StatementType) },
+            ...getFactVersionFilter(asOfDate),
+          },
+          orderBy: { periodEnd: 'desc' },
+        }),
+        this.prisma.corporateAction.findMany({
+          where: { cik: company.cik, ...(asOfDate && { effectiveDate: { lte: asOfDate } }) },
+        }),
+      ]);
+
+      const known = asOfDate ? selectAsOf(facts, asOfDate) : facts;
+      const splits = toCorporateActions(corporateActions);
+      const built = buildStatement(
+        statement as StatementType,
+        adjustForSplits(known.map(fact => ({ ...fact, value: Number(fact.value) })), splits),
+        frequency,
+        periods,
+        { fiscalYearEnd: company.fiscalYearEnd }
+      );
+
+      if (built.periods.length === 0) {
+        throw new ApiError(
+          404,
+          'NO_DATA_FOUND',
+          `No ${statement} statement data found for ${ticker}${asOf ? ` as of ${asOf}` : ''}`
+        );
+      }
+
+      const data: FinancialStatement = {
+        company: { ticker: ticker.toUpperCase(), name: company.name },
+        statement: built.statement,
+        frequency: built.frequency,
+        unit: company.reportingCurrency || 'USD',
+        periods: built.periods.map(period => ({
+          ...(period.periodStart && { periodStart: period.periodStart.toISOString() }),
+          periodEnd: period.periodEnd.toISOString(),
+          fiscalYear: period.fiscalYear,
+          fiscalPeriod: period.fiscalPeriod,
+        })),
+        lines: built.lines.map(line => this.formatLine(line)),
+        ...(splits.length > 0 && { splitAdjusted: true }),
+        ...(asOf && { asOf }),
+      };
+
+      res.json({ data });
+    } catch (error) {
+      if (error instanceof ApiError) {
+        throw error;
+      }
+      throw new ApiError(500, 'STATEMENT_ERROR', 'Failed to build financial statement');
+    }
+  };
+
+  private formatLine(line: StatementLine): FinancialStatement['lines'][number] {
+    return {
+      key: line.key,
+      label: line.label,
+      kind: line.kind,
+      ...(line.concept && { concept: line.concept }),
+      values: line.values.map(cell => ({
+        value: cell.value,
+        ...(cell.source && { source: cell.source }),
+      })),
+      ...(line.children && { children: line.children.map(child => this.formatLine(child)) }),
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { WatchlistController } from './watchlists';
+import { ApiError } from '../middleware';
+import { addBatchIngestJob } from '../../lib/queue';
+
+const mockPrisma = {
+  watchlist: {
+    findMany: vi.fn(),
+    findFirst: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  company: {
+    findMany: vi.fn(),
+  },
+};
+
+// Mock queue functions
+vi.mock('../../lib/queue', () => ({
+  addBatchIngestJob: vi.fn().mockResolvedValue('batch-123'),
+}));
+
+const { compareCompanies } = vi.hoisted(() => ({ compareCompanies: vi.fn() }));
+
+vi.mock('../../services/comparisonService', () => ({
+  ComparisonService: vi.fn().mockImplementation(() => ({ compareCompanies })),
+}));
+
+const row = {
+  id: 'wl-1',
+  userId: 'user-1',
+  name: 'Megacaps',
+  tickers: ['AAPL', 'MSFT', 'NEWCO'],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T00:00:00Z'),
+};
+
+describe('WatchlistController', () => {
+  let controller: WatchlistController;
+  let mockReq: Partial<Request>;
+  let mockRes: Partial<Response>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    controller = new WatchlistController(mockPrisma as any);
+
+    mockReq = {
+      params: {},
+      query: {},
+      body: {},
+    };
+
+    mockRes = {
+      json: vi.fn().mockReturnThis(),
+      status: vi.fn().mockReturnThis(),
+      end: vi.fn().mockReturnThis(),
+      locals: { userId: 'user-1' },
+    };
+  });
+
+  describe('create', () => {
+    it('should store normalized tickers under the caller', async () => {
+      mockPrisma.watchlist.findFirst.mockResolvedValue(null);
+      mockPrisma.watchlist.create.mockResolvedValue(row);
+      mockReq.body = { name: 'Megacaps', tickers: ['aapl', 'MSFT', 'AAPL', 'newco'] };
+
+      await controller.create(mockReq as Request, mockRes as Response);
+
+      expect(mockPrisma.watchlist.create).toHaveBeenCalledWith({
+        data: { userId: 'user-1', name: 'Megacaps', tickers: ['AAPL', 'MSFT', 'NEWCO'] },
+      });
+      expect(mockRes.status).toHaveBeenCalledWith(201);
+      expect(mockRes.json).toHaveBeenCalledWith({
+        data: {
+          id: 'wl-1',
+          name: 'Megacaps',
+          tickers: ['AAPL', 'MSFT', 'NEWCO'],
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: '2024-01-02T00:00:00.000Z',
+        },
+      });
+    });
+
+    it('should reject a duplicate name', async () => {
+      mockPrisma.watchlist.findFirst.mockResolvedValue({ id: 'wl-0' });
+      mockReq.body = { name: 'Megacaps', tickers: ['AAPL'] };
+
+      await expect(controller.create(mockReq as Request, mockRes as Response))
+        .rejects.toMatchObject({ statusCode: 409, code: 'WATCHLIST_EXISTS' });
+      expect(mockPrisma.watchlist.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('get', () => {
+    it("should report another user's watchlist as not found", async () => {
+      mockPrisma.watchlist.findFirst.mockResolvedValue(null);
+      mockReq.params = { id: 'wl-1' };
+
+      await expect(controller.get(mockReq as Request, mockRes as Response)).rejects.toThrow(ApiError);
+      expect(mockPrisma.watchlist.findFirst).toHaveBeenCalledWith({ where: { id: 'wl-1', userId: 'user-1' } });
+    });
+  });
+
+  describe('refresh', () => {
+    it('should queue a batch for the stored companies and report the rest', async () => {
+      mockPrisma.watchlist.findFirst.mockResolvedValue(row);
+      mockPrisma.company.findMany.mockResolvedValue([
+        { cik: '0000320193', ticker: 'AAPL' },
+        { cik: '0000789019', ticker: 'MSFT' },
+      ]);
+      mockReq.params = { id: 'wl-1' };
+      mockReq.body = { force: true };
+
+      await controller.refresh(mockReq as Request, mockRes as Response);
+
+      expect(addBatchIngestJob).toHaveBeenCalledWith(
+        [{ cik: '0000320193', ticker: 'AAPL' }, { cik: '0000789019', ticker: 'MSFT' }],
+        { force: true }
+      );
+      expect(mockRes.json).toHaveBeenCalledWith({
+        data: expect.objectContaining({ batchId: 'batch-123', total: 2, notFound: ['NEWCO'] }),
+      });
+    });
+
+    it('should not queue a batch when no company is stored', async () => {
+      mockPrisma.watchlist.findFirst.mockResolvedValue(row);
+      mockPrisma.company.findMany.mockResolvedValue([]);
+      mockReq.params = { id: 'wl-1' };
+      mockReq.body = { force: false };
+
+      await expect(controller.refresh(mockReq as Request, mockRes as Response))
+        .rejects.toMatchObject({ statusCode: 404, code: 'COMPANIES_NOT_FOUND' });
+      expect(addBatchIngestJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('compare', () => {
+    it("should compare the watchlist's tickers", async () => {
+      mockPrisma.watchlist.findFirst.mockResolvedValue(row);
+      compareCompanies.mockResolvedValue({ companies: [], rankings: [] });
+      mockReq.params = { id: 'wl-1' };
+
+      await controller.compare(mockReq as Request, mockRes as Response);
+
+      expect(compareCompanies).toHaveBeenCalledWith(['AAPL', 'MSFT', 'NEWCO']);
+      expect(mockRes.json).toHaveBeenCalledWith({ data: { companies: [], rankings: [] } });
+    });
+
+    it('should reject a watchlist outside the 2-5 company range', async () => {
+      mockPrisma.watchlist.findFirst.mockResolvedValue({ ...row, tickers: ['AAPL'] });
+      mockReq.params = { id: 'wl-1' };
+
+      await expect(controller.compare(mockReq as Request, mockRes as Response))
+        .rejects.toMatchObject({ statusCode: 400, code: 'INVALID_COMPANIES' });
+      expect(compareCompanies).not.toHaveBeenCalled();
+    });
+  });
+});
\ No newline at end of file
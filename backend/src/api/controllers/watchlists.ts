@@ -0,0 +1,212 @@
+import type { Request, Response } from 'express';
+import { PrismaClient, Watchlist as WatchlistRow } from '@prisma/client';
+import { ApiError } from '../middleware';
+import type { WatchlistExportQuery, WatchlistRefreshRequest, WatchlistRequest } from '../types';
+import { addBatchIngestJob } from '../../lib/queue';
+import { DataExportService } from '../../services/dataExport';
+import { ComparisonService } from '../../services/comparisonService';
+import { FinScopeMetricsService } from '../../services/finscopeMetrics';
+import { LLMService } from '../../services/llm';
+
+export class WatchlistController {
+  private exportService: DataExportService;
+  private comparisonService: ComparisonService;
+
+  constructor(private prisma: PrismaClient) {
+    this.exportService = new DataExportService(prisma);
+    this.comparisonService = new ComparisonService(
+      new FinScopeMetricsService(process.env.FINNHUB_API_KEY || 'demo'),
+      new LLMService()
+    );
+  }
+
+  // GET /api/watchlists
+  list = async (req: Request, res: Response) => {
+    const userId = res.locals.userId as string;
+
+    try {
+      const rows = await this.prisma.watchlist.findMany({
+        where: { userId },
+        orderBy: { name: 'asc' },
+      });
+
+      res.json({ data: rows.map(row => this.formatRow(row)) });
+    } catch (error) {
+      throw new ApiError(500, 'WATCHLIST_ERROR', 'Failed to list watchlists');
+    }
+  };
+
+  // POST /api/watchlists
+  create = async (req: Request, res: Response) => {
+    const userId = res.locals.userId as string;
+    const { name, tickers } = req.body as WatchlistRequest;
+
+    await this.assertNameFree(userId, name);
+
+    try {
+      const row = await this.prisma.watchlist.create({
+        data: { userId, name, tickers: normalizeTickers(tickers) },
+      });
+
+      res.status(201).json({ data: this.formatRow(row) });
+    } catch (error) {
+      throw new ApiError(500, 'WATCHLIST_ERROR', 'Failed to create watchlist');
+    }
+  };
+
+  // GET /api/watchlists/:id
+  get = async (req: Request, res: Response) => {
+    const row = await this.findRow(req.params.id, res.locals.userId as string);
+    res.json({ data: this.formatRow(row) });
+  };
+
+  // PUT /api/watchlists/:id
+  update = async (req: Request, res: Response) => {
+    const userId = res.locals.userId as string;
+    const { name, tickers } = req.body as WatchlistRequest;
+
+    const existing = await this.findRow(req.params.id, userId);
+    if (name !== existing.name) {
+      await this.assertNameFree(userId, name);
+    }
+
+    try {
+      const row = await this.prisma.watchlist.update({
+        where: { id: existing.id },
+        data: { name, tickers: normalizeTickers(tickers) },
+      });
+
+      res.json({ data: this.formatRow(row) });
+    } catch (error) {
+      throw new ApiError(500, 'WATCHLIST_ERROR', 'Failed to update watchlist');
+    }
+  };
+
+  // DELETE /api/watchlists/:id
+  remove = async (req: Request, res: Response) => {
+    const existing = await this.findRow(req.params.id, res.locals.userId as string);
+
+    try {
+      await this.prisma.watchlist.delete({ where: { id: existing.id } });
+      res.status(204).end();
+    } catch (error) {
+      throw new ApiError(500, 'WATCHLIST_ERROR', 'Failed to delete watchlist');
+    }
+  };
+
+  // POST /api/watchlists/:id/refresh
+  refresh = async (req: Request, res: Response) => {
+    const { force } = req.body as WatchlistRefreshRequest;
+
+    const watchlist = await this.findRow(req.params.id, res.locals.userId as string);
+    const companies = await this.findStoredCompanies(watchlist);
+
+    try {
+      const found = new Set(companies.map(company => company.ticker));
+      const notFound = watchlist.tickers.filter(ticker => !found.has(ticker));
+
+      const batchId = await addBatchIngestJob(companies, { force });
+
+      res.json({
+        data: {
+          batchId,
+          status: 'queued',
+          total: companies.length,
+          ...(notFound.length > 0 && { notFound }),
+          message: `Data refresh queued for ${companies.length} companies`,
+        },
+      });
+    } catch (error) {
+      throw new ApiError(500, 'REFRESH_ERROR', 'Failed to queue watchlist refresh');
+    }
+  };
+
+  // GET /api/watchlists/:id/export?format=csv
+  export = async (req: Request, res: Response) => {
+    const { format } = req.query as unknown as WatchlistExportQuery;
+
+    const watchlist = await this.findRow(req.params.id, res.locals.userId as string);
+    const companies = await this.findStoredCompanies(watchlist);
+
+    try {
+      await this.exportService.streamBatchExport(
+        watchlist.name,
+        companies.map(company => company.ticker),
+        format,
+        res
+      );
+    } catch (error) {
+      throw new ApiError(500, 'EXPORT_ERROR', 'Failed to export watchlist');
+    }
+  };
+
+  // GET /api/watchlists/:id/compare
+  compare = async (req: Request, res: Response) => {
+    const watchlist = await this.findRow(req.params.id, res.locals.userId as string);
+
+    if (watchlist.tickers.length < 2 || watchlist.tickers.length > 5) {
+      throw new ApiError(400, 'INVALID_COMPANIES', 'Comparison requires a watchlist of 2-5 companies');
+    }
+
+    try {
+      const comparison = await this.comparisonService.compareCompanies(watchlist.tickers);
+
+      res.json({ data: comparison });
+    } catch (error) {
+      throw new ApiError(500, 'COMPARISON_FAILED', 'Failed to compare watchlist companies');
+    }
+  };
+
+  private async findRow(id: string | undefined, userId: string): Promise<WatchlistRow> {
+    if (!id) {
+      throw new ApiError(400, 'INVALID_ID', 'Watchlist id is required');
+    }
+
+    // Another user's watchlist is reported as missing
+    const row = await this.prisma.watchlist.findFirst({ where: { id, userId } });
+
+    if (!row) {
+      throw new ApiError(404, 'WATCHLIST_NOT_FOUND', `Watchlist ${id} not found`);
+    }
+
+    return row;
+  }
+
+  private async assertNameFree(userId: string, name: string): Promise<void> {
+    const clash = await this.prisma.watchlist.findFirst({ where: { userId, name }, select: { id: true } });
+
+    if (clash) {
+      throw new ApiError(409, 'WATCHLIST_EXISTS', `A watchlist named "${name}" already exists`);
+    }
+  }
+
+  // Watchlists may name companies that were never ingested; refresh and
+  // export work on the stored ones
+  private async findStoredCompanies(watchlist: WatchlistRow): Promise<Array<{ cik: string; ticker: string }>> {
+    const companies = await this.prisma.company.findMany({
+      where: { ticker: { in: watchlist.tickers } },
+      select: { cik: true, ticker: true },
+      orderBy: { ticker: 'asc' },
+    });
+
+    if (companies.length === 0) {
+      throw new ApiError(404, 'COMPANIES_NOT_FOUND', 'No stored companies in the watchlist');
+    }
+
+    return companies;
+  }
+
+  private formatRow(row: WatchlistRow) {
+    return {
+      id: row.id,
+      name: row.name,
+      tickers: row.tickers,
+      createdAt: row.createdAt.toISOString(),
+      updatedAt: row.updatedAt.toISOString(),
+    };
+  }
+}
+
+function normalizeTickers(tickers: string[]): string[] {
+  return [...new Set(tickers.map(ticker => ticker.trim().toUpperCase()))];
+}
\ No newline at end of file
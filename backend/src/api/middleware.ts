@@ -1,4 +1,5 @@
 import type { Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
 import { z } from 'zod';
 import { ApiErrorSchema } from './types';
 
@@ -195,6 +196,51 @@ export const rateLimit = (maxRequests: number, windowMs: number) => {
   };
 };
 
+// Admin authentication: requests carry ADMIN_API_TOKEN in the X-Admin-Token
+// header, and admin routes are unavailable when no token is configured
+export const requireAdminToken = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    throw new ApiError(503, 'ADMIN_DISABLED', 'Admin API is not configured');
+  }
+
+  const provided = Buffer.from(req.header('x-admin-token') || '');
+  const token = Buffer.from(expected);
+  if (provided.length !== token.length || !timingSafeEqual(provided, token)) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Missing or invalid admin token');
+  }
+
+  next();
+};
+
+// User scoping: this API has no accounts or login. An authenticating reverse
+// proxy sets X-User-Id to the signed-in user and proves itself with
+// USER_PROXY_TOKEN in the X-Proxy-Token header; watchlists and saved screens
+// are stored under that id. Without the token X-User-Id is client-supplied and
+// not trusted, so user routes are unavailable when no token is configured.
+const USER_ID_PATTERN = /^[A-Za-z0-9._@-]{1,64}$/;
+
+export const requireUserId = (req: Request, res: Response, next: NextFunction) => {
+  const expected = process.env.USER_PROXY_TOKEN;
+  if (!expected) {
+    throw new ApiError(503, 'USER_SCOPING_DISABLED', 'User routes require a trusted proxy and are not configured');
+  }
+
+  const provided = Buffer.from(req.header('x-proxy-token') || '');
+  const token = Buffer.from(expected);
+  if (provided.length !== token.length || !timingSafeEqual(provided, token)) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Missing or invalid proxy token');
+  }
+
+  const userId = req.header('x-user-id');
+  if (!userId || !USER_ID_PATTERN.test(userId)) {
+    throw new ApiError(401, 'UNAUTHORIZED', 'Missing or invalid X-User-Id header');
+  }
+
+  res.locals.userId = userId;
+  next();
+};
+
 // Cache control middleware
 export const cacheControl = (maxAge: number) => {
   return (req: Request, res: Response, next: NextFunction) => {
@@ -0,0 +1,81 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { QuarantineController } from '../controllers/quarantine';
+import { ScheduleController } from '../controllers/schedule';
+import { DeadLetterController } from '../controllers/deadLetters';
+import {
+  validateQuery,
+  asyncHandler,
+  rateLimit,
+  requireAdminToken,
+} from '../middleware';
+import { DeadLetterQuerySchema, QuarantineQuerySchema } from '../types';
+
+export function createAdminRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new QuarantineController(prisma);
+  const scheduleController = new ScheduleController();
+  const deadLetterController = new DeadLetterController(prisma);
+
+  router.use(requireAdminToken);
+
+  // List facts held back by the ingestion anomaly screen
+  router.get(
+    '/quarantine',
+    rateLimit(50, 60 * 1000), // 50 requests per minute
+    validateQuery(QuarantineQuerySchema),
+    asyncHandler(controller.list)
+  );
+
+  // Store a quarantined fact as filed
+  router.post(
+    '/quarantine/:id/approve',
+    rateLimit(50, 60 * 1000),
+    asyncHandler(controller.approve)
+  );
+
+  // Discard a quarantined fact; later ingestions skip it
+  router.post(
+    '/quarantine/:id/reject',
+    rateLimit(50, 60 * 1000),
+    asyncHandler(controller.reject)
+  );
+
+  // List ingestion jobs that failed every retry
+  router.get(
+    '/dead-letters',
+    rateLimit(50, 60 * 1000),
+    validateQuery(DeadLetterQuerySchema),
+    asyncHandler(deadLetterController.list)
+  );
+
+  // Inspect one failure, including its stack trace
+  router.get(
+    '/dead-letters/:id',
+    rateLimit(50, 60 * 1000),
+    asyncHandler(deadLetterController.get)
+  );
+
+  // Queue the failed ingestion again
+  router.post(
+    '/dead-letters/:id/retry',
+    rateLimit(50, 60 * 1000),
+    asyncHandler(deadLetterController.retry)
+  );
+
+  // Close a failure without retrying it
+  router.post(
+    '/dead-letters/:id/discard',
+    rateLimit(50, 60 * 1000),
+    asyncHandler(deadLetterController.discard)
+  );
+
+  // Scheduled refresh state: cron patterns, next run times and the last run
+  router.get(
+    '/schedule',
+    rateLimit(50, 60 * 1000),
+    asyncHandler(scheduleController.getState)
+  );
+
+  return router;
+}
\ No newline at end of file
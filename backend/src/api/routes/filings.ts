@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { FilingsController } from '../controllers/filings';
+import {
+  validateQuery,
+  asyncHandler,
+  cacheControl,
+  rateLimit,
+} from '../middleware';
+import { FilingsQuerySchema } from '../types';
+
+export function createFilingsRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new FilingsController(prisma);
+
+  // List a company's SEC filings
+  router.get(
+    '/:ticker/filings',
+    rateLimit(50, 60 * 1000), // 50 requests per minute
+    validateQuery(FilingsQuerySchema),
+    cacheControl(3600), // 1 hour cache
+    asyncHandler(controller.getFilings)
+  );
+
+  return router;
+}
\ No newline at end of file
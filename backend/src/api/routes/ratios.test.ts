@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { createRatiosRouter } from './ratios';
+import { errorHandler } from '../middleware';
+
+const mockPrisma = {
+  company: {
+    findUnique: vi.fn(),
+  },
+};
+
+const balance = (concept: string, value: number, filingAccession: string, filed: string) => ({
+  concept,
+  value,
+  periodStart: null,
+  periodEnd: new Date('2019-09-28'),
+  fiscalYear: 2019,
+  fiscalPeriod: 'FY',
+  filingAccession,
+  form: '10-K',
+  filed: new Date(filed),
+  instant: true,
+});
+
+describe('ratios routes', () => {
+  const app = express();
+  app.use('/api/companies', createRatiosRouter(mockPrisma as any));
+  app.use(errorHandler);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should calculate ratios from the facts filed by the as-of date', async () => {
+    mockPrisma.company.findUnique
+      .mockResolvedValueOnce({ name: 'Apple Inc.' })
+      .mockResolvedValueOnce({
+        facts: [
+          balance('AssetsCurrent', 162819000000, '0000320193-19-000119', '2019-10-31'),
+          balance('LiabilitiesCurrent', 105718000000, '0000320193-19-000119', '2019-10-31'),
+          // Restated after the as-of date
+          balance('LiabilitiesCurrent', 120000000000, '0000320193-20-000096', '2020-10-30'),
+        ],
+        corporateActions: [],
+      });
+
+    const response = await request(app)
+      .get('/api/companies/aapl/ratios?asOf=2020-06-30')
+      .expect(200);
+
+    expect(mockPrisma.company.findUnique.mock.calls[1][0].include.facts.where).toMatchObject({
+      filed: { lte: new Date('2020-06-30') },
+    });
+    expect(response.body.data.metadata).toMatchObject({ asOf: '2020-06-30' });
+    const currentRatio = response.body.data.ratios.find((ratio: any) => ratio.name === 'Current Ratio');
+    expect(currentRatio).toMatchObject({ periodEnd: '2019-09-28T00:00:00.000Z' });
+    expect(currentRatio.value).toBeCloseTo(162819000000 / 105718000000);
+  });
+
+  it('should reject an as-of date that is not on the calendar', async () => {
+    const response = await request(app)
+      .get('/api/companies/aapl/ratios?asOf=2023-02-30')
+      .expect(400);
+
+    expect(response.body.error.code).toBe('VALIDATION_ERROR');
+    expect(mockPrisma.company.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for an unknown company', async () => {
+    mockPrisma.company.findUnique.mockResolvedValueOnce(null);
+
+    await request(app)
+      .get('/api/companies/nope/ratios')
+      .expect(404);
+  });
+});
\ No newline at end of file
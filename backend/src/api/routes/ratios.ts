@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { RatiosController } from '../controllers/ratios';
+import {
+  validateQuery,
+  asyncHandler,
+  cacheControl,
+  rateLimit,
+} from '../middleware';
+import { RatioQuerySchema } from '../types';
+
+export function createRatiosRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new RatiosController(prisma);
+
+  // Get financial ratios calculated from stored facts, optionally as of a past date
+  router.get(
+    '/:ticker/ratios',
+    rateLimit(50, 60 * 1000), // 50 requests per minute
+    validateQuery(RatioQuerySchema),
+    cacheControl(3600), // 1 hour cache
+    asyncHandler(controller.getRatios)
+  );
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { RefreshController } from '../controllers/refresh';
+import {
+  validateBody,
+  asyncHandler,
+  rateLimit,
+} from '../middleware';
+import { BatchRefreshRequestSchema } from '../types';
+
+export function createRefreshRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new RefreshController(prisma);
+
+  // Queue one ingestion job per company in the batch
+  router.post(
+    '/batch',
+    rateLimit(5, 60 * 1000), // 5 batch requests per minute
+    validateBody(BatchRefreshRequestSchema),
+    asyncHandler(controller.batch)
+  );
+
+  // Get batch progress and per-company failures
+  router.get(
+    '/batch/:batchId',
+    rateLimit(100, 60 * 1000), // 100 requests per minute
+    asyncHandler(controller.getBatchStatus)
+  );
+
+  return router;
+}
\ No newline at end of file
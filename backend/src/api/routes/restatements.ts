@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { RestatementsController } from '../controllers/restatements';
+import {
+  validateQuery,
+  asyncHandler,
+  cacheControl,
+  rateLimit,
+} from '../middleware';
+import { RestatementQuerySchema } from '../types';
+
+export function createRestatementsRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new RestatementsController(prisma);
+
+  // Get prior-period values that changed between filings
+  router.get(
+    '/:ticker/restatements',
+    rateLimit(50, 60 * 1000), // 50 requests per minute
+    validateQuery(RestatementQuerySchema),
+    cacheControl(3600), // 1 hour cache
+    asyncHandler(controller.getRestatements)
+  );
+
+  return router;
+}
\ No newline at end of file
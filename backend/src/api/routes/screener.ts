@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { ScreenerController } from '../controllers/screener';
+import {
+  validateBody,
+  asyncHandler,
+  rateLimit,
+} from '../middleware';
+import { ScreenRequestSchema } from '../types';
+
+export function createScreenerRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new ScreenerController(prisma);
+
+  // Filter stored companies on metrics, ratios, peer percentiles and growth
+  router.post(
+    '/',
+    rateLimit(30, 60 * 1000), // 30 screens per minute
+    validateBody(ScreenRequestSchema),
+    asyncHandler(controller.screen)
+  );
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { SavedScreenController } from '../controllers/screens';
+import {
+  validateBody,
+  asyncHandler,
+  rateLimit,
+  requireUserId,
+} from '../middleware';
+import { SavedScreenRequestSchema, SavedScreenRunRequestSchema } from '../types';
+
+export function createScreensRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new SavedScreenController(prisma);
+
+  router.use(requireUserId);
+
+  // List the user's saved screens
+  router.get(
+    '/',
+    rateLimit(100, 60 * 1000), // 100 requests per minute
+    asyncHandler(controller.list)
+  );
+
+  // Save a screener definition
+  router.post(
+    '/',
+    rateLimit(30, 60 * 1000),
+    validateBody(SavedScreenRequestSchema),
+    asyncHandler(controller.create)
+  );
+
+  router.get(
+    '/:id',
+    rateLimit(100, 60 * 1000),
+    asyncHandler(controller.get)
+  );
+
+  router.put(
+    '/:id',
+    rateLimit(30, 60 * 1000),
+    validateBody(SavedScreenRequestSchema),
+    asyncHandler(controller.update)
+  );
+
+  router.delete(
+    '/:id',
+    rateLimit(30, 60 * 1000),
+    asyncHandler(controller.remove)
+  );
+
+  // Re-run the screen against current data
+  router.post(
+    '/:id/run',
+    rateLimit(30, 60 * 1000), // Same budget as the screener
+    validateBody(SavedScreenRunRequestSchema),
+    asyncHandler(controller.run)
+  );
+
+  return router;
+}
\ No newline at end of file
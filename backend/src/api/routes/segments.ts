@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { SegmentsController } from '../controllers/segments';
+import {
+  validateQuery,
+  asyncHandler,
+  cacheControl,
+  rateLimit,
+} from '../middleware';
+import { SegmentQuerySchema } from '../types';
+
+export function createSegmentsRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new SegmentsController(prisma);
+
+  // Get revenue and operating income by segment over time
+  router.get(
+    '/:ticker/segments',
+    rateLimit(50, 60 * 1000), // 50 requests per minute
+    validateQuery(SegmentQuerySchema),
+    cacheControl(3600), // 1 hour cache
+    asyncHandler(controller.getSegments)
+  );
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { StatementsController } from '../controllers/statements';
+import {
+  validateQuery,
+  asyncHandler,
+  cacheControl,
+  rateLimit,
+} from '../middleware';
+import { StatementQuerySchema } from '../types';
+
+export function createStatementsRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new StatementsController(prisma);
+
+  // Get a standardized income statement, balance sheet or cash flow statement
+  router.get(
+    '/:ticker/statements/:statement',
+    rateLimit(50, 60 * 1000), // 50 requests per minute
+    validateQuery(StatementQuerySchema),
+    cacheControl(3600), // 1 hour cache
+    asyncHandler(controller.getStatement)
+  );
+
+  return router;
+}
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { Router } from 'express';
+import type { PrismaClient } from '@prisma/client';
+import { WatchlistController } from '../controllers/watchlists';
+import {
+  validateBody,
+  validateQuery,
+  asyncHandler,
+  rateLimit,
+  requireUserId,
+} from '../middleware';
+import {
+  WatchlistExportQuerySchema,
+  WatchlistRefreshRequestSchema,
+  WatchlistRequestSchema,
+} from '../types';
+
+export function createWatchlistsRouter(prisma: PrismaClient): Router {
+  const router = Router();
+  const controller = new WatchlistController(prisma);
+
+  router.use(requireUserId);
+
+  // List the user's watchlists
+  router.get(
+    '/',
+    rateLimit(100, 60 * 1000), // 100 requests per minute
+    asyncHandler(controller.list)
+  );
+
+  // Create a watchlist
+  router.post(
+    '/',
+    rateLimit(30, 60 * 1000),
+    validateBody(WatchlistRequestSchema),
+    asyncHandler(controller.create)
+  );
+
+  router.get(
+    '/:id',
+    rateLimit(100, 60 * 1000),
+    asyncHandler(controller.get)
+  );
+
+  // Rename or replace the tickers
+  router.put(
+    '/:id',
+    rateLimit(30, 60 * 1000),
+    validateBody(WatchlistRequestSchema),
+    asyncHandler(controller.update)
+  );
+
+  router.delete(
+    '/:id',
+    rateLimit(30, 60 * 1000),
+    asyncHandler(controller.remove)
+  );
+
+  // Queue a batch refresh of the stored companies in the watchlist
+  router.post(
+    '/:id/refresh',
+    rateLimit(5, 60 * 1000), // Same budget as batch refresh
+    validateBody(WatchlistRefreshRequestSchema),
+    asyncHandler(controller.refresh)
+  );
+
+  // Download financial data for every stored company in the watchlist
+  router.get(
+    '/:id/export',
+    rateLimit(10, 60 * 1000),
+    validateQuery(WatchlistExportQuerySchema),
+    asyncHandler(controller.export)
+  );
+
+  // Side-by-side comparison of the watchlist's 2-5 companies
+  router.get(
+    '/:id/compare',
+    rateLimit(10, 60 * 1000), // Each comparison runs an LLM analysis
+    asyncHandler(controller.compare)
+  );
+
+  return router;
+}
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { getConceptLabels } from '../lib/concept-catalog';
+import { isScreenMetric } from '../lib/screener';
 
 // API Response schemas
 export const CompanySearchResultSchema = z.object({
@@ -10,12 +12,20 @@ export const CompanySearchResultSchema = z.object({
   industry: z.string().optional(),
 });
 
+// Accounting identity break affecting a value; see lib/reconciliation
+export const DataQualityFlagSchema = z.object({
+  check: z.string(),
+  severity: z.enum(['error', 'warning']),
+  message: z.string(),
+});
+
 export const MetricOverviewSchema = z.object({
   concept: z.string(),
   label: z.string(),
   value: z.number(),
   unit: z.string(),
   periodEnd: z.string().datetime(),
+  frequency: z.enum(['quarterly', 'annual', 'instant']),
   fiscalPeriod: z.string(),
   fiscalYear: z.number(),
   change: z.object({
@@ -23,6 +33,7 @@ export const MetricOverviewSchema = z.object({
     percentage: z.number(),
     period: z.string(), // 'QoQ', 'YoY'
   }).optional(),
+  qualityFlags: z.array(DataQualityFlagSchema).optional(),
 });
 
 export const CompanyOverviewSchema = z.object({
@@ -31,7 +42,10 @@ export const CompanyOverviewSchema = z.object({
     ticker: z.string(),
     name: z.string(),
     sic: z.string().optional(),
+    sector: z.string().optional(),
+    industry: z.string().optional(),
     fiscalYearEnd: z.string().optional(),
+    reportingCurrency: z.string().optional(),
   }),
   metrics: z.array(MetricOverviewSchema),
   lastUpdated: z.string().datetime(),
@@ -44,12 +58,17 @@ export const MetricTimeSeriesSchema = z.object({
   label: z.string(),
   unit: z.string(),
   data: z.array(z.object({
+    periodStart: z.string().datetime().optional(),
     periodEnd: z.string().datetime(),
     value: z.number(),
     fiscalPeriod: z.string(),
     fiscalYear: z.number(),
     filingAccession: z.string().optional(),
+    filingUrl: z.string().url().optional(), // EDGAR index page of the reporting filing
     form: z.string().optional(),
+    sourceConcept: z.string().optional(),
+    derived: z.boolean().optional(), // Computed from YTD/annual durations rather than reported
+    qualityFlags: z.array(DataQualityFlagSchema).optional(),
   })),
   metadata: z.object({
     dataPoints: z.number(),
@@ -57,10 +76,187 @@ export const MetricTimeSeriesSchema = z.object({
       start: z.string().datetime(),
       end: z.string().datetime(),
     }),
-    frequency: z.enum(['quarterly', 'annual', 'mixed']),
+    frequency: z.enum(['quarterly', 'annual', 'mixed', 'ttm']),
+    basis: z.enum(['discrete', 'ytd', 'ttm']).optional(), // Duration concepts only
+    convertedFrom: z.string().optional(), // Native currency when converted via the currency parameter
+    splitAdjusted: z.boolean().optional(), // Share and per-share values restated for stock splits
+    asOf: z.string().optional(), // Values as known on this date
   }),
 });
 
+const ReportedValueSchema = z.object({
+  value: z.number(),
+  filingAccession: z.string(),
+  form: z.string(),
+  filed: z.string().datetime().optional(),
+});
+
+export const RestatementDiffSchema = z.object({
+  concept: z.string(),
+  label: z.string(),
+  periodStart: z.string().datetime().optional(),
+  periodEnd: z.string().datetime(),
+  fiscalYear: z.number(),
+  fiscalPeriod: z.string(),
+  original: ReportedValueSchema, // As originally reported
+  latest: ReportedValueSchema,
+  change: z.number(),
+  changePercent: z.number().nullable(),
+  amended: z.boolean(), // Latest value comes from a 10-K/A or 10-Q/A
+  revisions: z.number(),
+});
+
+export const FilingSchema = z.object({
+  accession: z.string(),
+  form: z.string(),
+  filingDate: z.string().datetime(),
+  reportDate: z.string().datetime().optional(), // Period of report
+  acceptedAt: z.string().datetime().optional(),
+  primaryDocument: z.string().optional(),
+  primaryDocDescription: z.string().optional(),
+  isXBRL: z.boolean(),
+  isInlineXBRL: z.boolean(),
+  size: z.number().optional(),
+  indexUrl: z.string().url(),
+  documentUrl: z.string().url().optional(),
+});
+
+export const SegmentBreakdownSchema = z.object({
+  company: z.object({
+    ticker: z.string(),
+    name: z.string(),
+  }),
+  axis: z.enum(['business', 'geographic', 'product']),
+  frequency: z.enum(['annual', 'quarterly']),
+  segments: z.array(z.object({
+    member: z.string(), // Domain member QName
+    label: z.string(),
+  })),
+  series: z.array(z.object({
+    concept: z.string(),
+    label: z.string(),
+    unit: z.string(),
+    periods: z.array(z.object({
+      periodStart: z.string().datetime(),
+      periodEnd: z.string().datetime(),
+      fiscalYear: z.number(),
+      fiscalPeriod: z.string(),
+      values: z.record(z.string(), z.number()), // Member -> value
+      total: z.number(),
+      derived: z.boolean(),
+    })),
+  })),
+});
+
+const StatementCellSchema = z.object({
+  value: z.number().nullable(),
+  source: z.enum(['reported', 'derived', 'computed']).optional(),
+});
+
+type StatementLineShape = {
+  key: string;
+  label: string;
+  kind: 'item' | 'subtotal' | 'total';
+  concept?: string | undefined;
+  values: z.infer<typeof StatementCellSchema>[];
+  children?: StatementLineShape[] | undefined;
+};
+
+const StatementLineSchema: z.ZodType<StatementLineShape> = z.lazy(() => z.object({
+  key: z.string(),
+  label: z.string(),
+  kind: z.enum(['item', 'subtotal', 'total']),
+  concept: z.string().optional(),
+  values: z.array(StatementCellSchema), // One per period, newest first
+  children: z.array(StatementLineSchema).optional(),
+}));
+
+export const FinancialStatementSchema = z.object({
+  company: z.object({
+    ticker: z.string(),
+    name: z.string(),
+  }),
+  statement: z.enum(['income', 'balance', 'cashflow']),
+  frequency: z.enum(['annual', 'quarterly']),
+  unit: z.string(), // Reporting currency of monetary lines
+  periods: z.array(z.object({
+    periodStart: z.string().datetime().optional(),
+    periodEnd: z.string().datetime(),
+    fiscalYear: z.number(),
+    fiscalPeriod: z.string(),
+  })),
+  lines: z.array(StatementLineSchema),
+  splitAdjusted: z.boolean().optional(),
+  asOf: z.string().optional(), // Values as known on this date
+});
+
+export const QuarantinedFactSchema = z.object({
+  id: z.string(),
+  company: z.object({
+    ticker: z.string(),
+    name: z.string(),
+  }),
+  concept: z.string(),
+  periodStart: z.string().datetime().optional(),
+  periodEnd: z.string().datetime(),
+  fiscalYear: z.number(),
+  fiscalPeriod: z.string(),
+  value: z.number(), // As filed
+  unit: z.string(),
+  filingAccession: z.string(),
+  form: z.string(),
+  reason: z.enum(['scale_jump', 'sign_flip', 'outlier']),
+  expected: z.number().optional(), // Likely correct value, when one can be inferred
+  message: z.string(),
+  status: z.enum(['pending', 'approved', 'rejected']),
+  reviewedAt: z.string().datetime().optional(),
+  createdAt: z.string().datetime(),
+});
+
+const IngestionErrorCategorySchema = z.enum(['provider_error', 'rate_limit', 'parse_error', 'db_error', 'unknown']);
+
+export const FailedIngestionSchema = z.object({
+  id: z.string(),
+  jobId: z.string(),
+  cik: z.string(),
+  ticker: z.string(),
+  force: z.boolean(),
+  category: IngestionErrorCategorySchema,
+  provider: z.string().optional(),
+  code: z.string().optional(),
+  statusCode: z.number().optional(),
+  message: z.string(),
+  stack: z.string().optional(), // Only when inspecting a single failure
+  attempts: z.number(),
+  status: z.enum(['open', 'retried', 'discarded']),
+  retryJobId: z.string().optional(),
+  failedAt: z.string().datetime(),
+  resolvedAt: z.string().datetime().optional(),
+});
+
+export const RefreshScheduleSchema = z.object({
+  schedules: z.array(z.object({
+    pattern: z.string(), // Cron pattern
+    nextRunAt: z.string().datetime().optional(),
+  })),
+  nextRunAt: z.string().datetime().optional(),
+  lastRun: z.object({
+    status: z.enum(['completed', 'failed']),
+    startedAt: z.string().datetime().optional(),
+    finishedAt: z.string().datetime().optional(),
+    companies: z.number().optional(),
+    enqueued: z.number().optional(),
+    byReason: z.object({
+      new_filing: z.number(),
+      quarter_end: z.number(),
+      stale: z.number(),
+    }).optional(),
+    feedError: z.string().optional(),
+    error: z.string().optional(),
+  }).optional(),
+  ingestQueue: z.record(z.number()), // Job counts by state
+});
+
 export const JobStatusSchema = z.object({
   id: z.string(),
   status: z.enum(['waiting', 'active', 'completed', 'failed']),
@@ -71,6 +267,24 @@ export const JobStatusSchema = z.object({
   processedAt: z.string().datetime().optional(),
 });
 
+export const BatchRefreshStatusSchema = z.object({
+  batchId: z.string(),
+  status: z.enum(['queued', 'running', 'completed', 'completed_with_failures']),
+  total: z.number(),
+  completed: z.number(),
+  failed: z.number(),
+  pending: z.number(),
+  progress: z.number().min(0).max(100),
+  metricsIngested: z.number(), // Across completed companies
+  failures: z.array(z.object({
+    cik: z.string(),
+    ticker: z.string(),
+    error: z.string(),
+  })),
+  createdAt: z.string().datetime(),
+  finishedAt: z.string().datetime().optional(),
+});
+
 export const ApiErrorSchema = z.object({
   error: z.object({
     code: z.string(),
@@ -82,6 +296,9 @@ export const ApiErrorSchema = z.object({
 });
 
 // Request schemas
+const CurrencyQuerySchema = z.string().regex(/^[A-Za-z]{3}$/, 'Expected an ISO 4217 currency code')
+  .transform(currency => currency.toUpperCase());
+
 export const CompanySearchQuerySchema = z.object({
   q: z.string().min(1).max(100),
   limit: z.coerce.number().min(1).max(20).default(10),
@@ -90,14 +307,72 @@ export const CompanySearchQuerySchema = z.object({
 export const OverviewQuerySchema = z.object({
   range: z.enum(['1y', '2y', '3y', '5y']).default('3y'),
   refresh: z.coerce.boolean().default(false),
+  currency: CurrencyQuerySchema.optional(), // Convert monetary values; defaults to the reporting currency
 });
 
+// Date parsing rolls 2023-02-30 over to March 2, so the date must read back unchanged
+const DateQuerySchema = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date')
+  .refine(date => {
+    const parsed = new Date(`${date}T00:00:00Z`);
+    return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === date;
+  }, 'Expected a calendar date');
+
 export const MetricQuerySchema = z.object({
   concept: z.string(),
-  frequency: z.enum(['quarterly', 'annual', 'all']).default('quarterly'),
+  frequency: z.enum(['quarterly', 'annual', 'all', 'ttm']).default('quarterly'),
+  basis: z.enum(['discrete', 'ytd']).default('discrete'),
   range: z.enum(['1y', '2y', '3y', '5y', '10y']).default('3y'),
   start_date: z.string().datetime().optional(),
   end_date: z.string().datetime().optional(),
+  currency: CurrencyQuerySchema.optional(), // Convert monetary values; defaults to the reporting currency
+  asOf: DateQuerySchema.optional(), // Only values filed on or before this date
+});
+
+export const RestatementQuerySchema = z.object({
+  concept: z.string().optional(),
+  range: z.enum(['1y', '2y', '3y', '5y', '10y']).default('5y'),
+});
+
+export const FilingsQuerySchema = z.object({
+  form: z.string().optional() // Comma-separated form types, e.g. 10-K,10-Q
+    .transform(forms => forms?.split(',').map(form => form.trim().toUpperCase()).filter(Boolean)),
+  from: DateQuerySchema.optional(), // Filing date, inclusive
+  to: DateQuerySchema.optional(),
+  limit: z.coerce.number().min(1).max(200).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export const SegmentQuerySchema = z.object({
+  axis: z.enum(['business', 'geographic', 'product']).default('business'),
+  frequency: z.enum(['annual', 'quarterly']).default('annual'),
+  range: z.enum(['1y', '2y', '3y', '5y', '10y']).default('5y'),
+});
+
+export const StatementQuerySchema = z.object({
+  frequency: z.enum(['annual', 'quarterly']).default('annual'),
+  periods: z.coerce.number().min(1).max(20).default(5),
+  asOf: DateQuerySchema.optional(), // Only values filed on or before this date
+});
+
+export const RatioQuerySchema = z.object({
+  periods: z.coerce.number().min(1).max(20).default(8),
+  asOf: DateQuerySchema.optional(), // Only values filed on or before this date
+});
+
+export const QuarantineQuerySchema = z.object({
+  status: z.enum(['pending', 'approved', 'rejected']).default('pending'),
+  ticker: z.string().optional(),
+  limit: z.coerce.number().min(1).max(200).default(50),
+  offset: z.coerce.number().min(0).default(0),
+});
+
+export const DeadLetterQuerySchema = z.object({
+  status: z.enum(['open', 'retried', 'discarded']).default('open'),
+  category: IngestionErrorCategorySchema.optional(),
+  ticker: z.string().optional(),
+  limit: z.coerce.number().min(1).max(200).default(50),
+  offset: z.coerce.number().min(0).default(0),
 });
 
 export const RefreshRequestSchema = z.object({
@@ -105,42 +380,123 @@ export const RefreshRequestSchema = z.object({
   concepts: z.array(z.string()).optional(),
 });
 
+export const BatchRefreshRequestSchema = z.object({
+  tickers: z.array(z.string().min(1).max(10)).min(1).max(1000).optional(),
+  sector: z.string().min(1).optional(), // Every stored company in the sector
+  force: z.boolean().default(false), // Not coerced: the string "false" would force every refresh
+}).refine(body => (body.tickers === undefined) !== (body.sector === undefined), {
+  message: 'Provide either tickers or sector',
+});
+
+// Screener: every filter must hold; metrics are catalog concepts or ratio keys
+const ScreenMetricSchema = z.string().refine(isScreenMetric, { message: 'Unknown metric' });
+
+const hasBound = (filter: { min?: number | undefined; max?: number | undefined }) =>
+  filter.min !== undefined || filter.max !== undefined;
+
+export const ScreenFilterSchema = z.union([
+  z.object({
+    metric: ScreenMetricSchema,
+    op: z.enum(['gt', 'gte', 'lt', 'lte', 'eq', 'ne']),
+    value: z.number(),
+  }),
+  z.object({
+    metric: ScreenMetricSchema,
+    op: z.literal('between'),
+    min: z.number(),
+    max: z.number(),
+  }),
+  z.object({
+    metric: ScreenMetricSchema,
+    op: z.literal('percentile'),
+    within: z.enum(['sector', 'industry', 'all']).default('sector'),
+    min: z.number().min(0).max(100).optional(),
+    max: z.number().min(0).max(100).optional(),
+  }).refine(hasBound, { message: 'Provide min or max' }),
+  z.object({
+    metric: ScreenMetricSchema,
+    op: z.literal('growth'),
+    periods: z.number().int().min(1).max(12).default(4), // Percent change over this many periods
+    min: z.number().optional(),
+    max: z.number().optional(),
+  }).refine(hasBound, { message: 'Provide min or max' }),
+]);
+
+export const ScreenRequestSchema = z.object({
+  universe: z.object({
+    sector: z.string().min(1).optional(),
+    industry: z.string().min(1).optional(),
+    tickers: z.array(z.string().min(1).max(10)).min(1).max(1000).optional(),
+  }).optional(),
+  filters: z.array(ScreenFilterSchema).min(1).max(20),
+  columns: z.array(ScreenMetricSchema).max(30).optional(), // Extra metrics to return alongside the filtered ones
+  sort: z.object({
+    by: z.union([z.enum(['ticker', 'name']), ScreenMetricSchema]),
+    direction: z.enum(['asc', 'desc']).default('desc'),
+  }).optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+  offset: z.number().int().min(0).default(0),
+});
+
+// Watchlists and saved screens, scoped to the X-User-Id header
+export const WatchlistRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  tickers: z.array(z.string().min(1).max(10)).min(1).max(100),
+});
+
+export const WatchlistRefreshRequestSchema = z.object({
+  force: z.boolean().default(false),
+});
+
+export const WatchlistExportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+export const SavedScreenRequestSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+  definition: ScreenRequestSchema.omit({ limit: true, offset: true }),
+});
+
+export const SavedScreenRunRequestSchema = ScreenRequestSchema.pick({ limit: true, offset: true });
+
 // Type exports
 export type CompanySearchResult = z.infer<typeof CompanySearchResultSchema>;
 export type MetricOverview = z.infer<typeof MetricOverviewSchema>;
 export type CompanyOverview = z.infer<typeof CompanyOverviewSchema>;
 export type MetricTimeSeries = z.infer<typeof MetricTimeSeriesSchema>;
+export type RestatementDiff = z.infer<typeof RestatementDiffSchema>;
+export type Filing = z.infer<typeof FilingSchema>;
+export type DataQualityFlag = z.infer<typeof DataQualityFlagSchema>;
+export type SegmentBreakdown = z.infer<typeof SegmentBreakdownSchema>;
+export type FinancialStatement = z.infer<typeof FinancialStatementSchema>;
+export type QuarantinedFact = z.infer<typeof QuarantinedFactSchema>;
+export type FailedIngestion = z.infer<typeof FailedIngestionSchema>;
+export type RefreshSchedule = z.infer<typeof RefreshScheduleSchema>;
 export type JobStatus = z.infer<typeof JobStatusSchema>;
+export type BatchRefreshStatus = z.infer<typeof BatchRefreshStatusSchema>;
 export type ApiError = z.infer<typeof ApiErrorSchema>;
 
 export type CompanySearchQuery = z.infer<typeof CompanySearchQuerySchema>;
 export type OverviewQuery = z.infer<typeof OverviewQuerySchema>;
 export type MetricQuery = z.infer<typeof MetricQuerySchema>;
+export type RestatementQuery = z.infer<typeof RestatementQuerySchema>;
+export type FilingsQuery = z.infer<typeof FilingsQuerySchema>;
+export type SegmentQuery = z.infer<typeof SegmentQuerySchema>;
+export type StatementQuery = z.infer<typeof StatementQuerySchema>;
+export type RatioQuery = z.infer<typeof RatioQuerySchema>;
+export type QuarantineQuery = z.infer<typeof QuarantineQuerySchema>;
+export type DeadLetterQuery = z.infer<typeof DeadLetterQuerySchema>;
 export type RefreshRequest = z.infer<typeof RefreshRequestSchema>;
+export type BatchRefreshRequest = z.infer<typeof BatchRefreshRequestSchema>;
+export type ScreenRequest = z.infer<typeof ScreenRequestSchema>;
+export type WatchlistRequest = z.infer<typeof WatchlistRequestSchema>;
+export type WatchlistRefreshRequest = z.infer<typeof WatchlistRefreshRequestSchema>;
+export type WatchlistExportQuery = z.infer<typeof WatchlistExportQuerySchema>;
+export type SavedScreenRequest = z.infer<typeof SavedScreenRequestSchema>;
+export type SavedScreenRunRequest = z.infer<typeof SavedScreenRunRequestSchema>;
+
+// Financial concepts with labels, sourced from the concept catalog
+export const FINANCIAL_CONCEPTS = getConceptLabels();
 
-// Common financial concepts with labels
-export const FINANCIAL_CONCEPTS = {
-  // Income Statement
-  'Revenues': 'Revenue',
-  'CostOfRevenue': 'Cost of Revenue',
-  'GrossProfit': 'Gross Profit',
-  'OperatingIncomeLoss': 'Operating Income',
-  'NetIncomeLoss': 'Net Income',
-  'EarningsPerShareDiluted': 'Earnings Per Share (Diluted)',
-  
-  // Balance Sheet
-  'Assets': 'Total Assets',
-  'AssetsCurrent': 'Current Assets',
-  'Liabilities': 'Total Liabilities',
-  'LiabilitiesCurrent': 'Current Liabilities',
-  'StockholdersEquity': 'Stockholders Equity',
-  'CashAndCashEquivalentsAtCarryingValue': 'Cash and Cash Equivalents',
-  'LongTermDebtNoncurrent': 'Long-term Debt',
-  
-  // Cash Flow
-  'NetCashProvidedByUsedInOperatingActivities': 'Operating Cash Flow',
-  'NetCashProvidedByUsedInInvestingActivities': 'Investing Cash Flow',
-  'NetCashProvidedByUsedInFinancingActivities': 'Financing Cash Flow',
-} as const;
-
-export type FinancialConcept = keyof typeof FINANCIAL_CONCEPTS;
\ No newline at end of file
+export type FinancialConcept = keyof typeof FINANCIAL_CONCEPTS;
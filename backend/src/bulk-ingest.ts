@@ -0,0 +1,62 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { SECBulkArchiveProvider } from './providers';
+import { BulkIngestionService } from './services/bulkIngestion';
+import { listConcepts } from './lib/concept-catalog';
+
+// Usage: npm run ingest:bulk -- --companyfacts ./data/companyfacts.zip
+//   [--submissions ./data/submissions.zip] [--progress ./data/bulk-progress.json]
+//   [--checkpoint-interval 25] [--limit 100]
+
+const prisma = new PrismaClient();
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const companyFactsPath = getArg('companyfacts');
+  if (!companyFactsPath) {
+    throw new Error('--companyfacts <path to companyfacts.zip> is required');
+  }
+
+  const submissionsPath = getArg('submissions');
+  const provider = new SECBulkArchiveProvider({
+    companyFactsPath,
+    ...(submissionsPath && { submissionsPath }),
+  });
+  const service = new BulkIngestionService(prisma, provider);
+
+  console.log(`Starting bulk ingestion from ${companyFactsPath}...`);
+
+  const progressFile = getArg('progress');
+  const checkpointInterval = getArg('checkpoint-interval');
+  const limit = getArg('limit');
+
+  try {
+    const report = await service.run({
+      ...(progressFile && { progressFile }),
+      ...(checkpointInterval && { checkpointInterval: parseInt(checkpointInterval) }),
+      ...(limit && { limit: parseInt(limit) }),
+      concepts: listConcepts(),
+      onProgress: (progress) => {
+        console.log(
+          `Progress: ${progress.completed.length} stored, ${Object.keys(progress.skipped).length} skipped, ` +
+          `${Object.keys(progress.failed).length} failed, ${progress.metricsIngested} metrics`
+        );
+      },
+    });
+
+    console.log('✅ Bulk ingestion finished');
+    console.log(JSON.stringify(report, null, 2));
+  } finally {
+    await provider.close();
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Bulk ingestion failed:', error);
+  process.exit(1);
+});
\ No newline at end of file
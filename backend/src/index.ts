@@ -7,6 +7,17 @@ import { connectRedis, cache } from './lib/redis';
 import { createDefaultProvider } from './providers';
 import { createCompaniesRouter } from './api/routes/companies';
 import { createMetricsRouter } from './api/routes/metrics';
+import { createRestatementsRouter } from './api/routes/restatements';
+import { createFilingsRouter } from './api/routes/filings';
+import { createSegmentsRouter } from './api/routes/segments';
+import { createStatementsRouter } from './api/routes/statements';
+import { createRatiosRouter } from './api/routes/ratios';
+import { createAdminRouter } from './api/routes/admin';
+import { createRefreshRouter } from './api/routes/refresh';
+import { createScreenerRouter } from './api/routes/screener';
+import { createScreensRouter } from './api/routes/screens';
+import { createWatchlistsRouter } from './api/routes/watchlists';
+import { listConcepts } from './lib/concept-catalog';
 // import enhancedRoutes from './routes/enhanced'; // Temporarily disabled
 import { 
   requestLogger, 
@@ -90,6 +101,16 @@ async function createApp() {
   // API routes
   app.use('/api/companies', createCompaniesRouter(prisma, provider));
   app.use('/api/companies', createMetricsRouter(prisma));
+  app.use('/api/companies', createRestatementsRouter(prisma));
+  app.use('/api/companies', createFilingsRouter(prisma));
+  app.use('/api/companies', createSegmentsRouter(prisma));
+  app.use('/api/companies', createStatementsRouter(prisma));
+  app.use('/api/companies', createRatiosRouter(prisma));
+  app.use('/api/refresh', createRefreshRouter(prisma));
+  app.use('/api/screener', createScreenerRouter(prisma));
+  app.use('/api/screens', createScreensRouter(prisma));
+  app.use('/api/watchlists', createWatchlistsRouter(prisma));
+  app.use('/api/admin', createAdminRouter(prisma));
   // app.use('/api', enhancedRoutes); // Temporarily disabled
 
   // API documentation endpoint
@@ -105,27 +126,44 @@ async function createApp() {
         'GET /api/companies/:ticker/overview': 'Get company dashboard data',
         'POST /api/companies/:ticker/refresh': 'Queue data refresh',
         'GET /api/companies/:ticker/refresh/:jobId': 'Check refresh status',
+        'POST /api/refresh/batch': 'Queue data refresh for a list of tickers or a sector',
+        'GET /api/refresh/batch/:batchId': 'Check batch refresh progress and per-company failures',
         'GET /api/companies/:ticker/metrics/:concept': 'Get metric time series',
         'GET /api/companies/:ticker/metrics/:concept/peers': 'Get peer comparison',
-        'GET /api/companies/:ticker/ratios': 'Get financial ratios and calculated metrics',
+        'GET /api/companies/:ticker/restatements': 'Get prior-period values changed by later filings',
+        'GET /api/companies/:ticker/filings': 'List SEC filings with form type and date filters',
+        'GET /api/companies/:ticker/segments': 'Get revenue and operating income by business, geographic or product segment',
+        'GET /api/companies/:ticker/statements/:statement': 'Get a standardized income, balance or cashflow statement across periods',
+        'GET /api/companies/:ticker/ratios': 'Get financial ratios calculated from stored filings, optionally as of a past date',
         'GET /api/companies/:ticker/performance': 'Get comprehensive performance metrics and trends',
         'GET /api/companies/:ticker/price': 'Get real-time stock price',
         // Removed technical indicators - focusing on fundamental analysis only
         'GET /api/companies/:ticker/peers': 'Get peer companies for comparison',
+        'POST /api/screener': 'Screen stored companies by metrics, ratios, sector percentiles and growth',
+        'GET /api/screens': 'List saved screens (requires a proxy-set X-User-Id)',
+        'POST /api/screens': 'Save a screener definition (requires a proxy-set X-User-Id)',
+        'GET|PUT|DELETE /api/screens/:id': 'Read, replace or delete a saved screen (requires a proxy-set X-User-Id)',
+        'POST /api/screens/:id/run': 'Re-run a saved screen against current data (requires a proxy-set X-User-Id)',
+        'GET /api/watchlists': 'List watchlists (requires a proxy-set X-User-Id)',
+        'POST /api/watchlists': 'Create a watchlist of tickers (requires a proxy-set X-User-Id)',
+        'GET|PUT|DELETE /api/watchlists/:id': 'Read, replace or delete a watchlist (requires a proxy-set X-User-Id)',
+        'POST /api/watchlists/:id/refresh': 'Queue a batch refresh of the watchlist (requires a proxy-set X-User-Id)',
+        'GET /api/watchlists/:id/export': 'Export financial data for the watchlist as CSV or JSON (requires a proxy-set X-User-Id)',
+        'GET /api/watchlists/:id/compare': 'Compare the 2-5 companies in the watchlist (requires a proxy-set X-User-Id)',
         'GET /api/companies/:ticker/export': 'Export financial data (CSV, Excel, PDF, JSON)',
         'GET /api/providers/status': 'Get data provider health and capabilities',
+        'GET /api/admin/quarantine': 'List facts held back as likely scale or sign errors (requires X-Admin-Token)',
+        'POST /api/admin/quarantine/:id/approve': 'Store a quarantined fact as filed (requires X-Admin-Token)',
+        'POST /api/admin/quarantine/:id/reject': 'Discard a quarantined fact (requires X-Admin-Token)',
+        'GET /api/admin/dead-letters': 'List ingestion jobs that failed every retry, by error category (requires X-Admin-Token)',
+        'GET /api/admin/dead-letters/:id': 'Inspect a failed ingestion (requires X-Admin-Token)',
+        'POST /api/admin/dead-letters/:id/retry': 'Queue a failed ingestion again (requires X-Admin-Token)',
+        'POST /api/admin/dead-letters/:id/discard': 'Close a failed ingestion without retrying (requires X-Admin-Token)',
+        'GET /api/admin/schedule': 'Scheduled refresh state and next run times (requires X-Admin-Token)',
       },
       concepts: {
         description: 'Supported financial concepts',
-        list: [
-          'Revenues',
-          'NetIncomeLoss', 
-          'CashAndCashEquivalentsAtCarryingValue',
-          'LongTermDebtNoncurrent',
-          'Assets',
-          'Liabilities',
-          'StockholdersEquity',
-        ],
+        list: listConcepts(),
       },
       rateLimit: {
         global: '500 requests per minute',
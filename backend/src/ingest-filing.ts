@@ -0,0 +1,46 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { SECInlineXBRLProvider } from './providers';
+import { IngestionService } from './services/ingestion';
+
+// Usage: npm run ingest:filing -- ./data/000032019323000106/aapl-20230930.htm [more files...]
+//   [--accession 0000320193-23-000106] [--filed 2023-11-03]
+// The accession is read from the file's EDGAR path or name when not given
+
+const prisma = new PrismaClient();
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const files = process.argv.slice(2).filter((arg, i, args) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+  if (files.length === 0) {
+    throw new Error('At least one inline XBRL document is required');
+  }
+
+  const accession = getArg('accession');
+  const filed = getArg('filed');
+  const provider = new SECInlineXBRLProvider({
+    files,
+    ...(accession && { accession }),
+    ...(filed && { filed: new Date(filed) }),
+  });
+  const ingestionService = new IngestionService(prisma, provider);
+
+  try {
+    for (const cik of await provider.listCiks()) {
+      const result = await ingestionService.storeFinancialData(await provider.getFinancialData(cik));
+      console.log(`✅ Stored ${result.metricsIngested} metrics for ${result.ticker} (${cik})`
+        + (result.segmentFactsIngested ? `, ${result.segmentFactsIngested} segment facts` : ''));
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Filing ingestion failed:', error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { detectAnomalies } from './anomaly-detection';
+import type { AnomalyFact } from './anomaly-detection';
+
+function annual(concept: string, fiscalYear: number, value: number, accession = `0000123456-${fiscalYear + 1 - 2000}-000010`): AnomalyFact {
+  return {
+    concept,
+    value,
+    periodStart: new Date(`${fiscalYear}-01-01`),
+    periodEnd: new Date(`${fiscalYear}-12-31`),
+    filingAccession: accession,
+  };
+}
+
+function instant(concept: string, fiscalYear: number, value: number): AnomalyFact {
+  return { ...annual(concept, fiscalYear, value), periodStart: null };
+}
+
+describe('anomaly-detection', () => {
+  it('should flag thousands and millions scale jumps against nearby periods', () => {
+    const history = [
+      annual('Revenues', 2020, 52_000_000),
+      annual('Revenues', 2021, 55_000_000),
+      annual('Revenues', 2022, 61_000_000),
+      annual('Revenues', 2008, 40_000), // Outside the comparison window
+    ];
+    const anomalies = detectAnomalies([
+      annual('Revenues', 2023, 64_000_000_000),
+      annual('NetIncomeLoss', 2023, 5_000_000),
+    ], history);
+
+    expect(anomalies).toHaveLength(1);
+    expect(anomalies[0]).toMatchObject({ reason: 'scale_jump', expected: 64_000_000 });
+    expect(anomalies[0]!.fact.concept).toBe('Revenues');
+
+    const [smaller] = detectAnomalies([annual('Revenues', 2023, 64)], history);
+    expect(smaller).toMatchObject({ reason: 'scale_jump', expected: 64_000_000 });
+  });
+
+  it('should flag sign flips but not losses', () => {
+    const history = [
+      instant('Assets', 2021, 900_000),
+      instant('Assets', 2022, 1_000_000),
+      annual('NetIncomeLoss', 2021, 80_000),
+      annual('NetIncomeLoss', 2022, 75_000),
+    ];
+    const anomalies = detectAnomalies([
+      { ...instant('Assets', 2022, -1_000_000), filingAccession: '0000123456-24-000010' }, // Comparative period
+      instant('Assets', 2023, -1_100_000),
+      annual('NetIncomeLoss', 2023, -20_000),
+    ], history);
+
+    expect(anomalies.map(anomaly => [anomaly.reason, anomaly.expected])).toEqual([
+      ['sign_flip', 1_000_000],
+      ['sign_flip', 1_100_000],
+    ]);
+  });
+
+  it('should flag outliers from a steady history and ignore the fact\'s own filing', () => {
+    const history = [
+      annual('CostOfRevenue', 2021, 30_000_000),
+      annual('CostOfRevenue', 2022, 32_000_000),
+    ];
+    const anomalies = detectAnomalies([
+      annual('CostOfRevenue', 2023, 5_000_000_000, '0000123456-24-000010'),
+      // Comparative years in the same filing share its scale and are not history
+      annual('CostOfRevenue', 2022, 4_800_000_000, '0000123456-24-000010'),
+    ], history);
+
+    expect(anomalies.map(anomaly => anomaly.reason)).toEqual(['outlier', 'outlier']);
+    expect(anomalies[0]!.message).toBe('Value is 161x the median of nearby periods');
+  });
+
+  it('should fall back to peers when the company has no history', () => {
+    const peers = new Map([['Assets', [2e9, 15e9, 300e9]]]);
+
+    expect(detectAnomalies([instant('Assets', 2023, 4e9)], [], peers)).toEqual([]);
+    expect(detectAnomalies([instant('Assets', 2023, 4e15)], [], peers)[0]).toMatchObject({
+      reason: 'scale_jump',
+      expected: 4e9,
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,208 @@
+/**
+ * Anomaly screening for incoming XBRL facts.
+ *
+ * Filers occasionally tag a value with the wrong scale (thousands reported as
+ * units) or the wrong sign, and companyfacts passes the error through
+ * unchanged. Each new fact is compared with the same concept in nearby periods
+ * from the company's other filings and, when the company has no usable
+ * history, with the latest values of its SIC peers. Suspect facts are held
+ * back for review instead of being stored.
+ */
+
+import { getDurationMonths } from './period-normalizer';
+
+export type AnomalyReason = 'scale_jump' | 'sign_flip' | 'outlier';
+
+export interface AnomalyFact {
+  concept: string;
+  value: number;
+  periodStart?: Date | null | undefined;
+  periodEnd: Date;
+  filingAccession: string;
+}
+
+export interface Anomaly<T extends AnomalyFact = AnomalyFact> {
+  fact: T;
+  reason: AnomalyReason;
+  expected: number | null; // Likely correct value, when one can be inferred
+  message: string;
+}
+
+// Concepts that cannot be negative; a negative value is a sign error unless the
+// company has reported negatives for the concept before
+export const NON_NEGATIVE_CONCEPTS = [
+  'Revenues',
+  'CostOfRevenue',
+  'Assets',
+  'AssetsCurrent',
+  'CashAndCashEquivalentsAtCarryingValue',
+  'ShortTermInvestments',
+  'AccountsReceivableNetCurrent',
+  'InventoryNet',
+  'PropertyPlantAndEquipmentNet',
+  'Goodwill',
+  'Liabilities',
+  'LiabilitiesCurrent',
+  'AccountsPayableCurrent',
+  'LongTermDebtCurrent',
+  'LongTermDebtNoncurrent',
+  'CommonStockSharesOutstanding',
+  'WeightedAverageNumberOfSharesOutstandingBasic',
+  'WeightedAverageNumberOfDilutedSharesOutstanding',
+];
+
+// History within this many years of a period is "nearby"; long histories grow
+// by orders of magnitude, so distant periods say little about scale
+const HISTORY_WINDOW_YEARS = 3;
+const MIN_HISTORY = 2;
+const MIN_PEERS = 3;
+
+// A jump within a factor of ~3 of 1,000x or 1,000,000x reads as a scale error
+const SCALE_TOLERANCE = 0.5; // log10
+// Otherwise, a 100x move away from a steady history is an outlier
+const OUTLIER_RATIO = 100;
+const STEADY_HISTORY_SPREAD = 10;
+const SIGN_TOLERANCE = 0.03;
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Screen candidate facts against the company's stored history and its peers.
+ * Other candidates count as history too, so a first ingestion is screened
+ * against itself, but never facts from the candidate's own filing: a
+ * mis-scaled filing is mis-scaled throughout.
+ *
+ * @param peers Latest peer values per concept
+ */
+export function detectAnomalies<T extends AnomalyFact>(
+  candidates: T[],
+  history: AnomalyFact[],
+  peers: Map<string, number[]> = new Map()
+): Array<Anomaly<T>> {
+  const byConcept = new Map<string, AnomalyFact[]>();
+  for (const fact of [...history, ...candidates]) {
+    byConcept.set(fact.concept, [...(byConcept.get(fact.concept) || []), fact]);
+  }
+
+  const anomalies: Array<Anomaly<T>> = [];
+  for (const fact of candidates) {
+    if (fact.value === 0) continue;
+
+    const nearby = (byConcept.get(fact.concept) || []).filter(other =>
+      other.filingAccession !== fact.filingAccession &&
+      other.value !== 0 &&
+      durationMonths(other) === durationMonths(fact) &&
+      Math.abs(other.periodEnd.getTime() - fact.periodEnd.getTime()) <= HISTORY_WINDOW_YEARS * YEAR_MS
+    );
+
+    const anomaly = checkSign(fact, nearby) ??
+      (nearby.length >= MIN_HISTORY
+        ? checkHistory(fact, nearby.map(other => Math.abs(other.value)))
+        : checkPeers(fact, peers.get(fact.concept) || []));
+    if (anomaly) anomalies.push(anomaly);
+  }
+
+  return anomalies;
+}
+
+function checkSign<T extends AnomalyFact>(fact: T, nearby: AnomalyFact[]): Anomaly<T> | null {
+  // The same period re-reported with its sign reversed
+  const mirrored = nearby.find(other =>
+    isSamePeriod(other, fact) &&
+    Math.sign(other.value) !== Math.sign(fact.value) &&
+    Math.abs(Math.abs(fact.value) - Math.abs(other.value)) <= Math.abs(other.value) * SIGN_TOLERANCE
+  );
+  if (mirrored) {
+    return {
+      fact,
+      reason: 'sign_flip',
+      expected: mirrored.value,
+      message: 'Sign is the reverse of the value previously reported for this period',
+    };
+  }
+
+  if (fact.value < 0 && NON_NEGATIVE_CONCEPTS.includes(fact.concept) && nearby.every(other => other.value > 0)) {
+    return {
+      fact,
+      reason: 'sign_flip',
+      expected: -fact.value,
+      message: `${fact.concept} cannot be negative`,
+    };
+  }
+
+  return null;
+}
+
+function checkHistory<T extends AnomalyFact>(fact: T, magnitudes: number[]): Anomaly<T> | null {
+  const typical = median(magnitudes);
+  const ratio = Math.abs(fact.value) / typical;
+
+  const scale = toScaleExponent(ratio);
+  if (scale !== null) {
+    return {
+      fact,
+      reason: 'scale_jump',
+      expected: fact.value / 10 ** scale,
+      message: `Value is ${formatFactor(scale)} ${scale > 0 ? 'larger' : 'smaller'} than nearby periods (likely a scale error)`,
+    };
+  }
+
+  const steady = Math.max(...magnitudes) / Math.min(...magnitudes) <= STEADY_HISTORY_SPREAD;
+  if (steady && (ratio >= OUTLIER_RATIO || ratio <= 1 / OUTLIER_RATIO)) {
+    return {
+      fact,
+      reason: 'outlier',
+      expected: Math.sign(fact.value) * typical,
+      message: ratio > 1
+        ? `Value is ${Math.round(ratio).toLocaleString('en-US')}x the median of nearby periods`
+        : `Value is 1/${Math.round(1 / ratio).toLocaleString('en-US')} of the median of nearby periods`,
+    };
+  }
+
+  return null;
+}
+
+// Peers legitimately differ in size by orders of magnitude, so only a value
+// beyond the whole peer range by a scale step is suspect
+function checkPeers<T extends AnomalyFact>(fact: T, peerValues: number[]): Anomaly<T> | null {
+  const magnitudes = peerValues.map(Math.abs).filter(value => value > 0);
+  if (magnitudes.length < MIN_PEERS) return null;
+
+  const magnitude = Math.abs(fact.value);
+  const largest = Math.max(...magnitudes);
+  const smallest = Math.min(...magnitudes);
+  if (magnitude < largest * 1000 && magnitude > smallest / 1000) return null;
+
+  const exponent = 3 * Math.round(Math.log10(magnitude / median(magnitudes)) / 3);
+  return {
+    fact,
+    reason: 'scale_jump',
+    expected: exponent !== 0 ? fact.value / 10 ** exponent : null,
+    message: `Value is more than 1,000x ${magnitude > largest ? 'larger than the largest' : 'smaller than the smallest'} peer value (likely a scale error)`,
+  };
+}
+
+// 3 or 6 (or -3, -6) when a ratio is a thousands or millions scale step, else null
+function toScaleExponent(ratio: number): number | null {
+  const exponent = Math.log10(ratio);
+  const steps = Math.round(exponent / 3);
+  if (steps === 0 || Math.abs(steps) > 2) return null;
+  return Math.abs(exponent - steps * 3) <= SCALE_TOLERANCE ? steps * 3 : null;
+}
+
+function formatFactor(exponent: number): string {
+  return Math.abs(exponent) === 6 ? '1,000,000x' : '1,000x';
+}
+
+function durationMonths(fact: AnomalyFact): number {
+  return fact.periodStart ? getDurationMonths(fact.periodStart, fact.periodEnd) : 0;
+}
+
+function isSamePeriod(a: AnomalyFact, b: AnomalyFact): boolean {
+  return a.periodEnd.getTime() === b.periodEnd.getTime() && durationMonths(a) === durationMonths(b);
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1]! + sorted[middle]!) / 2 : sorted[middle]!;
+}
\ No newline at end of file
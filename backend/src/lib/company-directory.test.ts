@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { DirectoryFormatError, parseCompanyTickers, rankDirectoryMatches } from './company-directory';
+
+const directory = parseCompanyTickers({
+  fields: ['cik', 'name', 'ticker', 'exchange'],
+  data: [
+    [320193, 'Apple Inc.', 'AAPL', 'Nasdaq'],
+    [1418135, 'Apple Hospitality REIT, Inc.', 'APLE', 'NYSE'],
+    [6201, 'American Airlines Group Inc.', 'AAL', 'Nasdaq'],
+    [2488, 'ADVANCED MICRO DEVICES INC', 'AMD', 'Nasdaq'],
+    [789019, 'MICROSOFT CORP', 'MSFT', 'Nasdaq'],
+    [1652044, 'Alphabet Inc.', 'GOOGL', 'Nasdaq'],
+    [1652044, 'Alphabet Inc.', 'GOOG', 'Nasdaq'],
+    [1234567, 'No Ticker Co', null, null],
+  ],
+});
+
+const tickers = (query: string, limit = 10) =>
+  rankDirectoryMatches(directory, query, limit).map(match => match.entry.ticker);
+
+describe('company-directory', () => {
+  it('should parse the SEC ticker table and pad CIKs', () => {
+    expect(directory).toHaveLength(7);
+    expect(directory[0]).toEqual({ cik: '0000320193', ticker: 'AAPL', name: 'Apple Inc.', exchange: 'Nasdaq' });
+    expect(() => parseCompanyTickers({ '0': { cik_str: 320193 } })).toThrow(DirectoryFormatError);
+  });
+
+  it('should rank exact ticker above ticker prefix above name matches', () => {
+    expect(tickers('aapl')).toEqual(['AAPL']);
+    expect(tickers('AA')).toEqual(['AAL', 'AAPL']);
+    expect(tickers('apple')).toEqual(['AAPL', 'APLE']);
+    expect(tickers('goog')).toEqual(['GOOG', 'GOOGL']);
+  });
+
+  it('should match name token prefixes, CIKs and single-letter typos', () => {
+    expect(tickers('micro')).toEqual(['AMD', 'MSFT']); // Whole-token match beats a token prefix
+    expect(tickers('advanced micro')).toEqual(['AMD']);
+    expect(tickers('320193')).toEqual(['AAPL']);
+    expect(tickers('alphabt')).toEqual(['GOOG', 'GOOGL']);
+    expect(tickers('inc')).toEqual([]); // Corporate suffixes alone match nothing
+  });
+});
\ No newline at end of file
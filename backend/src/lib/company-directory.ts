@@ -0,0 +1,164 @@
+/**
+ * SEC ticker directory parsing and search ranking.
+ *
+ * company_tickers_exchange.json lists every exchange-traded ticker with its
+ * CIK, so companies can be found before they have ever been ingested. The
+ * file is a table: `{ fields: ['cik', 'name', 'ticker', 'exchange'], data: [...] }`.
+ */
+
+export interface DirectoryEntry {
+  cik: string; // Zero-padded to 10 digits
+  ticker: string;
+  name: string;
+  exchange: string | null;
+}
+
+export interface DirectoryMatch<T extends DirectoryEntry = DirectoryEntry> {
+  entry: T;
+  score: number;
+}
+
+export class DirectoryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DirectoryFormatError';
+  }
+}
+
+// Match tiers: exact ticker > ticker prefix > name tokens > fuzzy name
+const SCORE_EXACT_TICKER = 100;
+const SCORE_EXACT_CIK = 95;
+const SCORE_TICKER_PREFIX = 80;
+const SCORE_NAME_TOKEN = 60;
+const SCORE_NAME_TOKEN_PREFIX = 45;
+const SCORE_NAME_CONTAINS = 30;
+const SCORE_FUZZY_TOKEN = 20;
+const MIN_FUZZY_LENGTH = 4;
+
+// Corporate suffixes that carry no search signal
+const STOP_WORDS = new Set(['inc', 'corp', 'corporation', 'co', 'company', 'ltd', 'plc', 'llc', 'lp', 'sa', 'nv', 'ag', 'the', 'holdings', 'group']);
+
+export function parseCompanyTickers(document: unknown): DirectoryEntry[] {
+  const table = document as { fields?: unknown; data?: unknown };
+  if (!Array.isArray(table?.fields) || !Array.isArray(table?.data)) {
+    throw new DirectoryFormatError('Expected a { fields, data } ticker table');
+  }
+
+  const fields = table.fields.map(String);
+  const cikIndex = fields.indexOf('cik');
+  const nameIndex = fields.indexOf('name');
+  const tickerIndex = fields.indexOf('ticker');
+  const exchangeIndex = fields.indexOf('exchange');
+  if (cikIndex < 0 || nameIndex < 0 || tickerIndex < 0) {
+    throw new DirectoryFormatError('Ticker table is missing cik, name or ticker columns');
+  }
+
+  const entries: DirectoryEntry[] = [];
+  for (const row of table.data as unknown[][]) {
+    const cik = row[cikIndex];
+    const ticker = row[tickerIndex];
+    const name = row[nameIndex];
+    if (cik === null || cik === undefined || !ticker || !name) continue;
+
+    const exchange = exchangeIndex >= 0 ? row[exchangeIndex] : null;
+    entries.push({
+      cik: String(cik).padStart(10, '0'),
+      ticker: String(ticker).toUpperCase(),
+      name: String(name),
+      exchange: exchange ? String(exchange) : null,
+    });
+  }
+
+  return entries;
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token !== '' && !STOP_WORDS.has(token));
+}
+
+/**
+ * Score how well an entry matches a query; 0 means no match
+ */
+export function scoreDirectoryEntry(entry: DirectoryEntry, query: string): number {
+  const q = query.trim();
+  if (!q) return 0;
+
+  const upper = q.toUpperCase();
+  if (entry.ticker === upper) return SCORE_EXACT_TICKER;
+  if (/^\d+$/.test(q) && entry.cik === q.padStart(10, '0')) return SCORE_EXACT_CIK;
+
+  if (entry.ticker.startsWith(upper)) {
+    // Shorter remaining suffix ranks higher (AAP before AAPLW for "AA")
+    return SCORE_TICKER_PREFIX - Math.min(entry.ticker.length - upper.length, 10);
+  }
+
+  const queryTokens = tokenize(q);
+  const nameTokens = tokenize(entry.name);
+  if (queryTokens.length === 0 || nameTokens.length === 0) return 0;
+
+  // Every query token must match some name token; the weakest match sets the tier
+  let tier = SCORE_NAME_TOKEN;
+  for (const token of queryTokens) {
+    if (nameTokens.includes(token)) continue;
+    if (nameTokens.some(nameToken => nameToken.startsWith(token))) {
+      tier = Math.min(tier, SCORE_NAME_TOKEN_PREFIX);
+      continue;
+    }
+    if (token.length >= MIN_FUZZY_LENGTH && nameTokens.some(nameToken => isWithinOneEdit(token, nameToken))) {
+      tier = Math.min(tier, SCORE_FUZZY_TOKEN);
+      continue;
+    }
+    tier = 0;
+    break;
+  }
+
+  if (tier === 0) {
+    return entry.name.toLowerCase().includes(q.toLowerCase()) ? SCORE_NAME_CONTAINS : 0;
+  }
+
+  // Names that begin with the query, and tighter names, rank first within a tier
+  const leading = nameTokens[0] === queryTokens[0] ? 5 : 0;
+  const coverage = queryTokens.length / nameTokens.length;
+  return tier + leading + coverage * 4;
+}
+
+export function rankDirectoryMatches<T extends DirectoryEntry>(
+  entries: T[],
+  query: string,
+  limit = 10
+): DirectoryMatch<T>[] {
+  return entries
+    .map(entry => ({ entry, score: scoreDirectoryEntry(entry, query) }))
+    .filter(match => match.score > 0)
+    .sort((a, b) =>
+      b.score - a.score ||
+      a.entry.ticker.length - b.entry.ticker.length ||
+      a.entry.ticker.localeCompare(b.entry.ticker)
+    )
+    .slice(0, limit);
+}
+
+// One insertion, deletion or substitution apart (typo tolerance)
+function isWithinOneEdit(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) return false;
+
+  let i = 0;
+  let j = 0;
+  let edits = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++;
+      j++;
+      continue;
+    }
+    if (++edits > 1) return false;
+    if (a.length > b.length) i++;
+    else if (a.length < b.length) j++;
+    else { i++; j++; }
+  }
+
+  return edits + (a.length - i) + (b.length - j) <= 1;
+}
\ No newline at end of file
@@ -0,0 +1,205 @@
+/**
+ * Declarative catalog of the concepts we ingest, keyed by us-gaap tag with
+ * the equivalent ifrs-full tags for foreign private issuers.
+ *
+ * The XBRL parser, the API label map and the ingestion worker all read from
+ * this catalog, so adding a line item is a single entry here.
+ */
+
+export type FinancialStatement = 'income' | 'balance' | 'cashflow';
+
+export type PeriodType = 'instant' | 'duration';
+
+// Expected unit family; drives which companyfacts unit buckets we keep
+export type UnitFamily = 'monetary' | 'shares' | 'perShare' | 'pure';
+
+/**
+ * `natural` values carry their own sign (net income can be negative).
+ * `outflow` values are filed as positive magnitudes that reduce their parent
+ * total, e.g. capital expenditures or share repurchases.
+ */
+export type SignConvention = 'natural' | 'outflow';
+
+export type Taxonomy = 'us-gaap' | 'ifrs-full';
+
+export const SUPPORTED_TAXONOMIES: readonly Taxonomy[] = ['us-gaap', 'ifrs-full'];
+
+export interface ConceptDefinition {
+  label: string;
+  statement: FinancialStatement;
+  periodType: PeriodType;
+  unit: UnitFamily;
+  sign: SignConvention;
+  // Alternative us-gaap tags in priority order, used for periods where the
+  // canonical tag was not reported. Only true synonyms: a broader tag (one
+  // including restricted cash or noncontrolling interests) would overstate
+  // the concept
+  aliases?: readonly string[];
+  ifrs?: readonly string[]; // Equivalent ifrs-full tags in priority order
+  dashboard?: boolean; // Shown on the company overview
+}
+
+export type ConceptCatalog = Readonly<Record<string, ConceptDefinition>>;
+
+export const CONCEPT_CATALOG = {
+  // Income Statement (duration)
+  'Revenues': { label: 'Revenue', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', aliases: ['RevenueFromContractWithCustomerExcludingAssessedTax', 'RevenueFromContractWithCustomerIncludingAssessedTax', 'SalesRevenueNet', 'SalesRevenueGoodsNet', 'SalesRevenueServicesNet', 'RevenuesNetOfInterestExpense'], ifrs: ['Revenue', 'RevenueFromContractsWithCustomers'], dashboard: true },
+  'CostOfRevenue': { label: 'Cost of Revenue', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', aliases: ['CostOfGoodsAndServicesSold', 'CostOfGoodsSold', 'CostOfServices'], ifrs: ['CostOfSales'] },
+  'GrossProfit': { label: 'Gross Profit', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['GrossProfit'] },
+  'ResearchAndDevelopmentExpense': { label: 'Research and Development', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['ResearchAndDevelopmentExpense'] },
+  'SellingGeneralAndAdministrativeExpense': { label: 'Selling, General and Administrative', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['SellingGeneralAndAdministrativeExpense'] },
+  'OperatingExpenses': { label: 'Operating Expenses', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['OperatingExpense'] },
+  'OperatingIncomeLoss': { label: 'Operating Income', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['ProfitLossFromOperatingActivities'] },
+  'InterestExpense': { label: 'Interest Expense', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', aliases: ['InterestExpenseNonoperating', 'InterestExpenseDebt'], ifrs: ['InterestExpense', 'FinanceCosts'] },
+  'IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest': { label: 'Pre-tax Income', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', aliases: ['IncomeLossFromContinuingOperationsBeforeIncomeTaxesMinorityInterestAndIncomeLossFromEquityMethodInvestments'], ifrs: ['ProfitLossBeforeTax'] },
+  'IncomeTaxExpenseBenefit': { label: 'Income Tax Expense', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['IncomeTaxExpenseContinuingOperations'] },
+  'NetIncomeLoss': { label: 'Net Income', statement: 'income', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['ProfitLossAttributableToOwnersOfParent'], dashboard: true },
+  'EarningsPerShareBasic': { label: 'Earnings Per Share (Basic)', statement: 'income', periodType: 'duration', unit: 'perShare', sign: 'natural', ifrs: ['BasicEarningsLossPerShare'] },
+  'EarningsPerShareDiluted': { label: 'Earnings Per Share (Diluted)', statement: 'income', periodType: 'duration', unit: 'perShare', sign: 'natural', ifrs: ['DilutedEarningsLossPerShare'] },
+  'WeightedAverageNumberOfSharesOutstandingBasic': { label: 'Weighted Average Shares (Basic)', statement: 'income', periodType: 'duration', unit: 'shares', sign: 'natural', ifrs: ['WeightedAverageShares'] },
+  'WeightedAverageNumberOfDilutedSharesOutstanding': { label: 'Weighted Average Shares (Diluted)', statement: 'income', periodType: 'duration', unit: 'shares', sign: 'natural', ifrs: ['AdjustedWeightedAverageShares'] },
+
+  // Balance Sheet (instant)
+  'Assets': { label: 'Total Assets', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['Assets'] },
+  'AssetsCurrent': { label: 'Current Assets', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['CurrentAssets'] },
+  'CashAndCashEquivalentsAtCarryingValue': { label: 'Cash and Cash Equivalents', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', aliases: ['Cash'], ifrs: ['CashAndCashEquivalents'], dashboard: true },
+  'ShortTermInvestments': { label: 'Short-term Investments', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', aliases: ['MarketableSecuritiesCurrent', 'AvailableForSaleSecuritiesDebtSecuritiesCurrent'], ifrs: ['CurrentFinancialAssetsAtFairValueThroughProfitOrLoss'] },
+  'AccountsReceivableNetCurrent': { label: 'Accounts Receivable', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', aliases: ['ReceivablesNetCurrent'], ifrs: ['TradeAndOtherCurrentReceivables', 'CurrentTradeReceivables'] },
+  'InventoryNet': { label: 'Inventory', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['Inventories'] },
+  'PropertyPlantAndEquipmentNet': { label: 'Property, Plant and Equipment', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['PropertyPlantAndEquipment'] },
+  'Goodwill': { label: 'Goodwill', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['Goodwill'] },
+  'Liabilities': { label: 'Total Liabilities', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['Liabilities'] },
+  'LiabilitiesCurrent': { label: 'Current Liabilities', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['CurrentLiabilities'] },
+  'AccountsPayableCurrent': { label: 'Accounts Payable', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['TradeAndOtherCurrentPayables', 'TradeAndOtherCurrentPayablesToTradeSuppliers'] },
+  'LongTermDebtCurrent': { label: 'Current Portion of Long-term Debt', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', aliases: ['LongTermDebtAndCapitalLeaseObligationsCurrent', 'DebtCurrent'], ifrs: ['CurrentPortionOfLongtermBorrowings'] },
+  'LongTermDebtNoncurrent': { label: 'Long-term Debt', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', aliases: ['LongTermDebtAndCapitalLeaseObligations', 'LongTermDebt'], ifrs: ['NoncurrentPortionOfNoncurrentBorrowings', 'LongtermBorrowings'], dashboard: true },
+  'StockholdersEquity': { label: 'Stockholders Equity', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['EquityAttributableToOwnersOfParent'] },
+  'LiabilitiesAndStockholdersEquity': { label: 'Total Liabilities and Equity', statement: 'balance', periodType: 'instant', unit: 'monetary', sign: 'natural', ifrs: ['EquityAndLiabilities'] },
+  'CommonStockSharesOutstanding': { label: 'Shares Outstanding', statement: 'balance', periodType: 'instant', unit: 'shares', sign: 'natural', ifrs: ['NumberOfSharesOutstanding'] },
+
+  // Cash Flow (duration)
+  'NetCashProvidedByUsedInOperatingActivities': { label: 'Operating Cash Flow', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['CashFlowsFromUsedInOperatingActivities'] },
+  'DepreciationDepletionAndAmortization': { label: 'Depreciation and Amortization', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'natural', aliases: ['DepreciationAmortizationAndAccretionNet', 'DepreciationAndAmortization'], ifrs: ['DepreciationAndAmortisationExpense'] },
+  'ShareBasedCompensation': { label: 'Stock-based Compensation', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['AdjustmentsForSharebasedPayments'] },
+  'NetCashProvidedByUsedInInvestingActivities': { label: 'Investing Cash Flow', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['CashFlowsFromUsedInInvestingActivities'] },
+  'PaymentsToAcquirePropertyPlantAndEquipment': { label: 'Capital Expenditures', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'outflow', ifrs: ['PurchaseOfPropertyPlantAndEquipmentClassifiedAsInvestingActivities', 'PurchaseOfPropertyPlantAndEquipment'] },
+  'NetCashProvidedByUsedInFinancingActivities': { label: 'Financing Cash Flow', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'natural', ifrs: ['CashFlowsFromUsedInFinancingActivities'] },
+  'PaymentsForRepurchaseOfCommonStock': { label: 'Share Repurchases', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'outflow', aliases: ['PaymentsForRepurchaseOfEquity'], ifrs: ['PaymentsToAcquireOrRedeemEntitysShares'] },
+  'PaymentsOfDividends': { label: 'Dividends Paid', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'outflow', aliases: ['PaymentsOfDividendsCommonStock'], ifrs: ['DividendsPaidClassifiedAsFinancingActivities', 'DividendsPaid'] },
+  'CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalentsPeriodIncreaseDecreaseIncludingExchangeRateEffect': { label: 'Net Change in Cash', statement: 'cashflow', periodType: 'duration', unit: 'monetary', sign: 'natural', aliases: ['CashAndCashEquivalentsPeriodIncreaseDecrease'], ifrs: ['IncreaseDecreaseInCashAndCashEquivalents'] },
+} as const satisfies ConceptCatalog;
+
+export type CatalogConcept = keyof typeof CONCEPT_CATALOG;
+
+export function getConceptDefinition(
+  concept: string,
+  catalog: ConceptCatalog = CONCEPT_CATALOG
+): ConceptDefinition | undefined {
+  return Object.prototype.hasOwnProperty.call(catalog, concept) ? catalog[concept] : undefined;
+}
+
+export interface ResolvedConcept {
+  concept: string; // Canonical catalog concept
+  definition: ConceptDefinition;
+  priority: number; // 0 for the canonical tag, then alias order
+}
+
+const aliasIndexes = new WeakMap<ConceptCatalog, Record<Taxonomy, Map<string, ResolvedConcept>>>();
+
+function getAliasIndex(catalog: ConceptCatalog, taxonomy: Taxonomy): Map<string, ResolvedConcept> {
+  const cached = aliasIndexes.get(catalog);
+  if (cached) return cached[taxonomy];
+
+  const indexes: Record<Taxonomy, Map<string, ResolvedConcept>> = {
+    'us-gaap': new Map(),
+    'ifrs-full': new Map(),
+  };
+  for (const [concept, definition] of Object.entries(catalog)) {
+    const tagsByTaxonomy: Record<Taxonomy, readonly string[]> = {
+      'us-gaap': [concept, ...(definition.aliases ?? [])],
+      'ifrs-full': definition.ifrs ?? [],
+    };
+
+    for (const name of SUPPORTED_TAXONOMIES) {
+      tagsByTaxonomy[name].forEach((tag, priority) => {
+        // The first catalog entry to claim a tag wins
+        if (!indexes[name].has(tag)) {
+          indexes[name].set(tag, { concept, definition, priority });
+        }
+      });
+    }
+  }
+
+  aliasIndexes.set(catalog, indexes);
+  return indexes[taxonomy];
+}
+
+export function isSupportedTaxonomy(taxonomy: string): taxonomy is Taxonomy {
+  return (SUPPORTED_TAXONOMIES as readonly string[]).includes(taxonomy);
+}
+
+// Map a reported tag (canonical, alias or IFRS equivalent) to its catalog concept
+export function resolveConcept(
+  tag: string,
+  catalog: ConceptCatalog = CONCEPT_CATALOG,
+  taxonomy: Taxonomy = 'us-gaap'
+): ResolvedConcept | undefined {
+  return getAliasIndex(catalog, taxonomy).get(tag);
+}
+
+export interface FallbackCandidate {
+  concept: string;
+  sourceConcept?: string | undefined;
+  taxonomy?: string | undefined; // Defaults to us-gaap
+  periodStart?: Date | null | undefined;
+  periodEnd: Date;
+}
+
+/**
+ * Apply the fallback chains: for each canonical concept and period, keep only
+ * the facts reported under the highest-priority tag that has a value.
+ */
+export function selectFallbackFacts<T extends FallbackCandidate>(
+  facts: T[],
+  catalog: ConceptCatalog = CONCEPT_CATALOG
+): T[] {
+  const priorityOf = (fact: T) => {
+    const taxonomy = fact.taxonomy && isSupportedTaxonomy(fact.taxonomy) ? fact.taxonomy : 'us-gaap';
+    return resolveConcept(fact.sourceConcept ?? fact.concept, catalog, taxonomy)?.priority ?? 0;
+  };
+  const periodKey = (fact: T) =>
+    `${fact.concept}|${fact.periodStart?.getTime() ?? ''}|${fact.periodEnd.getTime()}`;
+
+  const bestPriority = new Map<string, number>();
+  for (const fact of facts) {
+    const key = periodKey(fact);
+    const priority = priorityOf(fact);
+    if (priority < (bestPriority.get(key) ?? Infinity)) {
+      bestPriority.set(key, priority);
+    }
+  }
+
+  return facts.filter(fact => priorityOf(fact) === bestPriority.get(periodKey(fact)));
+}
+
+export function isCatalogConcept(concept: string): concept is CatalogConcept {
+  return getConceptDefinition(concept) !== undefined;
+}
+
+// List catalog concepts, optionally narrowed to a statement, period type, etc.
+export function listConcepts(filter: Partial<ConceptDefinition> = {}): CatalogConcept[] {
+  const criteria = Object.entries(filter) as [keyof ConceptDefinition, unknown][];
+
+  return (Object.keys(CONCEPT_CATALOG) as CatalogConcept[]).filter(concept => {
+    const definition: ConceptDefinition = CONCEPT_CATALOG[concept];
+    return criteria.every(([key, value]) => definition[key] === value);
+  });
+}
+
+export function getConceptLabels(): Record<CatalogConcept, string> {
+  const labels = {} as Record<CatalogConcept, string>;
+  for (const concept of Object.keys(CONCEPT_CATALOG) as CatalogConcept[]) {
+    labels[concept] = CONCEPT_CATALOG[concept].label;
+  }
+  return labels;
+}
\ No newline at end of file
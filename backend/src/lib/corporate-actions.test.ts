@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { adjustForSplits, detectSplits, getSplitFactor } from './corporate-actions';
+import type { CorporateAction } from './corporate-actions';
+
+function shares(concept: string, end: string, value: number, filed: string) {
+  return {
+    concept,
+    value,
+    periodStart: new Date(`${end.slice(0, 4)}-01-01`),
+    periodEnd: new Date(end),
+    filingAccession: `0000123456-${filed.slice(2, 4)}-000001`,
+    filed: new Date(filed),
+  };
+}
+
+describe('corporate-actions', () => {
+  const splits: CorporateAction[] = [
+    { type: 'split', effectiveDate: new Date('2020-08-31'), ratio: 4 },
+    { type: 'reverse_split', effectiveDate: new Date('2022-05-01'), ratio: 0.5 },
+  ];
+
+  it('should compound the splits effective after a value was filed', () => {
+    expect(getSplitFactor(splits, new Date('2020-01-30'))).toBe(2);
+    expect(getSplitFactor(splits, new Date('2021-01-30'))).toBe(0.5);
+    expect(getSplitFactor(splits, new Date('2023-01-30'))).toBe(1);
+  });
+
+  it('should scale share counts up and per-share values down', () => {
+    const adjusted = adjustForSplits([
+      { ...shares('WeightedAverageNumberOfDilutedSharesOutstanding', '2019-12-31', 1000, '2020-01-30') },
+      { ...shares('EarningsPerShareDiluted', '2019-12-31', 4, '2020-01-30') },
+      { ...shares('Revenues', '2019-12-31', 500, '2020-01-30') },
+    ], splits);
+
+    expect(adjusted.map(fact => fact.value)).toEqual([2000, 2, 500]);
+  });
+
+  it('should detect splits from restated share counts and ignore buybacks', () => {
+    const detected = detectSplits([
+      shares('WeightedAverageNumberOfDilutedSharesOutstanding', '2019-12-31', 4500, '2020-01-30'),
+      shares('WeightedAverageNumberOfDilutedSharesOutstanding', '2019-12-31', 18000, '2020-10-30'), // 4-for-1
+      shares('WeightedAverageNumberOfDilutedSharesOutstanding', '2020-12-31', 17000, '2021-01-29'),
+      shares('WeightedAverageNumberOfDilutedSharesOutstanding', '2020-12-31', 16900, '2021-10-29'), // Revision
+      shares('CommonStockSharesOutstanding', '2021-12-31', 1000, '2022-01-28'),
+      shares('CommonStockSharesOutstanding', '2021-12-31', 100, '2022-07-29'), // 1-for-10
+    ]);
+
+    expect(detected).toEqual([
+      { type: 'split', effectiveDate: new Date('2020-10-30'), ratio: 4 },
+      { type: 'reverse_split', effectiveDate: new Date('2022-07-29'), ratio: 0.1 },
+    ]);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * Stock split adjustment for share counts and per-share values.
+ *
+ * Filings made after a split restate comparative periods on the post-split
+ * share basis, but periods only ever reported before the split stay on the
+ * old basis, so raw EPS and share count series jump at every split. Facts
+ * filed before a split are put on the current basis here. Splits are found
+ * where a later filing re-reports a period's share count at a whole multiple
+ * of the earlier filing's value.
+ */
+
+import { getConceptDefinition } from './concept-catalog';
+
+export type CorporateActionType = 'split' | 'reverse_split';
+
+export interface CorporateAction {
+  type: CorporateActionType;
+  effectiveDate: Date; // Filings on or after this date report on the new share basis
+  ratio: number; // New shares per old share: 4 for a 4-for-1 split, 0.1 for a 1-for-10 reverse split
+}
+
+export interface ShareFact {
+  concept: string;
+  value: number;
+  periodStart: Date | null;
+  periodEnd: Date;
+  filingAccession: string;
+  filed?: Date | null | undefined;
+}
+
+// Concepts whose restated comparatives reveal a split
+export const SHARE_COUNT_CONCEPTS = [
+  'WeightedAverageNumberOfDilutedSharesOutstanding',
+  'WeightedAverageNumberOfSharesOutstandingBasic',
+  'CommonStockSharesOutstanding',
+];
+
+// Buybacks and issuance move share counts a few percent a year; splits are whole ratios
+const RATIO_TOLERANCE = 0.03;
+const MIN_SPLIT_RATIO = 1.5;
+
+/**
+ * Corporate actions from corporate_actions rows (ratio is a Prisma Decimal)
+ */
+export function toCorporateActions(
+  rows: Array<{ type: string; effectiveDate: Date; ratio: unknown }>
+): CorporateAction[] {
+  return rows
+    .map(row => ({
+      type: row.type === 'reverse_split' ? 'reverse_split' as const : 'split' as const,
+      effectiveDate: row.effectiveDate,
+      ratio: Number(row.ratio),
+    }))
+    .filter(action => action.ratio > 0);
+}
+
+/**
+ * Whether values of a concept change with the share basis, and how:
+ * share counts multiply by the split ratio, per-share values divide by it
+ */
+export function getShareBasis(concept: string): 'shares' | 'perShare' | undefined {
+  const unit = getConceptDefinition(concept)?.unit;
+  return unit === 'shares' || unit === 'perShare' ? unit : undefined;
+}
+
+/**
+ * Cumulative ratio of all splits effective after a value was filed. Values
+ * without a filing date are assumed filed at their period end.
+ */
+export function getSplitFactor(actions: CorporateAction[], filed: Date): number {
+  return actions
+    .filter(action => action.effectiveDate > filed)
+    .reduce((factor, action) => factor * action.ratio, 1);
+}
+
+/**
+ * Put share and per-share facts on the current share basis. Other concepts
+ * pass through unchanged.
+ */
+export function adjustForSplits<T extends ShareFact>(facts: T[], actions: CorporateAction[]): T[] {
+  if (actions.length === 0) return facts;
+
+  return facts.map(fact => {
+    const basis = getShareBasis(fact.concept);
+    if (!basis) return fact;
+
+    const factor = getSplitFactor(actions, fact.filed ?? fact.periodEnd);
+    if (factor === 1) return fact;
+
+    return { ...fact, value: basis === 'shares' ? fact.value * factor : fact.value / factor };
+  });
+}
+
+/**
+ * Find splits by comparing each period's share count across the filings that
+ * reported it. A split takes effect by the filing date of the first filing
+ * reporting on the new basis.
+ */
+export function detectSplits(facts: ShareFact[]): CorporateAction[] {
+  const byPeriod = new Map<string, ShareFact[]>();
+  for (const fact of facts) {
+    if (!SHARE_COUNT_CONCEPTS.includes(fact.concept) || !fact.filed || fact.value <= 0) continue;
+    const key = `${fact.concept}|${fact.periodStart?.toISOString() ?? ''}|${fact.periodEnd.toISOString()}`;
+    byPeriod.set(key, [...(byPeriod.get(key) || []), fact]);
+  }
+
+  const splits = new Map<string, CorporateAction>();
+  for (const reports of byPeriod.values()) {
+    const sorted = [...reports].sort((a, b) => a.filed!.getTime() - b.filed!.getTime());
+
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1]!;
+      const current = sorted[i]!;
+      const ratio = toSplitRatio(current.value / previous.value);
+      if (!ratio) continue;
+
+      // Several concepts and periods restate in the same filing; keep one split per filing date
+      const effectiveDate = current.filed!;
+      const key = effectiveDate.toISOString().slice(0, 10);
+      if (!splits.has(key)) {
+        splits.set(key, { type: ratio > 1 ? 'split' : 'reverse_split', effectiveDate, ratio });
+      }
+    }
+  }
+
+  return Array.from(splits.values()).sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+}
+
+// Snap an observed change to a split ratio (N-for-1, 3-for-2 or 1-for-N), or null
+function toSplitRatio(change: number): number | null {
+  const reverse = change < 1;
+  const magnitude = reverse ? 1 / change : change;
+  if (magnitude < MIN_SPLIT_RATIO) return null;
+
+  const candidates = [Math.round(magnitude), Math.round(magnitude * 2) / 2];
+  const ratio = candidates.find(candidate => Math.abs(magnitude - candidate) / candidate <= RATIO_TOLERANCE);
+  if (!ratio) return null;
+
+  return reverse ? 1 / ratio : ratio;
+}
\ No newline at end of file
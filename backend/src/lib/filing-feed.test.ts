@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { getCurrentFilingsUrl, parseFilingFeed } from './filing-feed';
+
+const FEED = `<?xml version="1.0" encoding="ISO-8859-1" ?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+<title>Latest Filings - Fri, 03 Nov 2023 16:31:05 EDT</title>
+<entry>
+<title>10-Q - Apple Inc. (0000320193) (Filer)</title>
+<link rel="alternate" type="text/html" href="https://www.sec.gov/Archives/edgar/data/320193/000032019323000106/0000320193-23-000106-index.htm"/>
+<summary type="html"> &lt;b&gt;Filed:&lt;/b&gt; 2023-11-03 &lt;b&gt;AccNo:&lt;/b&gt; 0000320193-23-000106 &lt;b&gt;Size:&lt;/b&gt; 9 MB</summary>
+<updated>2023-11-03T16:30:38-04:00</updated>
+<category scheme="https://www.sec.gov/" label="form type" term="10-Q"/>
+<id>urn:tag:sec.gov,2008:accession-number=0000320193-23-000106</id>
+</entry>
+<entry>
+<title>SC 13G - Apple Inc. (0000320193) (Subject)</title>
+<summary type="html"> &lt;b&gt;Filed:&lt;/b&gt; 2023-11-03 &lt;b&gt;AccNo:&lt;/b&gt; 0000950123-23-009999</summary>
+<updated>2023-11-03T16:10:00-04:00</updated>
+<category scheme="https://www.sec.gov/" label="form type" term="SC 13G"/>
+<id>urn:tag:sec.gov,2008:accession-number=0000950123-23-009999</id>
+</entry>
+<entry>
+<title>10-K/A - Example Holdings, Inc. - Class A (0001234567) (Filer)</title>
+<summary type="html"> &lt;b&gt;Filed:&lt;/b&gt; 2023-11-02 &lt;b&gt;AccNo:&lt;/b&gt; 0001234567-23-000042</summary>
+<updated>not a date</updated>
+<id>urn:tag:sec.gov,2008:accession-number=0001234567-23-000042</id>
+</entry>
+</feed>`;
+
+describe('filing-feed', () => {
+  it('should build the current filings feed url', () => {
+    expect(getCurrentFilingsUrl('10-', 100)).toBe(
+      'https://www.sec.gov/cgi-bin/browse-edgar?action=getcurrent&type=10-&owner=include&count=100&start=0&output=atom'
+    );
+  });
+
+  it('should parse filer entries and skip subject companies', () => {
+    const filings = parseFilingFeed(FEED);
+
+    expect(filings).toEqual([
+      {
+        cik: '0000320193',
+        accession: '0000320193-23-000106',
+        form: '10-Q',
+        filingDate: new Date('2023-11-03'),
+        acceptedAt: new Date('2023-11-03T20:30:38Z'),
+      },
+      {
+        cik: '0001234567',
+        accession: '0001234567-23-000042',
+        form: '10-K/A', // From the title when the entry has no category
+        filingDate: new Date('2023-11-02'),
+        acceptedAt: null,
+      },
+    ]);
+  });
+});
\ No newline at end of file
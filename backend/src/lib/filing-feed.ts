@@ -0,0 +1,66 @@
+/**
+ * EDGAR "latest filings" Atom feed parser.
+ *
+ * https://www.sec.gov/cgi-bin/browse-edgar?action=getcurrent&output=atom lists
+ * filings as they are accepted, newest first. Each entry names the filer
+ * and CIK in its title, carries the accession number in its id and the
+ * filing date in its summary; this module turns entries into flat records so
+ * the refresh scheduler can spot companies with a filing we haven't stored.
+ */
+
+import { load } from 'cheerio';
+
+export interface FeedFiling {
+  cik: string; // 10-digit
+  accession: string;
+  form: string;
+  filingDate: Date;
+  acceptedAt: Date | null;
+}
+
+export const CURRENT_FILINGS_URL = 'https://www.sec.gov/cgi-bin/browse-edgar';
+
+// "10-Q - Apple Inc. (0000320193) (Filer)"
+const TITLE_PATTERN = /^(.+?) - .+\((\d{10})\) \(Filer\)$/;
+const ACCESSION_PATTERN = /accession-number=(\d{10}-\d{2}-\d{6})/;
+// Summaries are escaped HTML: "<b>Filed:</b> 2023-11-03 <b>AccNo:</b> ..."
+const FILED_PATTERN = /Filed:(?:<\/b>)?\s*(\d{4}-\d{2}-\d{2})/;
+
+export function getCurrentFilingsUrl(form: string, count: number, start = 0): string {
+  const params = new URLSearchParams({
+    action: 'getcurrent',
+    type: form, // Prefix match: "10-" covers 10-K, 10-Q and their amendments
+    owner: 'include',
+    count: String(count),
+    start: String(start),
+    output: 'atom',
+  });
+  return `${CURRENT_FILINGS_URL}?${params.toString()}`;
+}
+
+/**
+ * Parse the feed. Entries that don't match the expected shape are skipped;
+ * a filing is listed once per filer, so the same accession can appear twice.
+ */
+export function parseFilingFeed(xml: string): FeedFiling[] {
+  const $ = load(xml, { xmlMode: true });
+  const filings: FeedFiling[] = [];
+
+  $('entry').each((_, entry) => {
+    const title = TITLE_PATTERN.exec($(entry).children('title').text().trim());
+    const accession = ACCESSION_PATTERN.exec($(entry).children('id').text());
+    const filed = FILED_PATTERN.exec($(entry).children('summary').text());
+    if (!title || !accession || !filed) return;
+
+    const updated = new Date($(entry).children('updated').text().trim());
+    filings.push({
+      cik: title[2]!,
+      accession: accession[1]!,
+      form: $(entry).children('category').attr('term') || title[1]!,
+      filingDate: new Date(filed[1]!),
+      acceptedAt: isNaN(updated.getTime()) ? null : updated,
+    });
+  });
+
+  return filings;
+}
\ No newline at end of file
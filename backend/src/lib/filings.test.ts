@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { FilingFormatError, getFilingUrls, isAccessionNumber, parseSubmissionFilings } from './filings';
+
+describe('filings', () => {
+  it('should zip columnar submissions into filing records', () => {
+    const records = parseSubmissionFilings({
+      accessionNumber: ['0000320193-23-000106', '0000320193-23-000077'],
+      filingDate: ['2023-11-03', '2023-08-04'],
+      reportDate: ['2023-09-30', ''],
+      acceptanceDateTime: ['2023-11-02T18:08:27.000Z', '2023-08-03T18:04:43.000Z'],
+      form: ['10-K', '4'],
+      primaryDocument: ['aapl-20230930.htm', 'xslF345X05/wf-form4.xml'],
+      primaryDocDescription: ['10-K', ''],
+      isXBRL: [1, 0],
+      isInlineXBRL: [1, 0],
+      size: [9448478, 4823],
+    });
+
+    expect(records).toEqual([
+      {
+        accession: '0000320193-23-000106',
+        form: '10-K',
+        filingDate: new Date('2023-11-03'),
+        reportDate: new Date('2023-09-30'),
+        acceptedAt: new Date('2023-11-02T18:08:27.000Z'),
+        primaryDocument: 'aapl-20230930.htm',
+        primaryDocDescription: '10-K',
+        isXBRL: true,
+        isInlineXBRL: true,
+        size: 9448478,
+      },
+      expect.objectContaining({ form: '4', reportDate: null, primaryDocDescription: null, isXBRL: false }),
+    ]);
+  });
+
+  it('should tolerate missing optional columns and reject misaligned ones', () => {
+    expect(parseSubmissionFilings({
+      accessionNumber: ['0000320193-23-000106'],
+      filingDate: ['2023-11-03'],
+      form: ['10-K'],
+    })).toEqual([expect.objectContaining({ reportDate: null, primaryDocument: null, size: null })]);
+
+    expect(() => parseSubmissionFilings({
+      accessionNumber: ['0000320193-23-000106', '0000320193-23-000077'],
+      filingDate: ['2023-11-03'],
+      form: ['10-K', '4'],
+    })).toThrow(FilingFormatError);
+  });
+
+  it('should build EDGAR archive URLs from an accession number', () => {
+    expect(getFilingUrls('0000320193', '0000320193-23-000106', 'aapl-20230930.htm')).toEqual({
+      indexUrl: 'https://www.sec.gov/Archives/edgar/data/320193/000032019323000106/0000320193-23-000106-index.htm',
+      documentUrl: 'https://www.sec.gov/Archives/edgar/data/320193/000032019323000106/aapl-20230930.htm',
+    });
+    expect(getFilingUrls('0000320193', '0000320193-23-000106', null)).not.toHaveProperty('documentUrl');
+    expect(isAccessionNumber('0000320193-23-000106')).toBe(true);
+    expect(isAccessionNumber('unknown')).toBe(false);
+  });
+});
\ No newline at end of file
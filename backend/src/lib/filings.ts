@@ -0,0 +1,92 @@
+/**
+ * Filing index records from SEC submissions documents.
+ *
+ * The submissions API lists filings as parallel arrays (`accessionNumber[i]`,
+ * `form[i]`, `filingDate[i]`, ...). This module zips them into one record per
+ * filing and builds the EDGAR archive URLs a fact's accession number points to.
+ */
+
+import type { SubmissionFilings } from '../types/sec';
+
+export interface FilingRecord {
+  accession: string; // 0000320193-23-000106
+  form: string;
+  filingDate: Date;
+  reportDate: Date | null; // Period of report
+  acceptedAt: Date | null;
+  primaryDocument: string | null;
+  primaryDocDescription: string | null;
+  isXBRL: boolean;
+  isInlineXBRL: boolean;
+  size: number | null;
+}
+
+export class FilingFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FilingFormatError';
+  }
+}
+
+const ARCHIVES_URL = 'https://www.sec.gov/Archives/edgar/data';
+const ACCESSION_PATTERN = /^\d{10}-\d{2}-\d{6}$/;
+
+export function isAccessionNumber(value: string): boolean {
+  return ACCESSION_PATTERN.test(value);
+}
+
+export function parseSubmissionFilings(filings: SubmissionFilings): FilingRecord[] {
+  const count = filings.accessionNumber.length;
+  if (filings.form.length !== count || filings.filingDate.length !== count) {
+    throw new FilingFormatError(
+      `Filing columns are misaligned: ${count} accessions, ${filings.form.length} forms, ${filings.filingDate.length} dates`
+    );
+  }
+
+  const records: FilingRecord[] = [];
+  for (let i = 0; i < count; i++) {
+    const accession = filings.accessionNumber[i];
+    const form = filings.form[i];
+    const filingDate = parseDate(filings.filingDate[i]);
+    if (!accession || !form || !filingDate) continue;
+
+    records.push({
+      accession,
+      form,
+      filingDate,
+      reportDate: parseDate(filings.reportDate?.[i]),
+      acceptedAt: parseDate(filings.acceptanceDateTime?.[i]),
+      primaryDocument: filings.primaryDocument?.[i] || null,
+      primaryDocDescription: filings.primaryDocDescription?.[i] || null,
+      isXBRL: filings.isXBRL?.[i] === 1,
+      isInlineXBRL: filings.isInlineXBRL?.[i] === 1,
+      size: filings.size?.[i] ?? null,
+    });
+  }
+
+  return records;
+}
+
+/**
+ * EDGAR archive URLs for a filing: the index page always exists, the primary
+ * document only when the submissions record names one
+ */
+export function getFilingUrls(
+  cik: string,
+  accession: string,
+  primaryDocument?: string | null
+): { indexUrl: string; documentUrl?: string } {
+  const folder = `${ARCHIVES_URL}/${parseInt(cik, 10)}/${accession.replace(/-/g, '')}`;
+
+  return {
+    indexUrl: `${folder}/${accession}-index.htm`,
+    ...(primaryDocument && { documentUrl: `${folder}/${primaryDocument}` }),
+  };
+}
+
+// Submissions dates are "2023-11-03" or "2023-11-02T18:08:27.000Z"; blanks mean unknown
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { buildStatement, getStatementConcepts } from './financial-statements';
+import type { StatementFact, StatementLine } from './financial-statements';
+
+function fact(concept: string, start: string | null, end: string, value: number, fiscalYear = 2023): StatementFact {
+  return {
+    concept,
+    value,
+    periodStart: start ? new Date(start) : null,
+    periodEnd: new Date(end),
+    fiscalYear,
+    fiscalPeriod: 'FY',
+    filingAccession: `0000123456-${String(fiscalYear + 1).slice(2)}-000010`,
+    form: '10-K',
+  };
+}
+
+function findLine(lines: StatementLine[], key: string): StatementLine | undefined {
+  for (const line of lines) {
+    if (line.key === key) return line;
+    const child = line.children && findLine(line.children, key);
+    if (child) return child;
+  }
+  return undefined;
+}
+
+describe('financial-statements', () => {
+  it('should use reported subtotals and compute missing ones', () => {
+    const statement = buildStatement('income', [
+      fact('Revenues', '2023-01-01', '2023-12-31', 1000),
+      fact('CostOfRevenue', '2023-01-01', '2023-12-31', 600),
+      fact('ResearchAndDevelopmentExpense', '2023-01-01', '2023-12-31', 100),
+      fact('SellingGeneralAndAdministrativeExpense', '2023-01-01', '2023-12-31', 50),
+      fact('OperatingIncomeLoss', '2023-01-01', '2023-12-31', 240), // Includes other operating items
+    ], 'annual', 5);
+
+    expect(statement.periods).toEqual([{
+      periodStart: new Date('2023-01-01'),
+      periodEnd: new Date('2023-12-31'),
+      fiscalYear: 2023,
+      fiscalPeriod: 'FY',
+    }]);
+    expect(findLine(statement.lines, 'GrossProfit')?.values).toEqual([{ value: 400, source: 'computed' }]);
+    expect(findLine(statement.lines, 'OperatingExpenses')?.values).toEqual([{ value: 150, source: 'computed' }]);
+    expect(findLine(statement.lines, 'OperatingIncomeLoss')?.values).toEqual([{ value: 240, source: 'reported' }]);
+    expect(findLine(statement.lines, 'SellingGeneralAndAdministrativeExpense')?.kind).toBe('item');
+    expect(findLine(statement.lines, 'NetIncomeLoss')?.values).toEqual([{ value: null }]);
+  });
+
+  it('should show outflows as negative and compute free cash flow', () => {
+    const statement = buildStatement('cashflow', [
+      fact('NetCashProvidedByUsedInOperatingActivities', '2022-01-01', '2022-12-31', 400, 2022),
+      fact('PaymentsToAcquirePropertyPlantAndEquipment', '2022-01-01', '2022-12-31', 150, 2022),
+      fact('NetCashProvidedByUsedInOperatingActivities', '2023-01-01', '2023-12-31', 500),
+      fact('PaymentsToAcquirePropertyPlantAndEquipment', '2023-01-01', '2023-12-31', 120),
+    ], 'annual', 5);
+
+    expect(statement.periods.map(period => period.fiscalYear)).toEqual([2023, 2022]);
+    expect(findLine(statement.lines, 'PaymentsToAcquirePropertyPlantAndEquipment')?.values.map(cell => cell.value))
+      .toEqual([-120, -150]);
+    expect(findLine(statement.lines, 'FreeCashFlow')?.values).toEqual([
+      { value: 380, source: 'computed' },
+      { value: 250, source: 'computed' },
+    ]);
+  });
+
+  it('should place balance sheet instants at the fiscal period ends', () => {
+    const statement = buildStatement('balance', [
+      fact('NetIncomeLoss', '2023-01-01', '2023-12-31', 90),
+      fact('Liabilities', null, '2023-12-31', 700),
+      fact('StockholdersEquity', null, '2023-12-31', 300),
+      fact('Liabilities', null, '2023-06-30', 650), // Not a column in the annual statement
+    ], 'annual', 5);
+
+    expect(statement.periods).toEqual([{ periodEnd: new Date('2023-12-31'), fiscalYear: 2023, fiscalPeriod: 'FY' }]);
+    expect(findLine(statement.lines, 'LiabilitiesAndStockholdersEquity')?.values)
+      .toEqual([{ value: 1000, source: 'computed' }]);
+    expect(getStatementConcepts('balance')).toContain('NetIncomeLoss');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,292 @@
+/**
+ * Standardized three-statement model.
+ *
+ * Templates arrange catalog concepts into an income statement, balance sheet
+ * and cash flow statement with subtotals. Each line takes its reported value
+ * and falls back to a signed sum of other lines when the filer did not tag
+ * that subtotal; lines such as free cash flow are only ever computed.
+ * Outflow concepts (capex, buybacks, dividends) are shown negative so every
+ * formula is a plain sum.
+ */
+
+import { getConceptDefinition } from './concept-catalog';
+import type { FinancialStatement } from './concept-catalog';
+import { normalizePeriods } from './period-normalizer';
+import type { NormalizeOptions, PeriodFact } from './period-normalizer';
+
+export type StatementFrequency = 'annual' | 'quarterly';
+export type LineKind = 'item' | 'subtotal' | 'total';
+export type CellSource = 'reported' | 'derived' | 'computed';
+
+export interface LineTemplate {
+  key: string; // Catalog concept, or an id for computed-only lines
+  label?: string; // Defaults to the catalog label
+  kind: LineKind;
+  formula?: ReadonlyArray<readonly [string, 1 | -1]>; // Signed sum of other lines
+  children?: readonly LineTemplate[];
+}
+
+export interface StatementFact extends PeriodFact {
+  concept: string;
+}
+
+export interface StatementPeriod {
+  periodStart?: Date; // Omitted on the balance sheet
+  periodEnd: Date;
+  fiscalYear: number;
+  fiscalPeriod: string;
+}
+
+export interface StatementCell {
+  value: number | null;
+  source?: CellSource; // derived: rebuilt from YTD/annual durations; computed: from the line formula
+}
+
+export interface StatementLine {
+  key: string;
+  label: string;
+  kind: LineKind;
+  concept?: string; // Set on lines backed by a catalog concept
+  values: StatementCell[]; // Aligned with the statement periods
+  children?: StatementLine[];
+}
+
+export interface Statement {
+  statement: FinancialStatement;
+  frequency: StatementFrequency;
+  periods: StatementPeriod[];
+  lines: StatementLine[];
+}
+
+export const STATEMENT_TEMPLATES: Readonly<Record<FinancialStatement, readonly LineTemplate[]>> = {
+  income: [
+    { key: 'Revenues', kind: 'item' },
+    { key: 'CostOfRevenue', kind: 'item' },
+    { key: 'GrossProfit', kind: 'subtotal', formula: [['Revenues', 1], ['CostOfRevenue', -1]] },
+    {
+      key: 'OperatingExpenses',
+      kind: 'subtotal',
+      formula: [['ResearchAndDevelopmentExpense', 1], ['SellingGeneralAndAdministrativeExpense', 1]],
+      children: [
+        { key: 'ResearchAndDevelopmentExpense', kind: 'item' },
+        { key: 'SellingGeneralAndAdministrativeExpense', kind: 'item' },
+      ],
+    },
+    { key: 'OperatingIncomeLoss', kind: 'subtotal', formula: [['GrossProfit', 1], ['OperatingExpenses', -1]] },
+    { key: 'InterestExpense', kind: 'item' },
+    { key: 'IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest', kind: 'subtotal' },
+    { key: 'IncomeTaxExpenseBenefit', kind: 'item' },
+    {
+      key: 'NetIncomeLoss',
+      kind: 'total',
+      formula: [
+        ['IncomeLossFromContinuingOperationsBeforeIncomeTaxesExtraordinaryItemsNoncontrollingInterest', 1],
+        ['IncomeTaxExpenseBenefit', -1],
+      ],
+    },
+    { key: 'EarningsPerShareBasic', kind: 'item' },
+    { key: 'EarningsPerShareDiluted', kind: 'item' },
+    { key: 'WeightedAverageNumberOfSharesOutstandingBasic', kind: 'item' },
+    { key: 'WeightedAverageNumberOfDilutedSharesOutstanding', kind: 'item' },
+  ],
+  balance: [
+    {
+      key: 'Assets',
+      kind: 'total',
+      children: [
+        {
+          key: 'AssetsCurrent',
+          kind: 'subtotal',
+          children: [
+            { key: 'CashAndCashEquivalentsAtCarryingValue', kind: 'item' },
+            { key: 'ShortTermInvestments', kind: 'item' },
+            { key: 'AccountsReceivableNetCurrent', kind: 'item' },
+            { key: 'InventoryNet', kind: 'item' },
+          ],
+        },
+        { key: 'PropertyPlantAndEquipmentNet', kind: 'item' },
+        { key: 'Goodwill', kind: 'item' },
+      ],
+    },
+    {
+      key: 'Liabilities',
+      kind: 'total',
+      children: [
+        {
+          key: 'LiabilitiesCurrent',
+          kind: 'subtotal',
+          children: [
+            { key: 'AccountsPayableCurrent', kind: 'item' },
+            { key: 'LongTermDebtCurrent', kind: 'item' },
+          ],
+        },
+        { key: 'LongTermDebtNoncurrent', kind: 'item' },
+      ],
+    },
+    { key: 'StockholdersEquity', kind: 'total' },
+    {
+      key: 'LiabilitiesAndStockholdersEquity',
+      kind: 'total',
+      formula: [['Liabilities', 1], ['StockholdersEquity', 1]],
+    },
+    {
+      key: 'TotalDebt',
+      label: 'Total Debt',
+      kind: 'subtotal',
+      formula: [['LongTermDebtCurrent', 1], ['LongTermDebtNoncurrent', 1]],
+    },
+    { key: 'CommonStockSharesOutstanding', kind: 'item' },
+  ],
+  cashflow: [
+    {
+      key: 'NetCashProvidedByUsedInOperatingActivities',
+      kind: 'subtotal',
+      children: [
+        { key: 'DepreciationDepletionAndAmortization', kind: 'item' },
+        { key: 'ShareBasedCompensation', kind: 'item' },
+      ],
+    },
+    {
+      key: 'NetCashProvidedByUsedInInvestingActivities',
+      kind: 'subtotal',
+      children: [{ key: 'PaymentsToAcquirePropertyPlantAndEquipment', kind: 'item' }],
+    },
+    {
+      key: 'NetCashProvidedByUsedInFinancingActivities',
+      kind: 'subtotal',
+      children: [
+        { key: 'PaymentsForRepurchaseOfCommonStock', kind: 'item' },
+        { key: 'PaymentsOfDividends', kind: 'item' },
+      ],
+    },
+    {
+      key: 'CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalentsPeriodIncreaseDecreaseIncludingExchangeRateEffect',
+      kind: 'total',
+    },
+    {
+      key: 'FreeCashFlow',
+      label: 'Free Cash Flow',
+      kind: 'total',
+      formula: [['NetCashProvidedByUsedInOperatingActivities', 1], ['PaymentsToAcquirePropertyPlantAndEquipment', 1]],
+    },
+  ],
+};
+
+// Concepts whose duration periods make up the statement columns
+const PERIOD_CONCEPTS = ['Revenues', 'NetIncomeLoss', 'NetCashProvidedByUsedInOperatingActivities'];
+
+/**
+ * Catalog concepts a statement reads, including those that only set its periods
+ */
+export function getStatementConcepts(statement: FinancialStatement): string[] {
+  const concepts = new Set(PERIOD_CONCEPTS);
+  const visit = (lines: readonly LineTemplate[]) => lines.forEach(line => {
+    if (getConceptDefinition(line.key)) concepts.add(line.key);
+    line.formula?.forEach(([key]) => getConceptDefinition(key) && concepts.add(key));
+    if (line.children) visit(line.children);
+  });
+  visit(STATEMENT_TEMPLATES[statement]);
+  return Array.from(concepts);
+}
+
+/**
+ * Assemble a statement from current (non-superseded) facts, newest period first
+ */
+export function buildStatement(
+  statement: FinancialStatement,
+  facts: StatementFact[],
+  frequency: StatementFrequency,
+  limit: number,
+  options: NormalizeOptions = {}
+): Statement {
+  const byConcept = new Map<string, StatementFact[]>();
+  for (const fact of facts) {
+    byConcept.set(fact.concept, [...(byConcept.get(fact.concept) || []), fact]);
+  }
+
+  // Reported cells per concept, keyed by period end date
+  const cells = new Map<string, Map<string, StatementCell>>();
+  const columns = new Map<string, Required<StatementPeriod>>();
+
+  for (const [concept, conceptFacts] of byConcept) {
+    const definition = getConceptDefinition(concept);
+    const sign = definition?.sign === 'outflow' ? -1 : 1;
+    const conceptCells = new Map<string, StatementCell>();
+
+    if (definition?.periodType === 'instant') {
+      // Later filings overwrite earlier values for the same balance sheet date
+      [...conceptFacts]
+        .sort((a, b) => a.filingAccession.localeCompare(b.filingAccession))
+        .forEach(fact => conceptCells.set(dayKey(fact.periodEnd), { value: fact.value, source: 'reported' }));
+    } else {
+      const series = normalizePeriods(conceptFacts, options);
+      for (const period of frequency === 'annual' ? series.annual : series.quarterly) {
+        const key = dayKey(period.periodEnd);
+        conceptCells.set(key, { value: sign * period.value, source: period.derived ? 'derived' : 'reported' });
+
+        if (PERIOD_CONCEPTS.includes(concept) && !columns.has(key)) {
+          columns.set(key, {
+            periodStart: period.periodStart,
+            periodEnd: period.periodEnd,
+            fiscalYear: period.fiscalYear,
+            fiscalPeriod: period.fiscalPeriod,
+          });
+        }
+      }
+    }
+
+    cells.set(concept, conceptCells);
+  }
+
+  const periods = Array.from(columns.values())
+    .sort((a, b) => b.periodEnd.getTime() - a.periodEnd.getTime())
+    .slice(0, limit)
+    .map(({ periodStart, ...period }): StatementPeriod => (statement === 'balance' ? period : { periodStart, ...period }));
+
+  // Formulas can reference lines anywhere in the template, so resolve lazily
+  const formulas = new Map<string, LineTemplate['formula']>();
+  const collect = (lines: readonly LineTemplate[]) => lines.forEach(line => {
+    if (line.formula) formulas.set(line.key, line.formula);
+    if (line.children) collect(line.children);
+  });
+  collect(STATEMENT_TEMPLATES[statement]);
+
+  const resolve = (key: string, periodKey: string, visiting: Set<string> = new Set()): StatementCell => {
+    const reported = cells.get(key)?.get(periodKey);
+    if (reported) return reported;
+
+    const formula = formulas.get(key);
+    if (!formula || visiting.has(key)) return { value: null };
+
+    let total = 0;
+    for (const [term, sign] of formula) {
+      const cell = resolve(term, periodKey, new Set([...visiting, key]));
+      if (cell.value === null) return { value: null };
+      total += sign * cell.value;
+    }
+    return { value: total, source: 'computed' };
+  };
+
+  const buildLine = (template: LineTemplate): StatementLine => {
+    const definition = getConceptDefinition(template.key);
+    return {
+      key: template.key,
+      label: template.label ?? definition?.label ?? template.key,
+      kind: template.kind,
+      ...(definition && { concept: template.key }),
+      values: periods.map(period => resolve(template.key, dayKey(period.periodEnd))),
+      ...(template.children && { children: template.children.map(buildLine) }),
+    };
+  };
+
+  return {
+    statement,
+    frequency,
+    periods,
+    lines: STATEMENT_TEMPLATES[statement].map(buildLine),
+  };
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { FxRateError, FxRateTable, parseFxRates } from './fx-rates';
+import type { FxRate } from './fx-rates';
+
+function rate(currency: string, month: string, average: number, closing: number): FxRate {
+  return { currency, month: new Date(`${month}-01T00:00:00Z`), average, closing };
+}
+
+const rates = [
+  rate('EUR', '2024-01', 0.90, 0.92),
+  rate('EUR', '2024-02', 0.92, 0.93),
+  rate('EUR', '2024-03', 0.94, 0.95),
+  rate('JPY', '2024-03', 150, 151),
+];
+
+describe('FxRateTable', () => {
+  const table = new FxRateTable(rates);
+
+  it('should convert durations at the period-average rate', () => {
+    const value = table.convert(92, 'EUR', 'USD', {
+      periodStart: new Date('2024-01-01'),
+      periodEnd: new Date('2024-03-31'),
+    });
+
+    expect(value).toBeCloseTo(100);
+  });
+
+  it('should convert instants at the period-end rate', () => {
+    const value = table.convert(100, 'USD', 'EUR', {
+      periodStart: null,
+      periodEnd: new Date('2024-03-31'),
+    });
+
+    expect(value).toBeCloseTo(95);
+  });
+
+  it('should cross non-USD currencies through USD', () => {
+    const value = table.convert(95, 'EUR', 'JPY', {
+      periodStart: null,
+      periodEnd: new Date('2024-03-31'),
+    });
+
+    expect(value).toBeCloseTo(15100);
+  });
+
+  it('should return null when a month in the period has no rate', () => {
+    const value = table.convert(100, 'EUR', 'USD', {
+      periodStart: new Date('2023-12-01'),
+      periodEnd: new Date('2024-03-31'),
+    });
+
+    expect(value).toBeNull();
+    expect(table.getRate('GBP', 'USD', { periodStart: null, periodEnd: new Date('2024-03-31') })).toBeNull();
+    expect(table.getRate('GBP', 'GBP', { periodStart: null, periodEnd: new Date('2024-03-31') })).toBe(1);
+  });
+});
+
+describe('parseFxRates', () => {
+  it('should parse CSV and JSON rate files', () => {
+    const csv = 'currency,month,average,closing\neur,2024-01,0.90,0.92\nJPY,2024-01-31,148,149\n';
+    const json = JSON.stringify([{ currency: 'EUR', month: '2024-01', average: 0.9, closing: 0.92 }]);
+
+    expect(parseFxRates(csv)).toEqual([
+      rate('EUR', '2024-01', 0.9, 0.92),
+      rate('JPY', '2024-01', 148, 149),
+    ]);
+    expect(parseFxRates(json)).toEqual([rate('EUR', '2024-01', 0.9, 0.92)]);
+  });
+
+  it('should reject malformed records', () => {
+    expect(() => parseFxRates('currency,month,average,closing\nEUR,2024-01,,0.92')).toThrow(FxRateError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,137 @@
+/**
+ * Foreign exchange rates for converting facts out of their native currency.
+ *
+ * Rates are monthly and quoted as units of currency per one USD, so every
+ * conversion pivots through USD. Duration facts (revenue, cash flow) convert
+ * at the average of the monthly average rates across the period; instant
+ * facts (balance sheet) convert at the closing rate of the period-end month.
+ */
+
+export interface FxRate {
+  currency: string; // ISO 4217
+  month: Date; // First day of the month (UTC)
+  average: number; // Monthly average, units per USD
+  closing: number; // Month-end rate, units per USD
+}
+
+export interface FxPeriod {
+  periodStart: Date | null; // Null for instants
+  periodEnd: Date;
+}
+
+export class FxRateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FxRateError';
+  }
+}
+
+const BASE_CURRENCY = 'USD';
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+export function isCurrencyCode(unit: string | null | undefined): unit is string {
+  return !!unit && CURRENCY_CODE.test(unit);
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function monthKey(currency: string, month: Date): string {
+  return `${currency}|${month.getUTCFullYear()}-${month.getUTCMonth()}`;
+}
+
+export class FxRateTable {
+  private rates = new Map<string, FxRate>();
+
+  constructor(rates: FxRate[] = []) {
+    for (const rate of rates) {
+      this.rates.set(monthKey(rate.currency, startOfMonth(rate.month)), rate);
+    }
+  }
+
+  get size(): number {
+    return this.rates.size;
+  }
+
+  /**
+   * Rate to multiply a `from` amount by to get a `to` amount for the period,
+   * or null when either currency lacks rates for it.
+   */
+  getRate(from: string, to: string, period: FxPeriod): number | null {
+    if (from === to) return 1;
+
+    const fromPerUsd = this.getUsdRate(from, period);
+    const toPerUsd = this.getUsdRate(to, period);
+    if (fromPerUsd === null || toPerUsd === null) return null;
+
+    return toPerUsd / fromPerUsd;
+  }
+
+  convert(value: number, from: string, to: string, period: FxPeriod): number | null {
+    const rate = this.getRate(from, to, period);
+    return rate === null ? null : value * rate;
+  }
+
+  // Units of currency per USD over the period
+  private getUsdRate(currency: string, period: FxPeriod): number | null {
+    if (currency === BASE_CURRENCY) return 1;
+
+    if (!period.periodStart) {
+      return this.rates.get(monthKey(currency, startOfMonth(period.periodEnd)))?.closing ?? null;
+    }
+
+    let total = 0;
+    let months = 0;
+    const end = startOfMonth(period.periodEnd);
+    for (let month = startOfMonth(period.periodStart); month <= end; month = nextMonth(month)) {
+      const rate = this.rates.get(monthKey(currency, month));
+      if (!rate) return null; // A gap would skew the average
+      total += rate.average;
+      months++;
+    }
+
+    return months > 0 ? total / months : null;
+  }
+}
+
+function nextMonth(month: Date): Date {
+  return new Date(Date.UTC(month.getUTCFullYear(), month.getUTCMonth() + 1, 1));
+}
+
+/**
+ * Parse a rates file. JSON files hold an array of
+ * `{ currency, month, average, closing }` objects; anything else is read as
+ * CSV with a `currency,month,average,closing` header and `YYYY-MM` months.
+ */
+export function parseFxRates(content: string): FxRate[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+
+  const records: Record<string, unknown>[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : parseCsv(trimmed);
+
+  return records.map((record, index) => {
+    const currency = String(record.currency ?? '').trim().toUpperCase();
+    const month = new Date(`${String(record.month ?? '').trim().slice(0, 7)}-01T00:00:00Z`);
+    const average = Number(record.average);
+    const closing = Number(record.closing);
+
+    if (!isCurrencyCode(currency) || isNaN(month.getTime()) || !(average > 0) || !(closing > 0)) {
+      throw new FxRateError(`Invalid FX rate at record ${index + 1}`);
+    }
+
+    return { currency, month, average, closing };
+  });
+}
+
+function parseCsv(content: string): Record<string, string>[] {
+  const [header, ...lines] = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  const columns = (header ?? '').split(',').map(column => column.trim().toLowerCase());
+
+  return lines.map(line => {
+    const cells = line.split(',');
+    return Object.fromEntries(columns.map((column, i) => [column, cells[i]?.trim() ?? '']));
+  });
+}
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { classifyIngestionError } from './ingestion-errors';
+import { DataNotFoundError, DataProviderError, RateLimitError } from '../providers';
+import { InlineXBRLError } from './ixbrl-parser';
+
+describe('ingestion-errors', () => {
+  it('should classify provider failures with their provider and code', () => {
+    expect(classifyIngestionError(new RateLimitError('SEC-EDGAR'))).toEqual({
+      category: 'rate_limit',
+      provider: 'SEC-EDGAR',
+      code: 'RATE_LIMIT',
+      statusCode: 429,
+      message: 'Rate limit exceeded for SEC-EDGAR',
+    });
+    expect(classifyIngestionError(new DataNotFoundError('SEC-EDGAR', '0000000001'))).toMatchObject({
+      category: 'provider_error',
+      provider: 'SEC-EDGAR',
+      code: 'NOT_FOUND',
+    });
+    expect(classifyIngestionError(
+      new DataProviderError('Failed to fetch company facts: Expected object', 'SEC-EDGAR', 'PARSE_ERROR')
+    )).toMatchObject({ category: 'parse_error', provider: 'SEC-EDGAR' });
+  });
+
+  it('should classify parser and database errors', () => {
+    const zodError = z.object({ cik: z.number() }).safeParse({});
+    expect(zodError.success).toBe(false);
+    if (!zodError.success) {
+      expect(classifyIngestionError(zodError.error).category).toBe('parse_error');
+    }
+    expect(classifyIngestionError(new InlineXBRLError('No ix:header found')).category).toBe('parse_error');
+
+    // Shaped like PrismaClientKnownRequestError without loading the client
+    const dbError = Object.assign(new Error('Unique constraint failed'), {
+      name: 'PrismaClientKnownRequestError',
+      code: 'P2002',
+    });
+    expect(classifyIngestionError(dbError)).toEqual({
+      category: 'db_error',
+      code: 'P2002',
+      message: 'Unique constraint failed',
+    });
+  });
+
+  it('should fall back to unknown', () => {
+    expect(classifyIngestionError(new Error('Worker crashed'))).toEqual({
+      category: 'unknown',
+      message: 'Worker crashed',
+    });
+    expect(classifyIngestionError('timeout')).toEqual({ category: 'unknown', message: 'timeout' });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,68 @@
+/**
+ * Classification of ingestion failures for the dead-letter store.
+ *
+ * Errors arrive from several layers: providers wrap upstream failures in
+ * DataProviderError (RateLimitError for 429s), parsers throw their own
+ * format errors, and Prisma throws PrismaClient* errors. Matching on error
+ * names rather than classes keeps this module free of runtime imports.
+ */
+
+export type IngestionErrorCategory = 'provider_error' | 'rate_limit' | 'parse_error' | 'db_error' | 'unknown';
+
+export interface ClassifiedError {
+  category: IngestionErrorCategory;
+  provider?: string;
+  code?: string;
+  statusCode?: number;
+  message: string;
+}
+
+const PARSE_ERROR_NAMES = new Set([
+  'ZodError',
+  'SyntaxError', // JSON.parse
+  'InlineXBRLError',
+  'FilingFormatError',
+  'ZipArchiveError',
+  'DirectoryFormatError',
+  'FxRateError',
+]);
+
+export function classifyIngestionError(error: unknown): ClassifiedError {
+  if (!(error instanceof Error)) {
+    return { category: 'unknown', message: String(error) };
+  }
+
+  const fields = error as Error & {
+    provider?: unknown;
+    code?: unknown;
+    statusCode?: unknown;
+  };
+  const provider = typeof fields.provider === 'string' ? fields.provider : undefined;
+  const code = typeof fields.code === 'string' ? fields.code : undefined;
+  const statusCode = typeof fields.statusCode === 'number' ? fields.statusCode : undefined;
+  const details = {
+    ...(provider && { provider }),
+    ...(code && { code }),
+    ...(statusCode !== undefined && { statusCode }),
+    message: error.message,
+  };
+
+  if (error.name === 'RateLimitError' || code === 'RATE_LIMIT' || statusCode === 429) {
+    return { category: 'rate_limit', ...details };
+  }
+
+  if (PARSE_ERROR_NAMES.has(error.name) || code === 'PARSE_ERROR') {
+    return { category: 'parse_error', ...details };
+  }
+
+  // PrismaClientKnownRequestError, PrismaClientInitializationError, ...
+  if (error.name.startsWith('PrismaClient')) {
+    return { category: 'db_error', ...details };
+  }
+
+  if (provider || error.name === 'DataProviderError' || error.name === 'DataNotFoundError') {
+    return { category: 'provider_error', ...details };
+  }
+
+  return { category: 'unknown', ...details };
+}
\ No newline at end of file
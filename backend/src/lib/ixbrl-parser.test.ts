@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { InlineXBRLError, InlineXBRLParser } from './ixbrl-parser';
+
+const document = `<?xml version="1.0" encoding="utf-8"?>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:ix="http://www.xbrl.org/2013/inlineXBRL"
+  xmlns:xbrli="http://www.xbrl.org/2003/instance" xmlns:xbrldi="http://xbrl.org/2006/xbrldi"
+  xmlns:iso4217="http://www.xbrl.org/2003/iso4217" xmlns:us-gaap="http://fasb.org/us-gaap/2023"
+  xmlns:dei="http://xbrl.sec.gov/dei/2023" xmlns:srt="http://fasb.org/srt/2023" xmlns:acme="http://acme.example/2023">
+<body>
+  <div style="display:none"><ix:header><ix:hidden>
+    <ix:nonNumeric name="dei:EntityCentralIndexKey" contextRef="FY2023">0000123456</ix:nonNumeric>
+    <ix:nonNumeric name="dei:DocumentType" contextRef="FY2023">10-K</ix:nonNumeric>
+    <ix:nonNumeric name="dei:DocumentFiscalYearFocus" contextRef="FY2023">2023</ix:nonNumeric>
+    <ix:nonNumeric name="dei:DocumentFiscalPeriodFocus" contextRef="FY2023">FY</ix:nonNumeric>
+    <ix:nonNumeric name="dei:CurrentFiscalYearEndDate" contextRef="FY2023">--12-31</ix:nonNumeric>
+  </ix:hidden><ix:resources>
+    <xbrli:context id="FY2023">
+      <xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0000123456</xbrli:identifier></xbrli:entity>
+      <xbrli:period><xbrli:startDate>2023-01-01</xbrli:startDate><xbrli:endDate>2023-12-31</xbrli:endDate></xbrli:period>
+    </xbrli:context>
+    <xbrli:context id="FY2023_Cloud">
+      <xbrli:entity>
+        <xbrli:identifier scheme="http://www.sec.gov/CIK">0000123456</xbrli:identifier>
+        <xbrli:segment><xbrldi:explicitMember dimension="us-gaap:StatementBusinessSegmentsAxis">acme:CloudMember</xbrldi:explicitMember></xbrli:segment>
+      </xbrli:entity>
+      <xbrli:period><xbrli:startDate>2023-01-01</xbrli:startDate><xbrli:endDate>2023-12-31</xbrli:endDate></xbrli:period>
+    </xbrli:context>
+    <xbrli:context id="I2023">
+      <xbrli:entity><xbrli:identifier scheme="http://www.sec.gov/CIK">0000123456</xbrli:identifier></xbrli:entity>
+      <xbrli:period><xbrli:instant>2023-12-31</xbrli:instant></xbrli:period>
+    </xbrli:context>
+    <xbrli:unit id="usd"><xbrli:measure>iso4217:USD</xbrli:measure></xbrli:unit>
+    <xbrli:unit id="usdPerShare"><xbrli:divide>
+      <xbrli:unitNumerator><xbrli:measure>iso4217:USD</xbrli:measure></xbrli:unitNumerator>
+      <xbrli:unitDenominator><xbrli:measure>xbrli:shares</xbrli:measure></xbrli:unitDenominator>
+    </xbrli:divide></xbrli:unit>
+  </ix:resources></ix:header></div>
+  <p>ACME Corp (<ix:nonNumeric name="dei:TradingSymbol" contextRef="FY2023">acme</ix:nonNumeric>)
+    <ix:nonNumeric name="dei:EntityRegistrantName" contextRef="FY2023">ACME Corp</ix:nonNumeric></p>
+  <table>
+    <tr><td>Revenue</td><td><ix:nonFraction name="us-gaap:Revenues" contextRef="FY2023" unitRef="usd" decimals="-6" scale="6" format="ixt:num-dot-decimal">1,250.5</ix:nonFraction></td></tr>
+    <tr><td>Revenue (repeated)</td><td><ix:nonFraction name="us-gaap:Revenues" contextRef="FY2023" unitRef="usd" decimals="-6" scale="6">1,250.5</ix:nonFraction></td></tr>
+    <tr><td>Cloud revenue</td><td><ix:nonFraction name="us-gaap:Revenues" contextRef="FY2023_Cloud" unitRef="usd" decimals="-6" scale="6">400</ix:nonFraction></td></tr>
+    <tr><td>Net loss</td><td>(<ix:nonFraction name="us-gaap:NetIncomeLoss" contextRef="FY2023" unitRef="usd" scale="3" sign="-">2,000</ix:nonFraction>)</td></tr>
+    <tr><td>Goodwill</td><td><ix:nonFraction name="us-gaap:Goodwill" contextRef="I2023" unitRef="usd" format="ixt:fixed-zero">—</ix:nonFraction></td></tr>
+    <tr><td>EPS</td><td>(<ix:nonFraction name="us-gaap:EarningsPerShareDiluted" contextRef="FY2023" unitRef="usdPerShare" decimals="2">0.45</ix:nonFraction>)</td></tr>
+    <tr><td>Backlog</td><td><ix:nonFraction name="acme:ContractBacklog" contextRef="I2023" unitRef="usd" scale="6">75</ix:nonFraction></td></tr>
+    <tr><td>Untracked</td><td><ix:nonFraction name="us-gaap:SomethingUncataloged" contextRef="FY2023" unitRef="usd">5</ix:nonFraction></td></tr>
+  </table>
+</body></html>`;
+
+describe('InlineXBRLParser', () => {
+  const parsed = InlineXBRLParser.parse(document, {
+    accession: '0000123456-24-000010',
+    filed: new Date('2024-02-15'),
+  });
+  const find = (concept: string, dimensional = false) =>
+    parsed.facts.find(fact => fact.concept === concept && Boolean(fact.dimensions) === dimensional);
+
+  it('should read filer details from dei tags', () => {
+    expect(parsed).toMatchObject({
+      cik: '0000123456',
+      entityName: 'ACME Corp',
+      ticker: 'ACME',
+      form: '10-K',
+      fiscalYear: 2023,
+      fiscalPeriod: 'FY',
+      fiscalYearEnd: '1231',
+      reportingCurrency: 'USD',
+    });
+  });
+
+  it('should produce ParsedFact values with scale, sign and format applied', () => {
+    expect(find('Revenues')).toEqual({
+      concept: 'Revenues',
+      sourceConcept: 'Revenues',
+      taxonomy: 'us-gaap',
+      unit: 'USD',
+      value: 1250500000,
+      periodStart: new Date('2023-01-01'),
+      periodEnd: new Date('2023-12-31'),
+      instant: false,
+      fiscalYear: 2023,
+      fiscalPeriod: 'FY',
+      filingAccession: '0000123456-24-000010',
+      form: '10-K',
+      filed: new Date('2024-02-15'),
+    });
+    expect(find('NetIncomeLoss')?.value).toBe(-2000000);
+    expect(find('Goodwill')).toMatchObject({ value: 0, instant: true, periodStart: null });
+    expect(find('EarningsPerShareDiluted')?.value).toBe(0.45); // Parentheses outside the tag are presentation only
+    expect(parsed.facts.filter(fact => fact.concept === 'Revenues' && !fact.dimensions)).toHaveLength(1);
+  });
+
+  it('should keep dimensional and extension facts and drop uncataloged us-gaap tags', () => {
+    expect(find('Revenues', true)).toMatchObject({
+      value: 400000000,
+      dimensions: { 'us-gaap:StatementBusinessSegmentsAxis': 'acme:CloudMember' },
+    });
+    expect(find('ContractBacklog')).toMatchObject({ taxonomy: 'acme', value: 75000000 });
+    expect(find('SomethingUncataloged')).toBeUndefined();
+  });
+
+  it('should require an accession and derive one from EDGAR paths', () => {
+    expect(() => InlineXBRLParser.parse(document)).toThrow(InlineXBRLError);
+    expect(InlineXBRLParser.accessionFromPath('data/320193/000032019323000106/aapl-20230930.htm'))
+      .toBe('0000320193-23-000106');
+    expect(InlineXBRLParser.accessionFromPath('0000320193-23-000106.htm')).toBe('0000320193-23-000106');
+    expect(InlineXBRLParser.accessionFromPath('aapl-20230930.htm')).toBeUndefined();
+  });
+});
\ No newline at end of file
@@ -0,0 +1,281 @@
+/**
+ * Inline XBRL (iXBRL) instance parser.
+ *
+ * 10-K and 10-Q filings are HTML documents with XBRL tags embedded inline
+ * (`ix:nonFraction` for numbers, `ix:nonNumeric` for text). Parsing the
+ * document directly gives a filing's facts the day it is published, including
+ * company extension elements and dimensional (segment) facts that the
+ * companyfacts API omits. Facts come out in the same `ParsedFact` shape as
+ * XBRLParser, with `dimensions` set on segment facts.
+ */
+
+import { load } from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { CONCEPT_CATALOG, isSupportedTaxonomy, resolveConcept } from './concept-catalog';
+import { XBRLParser } from './xbrl-parser';
+import type { ParseOptions, ParsedFact, ParsedFinancialData } from './xbrl-parser';
+
+export interface InlineXBRLParseOptions extends ParseOptions {
+  accession?: string; // Not part of the document; derived from an EDGAR path when omitted
+  filed?: Date; // Defaults to the time of parsing
+}
+
+export interface ParsedInlineXBRL extends ParsedFinancialData {
+  ticker?: string;
+  form: string; // dei:DocumentType
+  fiscalYear: number; // dei:DocumentFiscalYearFocus
+  fiscalPeriod: string; // dei:DocumentFiscalPeriodFocus
+  fiscalYearEnd?: string; // MMDD, from dei:CurrentFiscalYearEndDate
+}
+
+export class InlineXBRLError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InlineXBRLError';
+  }
+}
+
+interface Context {
+  periodStart: Date | null;
+  periodEnd: Date;
+  instant: boolean;
+  dimensions?: Record<string, string>;
+}
+
+// EDGAR archive folders name the accession without dashes: .../data/320193/000032019323000106/aapl-20230930.htm
+const ACCESSION_FOLDER = /(?:^|[/\\])(\d{10})(\d{2})(\d{6})(?:[/\\])/;
+const ACCESSION_FILE = /(\d{10}-\d{2}-\d{6})/;
+
+export class InlineXBRLParser {
+  static parse(html: string, options: InlineXBRLParseOptions = {}): ParsedInlineXBRL {
+    const catalog = options.catalog ?? CONCEPT_CATALOG;
+    const $ = load(html, { xml: true });
+
+    const contexts = this.parseContexts($);
+    const units = this.parseUnits($);
+    const dei = this.parseDocumentInformation($);
+
+    const cik = dei.get('EntityCentralIndexKey');
+    const form = dei.get('DocumentType');
+    const fiscalYear = parseInt(dei.get('DocumentFiscalYearFocus') ?? '', 10);
+    const fiscalPeriod = dei.get('DocumentFiscalPeriodFocus');
+    if (!cik || !form || isNaN(fiscalYear) || !fiscalPeriod) {
+      throw new InlineXBRLError(
+        'Document is missing dei:EntityCentralIndexKey, DocumentType, DocumentFiscalYearFocus or DocumentFiscalPeriodFocus'
+      );
+    }
+    if (!options.accession) {
+      throw new InlineXBRLError('An accession number is required to attribute facts to their filing');
+    }
+
+    const filing = {
+      fiscalYear,
+      fiscalPeriod,
+      filingAccession: options.accession,
+      form,
+      filed: options.filed ?? new Date(),
+    };
+
+    const facts: ParsedFact[] = [];
+    const seen = new Set<string>();
+
+    elementsByLocalName($, 'nonFraction').forEach(element => {
+      const name = element.attribs['name'];
+      const contextRef = element.attribs['contextRef'];
+      const unitRef = element.attribs['unitRef'];
+      if (!name || !contextRef || !unitRef) return;
+
+      // Tables often repeat a value; one fact per concept, context and unit
+      const key = `${name}|${contextRef}|${unitRef}`;
+      if (seen.has(key)) return;
+
+      const [prefix, tag] = name.includes(':') ? name.split(':', 2) as [string, string] : ['', name];
+      const taxonomy = prefix || 'us-gaap';
+
+      // Only keep us-gaap and ifrs-full tags the catalog knows; dei and company
+      // extension elements are kept under their own tag, as in XBRLParser
+      const supported = isSupportedTaxonomy(taxonomy);
+      const resolved = supported ? resolveConcept(tag, catalog, taxonomy) : undefined;
+      if (supported && !resolved) return;
+
+      const context = contexts.get(contextRef);
+      const rawUnit = units.get(unitRef);
+      if (!context || !rawUnit) return;
+
+      if (resolved && XBRLParser.shouldSkipUnit(resolved.definition, rawUnit)) return;
+      const unit = XBRLParser.normalizeUnit(rawUnit);
+      if (!unit) return;
+
+      const value = this.parseNumericValue($, element);
+      if (value === null) return;
+
+      seen.add(key);
+      facts.push({
+        concept: resolved?.concept ?? tag,
+        sourceConcept: tag,
+        taxonomy,
+        unit: unit.unit,
+        value,
+        periodStart: context.periodStart,
+        periodEnd: context.periodEnd,
+        instant: context.instant,
+        ...filing,
+        ...(context.dimensions && { dimensions: context.dimensions }),
+      });
+    });
+
+    const ticker = dei.get('TradingSymbol');
+    const fiscalYearEnd = dei.get('CurrentFiscalYearEndDate')?.replace(/^--/, '').replace('-', '');
+
+    return {
+      cik: cik.padStart(10, '0'),
+      entityName: dei.get('EntityRegistrantName') ?? '',
+      ...XBRLParser.resolveFacts(facts, catalog),
+      ...(ticker && { ticker: ticker.toUpperCase() }),
+      form,
+      fiscalYear,
+      fiscalPeriod,
+      ...(fiscalYearEnd && /^\d{4}$/.test(fiscalYearEnd) && { fiscalYearEnd }),
+    };
+  }
+
+  /**
+   * Accession number for a document saved under its EDGAR archive path or
+   * named after its accession; undefined when the path carries neither
+   */
+  static accessionFromPath(path: string): string | undefined {
+    const named = ACCESSION_FILE.exec(path)?.[1];
+    if (named) return named;
+
+    const folder = ACCESSION_FOLDER.exec(path);
+    return folder ? `${folder[1]}-${folder[2]}-${folder[3]}` : undefined;
+  }
+
+  private static parseContexts($: CheerioAPI): Map<string, Context> {
+    const contexts = new Map<string, Context>();
+
+    elementsByLocalName($, 'context').forEach(element => {
+      const id = element.attribs['id'];
+      const period = childrenByLocalName($, element, 'period')[0];
+      if (!id || !period) return;
+
+      const instant = parseDate(textOf($, childrenByLocalName($, period, 'instant')[0]));
+      const startDate = parseDate(textOf($, childrenByLocalName($, period, 'startDate')[0]));
+      const endDate = parseDate(textOf($, childrenByLocalName($, period, 'endDate')[0]));
+      const periodEnd = instant ?? endDate;
+      if (!periodEnd) return;
+
+      // Segment members, explicit (domain members) or typed (free values)
+      const dimensions: Record<string, string> = {};
+      [...childrenByLocalName($, element, 'explicitMember'), ...childrenByLocalName($, element, 'typedMember')]
+        .forEach(member => {
+          const dimension = member.attribs['dimension'];
+          const value = textOf($, member);
+          if (dimension && value) dimensions[dimension] = value;
+        });
+
+      contexts.set(id, {
+        periodStart: instant ? null : startDate,
+        periodEnd,
+        instant: Boolean(instant),
+        ...(Object.keys(dimensions).length > 0 && { dimensions }),
+      });
+    });
+
+    return contexts;
+  }
+
+  // Units as companyfacts names them: USD, shares, pure, USD/shares
+  private static parseUnits($: CheerioAPI): Map<string, string> {
+    const units = new Map<string, string>();
+    const measureOf = (element: Element | undefined) =>
+      localName(textOf($, childrenByLocalName($, element, 'measure')[0]) ?? '');
+
+    elementsByLocalName($, 'unit').forEach(element => {
+      const id = element.attribs['id'];
+      if (!id) return;
+
+      const divide = childrenByLocalName($, element, 'divide')[0];
+      if (divide) {
+        const numerator = measureOf(childrenByLocalName($, divide, 'unitNumerator')[0]);
+        const denominator = measureOf(childrenByLocalName($, divide, 'unitDenominator')[0]);
+        if (numerator && denominator) units.set(id, `${numerator}/${denominator}`);
+        return;
+      }
+
+      const measure = measureOf(element);
+      if (measure) units.set(id, measure);
+    });
+
+    return units;
+  }
+
+  private static parseDocumentInformation($: CheerioAPI): Map<string, string> {
+    const dei = new Map<string, string>();
+
+    elementsByLocalName($, 'nonNumeric').forEach(element => {
+      const name = element.attribs['name'];
+      if (!name?.startsWith('dei:')) return;
+
+      const tag = name.slice('dei:'.length);
+      const value = textOf($, element);
+      // Multi-class filers tag one TradingSymbol per class; the first is the primary listing
+      if (value && !dei.has(tag)) dei.set(tag, value);
+    });
+
+    return dei;
+  }
+
+  private static parseNumericValue($: CheerioAPI, element: Element): number | null {
+    if (element.attribs['xsi:nil'] === 'true') return null;
+
+    const format = localName(element.attribs['format'] ?? '').toLowerCase();
+    const text = $(element).text().trim();
+
+    let value: number;
+    if (format.includes('zero') || format.includes('dash') || /^(no|none|nil)$/i.test(text)) {
+      value = 0; // ixt:fixed-zero and ixt:zerodash render zero as a dash
+    } else if (format.includes('comma-decimal') || format.includes('numcommadecimal')) {
+      value = parseFloat(text.replace(/[\s.]/g, '').replace(',', '.')); // 1.234,5
+    } else {
+      value = parseFloat(text.replace(/[\s,]/g, ''));
+    }
+    if (isNaN(value)) return null;
+
+    // Displayed values are scaled (scale="6" for millions) and unsigned
+    const scale = parseInt(element.attribs['scale'] ?? '0', 10);
+    const scaled = scale ? value * Math.pow(10, scale) : value;
+    return element.attribs['sign'] === '-' ? -scaled : scaled;
+  }
+}
+
+// Tag prefixes vary between filers (xbrli:, ix:, or none), so match on local names
+function localName(qualifiedName: string): string {
+  const index = qualifiedName.indexOf(':');
+  return index >= 0 ? qualifiedName.slice(index + 1) : qualifiedName;
+}
+
+function elementsByLocalName($: CheerioAPI, name: string): Element[] {
+  return $('*').toArray().filter(hasLocalName(name));
+}
+
+function childrenByLocalName($: CheerioAPI, parent: Element | undefined, name: string): Element[] {
+  if (!parent) return [];
+  return $(parent).find('*').toArray().filter(hasLocalName(name));
+}
+
+function hasLocalName(name: string) {
+  return (node: AnyNode): node is Element => 'tagName' in node && localName(node.tagName) === name;
+}
+
+function textOf($: CheerioAPI, element: Element | undefined): string | undefined {
+  const text = element ? $(element).text().trim() : '';
+  return text || undefined;
+}
+
+function parseDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
\ No newline at end of file
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { deriveMetricViews, getComparableFrequency, getViewKey } from './metric-views';
+import type { MetricViewRow, ViewFact } from './metric-views';
+
+function fact(concept: string, start: string | null, end: string, value: number, overrides: Partial<ViewFact> = {}): ViewFact {
+  return {
+    concept,
+    value,
+    periodStart: start ? new Date(start) : null,
+    periodEnd: new Date(end),
+    fiscalYear: 2023,
+    fiscalPeriod: 'FY',
+    filingAccession: '0000320193-23-000106',
+    form: '10-K',
+    instant: start === null,
+    ...overrides,
+  };
+}
+
+function find(views: MetricViewRow[], metric: string, frequency: string, periodEnd: string) {
+  return views.find(view =>
+    view.metric === metric && view.frequency === frequency && view.periodEnd.toISOString().startsWith(periodEnd)
+  );
+}
+
+// Fiscal years ending December: FY2022 in full, then FY2023 quarter by quarter
+const revenue = [
+  fact('Revenues', '2022-01-01', '2022-03-31', 90, { fiscalYear: 2022, fiscalPeriod: 'Q1', form: '10-Q' }),
+  fact('Revenues', '2022-04-01', '2022-06-30', 95, { fiscalYear: 2022, fiscalPeriod: 'Q2', form: '10-Q' }),
+  fact('Revenues', '2022-07-01', '2022-09-30', 100, { fiscalYear: 2022, fiscalPeriod: 'Q3', form: '10-Q' }),
+  fact('Revenues', '2022-01-01', '2022-09-30', 285, { fiscalYear: 2022, fiscalPeriod: 'Q3', form: '10-Q' }),
+  fact('Revenues', '2022-01-01', '2022-12-31', 400, { fiscalYear: 2022 }),
+  fact('Revenues', '2023-01-01', '2023-03-31', 110, { fiscalPeriod: 'Q1', form: '10-Q' }),
+];
+
+describe('metric-views', () => {
+  describe('deriveMetricViews', () => {
+    it('should derive quarterly, annual and TTM values for duration concepts', () => {
+      const views = deriveMetricViews(revenue);
+
+      expect(find(views, 'Revenues', 'quarterly', '2022-12-31')).toMatchObject({
+        value: 115, // FY minus nine-month YTD
+        fiscalPeriod: 'Q4',
+        derived: true,
+      });
+      expect(find(views, 'Revenues', 'annual', '2022-12-31')).toMatchObject({ value: 400, derived: false });
+      expect(find(views, 'Revenues', 'ttm', '2023-03-31')).toMatchObject({
+        value: 420,
+        periodStart: new Date('2022-04-01'),
+        fiscalYear: 2023,
+        fiscalPeriod: 'Q1',
+      });
+      // YTD values are an input, not a view
+      expect(views.filter(view => view.metric === 'Revenues' && view.frequency === 'quarterly')).toHaveLength(5);
+    });
+
+    it('should use the fiscal year as the TTM value for an annual-only filer', () => {
+      const views = deriveMetricViews([
+        fact('Revenues', '2022-01-01', '2022-12-31', 400, { fiscalYear: 2022 }),
+        fact('Revenues', '2023-01-01', '2023-12-31', 440, { fiscalYear: 2023, filingAccession: '0000320193-24-000012' }),
+        fact('NetIncomeLoss', '2023-01-01', '2023-12-31', 44, { fiscalYear: 2023, filingAccession: '0000320193-24-000012' }),
+      ]);
+
+      expect(find(views, 'Revenues', 'ttm', '2023-12-31')).toMatchObject({
+        value: 440,
+        periodStart: new Date('2023-01-01'),
+        fiscalYear: 2023,
+        fiscalPeriod: 'FY',
+        filingAccession: '0000320193-24-000012',
+        derived: false,
+      });
+      expect(find(views, 'Revenues', 'ttm', '2022-12-31')?.value).toBe(400);
+      expect(find(views, 'NetMargin', 'ttm', '2023-12-31')?.value).toBe(10);
+    });
+
+    it('should take the latest filing for an instant and label it by the period it closes', () => {
+      const views = deriveMetricViews([
+        ...revenue,
+        fact('Assets', null, '2022-12-31', 1000, { filed: new Date('2023-02-01'), filingAccession: 'A' }),
+        // Restated as a comparative in the next year's filing
+        fact('Assets', null, '2022-12-31', 1050, { fiscalYear: 2023, filed: new Date('2024-02-01'), filingAccession: 'B' }),
+      ]);
+
+      expect(find(views, 'Assets', 'instant', '2022-12-31')).toMatchObject({
+        value: 1050,
+        periodStart: null,
+        fiscalYear: 2022,
+        fiscalPeriod: 'FY',
+        filingAccession: 'B',
+      });
+    });
+
+    it('should compute ratios from TTM durations and the instant at the same period end', () => {
+      const views = deriveMetricViews([
+        ...revenue,
+        fact('NetIncomeLoss', '2022-01-01', '2022-03-31', 9, { fiscalYear: 2022, fiscalPeriod: 'Q1', form: '10-Q' }),
+        fact('NetIncomeLoss', '2022-04-01', '2022-06-30', 10, { fiscalYear: 2022, fiscalPeriod: 'Q2', form: '10-Q' }),
+        fact('NetIncomeLoss', '2022-07-01', '2022-09-30', 10, { fiscalYear: 2022, fiscalPeriod: 'Q3', form: '10-Q' }),
+        fact('NetIncomeLoss', '2022-01-01', '2022-09-30', 29, { fiscalYear: 2022, fiscalPeriod: 'Q3', form: '10-Q' }),
+        fact('NetIncomeLoss', '2022-01-01', '2022-12-31', 40, { fiscalYear: 2022 }),
+        fact('StockholdersEquity', null, '2022-12-31', 200, { fiscalYear: 2022 }),
+        fact('AssetsCurrent', null, '2022-12-31', 300, { fiscalYear: 2022 }),
+        fact('LiabilitiesCurrent', null, '2022-12-31', 150, { fiscalYear: 2022 }),
+      ]);
+
+      expect(find(views, 'NetMargin', 'ttm', '2022-12-31')).toMatchObject({
+        value: 10,
+        periodStart: new Date('2022-01-01'),
+        fiscalYear: 2022,
+        filingAccession: null,
+        derived: true,
+      });
+      expect(find(views, 'ReturnOnEquity', 'ttm', '2022-12-31')?.value).toBe(20);
+      expect(find(views, 'CurrentRatio', 'instant', '2022-12-31')?.value).toBe(2);
+      // No balance sheet at the latest quarter end, so no TTM return on equity there
+      expect(find(views, 'ReturnOnEquity', 'ttm', '2023-03-31')).toBeUndefined();
+    });
+
+    it('should give a debt-free company a zero debt to equity so screens can match it', () => {
+      const views = deriveMetricViews([
+        fact('StockholdersEquity', null, '2022-12-31', 200, { fiscalYear: 2022 }),
+        fact('StockholdersEquity', null, '2023-12-31', -50),
+      ]);
+
+      expect(find(views, 'DebtToEquity', 'instant', '2022-12-31')).toMatchObject({ value: 0, derived: true });
+      // Without debt or positive equity there is nothing to compare
+      expect(find(views, 'DebtToEquity', 'instant', '2023-12-31')).toBeUndefined();
+    });
+
+    it('should emit one row per metric, frequency and period end', () => {
+      const views = deriveMetricViews([
+        ...revenue,
+        fact('Assets', null, '2022-12-31', 1000, { filingAccession: 'A' }),
+        fact('Assets', null, '2022-12-31', 1000, { filingAccession: 'B' }),
+      ]);
+
+      const keys = views.map(getViewKey);
+      expect(new Set(keys).size).toBe(keys.length);
+    });
+  });
+
+  describe('getComparableFrequency', () => {
+    it('should compare durations on TTM and balances on the latest instant', () => {
+      expect(getComparableFrequency('Revenues')).toBe('ttm');
+      expect(getComparableFrequency('Assets')).toBe('instant');
+      expect(getComparableFrequency('ReturnOnEquity')).toBe('ttm');
+      expect(getComparableFrequency('CurrentRatio')).toBe('instant');
+    });
+  });
+});
\ No newline at end of file
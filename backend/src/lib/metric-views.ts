@@ -0,0 +1,324 @@
+/**
+ * Materialized metric views.
+ *
+ * A company's current facts are derived here into one value per metric,
+ * frequency and period end: discrete quarters, fiscal years and trailing
+ * twelve months for duration concepts, the balance at each date for instant
+ * concepts, and the financial ratios built from those. Ingestion stores the
+ * result in metric_views so overview and peer queries read finished values
+ * instead of normalizing raw facts on every request.
+ */
+
+import { getConceptDefinition } from './concept-catalog';
+import { computeTrailingTwelveMonths, normalizePeriods } from './period-normalizer';
+import type { NormalizeOptions, NormalizedPeriodValue, PeriodFact } from './period-normalizer';
+
+export type MetricFrequency = 'quarterly' | 'annual' | 'ttm' | 'instant';
+
+export type RatioUnit = 'percent' | 'ratio' | 'perShare';
+
+export interface RatioDefinition {
+  label: string;
+  unit: RatioUnit;
+  inputs: readonly string[]; // Concepts the ratio reads
+  compute: (values: Map<string, number>) => number | null;
+}
+
+export interface ViewFact extends PeriodFact {
+  concept: string;
+  instant?: boolean;
+}
+
+export interface MetricViewRow {
+  metric: string; // Catalog concept or ratio key
+  frequency: MetricFrequency;
+  periodStart: Date | null;
+  periodEnd: Date;
+  value: number;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  filingAccession: string | null; // Filing the value was taken from; null for ratios
+  derived: boolean; // Computed from other values rather than reported directly
+}
+
+// Same formulas as the ratio analysis: income statement figures are TTM,
+// balance sheet figures the instant at the same period end
+export const RATIO_DEFINITIONS: Readonly<Record<string, RatioDefinition>> = {
+  GrossMargin: {
+    label: 'Gross Margin',
+    unit: 'percent',
+    inputs: ['Revenues', 'CostOfRevenue'],
+    compute: values => {
+      const revenue = values.get('Revenues');
+      const cogs = values.get('CostOfRevenue');
+      return revenue && cogs ? ((revenue - cogs) / revenue) * 100 : null;
+    },
+  },
+  OperatingMargin: {
+    label: 'Operating Margin',
+    unit: 'percent',
+    inputs: ['Revenues', 'OperatingIncomeLoss'],
+    compute: values => {
+      const revenue = values.get('Revenues');
+      const operatingIncome = values.get('OperatingIncomeLoss');
+      return revenue && operatingIncome ? (operatingIncome / revenue) * 100 : null;
+    },
+  },
+  NetMargin: {
+    label: 'Net Margin',
+    unit: 'percent',
+    inputs: ['Revenues', 'NetIncomeLoss'],
+    compute: values => {
+      const revenue = values.get('Revenues');
+      const netIncome = values.get('NetIncomeLoss');
+      return revenue && netIncome ? (netIncome / revenue) * 100 : null;
+    },
+  },
+  ReturnOnEquity: {
+    label: 'Return on Equity',
+    unit: 'percent',
+    inputs: ['NetIncomeLoss', 'StockholdersEquity'],
+    compute: values => {
+      const netIncome = values.get('NetIncomeLoss');
+      const equity = values.get('StockholdersEquity');
+      return netIncome && equity ? (netIncome / equity) * 100 : null;
+    },
+  },
+  ReturnOnAssets: {
+    label: 'Return on Assets',
+    unit: 'percent',
+    inputs: ['NetIncomeLoss', 'Assets'],
+    compute: values => {
+      const netIncome = values.get('NetIncomeLoss');
+      const assets = values.get('Assets');
+      return netIncome && assets ? (netIncome / assets) * 100 : null;
+    },
+  },
+  CurrentRatio: {
+    label: 'Current Ratio',
+    unit: 'ratio',
+    inputs: ['AssetsCurrent', 'LiabilitiesCurrent'],
+    compute: values => {
+      const currentAssets = values.get('AssetsCurrent');
+      const currentLiabilities = values.get('LiabilitiesCurrent');
+      return currentAssets && currentLiabilities ? currentAssets / currentLiabilities : null;
+    },
+  },
+  QuickRatio: {
+    label: 'Quick Ratio',
+    unit: 'ratio',
+    inputs: ['AssetsCurrent', 'InventoryNet', 'LiabilitiesCurrent'],
+    compute: values => {
+      const currentAssets = values.get('AssetsCurrent');
+      const inventory = values.get('InventoryNet') || 0;
+      const currentLiabilities = values.get('LiabilitiesCurrent');
+      return currentAssets && currentLiabilities ? (currentAssets - inventory) / currentLiabilities : null;
+    },
+  },
+  DebtToEquity: {
+    label: 'Debt to Equity',
+    unit: 'ratio',
+    inputs: ['LongTermDebtNoncurrent', 'LongTermDebtCurrent', 'StockholdersEquity'],
+    compute: values => {
+      const totalDebt = (values.get('LongTermDebtNoncurrent') || 0) + (values.get('LongTermDebtCurrent') || 0);
+      const equity = values.get('StockholdersEquity');
+      if (!equity) return null;
+      // No reported debt is a debt-free balance sheet, not a missing ratio
+      if (totalDebt === 0) return equity > 0 ? 0 : null;
+      return totalDebt / equity;
+    },
+  },
+  InterestCoverage: {
+    label: 'Interest Coverage',
+    unit: 'ratio',
+    inputs: ['OperatingIncomeLoss', 'InterestExpense'],
+    compute: values => {
+      const operatingIncome = values.get('OperatingIncomeLoss');
+      const interestExpense = values.get('InterestExpense');
+      return operatingIncome && interestExpense ? operatingIncome / interestExpense : null;
+    },
+  },
+  AssetTurnover: {
+    label: 'Asset Turnover',
+    unit: 'ratio',
+    inputs: ['Revenues', 'Assets'],
+    compute: values => {
+      const revenue = values.get('Revenues');
+      const assets = values.get('Assets');
+      return revenue && assets ? revenue / assets : null;
+    },
+  },
+  BookValuePerShare: {
+    label: 'Book Value per Share',
+    unit: 'perShare',
+    inputs: ['StockholdersEquity', 'CommonStockSharesOutstanding'],
+    compute: values => {
+      const equity = values.get('StockholdersEquity');
+      const shares = values.get('CommonStockSharesOutstanding');
+      return equity !== undefined && shares ? equity / shares : null;
+    },
+  },
+};
+
+export function isRatioMetric(metric: string): boolean {
+  return Object.prototype.hasOwnProperty.call(RATIO_DEFINITIONS, metric);
+}
+
+/**
+ * The frequency that compares companies on a metric regardless of their
+ * fiscal calendars: TTM for anything read from the income or cash flow
+ * statement, the latest instant for balance sheet items
+ */
+export function getComparableFrequency(metric: string): 'ttm' | 'instant' {
+  const ratio = RATIO_DEFINITIONS[metric];
+  if (ratio) {
+    return ratio.inputs.some(input => getConceptDefinition(input)?.periodType === 'duration') ? 'ttm' : 'instant';
+  }
+  return getConceptDefinition(metric)?.periodType === 'instant' ? 'instant' : 'ttm';
+}
+
+// Stored rows carry the frequency as a plain string
+export function getViewKey(view: Pick<MetricViewRow, 'metric' | 'periodEnd'> & { frequency: string }): string {
+  return `${view.metric}|${view.frequency}|${toDay(view.periodEnd)}`;
+}
+
+/**
+ * Derive every view row from a company's current (non-superseded) facts.
+ * Share and per-share facts should already be on the current share basis.
+ */
+export function deriveMetricViews(facts: ViewFact[], options: NormalizeOptions = {}): MetricViewRow[] {
+  const byConcept = new Map<string, ViewFact[]>();
+  for (const fact of facts) {
+    byConcept.set(fact.concept, [...(byConcept.get(fact.concept) || []), fact]);
+  }
+
+  const views: MetricViewRow[] = [];
+  const instants = new Map<string, ViewFact[]>();
+
+  for (const [concept, conceptFacts] of byConcept.entries()) {
+    const isInstant = getConceptDefinition(concept)?.periodType === 'instant'
+      || conceptFacts.every(fact => fact.instant);
+    if (isInstant) {
+      instants.set(concept, conceptFacts);
+      continue;
+    }
+
+    const { quarterly, annual } = normalizePeriods(conceptFacts, options);
+    views.push(
+      ...quarterly.map(period => fromPeriod(concept, 'quarterly', period)),
+      ...annual.map(period => fromPeriod(concept, 'annual', period)),
+      ...computeTrailingTwelveMonths(quarterly, annual).map(period => fromPeriod(concept, 'ttm', period))
+    );
+  }
+
+  // A comparative balance in a later filing carries that filing's fiscal
+  // labels, so instants take the labels of the duration periods ending with them
+  const labels = getFiscalLabels(views);
+  for (const [concept, conceptFacts] of instants.entries()) {
+    views.push(...deriveInstants(concept, conceptFacts, labels));
+  }
+
+  views.push(...deriveRatios(views));
+
+  return Array.from(new Map(views.map(view => [getViewKey(view), view])).values());
+}
+
+type FiscalLabel = Pick<MetricViewRow, 'fiscalYear' | 'fiscalPeriod'>;
+
+function fromPeriod(
+  metric: string,
+  frequency: MetricFrequency,
+  period: NormalizedPeriodValue<ViewFact>
+): MetricViewRow {
+  return {
+    metric,
+    frequency,
+    periodStart: period.periodStart,
+    periodEnd: period.periodEnd,
+    value: period.value,
+    fiscalYear: period.fiscalYear,
+    fiscalPeriod: period.fiscalPeriod,
+    filingAccession: period.source.filingAccession,
+    derived: period.derived,
+  };
+}
+
+function getFiscalLabels(views: MetricViewRow[]): Map<string, FiscalLabel> {
+  const labels = new Map<string, FiscalLabel>();
+  for (const view of views) {
+    const day = toDay(view.periodEnd);
+    // Fiscal year ends are labelled FY rather than Q4
+    if (view.frequency === 'annual' || (view.frequency === 'quarterly' && !labels.has(day))) {
+      labels.set(day, { fiscalYear: view.fiscalYear, fiscalPeriod: view.fiscalPeriod });
+    }
+  }
+  return labels;
+}
+
+function deriveInstants(concept: string, facts: ViewFact[], labels: Map<string, FiscalLabel>): MetricViewRow[] {
+  const latest = new Map<string, ViewFact>();
+  for (const fact of facts) {
+    const day = toDay(fact.periodEnd);
+    const current = latest.get(day);
+    if (!current || compareFilings(fact, current) > 0) {
+      latest.set(day, fact);
+    }
+  }
+
+  return Array.from(latest.entries()).map(([day, fact]) => ({
+    metric: concept,
+    frequency: 'instant' as const,
+    periodStart: null,
+    periodEnd: fact.periodEnd,
+    value: fact.value,
+    ...(labels.get(day) ?? { fiscalYear: fact.fiscalYear, fiscalPeriod: fact.fiscalPeriod }),
+    filingAccession: fact.filingAccession,
+    derived: false,
+  }));
+}
+
+function deriveRatios(views: MetricViewRow[]): MetricViewRow[] {
+  const periods = new Map<string, { periodEnd: Date; ttm?: MetricViewRow; instant?: MetricViewRow; values: Map<string, number> }>();
+  for (const view of views) {
+    if (view.frequency !== 'ttm' && view.frequency !== 'instant') continue;
+
+    const day = toDay(view.periodEnd);
+    const period = periods.get(day) ?? { periodEnd: view.periodEnd, values: new Map<string, number>() };
+    period.values.set(view.metric, view.value);
+    if (!period[view.frequency]) period[view.frequency] = view;
+    periods.set(day, period);
+  }
+
+  const ratios: MetricViewRow[] = [];
+  for (const period of periods.values()) {
+    for (const [metric, definition] of Object.entries(RATIO_DEFINITIONS)) {
+      const frequency = getComparableFrequency(metric);
+      const basis = frequency === 'ttm' ? period.ttm : period.instant;
+      const value = definition.compute(period.values);
+      if (!basis || value === null || !Number.isFinite(value)) continue;
+
+      ratios.push({
+        metric,
+        frequency,
+        periodStart: basis.periodStart,
+        periodEnd: period.periodEnd,
+        value,
+        fiscalYear: basis.fiscalYear,
+        fiscalPeriod: basis.fiscalPeriod,
+        filingAccession: null,
+        derived: true,
+      });
+    }
+  }
+  return ratios;
+}
+
+// Later filing wins; accession numbers order filings from the same day
+function compareFilings(a: ViewFact, b: ViewFact): number {
+  const filed = (a.filed?.getTime() ?? 0) - (b.filed?.getTime() ?? 0);
+  return filed !== 0 ? filed : a.filingAccession.localeCompare(b.filingAccession);
+}
+
+function toDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
\ No newline at end of file
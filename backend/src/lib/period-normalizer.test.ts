@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+import { computeTrailingTwelveMonths, getDurationDays, getDurationMonths, getFiscalYearLabel, normalizePeriods } from './period-normalizer';
+import type { PeriodFact } from './period-normalizer';
+
+function fact(start: string | null, end: string, value: number, overrides: Partial<PeriodFact> = {}): PeriodFact {
+  return {
+    value,
+    periodStart: start ? new Date(start) : null,
+    periodEnd: new Date(end),
+    fiscalYear: 2023,
+    fiscalPeriod: 'FY',
+    filingAccession: '0000320193-23-000106',
+    form: '10-K',
+    ...overrides,
+  };
+}
+
+describe('period-normalizer', () => {
+  describe('duration classification', () => {
+    it('should classify durations by length', () => {
+      expect(getDurationMonths(new Date('2022-10-01'), new Date('2022-12-31'))).toBe(3);
+      expect(getDurationMonths(new Date('2022-10-01'), new Date('2023-04-01'))).toBe(6);
+      expect(getDurationMonths(new Date('2022-09-25'), new Date('2023-07-01'))).toBe(9);
+      expect(getDurationMonths(new Date('2022-09-25'), new Date('2023-09-30'))).toBe(12);
+    });
+
+    it('should report instants as zero days', () => {
+      expect(getDurationDays(null, new Date('2023-09-30'))).toBe(0);
+      expect(getDurationDays(new Date('2023-01-01'), new Date('2023-03-31'))).toBe(90);
+    });
+  });
+
+  describe('normalizePeriods', () => {
+    // Fiscal year ending September, as reported in companyfacts
+    const fiscal2023 = [
+      fact('2022-10-01', '2022-12-31', 100, { fiscalPeriod: 'Q1', form: '10-Q' }),
+      fact('2023-01-01', '2023-03-31', 90, { fiscalPeriod: 'Q2', form: '10-Q' }),
+      fact('2022-10-01', '2023-03-31', 190, { fiscalPeriod: 'Q2', form: '10-Q' }),
+      fact('2023-04-01', '2023-06-30', 80, { fiscalPeriod: 'Q3', form: '10-Q' }),
+      fact('2022-10-01', '2023-06-30', 270, { fiscalPeriod: 'Q3', form: '10-Q' }),
+      fact('2022-10-01', '2023-09-30', 383),
+    ];
+
+    it('should derive Q4 as FY minus nine-month YTD', () => {
+      const { quarterly } = normalizePeriods(fiscal2023);
+
+      expect(quarterly.map(q => q.fiscalPeriod)).toEqual(['Q4', 'Q3', 'Q2', 'Q1']);
+      expect(quarterly[0]).toMatchObject({
+        value: 113,
+        fiscalYear: 2023,
+        derived: true,
+        periodStart: new Date('2023-07-01'),
+        periodEnd: new Date('2023-09-30'),
+      });
+      expect(quarterly.slice(1).every(q => !q.derived)).toBe(true);
+    });
+
+    it('should expose the cumulative YTD series and annual values', () => {
+      const { ytd, annual } = normalizePeriods(fiscal2023);
+
+      expect(ytd.map(v => [v.fiscalPeriod, v.value])).toEqual([
+        ['FY', 383],
+        ['Q3', 270],
+        ['Q2', 190],
+        ['Q1', 100],
+      ]);
+      expect(annual).toHaveLength(1);
+      expect(annual[0]?.value).toBe(383);
+    });
+
+    it('should difference YTD values when three-month values are missing', () => {
+      const ytdOnly = fiscal2023.filter(f => f.value !== 90 && f.value !== 80);
+      const { quarterly } = normalizePeriods(ytdOnly);
+
+      expect(quarterly.map(q => [q.fiscalPeriod, q.value])).toEqual([
+        ['Q4', 113],
+        ['Q3', 80],
+        ['Q2', 90],
+        ['Q1', 100],
+      ]);
+    });
+
+    it('should derive a single missing quarter from the annual value', () => {
+      const { quarterly } = normalizePeriods([
+        fact('2023-01-01', '2023-03-31', 10, { fiscalPeriod: 'Q1' }),
+        fact('2023-04-01', '2023-06-30', 20, { fiscalPeriod: 'Q2' }),
+        fact('2023-10-01', '2023-12-31', 40, { fiscalPeriod: 'Q4' }),
+        fact('2023-01-01', '2023-12-31', 100),
+      ]);
+
+      const q3 = quarterly.find(q => q.fiscalPeriod === 'Q3');
+      expect(q3?.value).toBe(30);
+      expect(q3?.periodStart).toEqual(new Date('2023-07-01'));
+      expect(q3?.periodEnd).toEqual(new Date('2023-09-30'));
+    });
+
+    it('should prefer the most recent filing for a restated period', () => {
+      const { quarterly } = normalizePeriods([
+        fact('2023-01-01', '2023-03-31', 10, { filingAccession: '0000320193-23-000010' }),
+        fact('2023-01-01', '2023-03-31', 12, { filingAccession: '0000320193-24-000010' }),
+      ]);
+
+      expect(quarterly).toHaveLength(1);
+      expect(quarterly[0]?.value).toBe(12);
+    });
+
+    it('should ignore instant facts', () => {
+      const result = normalizePeriods([fact(null, '2023-09-30', 500)]);
+
+      expect(result.quarterly).toEqual([]);
+      expect(result.ytd).toEqual([]);
+    });
+  });
+
+  describe('getFiscalYearLabel', () => {
+    it('should label a 52/53-week year by the nominal year end it closes', () => {
+      // Saturday closest to December 31
+      expect(getFiscalYearLabel(new Date('2022-01-01'), '1231')).toBe(2021);
+      expect(getFiscalYearLabel(new Date('2022-12-31'), '1231')).toBe(2022);
+      expect(getFiscalYearLabel(new Date('2023-09-30'), '0930')).toBe(2023);
+    });
+
+    it('should label years ending January to May by the year they begin in', () => {
+      expect(getFiscalYearLabel(new Date('2024-01-28'), '0131')).toBe(2023);
+      expect(getFiscalYearLabel(new Date('2024-02-03'), '0131')).toBe(2023);
+      expect(getFiscalYearLabel(new Date('2024-05-31'))).toBe(2023);
+      expect(getFiscalYearLabel(new Date('2024-06-30'))).toBe(2024);
+    });
+
+    it('should apply to the fiscal years built from YTD facts', () => {
+      const { annual } = normalizePeriods(
+        [fact('2023-01-30', '2024-01-28', 60922, { fiscalYear: 2024 })],
+        { fiscalYearEnd: '0128' }
+      );
+
+      expect(annual[0]?.fiscalYear).toBe(2023);
+    });
+  });
+
+  describe('computeTrailingTwelveMonths', () => {
+    const quarters = [
+      fact('2023-01-01', '2023-03-31', 10),
+      fact('2023-04-01', '2023-06-30', 20),
+      fact('2023-07-01', '2023-09-30', 30),
+      fact('2023-10-01', '2023-12-31', 40),
+      fact('2024-01-01', '2024-03-31', 50),
+    ];
+
+    it('should roll four consecutive quarters', () => {
+      const ttm = computeTrailingTwelveMonths(normalizePeriods(quarters).quarterly);
+
+      expect(ttm.map(p => p.value)).toEqual([140, 100]);
+      expect(ttm[0]).toMatchObject({
+        periodStart: new Date('2023-04-01'),
+        periodEnd: new Date('2024-03-31'),
+        months: 12,
+        basis: 'ttm',
+      });
+    });
+
+    it('should skip windows with a missing quarter', () => {
+      const withGap = quarters.filter(q => q.value !== 30);
+      const ttm = computeTrailingTwelveMonths(normalizePeriods(withGap).quarterly);
+
+      expect(ttm).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,370 @@
+/**
+ * Period normalization for XBRL duration facts.
+ *
+ * SEC companyfacts report 10-Q durations both as three-month values and as
+ * fiscal-year-to-date values, and the 10-K only as a full year. This module
+ * classifies durations by length and rebuilds discrete quarterly values
+ * (including Q4 = FY - 9M YTD) alongside the cumulative YTD series, and
+ * rolls discrete quarters into trailing-twelve-month values.
+ */
+
+export interface PeriodFact {
+  value: number;
+  periodStart: Date | null;
+  periodEnd: Date;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  filingAccession: string;
+  form: string;
+  filed?: Date | null | undefined;
+}
+
+export type PeriodBasis = 'discrete' | 'ytd' | 'ttm';
+
+export interface NormalizedPeriodValue<T extends PeriodFact = PeriodFact> {
+  periodStart: Date;
+  periodEnd: Date;
+  value: number;
+  fiscalYear: number;
+  fiscalPeriod: string; // Q1-Q4 or FY
+  months: number;
+  basis: PeriodBasis;
+  derived: boolean; // Computed from other facts rather than reported directly
+  source: T; // Fact that closes the period (latest filing used)
+}
+
+export interface NormalizeOptions {
+  fiscalYearEnd?: string | null | undefined; // MMDD from the filer's submissions, e.g. "0930"
+}
+
+export interface NormalizedSeries<T extends PeriodFact = PeriodFact> {
+  quarterly: NormalizedPeriodValue<T>[]; // Discrete three-month values
+  ytd: NormalizedPeriodValue<T>[]; // Cumulative fiscal-year-to-date values
+  annual: NormalizedPeriodValue<T>[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AVERAGE_MONTH_DAYS = 30.4375;
+// 52/53-week fiscal calendars drift a few days from calendar month ends
+const DATE_TOLERANCE_DAYS = 10;
+// Fiscal years ending January to May are labelled by the calendar year they begin in
+const LAST_PRIOR_YEAR_LABEL_MONTH = 4; // May, zero-based
+
+/**
+ * Length of a duration in days, counting both endpoints. Instants are 0.
+ */
+export function getDurationDays(periodStart: Date | null | undefined, periodEnd: Date): number {
+  if (!periodStart) return 0;
+  return Math.round((periodEnd.getTime() - periodStart.getTime()) / DAY_MS) + 1;
+}
+
+/**
+ * Length of a duration rounded to whole months (3, 6, 9, 12 for the periods
+ * SEC filers report)
+ */
+export function getDurationMonths(periodStart: Date, periodEnd: Date): number {
+  return Math.round(getDurationDays(periodStart, periodEnd) / AVERAGE_MONTH_DAYS);
+}
+
+/**
+ * Fiscal year label for a year ending on periodEnd. The filer's nominal year
+ * end (MMDD) places 52/53-week years that close a few days past it; without
+ * one the period end itself is taken as nominal. Years ending January to May
+ * are labelled by the calendar year they begin in, where most of their months
+ * fall (the Compustat convention), so a year ending 2024-01-28 is 2023.
+ */
+export function getFiscalYearLabel(periodEnd: Date, fiscalYearEnd?: string | null): number {
+  const nominal = getNominalYearEnd(periodEnd, fiscalYearEnd);
+  return nominal.getUTCMonth() <= LAST_PRIOR_YEAR_LABEL_MONTH
+    ? nominal.getUTCFullYear() - 1
+    : nominal.getUTCFullYear();
+}
+
+export function normalizePeriods<T extends PeriodFact>(facts: T[], options: NormalizeOptions = {}): NormalizedSeries<T> {
+  const durations = dedupeByPeriod(facts.filter(hasPeriodStart));
+  const fiscalYears = buildFiscalYears(durations, options.fiscalYearEnd);
+
+  const ytd: NormalizedPeriodValue<T>[] = [];
+  const annual: NormalizedPeriodValue<T>[] = [];
+  const quarterly: NormalizedPeriodValue<T>[] = [];
+
+  // Reported three-month values are authoritative
+  for (const fact of durations) {
+    if (getDurationMonths(fact.periodStart, fact.periodEnd) !== 3) continue;
+
+    const fiscalYear = fiscalYears.find(fy => containsPeriod(fy, fact));
+    const quarter = fiscalYear
+      ? Math.round(monthsBetween(fiscalYear.start, fact.periodEnd) / 3)
+      : Number(fact.fiscalPeriod.replace('Q', ''));
+
+    quarterly.push({
+      periodStart: fact.periodStart,
+      periodEnd: fact.periodEnd,
+      value: fact.value,
+      fiscalYear: fiscalYear?.fiscalYear ?? fact.fiscalYear,
+      fiscalPeriod: quarter >= 1 && quarter <= 4 ? `Q${quarter}` : fact.fiscalPeriod,
+      months: 3,
+      basis: 'discrete',
+      derived: false,
+      source: fact,
+    });
+  }
+
+  for (const fiscalYear of fiscalYears) {
+    for (const fact of fiscalYear.cumulative) {
+      const months = getDurationMonths(fact.periodStart, fact.periodEnd);
+      const value: NormalizedPeriodValue<T> = {
+        periodStart: fact.periodStart,
+        periodEnd: fact.periodEnd,
+        value: fact.value,
+        fiscalYear: fiscalYear.fiscalYear,
+        fiscalPeriod: months === 12 ? 'FY' : `Q${months / 3}`,
+        months,
+        basis: 'ytd',
+        derived: false,
+        source: fact,
+      };
+
+      ytd.push(value);
+      if (months === 12) {
+        annual.push(value);
+      }
+    }
+
+    // Difference consecutive YTD values for quarters that were not reported
+    let previous: WithPeriodStart<T> | null = null;
+    for (const fact of fiscalYear.cumulative) {
+      const months = getDurationMonths(fact.periodStart, fact.periodEnd);
+      const previousMonths = previous ? getDurationMonths(previous.periodStart, previous.periodEnd) : 0;
+
+      if (previous && months - previousMonths === 3 && !findQuarterEnding(quarterly, fact.periodEnd)) {
+        quarterly.push({
+          periodStart: addDays(previous.periodEnd, 1),
+          periodEnd: fact.periodEnd,
+          value: fact.value - previous.value,
+          fiscalYear: fiscalYear.fiscalYear,
+          fiscalPeriod: `Q${months / 3}`,
+          months: 3,
+          basis: 'discrete',
+          derived: true,
+          source: fact,
+        });
+      }
+      previous = fact;
+    }
+
+    deriveMissingQuarter(fiscalYear, quarterly);
+  }
+
+  const newestFirst = (a: NormalizedPeriodValue<T>, b: NormalizedPeriodValue<T>) =>
+    b.periodEnd.getTime() - a.periodEnd.getTime();
+
+  return {
+    quarterly: quarterly.sort(newestFirst),
+    ytd: ytd.sort(newestFirst),
+    annual: annual.sort(newestFirst),
+  };
+}
+
+/**
+ * Sum each run of four consecutive discrete quarters into a trailing-twelve-month
+ * value. Windows with a gap are skipped rather than annualized. A fiscal year
+ * with no quarterly TTM ending with it, as for annual-only filers, is its own
+ * TTM at that year end.
+ */
+export function computeTrailingTwelveMonths<T extends PeriodFact>(
+  quarterly: NormalizedPeriodValue<T>[],
+  annual: NormalizedPeriodValue<T>[] = []
+): NormalizedPeriodValue<T>[] {
+  const ordered = [...quarterly].sort((a, b) => a.periodEnd.getTime() - b.periodEnd.getTime());
+  const ttm: NormalizedPeriodValue<T>[] = [];
+
+  for (let end = 3; end < ordered.length; end++) {
+    const window = ordered.slice(end - 3, end + 1);
+    const first = window[0];
+    const last = window[3];
+    if (!first || !last) continue;
+
+    const contiguous = window.every((quarter, index) => {
+      const previous = window[index - 1];
+      return !previous || isNearSameDay(quarter.periodStart, addDays(previous.periodEnd, 1));
+    });
+    if (!contiguous) continue;
+
+    ttm.push({
+      periodStart: first.periodStart,
+      periodEnd: last.periodEnd,
+      value: window.reduce((sum, quarter) => sum + quarter.value, 0),
+      fiscalYear: last.fiscalYear,
+      fiscalPeriod: last.fiscalPeriod,
+      months: 12,
+      basis: 'ttm',
+      derived: true,
+      source: last.source,
+    });
+  }
+
+  const uncovered = annual.filter(year => !ttm.some(period => isNearSameDay(period.periodEnd, year.periodEnd)));
+  return [...ttm, ...uncovered.map(year => ({ ...year, basis: 'ttm' as const }))]
+    .sort((a, b) => b.periodEnd.getTime() - a.periodEnd.getTime());
+}
+
+type WithPeriodStart<T extends PeriodFact> = T & { periodStart: Date };
+
+interface FiscalYear<T extends PeriodFact> {
+  start: Date;
+  end: Date;
+  fiscalYear: number;
+  cumulative: WithPeriodStart<T>[]; // Durations starting at the fiscal year start, shortest first
+  annual?: WithPeriodStart<T>;
+}
+
+function hasPeriodStart<T extends PeriodFact>(fact: T): fact is WithPeriodStart<T> {
+  return fact.periodStart !== null;
+}
+
+// Keep one fact per (start, end), preferring the most recent filing
+function dedupeByPeriod<T extends PeriodFact>(facts: WithPeriodStart<T>[]): WithPeriodStart<T>[] {
+  const byPeriod = new Map<string, WithPeriodStart<T>>();
+
+  for (const fact of facts) {
+    const key = `${dayKey(fact.periodStart)}|${dayKey(fact.periodEnd)}`;
+    const existing = byPeriod.get(key);
+    if (!existing || isLaterFiling(fact, existing)) {
+      byPeriod.set(key, fact);
+    }
+  }
+
+  return Array.from(byPeriod.values());
+}
+
+function isLaterFiling(a: PeriodFact, b: PeriodFact): boolean {
+  if (a.filed && b.filed && a.filed.getTime() !== b.filed.getTime()) {
+    return a.filed > b.filed;
+  }
+  return a.filingAccession > b.filingAccession;
+}
+
+// Fiscal years are anchored on the start date shared by YTD and annual facts
+function buildFiscalYears<T extends PeriodFact>(
+  facts: WithPeriodStart<T>[],
+  fiscalYearEnd?: string | null
+): FiscalYear<T>[] {
+  const fiscalYears: FiscalYear<T>[] = [];
+
+  const anchors = facts
+    .filter(fact => [6, 9, 12].includes(getDurationMonths(fact.periodStart, fact.periodEnd)))
+    .sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+
+  for (const anchor of anchors) {
+    if (fiscalYears.some(fy => isNearSameDay(fy.start, anchor.periodStart))) continue;
+
+    const start = anchor.periodStart;
+    const cumulative = facts
+      .filter(fact => isNearSameDay(fact.periodStart, start))
+      .filter(fact => [3, 6, 9, 12].includes(getDurationMonths(fact.periodStart, fact.periodEnd)))
+      .sort((a, b) => a.periodEnd.getTime() - b.periodEnd.getTime());
+
+    const annual = cumulative.find(fact => getDurationMonths(fact.periodStart, fact.periodEnd) === 12);
+    const end = annual?.periodEnd ?? addDays(addMonths(start, 12), -1);
+
+    fiscalYears.push({
+      start,
+      end,
+      fiscalYear: getFiscalYearLabel(end, fiscalYearEnd),
+      cumulative,
+      ...(annual && { annual }),
+    });
+  }
+
+  return fiscalYears;
+}
+
+// Q4 (or any single gap) = FY - sum of the three known quarters
+function deriveMissingQuarter<T extends PeriodFact>(
+  fiscalYear: FiscalYear<T>,
+  quarterly: NormalizedPeriodValue<T>[]
+): void {
+  if (!fiscalYear.annual) return;
+
+  const quarters = quarterly
+    .filter(q => containsPeriod(fiscalYear, q))
+    .sort((a, b) => a.periodEnd.getTime() - b.periodEnd.getTime());
+  if (quarters.length !== 3) return;
+
+  const labels = new Set(quarters.map(q => q.fiscalPeriod));
+  const missing = [1, 2, 3, 4].find(quarter => !labels.has(`Q${quarter}`));
+  if (!missing) return;
+
+  const before = quarters.find(q => q.fiscalPeriod === `Q${missing - 1}`);
+  const after = quarters.find(q => q.fiscalPeriod === `Q${missing + 1}`);
+
+  quarterly.push({
+    periodStart: before ? addDays(before.periodEnd, 1) : fiscalYear.start,
+    periodEnd: after ? addDays(after.periodStart, -1) : fiscalYear.end,
+    value: fiscalYear.annual.value - quarters.reduce((sum, q) => sum + q.value, 0),
+    fiscalYear: fiscalYear.fiscalYear,
+    fiscalPeriod: `Q${missing}`,
+    months: 3,
+    basis: 'discrete',
+    derived: true,
+    source: fiscalYear.annual,
+  });
+}
+
+function findQuarterEnding<T extends PeriodFact>(
+  quarterly: NormalizedPeriodValue<T>[],
+  periodEnd: Date
+): NormalizedPeriodValue<T> | undefined {
+  return quarterly.find(q => isNearSameDay(q.periodEnd, periodEnd));
+}
+
+function containsPeriod(
+  fiscalYear: { start: Date; end: Date },
+  period: { periodStart: Date; periodEnd: Date }
+): boolean {
+  const tolerance = DATE_TOLERANCE_DAYS * DAY_MS;
+  return (
+    period.periodStart.getTime() >= fiscalYear.start.getTime() - tolerance &&
+    period.periodEnd.getTime() <= fiscalYear.end.getTime() + tolerance
+  );
+}
+
+function monthsBetween(start: Date, end: Date): number {
+  return (end.getTime() - start.getTime()) / DAY_MS / AVERAGE_MONTH_DAYS;
+}
+
+// Dates up to DATE_TOLERANCE_DAYS apart count as the same period boundary
+function isNearSameDay(a: Date, b: Date): boolean {
+  return Math.abs(a.getTime() - b.getTime()) <= DATE_TOLERANCE_DAYS * DAY_MS;
+}
+
+// The filer's nominal year end closest to periodEnd
+function getNominalYearEnd(periodEnd: Date, fiscalYearEnd?: string | null): Date {
+  const match = fiscalYearEnd?.match(/^(\d{2})(\d{2})$/);
+  if (!match) return periodEnd;
+
+  const month = Number(match[1]) - 1;
+  const day = Number(match[2]);
+  return [-1, 0, 1]
+    .map(offset => new Date(Date.UTC(periodEnd.getUTCFullYear() + offset, month, day)))
+    .reduce((nearest, candidate) =>
+      Math.abs(candidate.getTime() - periodEnd.getTime()) < Math.abs(nearest.getTime() - periodEnd.getTime())
+        ? candidate
+        : nearest
+    );
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+}
\ No newline at end of file
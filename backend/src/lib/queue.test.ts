@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { queues, flowAdd } = vi.hoisted(() => ({
+  queues: new Map<string, any>(),
+  flowAdd: vi.fn(),
+}));
+
+vi.mock('./redis', () => ({ redis: {} }));
+
+vi.mock('bullmq', () => ({
+  Queue: vi.fn().mockImplementation((name: string) => {
+    const queue = {
+      getJob: vi.fn().mockResolvedValue(undefined),
+      addJobLog: vi.fn().mockResolvedValue(1),
+      getJobLogs: vi.fn().mockResolvedValue({ logs: [], count: 0 }),
+    };
+    queues.set(name, queue);
+    return queue;
+  }),
+  FlowProducer: vi.fn().mockImplementation(() => ({ add: flowAdd })),
+  Worker: vi.fn(),
+}));
+
+import { addBatchIngestJob, getBatchFailures, recordBatchFailure } from './queue';
+
+const existingJob = (state: string, parentKey?: string) => ({
+  getState: vi.fn().mockResolvedValue(state),
+  remove: vi.fn(),
+  parentKey,
+});
+
+describe('batch ingest jobs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should reuse per-company job ids, clearing finished jobs and adopting queued ones', async () => {
+    const completed = existingJob('completed');
+    const waiting = existingJob('waiting');
+    const inOtherBatch = existingJob('waiting', 'bull:ingest-batch:other');
+    const jobs: Record<string, unknown> = {
+      'ingest-0000320193': completed,
+      'ingest-0000789019': waiting,
+      'ingest-0001045810': inOtherBatch,
+    };
+    queues.get('ingest').getJob.mockImplementation(async (id: string) => jobs[id]);
+
+    const batchId = await addBatchIngestJob([
+      { cik: '0000320193', ticker: 'AAPL' },
+      { cik: '0000789019', ticker: 'MSFT' },
+      { cik: '0001045810', ticker: 'NVDA' },
+      { cik: '0001018724', ticker: 'AMZN' },
+    ]);
+
+    const { children } = flowAdd.mock.calls[0][0];
+    expect(children.map((child: any) => child.opts.jobId)).toEqual([
+      'ingest-0000320193',
+      'ingest-0000789019',
+      `${batchId}-0001045810`,
+      'ingest-0001018724',
+    ]);
+    expect(completed.remove).toHaveBeenCalled();
+    expect(waiting.remove).not.toHaveBeenCalled();
+    expect(children[0].opts.removeDependencyOnFailure).toBe(true);
+  });
+
+  it('should round-trip failures through the batch job log', async () => {
+    const batchQueue = queues.get('ingest-batch');
+
+    await recordBatchFailure('batch-123', { cik: '0000012345', ticker: 'FAIL' }, new Error('Ingestion failed: not found'));
+
+    const [batchId, log] = batchQueue.addJobLog.mock.calls[0];
+    expect(batchId).toBe('batch-123');
+
+    batchQueue.getJobLogs.mockResolvedValue({ logs: [log], count: 1 });
+    expect(await getBatchFailures('batch-123')).toEqual([
+      { cik: '0000012345', ticker: 'FAIL', error: 'Ingestion failed: not found' },
+    ]);
+  });
+});
\ No newline at end of file
@@ -1,30 +1,209 @@
-import { Queue, Worker } from 'bullmq';
+import { randomUUID } from 'crypto';
+import { FlowProducer, Queue, Worker } from 'bullmq';
 import { redis } from './redis';
 
 export interface IngestJobData {
   cik: string;
   ticker: string;
   force?: boolean;
+  maxAge?: number; // Hours a stored ingestion counts as fresh; 0 always ingests
 }
 
+export interface BatchIngestJobData {
+  batchId: string;
+  total: number;
+}
+
+export interface BatchFailure {
+  cik: string;
+  ticker: string;
+  error: string;
+}
+
+const INGEST_JOB_OPTIONS = {
+  removeOnComplete: 100,
+  removeOnFail: 50,
+  attempts: 3,
+  backoff: {
+    type: 'exponential',
+    delay: 2000,
+  },
+  // A company that runs out of attempts leaves its batch instead of holding
+  // the parent in waiting-children; recordBatchFailure keeps the reason.
+  // Set on every ingest job, since a queued one may be adopted by a batch
+  removeDependencyOnFailure: true,
+};
+
 export const ingestQueue = new Queue('ingest', {
+  connection: redis,
+  defaultJobOptions: INGEST_JOB_OPTIONS,
+});
+
+export interface IngestJobOptions {
+  priority?: number; // 1 is highest; unprioritized jobs run before any prioritized one
+  jobId?: string;
+}
+
+// One queued ingestion per company, whether requested alone or in a batch
+const getIngestJobId = (cik: string) => `ingest-${cik}`;
+
+export const addIngestJob = async (data: IngestJobData, options: IngestJobOptions = {}) => {
+  return await ingestQueue.add('ingest-company-data', data, {
+    jobId: options.jobId ?? getIngestJobId(data.cik),
+    delay: 0,
+    ...(options.priority && { priority: options.priority }),
+  });
+};
+
+// Batch refreshes: a parent job in the ingest-batch queue with one child
+// ingest job per company. The parent runs once every child has completed or
+// run out of attempts
+export const batchQueue = new Queue('ingest-batch', {
   connection: redis,
   defaultJobOptions: {
     removeOnComplete: 100,
     removeOnFail: 50,
-    attempts: 3,
-    backoff: {
-      type: 'exponential',
-      delay: 2000,
-    },
   },
 });
 
-export const addIngestJob = async (data: IngestJobData) => {
-  return await ingestQueue.add('ingest-company-data', data, {
-    jobId: `ingest-${data.cik}`,
-    delay: 0,
+const flowProducer = new FlowProducer({ connection: redis });
+
+export const addBatchIngestJob = async (
+  companies: Array<Pick<IngestJobData, 'cik' | 'ticker'>>,
+  options: { force?: boolean } = {}
+) => {
+  const batchId = randomUUID();
+
+  await flowProducer.add({
+    name: 'ingest-batch',
+    queueName: 'ingest-batch',
+    data: { batchId, total: companies.length },
+    opts: { jobId: batchId },
+    // Queue defaults don't apply to flow children
+    children: await Promise.all(companies.map(async company => ({
+      name: 'ingest-company-data',
+      queueName: 'ingest',
+      data: { cik: company.cik, ticker: company.ticker, force: options.force ?? false },
+      opts: { ...INGEST_JOB_OPTIONS, jobId: await getBatchChildJobId(batchId, company.cik) },
+    }))),
   });
+
+  return batchId;
+};
+
+/**
+ * A company's child job id. A queued or running ingestion of the company is
+ * adopted by the batch rather than run twice; a finished one is removed first,
+ * since BullMQ would otherwise count its old result as this batch's. A job
+ * already in another batch can't be shared and gets an id of its own.
+ */
+const getBatchChildJobId = async (batchId: string, cik: string): Promise<string> => {
+  const jobId = getIngestJobId(cik);
+  const existing = await ingestQueue.getJob(jobId);
+  if (!existing) return jobId;
+
+  const state = await existing.getState();
+  if (state === 'completed' || state === 'failed') {
+    await existing.remove();
+    return jobId;
+  }
+
+  return existing.parentKey ? `${batchId}-${cik}` : jobId;
+};
+
+/**
+ * Keep why a child ingestion failed on its last attempt. Called before the
+ * job fails, so the failure is on record by the time the parent runs.
+ */
+export const recordBatchFailure = async (batchId: string, data: IngestJobData, error: unknown) => {
+  const failure: BatchFailure = {
+    cik: data.cik,
+    ticker: data.ticker,
+    error: error instanceof Error ? error.message : String(error),
+  };
+  // Job logs are appended atomically, so concurrent children can't overwrite each other
+  await batchQueue.addJobLog(batchId, JSON.stringify(failure));
+};
+
+export const getBatchFailures = async (batchId: string): Promise<BatchFailure[]> => {
+  const { logs } = await batchQueue.getJobLogs(batchId);
+  return logs.map(log => JSON.parse(log) as BatchFailure);
+};
+
+export const getBatchStatus = async (batchId: string) => {
+  const batch = await batchQueue.getJob(batchId);
+  if (!batch) return null;
+
+  // Completed children report their results to the parent and failed ones
+  // are recorded in its log; the rest are looked up by key ("bull:ingest:<jobId>")
+  const [{ processed = {}, unprocessed = [] }, failures] = await Promise.all([
+    batch.getDependencies(),
+    getBatchFailures(batchId),
+  ]);
+  const children = await Promise.all(unprocessed.map(key =>
+    ingestQueue.getJob(key.slice(key.lastIndexOf(':') + 1))
+  ));
+
+  return {
+    data: batch.data as BatchIngestJobData,
+    createdAt: batch.timestamp,
+    finishedOn: batch.finishedOn,
+    completed: Object.values(processed) as unknown[],
+    failures,
+    unprocessed: await Promise.all(children
+      .filter(job => job !== undefined)
+      .map(async job => ({
+        data: job.data as IngestJobData,
+        state: await job.getState(),
+        progress: job.progress,
+      }))),
+  };
+};
+
+// Scheduled refresh runs: one repeatable job that plans and enqueues ingest jobs
+export const REFRESH_JOB_NAME = 'scheduled-refresh';
+
+export const refreshQueue = new Queue('refresh-schedule', {
+  connection: redis,
+  defaultJobOptions: {
+    removeOnComplete: 20,
+    removeOnFail: 20,
+  },
+});
+
+export const scheduleRefreshes = async (pattern: string) => {
+  // Drop schedules registered under a previous pattern
+  const existing = await refreshQueue.getRepeatableJobs();
+  await Promise.all(existing
+    .filter(job => job.pattern !== pattern)
+    .map(job => refreshQueue.removeRepeatableByKey(job.key)));
+
+  return await refreshQueue.add(REFRESH_JOB_NAME, {}, { repeat: { pattern } });
+};
+
+export const getRefreshSchedule = async () => {
+  const [repeatable, [completed], [failed], ingestCounts] = await Promise.all([
+    refreshQueue.getRepeatableJobs(),
+    refreshQueue.getJobs(['completed'], 0, 0),
+    refreshQueue.getJobs(['failed'], 0, 0),
+    ingestQueue.getJobCounts('waiting', 'prioritized', 'active', 'delayed', 'failed'),
+  ]);
+
+  const lastRun = [completed, failed]
+    .filter(job => job !== undefined)
+    .sort((a, b) => (b.finishedOn ?? 0) - (a.finishedOn ?? 0))[0];
+
+  return {
+    schedules: repeatable.map(job => ({ pattern: job.pattern, next: job.next })),
+    lastRun: lastRun && {
+      state: lastRun.failedReason ? 'failed' as const : 'completed' as const,
+      processedOn: lastRun.processedOn,
+      finishedOn: lastRun.finishedOn,
+      result: lastRun.returnvalue,
+      failedReason: lastRun.failedReason,
+    },
+    ingestCounts,
+  };
 };
 
 export const getJobStatus = async (jobId: string) => {
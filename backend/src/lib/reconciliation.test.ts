@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileFacts } from './reconciliation';
+
+function fact(concept: string, start: string | null, end: string, value: number) {
+  return {
+    concept,
+    value,
+    periodStart: start ? new Date(start) : null,
+    periodEnd: new Date(end),
+    fiscalYear: 2023,
+    fiscalPeriod: 'FY',
+    filingAccession: '0000123456-24-000010',
+  };
+}
+
+describe('reconciliation', () => {
+  it('should pass statements that satisfy their identities', () => {
+    expect(reconcileFacts([
+      fact('Assets', null, '2023-12-31', 1000),
+      fact('AssetsCurrent', null, '2023-12-31', 400),
+      fact('Liabilities', null, '2023-12-31', 600),
+      fact('StockholdersEquity', null, '2023-12-31', 400.5), // Within rounding tolerance
+      fact('Revenues', '2023-01-01', '2023-12-31', 500),
+      fact('CostOfRevenue', '2023-01-01', '2023-12-31', 300),
+      fact('GrossProfit', '2023-01-01', '2023-12-31', 200),
+    ])).toEqual([]);
+  });
+
+  it('should flag an unbalanced balance sheet and broken subtotals', () => {
+    const flags = reconcileFacts([
+      fact('Assets', null, '2023-12-31', 1000),
+      fact('AssetsCurrent', null, '2023-12-31', 1200),
+      fact('Liabilities', null, '2023-12-31', 600),
+      fact('StockholdersEquity', null, '2023-12-31', 300),
+    ]);
+
+    expect(flags.map(flag => [flag.check, flag.severity])).toEqual([
+      ['balance_sheet', 'error'],
+      ['current_assets', 'error'],
+    ]);
+    expect(flags[0]).toMatchObject({ expected: 900, actual: 1000, difference: 100 });
+  });
+
+  it('should treat a gap explained by a balancing total as noncontrolling interest', () => {
+    const flags = reconcileFacts([
+      fact('Assets', null, '2023-12-31', 1000),
+      fact('Liabilities', null, '2023-12-31', 600),
+      fact('StockholdersEquity', null, '2023-12-31', 350),
+      fact('LiabilitiesAndStockholdersEquity', null, '2023-12-31', 1000),
+    ]);
+
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({ check: 'balance_sheet', severity: 'warning' });
+  });
+
+  it('should roll cash forward against the cash flow statement', () => {
+    const net = 'CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalentsPeriodIncreaseDecreaseIncludingExchangeRateEffect';
+    const flags = reconcileFacts([
+      fact('CashAndCashEquivalentsAtCarryingValue', null, '2022-12-31', 100),
+      fact('CashAndCashEquivalentsAtCarryingValue', null, '2023-12-31', 180),
+      fact(net, '2023-01-01', '2023-12-31', 50),
+      fact('NetCashProvidedByUsedInOperatingActivities', '2023-01-01', '2023-12-31', 120),
+      fact('NetCashProvidedByUsedInInvestingActivities', '2023-01-01', '2023-12-31', -40),
+      fact('NetCashProvidedByUsedInFinancingActivities', '2023-01-01', '2023-12-31', -30),
+    ]);
+
+    expect(flags).toHaveLength(1);
+    expect(flags[0]).toMatchObject({ check: 'cash_rollforward', expected: 50, actual: 80 });
+  });
+});
\ No newline at end of file
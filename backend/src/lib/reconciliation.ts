@@ -0,0 +1,250 @@
+/**
+ * Accounting identity checks on stored XBRL facts.
+ *
+ * Values that come from different tags, filings and fallback chains can drift
+ * apart. This module reconciles current facts against the identities a set of
+ * statements must satisfy (the balance sheet balances, gross profit is revenue
+ * less cost of revenue, cash rolls forward by the cash flow statement's net
+ * change, subtotals don't exceed their totals) and reports each break as a
+ * per-period flag.
+ */
+
+export type QualityCheck =
+  | 'balance_sheet'
+  | 'gross_profit'
+  | 'cash_rollforward'
+  | 'cash_flow_sections'
+  | 'current_assets'
+  | 'current_liabilities';
+
+// error: the statements contradict each other; warning: usually a definitional
+// difference such as noncontrolling interests, restricted cash or FX effects
+export type QualitySeverity = 'error' | 'warning';
+
+export interface ReconciliationFact {
+  concept: string;
+  value: number;
+  periodStart: Date | null;
+  periodEnd: Date;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  filingAccession: string;
+}
+
+export interface QualityFlag {
+  check: QualityCheck;
+  severity: QualitySeverity;
+  concepts: string[]; // Concepts whose values the flag applies to
+  periodStart: Date | null;
+  periodEnd: Date;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  expected: number;
+  actual: number;
+  difference: number; // actual - expected
+  message: string;
+}
+
+// Filers round to thousands or millions, so allow a small relative gap
+const RELATIVE_TOLERANCE = 0.005;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CASH = 'CashAndCashEquivalentsAtCarryingValue';
+const NET_CHANGE_IN_CASH = 'CashCashEquivalentsRestrictedCashAndRestrictedCashEquivalentsPeriodIncreaseDecreaseIncludingExchangeRateEffect';
+
+// Concepts read by the checks below
+export const RECONCILIATION_CONCEPTS = [
+  'Assets',
+  'AssetsCurrent',
+  'Liabilities',
+  'LiabilitiesCurrent',
+  'StockholdersEquity',
+  'LiabilitiesAndStockholdersEquity',
+  'Revenues',
+  'CostOfRevenue',
+  'GrossProfit',
+  CASH,
+  'NetCashProvidedByUsedInOperatingActivities',
+  'NetCashProvidedByUsedInInvestingActivities',
+  'NetCashProvidedByUsedInFinancingActivities',
+  NET_CHANGE_IN_CASH,
+];
+
+/**
+ * Run every check over a company's current (non-superseded) facts
+ */
+export function reconcileFacts(facts: ReconciliationFact[]): QualityFlag[] {
+  const values = new FactIndex(facts);
+  const flags: QualityFlag[] = [];
+
+  for (const periodEnd of values.instantDates()) {
+    const assets = values.instant('Assets', periodEnd);
+    if (!assets) continue;
+
+    const liabilities = values.instant('Liabilities', periodEnd);
+    const equity = values.instant('StockholdersEquity', periodEnd);
+    const totalClaims = values.instant('LiabilitiesAndStockholdersEquity', periodEnd);
+
+    if (liabilities && equity) {
+      const expected = liabilities.value + equity.value;
+      if (!matches(assets.value, expected)) {
+        // A reported total that balances means the gap is noncontrolling or temporary equity
+        const balances = totalClaims !== undefined && matches(assets.value, totalClaims.value);
+        flags.push(flag('balance_sheet', balances ? 'warning' : 'error', assets, expected,
+          ['Assets', 'Liabilities', 'StockholdersEquity'],
+          balances
+            ? 'Liabilities plus stockholders equity differ from total assets (noncontrolling or temporary equity)'
+            : 'Total assets do not equal liabilities plus stockholders equity'));
+      }
+    } else if (totalClaims && !matches(assets.value, totalClaims.value)) {
+      flags.push(flag('balance_sheet', 'error', assets, totalClaims.value,
+        ['Assets', 'LiabilitiesAndStockholdersEquity'],
+        'Total assets do not equal total liabilities and equity'));
+    }
+
+    const currentAssets = values.instant('AssetsCurrent', periodEnd);
+    if (currentAssets && exceeds(currentAssets.value, assets.value)) {
+      flags.push(flag('current_assets', 'error', currentAssets, assets.value,
+        ['AssetsCurrent', 'Assets'], 'Current assets exceed total assets'));
+    }
+
+    const currentLiabilities = values.instant('LiabilitiesCurrent', periodEnd);
+    if (currentLiabilities && liabilities && exceeds(currentLiabilities.value, liabilities.value)) {
+      flags.push(flag('current_liabilities', 'error', currentLiabilities, liabilities.value,
+        ['LiabilitiesCurrent', 'Liabilities'], 'Current liabilities exceed total liabilities'));
+    }
+  }
+
+  for (const grossProfit of values.durations('GrossProfit')) {
+    const revenue = values.duration('Revenues', grossProfit);
+    const costOfRevenue = values.duration('CostOfRevenue', grossProfit);
+    if (!revenue || !costOfRevenue) continue;
+
+    const expected = revenue.value - costOfRevenue.value;
+    if (!matches(grossProfit.value, expected)) {
+      flags.push(flag('gross_profit', 'warning', grossProfit, expected,
+        ['GrossProfit', 'Revenues', 'CostOfRevenue'],
+        'Gross profit does not equal revenue less cost of revenue'));
+    }
+  }
+
+  for (const netChange of values.durations(NET_CHANGE_IN_CASH)) {
+    const closing = values.instant(CASH, netChange.periodEnd);
+    const opening = netChange.periodStart
+      ? values.instant(CASH, new Date(netChange.periodStart.getTime() - DAY_MS))
+      : undefined;
+    if (closing && opening) {
+      const actual = closing.value - opening.value;
+      if (!matches(actual, netChange.value)) {
+        flags.push(flag('cash_rollforward', 'warning', { ...netChange, value: actual }, netChange.value,
+          [CASH, NET_CHANGE_IN_CASH],
+          'Change in cash on the balance sheet differs from the cash flow statement (restricted cash or reclassification)'));
+      }
+    }
+
+    const sections = [
+      values.duration('NetCashProvidedByUsedInOperatingActivities', netChange),
+      values.duration('NetCashProvidedByUsedInInvestingActivities', netChange),
+      values.duration('NetCashProvidedByUsedInFinancingActivities', netChange),
+    ].filter((section): section is ReconciliationFact => section !== undefined);
+    if (sections.length === 3) {
+      const expected = sections.reduce((sum, section) => sum + section.value, 0);
+      if (!matches(netChange.value, expected)) {
+        flags.push(flag('cash_flow_sections', 'warning', netChange, expected,
+          [NET_CHANGE_IN_CASH, 'NetCashProvidedByUsedInOperatingActivities', 'NetCashProvidedByUsedInInvestingActivities', 'NetCashProvidedByUsedInFinancingActivities'],
+          'Operating, investing and financing cash flows do not sum to the net change in cash (exchange rate effects)'));
+      }
+    }
+  }
+
+  return flags.sort((a, b) => a.periodEnd.getTime() - b.periodEnd.getTime() || a.check.localeCompare(b.check));
+}
+
+export interface FlagSummary {
+  check: string;
+  severity: QualitySeverity;
+  message: string;
+}
+
+/**
+ * Stored flags keyed by period end date (YYYY-MM-DD), for attaching to the
+ * values they apply to
+ */
+export function groupFlagsByPeriod(
+  flags: Array<{ periodEnd: Date; check: string; severity: string; message: string }>
+): Map<string, FlagSummary[]> {
+  const grouped = new Map<string, FlagSummary[]>();
+  for (const { periodEnd, check, severity, message } of flags) {
+    const key = periodEnd.toISOString().slice(0, 10);
+    const summary: FlagSummary = { check, severity: severity === 'error' ? 'error' : 'warning', message };
+    grouped.set(key, [...(grouped.get(key) || []), summary]);
+  }
+  return grouped;
+}
+
+// Latest-filed fact per concept and period
+class FactIndex {
+  private facts = new Map<string, ReconciliationFact>();
+  private byConcept = new Map<string, ReconciliationFact[]>();
+
+  constructor(facts: ReconciliationFact[]) {
+    const sorted = [...facts].sort((a, b) => a.filingAccession.localeCompare(b.filingAccession));
+    for (const fact of sorted) {
+      this.facts.set(FactIndex.key(fact.concept, fact.periodStart, fact.periodEnd), fact);
+    }
+    for (const fact of this.facts.values()) {
+      this.byConcept.set(fact.concept, [...(this.byConcept.get(fact.concept) || []), fact]);
+    }
+  }
+
+  instantDates(): Date[] {
+    return (this.byConcept.get('Assets') || []).filter(fact => !fact.periodStart).map(fact => fact.periodEnd);
+  }
+
+  instant(concept: string, periodEnd: Date): ReconciliationFact | undefined {
+    return this.facts.get(FactIndex.key(concept, null, periodEnd));
+  }
+
+  durations(concept: string): ReconciliationFact[] {
+    return (this.byConcept.get(concept) || []).filter(fact => fact.periodStart);
+  }
+
+  duration(concept: string, period: { periodStart: Date | null; periodEnd: Date }): ReconciliationFact | undefined {
+    return this.facts.get(FactIndex.key(concept, period.periodStart, period.periodEnd));
+  }
+
+  private static key(concept: string, periodStart: Date | null, periodEnd: Date): string {
+    return `${concept}|${periodStart?.toISOString().slice(0, 10) ?? ''}|${periodEnd.toISOString().slice(0, 10)}`;
+  }
+}
+
+function matches(actual: number, expected: number): boolean {
+  return Math.abs(actual - expected) <= Math.max(Math.abs(actual), Math.abs(expected)) * RELATIVE_TOLERANCE;
+}
+
+function exceeds(part: number, total: number): boolean {
+  return part - total > Math.abs(total) * RELATIVE_TOLERANCE;
+}
+
+function flag(
+  check: QualityCheck,
+  severity: QualitySeverity,
+  actual: ReconciliationFact,
+  expected: number,
+  concepts: string[],
+  message: string
+): QualityFlag {
+  return {
+    check,
+    severity,
+    concepts,
+    periodStart: actual.periodStart,
+    periodEnd: actual.periodEnd,
+    fiscalYear: actual.fiscalYear,
+    fiscalPeriod: actual.fiscalPeriod,
+    expected,
+    actual: actual.value,
+    difference: actual.value - expected,
+    message,
+  };
+}
\ No newline at end of file
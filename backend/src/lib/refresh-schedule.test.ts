@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { getLatestQuarterEnd, planRefreshes } from './refresh-schedule';
+import type { ScheduleCompany } from './refresh-schedule';
+
+const NOW = new Date('2023-11-03T21:00:00Z');
+
+function company(ticker: string, overrides: Partial<ScheduleCompany> = {}): ScheduleCompany {
+  return {
+    cik: ticker.padStart(10, '0'),
+    ticker,
+    fiscalYearEnd: '1231',
+    latestFiledAt: new Date('2023-08-01'),
+    updatedAt: new Date('2023-11-02T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('refresh-schedule', () => {
+  it('should find the latest fiscal quarter end', () => {
+    expect(getLatestQuarterEnd('1231', NOW)).toEqual({ periodEnd: new Date('2023-09-30'), annual: false });
+    expect(getLatestQuarterEnd('--09-30', NOW)).toEqual({ periodEnd: new Date('2023-09-30'), annual: true });
+    // 52-53 week years end near, not on, the month end
+    expect(getLatestQuarterEnd('0924', NOW)).toEqual({ periodEnd: new Date('2023-09-24'), annual: true });
+    expect(getLatestQuarterEnd('0131', NOW)).toEqual({ periodEnd: new Date('2023-10-31'), annual: false });
+    expect(getLatestQuarterEnd('0228', new Date('2024-03-15'))).toEqual({
+      periodEnd: new Date('2024-02-29'),
+      annual: true,
+    });
+    expect(getLatestQuarterEnd('September', NOW)).toBeNull();
+  });
+
+  it('should prioritize new filings, then open filing windows, then stale data', () => {
+    const companies = [
+      company('STALE', { latestFiledAt: new Date('2023-10-27'), updatedAt: new Date('2023-10-01T00:00:00Z') }),
+      company('QTR', { updatedAt: new Date('2023-11-01T00:00:00Z') }),
+      company('FILED', { fiscalYearEnd: '0331' }),
+      company('FRESH', { fiscalYearEnd: '0331', updatedAt: new Date('2023-11-03T20:00:00Z') }),
+      company('DONE', { latestFiledAt: new Date('2023-11-01') }), // Already filed its 10-Q
+    ];
+    const feed = [{
+      cik: '00000FILED',
+      accession: '0000000001-23-000001',
+      form: '10-Q',
+      filingDate: new Date('2023-11-03'),
+      acceptedAt: new Date('2023-11-03T20:30:00Z'),
+    }];
+
+    expect(planRefreshes(companies, feed, NOW)).toEqual([
+      { cik: '00000FILED', ticker: 'FILED', reason: 'new_filing', priority: 1 },
+      { cik: '0000000QTR', ticker: 'QTR', reason: 'quarter_end', priority: 2 },
+      { cik: '00000STALE', ticker: 'STALE', reason: 'stale', priority: 3 },
+    ]);
+    expect(planRefreshes(companies, feed, NOW, { maxJobs: 1 })).toHaveLength(1);
+  });
+
+  it('should not re-queue a filing already seen at the last refresh', () => {
+    const feed = [{
+      cik: '000000AAPL',
+      accession: '0000320193-23-000106',
+      form: '10-Q',
+      filingDate: new Date('2023-11-03'),
+      acceptedAt: new Date('2023-11-03T16:00:00Z'),
+    }];
+
+    const refreshed = company('AAPL', { fiscalYearEnd: '0930', updatedAt: new Date('2023-11-03T18:00:00Z') });
+    expect(planRefreshes([refreshed], feed, NOW)).toEqual([]);
+
+    // Still missing twelve hours later: the annual filing window retries it
+    const later = new Date('2023-11-04T07:00:00Z');
+    expect(planRefreshes([refreshed], feed, later)[0]).toMatchObject({ reason: 'quarter_end' });
+  });
+});
\ No newline at end of file
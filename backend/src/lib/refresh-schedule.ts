@@ -0,0 +1,160 @@
+/**
+ * Refresh planning for the scheduled ingestion run.
+ *
+ * Companies file 10-Qs within 40-45 days of a fiscal quarter end and 10-Ks
+ * within 60-90 days of the fiscal year end, so a company is worth checking
+ * often while that window is open and it hasn't filed for the period yet.
+ * A filing in EDGAR's latest filings feed that we haven't stored jumps the
+ * queue; everything else is refreshed once its data goes stale.
+ */
+
+import type { FeedFiling } from './filing-feed';
+
+export type RefreshReason = 'new_filing' | 'quarter_end' | 'stale';
+
+// BullMQ priorities: 1 runs first
+export const REFRESH_PRIORITIES: Record<RefreshReason, number> = {
+  new_filing: 1,
+  quarter_end: 2,
+  stale: 3,
+};
+
+export const QUARTERLY_FILING_WINDOW_DAYS = 45;
+export const ANNUAL_FILING_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ScheduleCompany {
+  cik: string;
+  ticker: string;
+  fiscalYearEnd: string | null; // "MMDD", or DEI's "--MM-DD"
+  latestFiledAt: Date | null;
+  updatedAt: Date; // Last ingestion
+}
+
+export interface PlannedRefresh {
+  cik: string;
+  ticker: string;
+  reason: RefreshReason;
+  priority: number;
+}
+
+export interface RefreshPlanOptions {
+  maxJobs?: number;
+  windowRefreshHours?: number; // Minimum gap between refreshes while a filing window is open
+  staleAfterHours?: number;
+}
+
+export interface QuarterEnd {
+  periodEnd: Date;
+  annual: boolean;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+/**
+ * The most recent fiscal quarter end on or before `asOf`. Quarters end three,
+ * six and nine months before the fiscal year end; a year ending on the last
+ * day of its month has quarters ending on the last day of theirs.
+ */
+export function getLatestQuarterEnd(fiscalYearEnd: string, asOf: Date): QuarterEnd | null {
+  const match = /^(?:--)?(\d{2})-?(\d{2})$/.exec(fiscalYearEnd.trim());
+  if (!match) return null;
+
+  const fyeMonth = Number(match[1]) - 1;
+  const fyeDay = Number(match[2]);
+  if (fyeMonth < 0 || fyeMonth > 11 || fyeDay < 1 || fyeDay > 31) return null;
+  const monthEnd = fyeDay >= daysInMonth(2001, fyeMonth);
+
+  for (let back = 0; back <= 12; back++) {
+    const year = asOf.getUTCFullYear() + Math.floor((asOf.getUTCMonth() - back) / 12);
+    const month = (((asOf.getUTCMonth() - back) % 12) + 12) % 12;
+    if ((month - fyeMonth) % 3 !== 0) continue;
+
+    const lastDay = daysInMonth(year, month);
+    const periodEnd = new Date(Date.UTC(year, month, monthEnd ? lastDay : Math.min(fyeDay, lastDay)));
+    if (periodEnd <= asOf) {
+      return { periodEnd, annual: month === fyeMonth };
+    }
+  }
+
+  return null;
+}
+
+function hasUnstoredFiling(company: ScheduleCompany, filings: FeedFiling[]): boolean {
+  return filings.some(filing =>
+    (!company.latestFiledAt || filing.filingDate > company.latestFiledAt)
+    // Filings accepted before the last refresh weren't in the SEC's data yet;
+    // the quarter-end window keeps retrying those
+    && (filing.acceptedAt ?? filing.filingDate) > company.updatedAt
+  );
+}
+
+function inFilingWindow(company: ScheduleCompany, now: Date): boolean {
+  if (!company.fiscalYearEnd) return false;
+
+  const quarter = getLatestQuarterEnd(company.fiscalYearEnd, now);
+  if (!quarter) return false;
+  if (company.latestFiledAt && company.latestFiledAt >= quarter.periodEnd) return false;
+
+  const windowDays = quarter.annual ? ANNUAL_FILING_WINDOW_DAYS : QUARTERLY_FILING_WINDOW_DAYS;
+  return now.getTime() - quarter.periodEnd.getTime() <= windowDays * DAY_MS;
+}
+
+/**
+ * Pick the companies to refresh on this run, most urgent first and least
+ * recently refreshed first within a priority
+ */
+export function planRefreshes(
+  companies: ScheduleCompany[],
+  feedFilings: FeedFiling[],
+  now: Date,
+  options: RefreshPlanOptions = {}
+): PlannedRefresh[] {
+  const {
+    maxJobs = 50,
+    windowRefreshHours = 12,
+    staleAfterHours = 168,
+  } = options;
+
+  const filingsByCik = new Map<string, FeedFiling[]>();
+  for (const filing of feedFilings) {
+    filingsByCik.set(filing.cik, [...(filingsByCik.get(filing.cik) ?? []), filing]);
+  }
+
+  const planned: Array<{ refresh: PlannedRefresh; updatedAt: Date }> = [];
+  for (const company of companies) {
+    const hoursSinceRefresh = (now.getTime() - company.updatedAt.getTime()) / HOUR_MS;
+
+    let reason: RefreshReason | null = null;
+    if (hasUnstoredFiling(company, filingsByCik.get(company.cik) ?? [])) {
+      reason = 'new_filing';
+    } else if (hoursSinceRefresh >= windowRefreshHours && inFilingWindow(company, now)) {
+      reason = 'quarter_end';
+    } else if (hoursSinceRefresh >= staleAfterHours) {
+      reason = 'stale';
+    }
+
+    if (reason) {
+      planned.push({
+        refresh: {
+          cik: company.cik,
+          ticker: company.ticker,
+          reason,
+          priority: REFRESH_PRIORITIES[reason],
+        },
+        updatedAt: company.updatedAt,
+      });
+    }
+  }
+
+  return planned
+    .sort((a, b) =>
+      a.refresh.priority - b.refresh.priority || a.updatedAt.getTime() - b.updatedAt.getTime()
+    )
+    .slice(0, maxJobs)
+    .map(({ refresh }) => refresh);
+}
\ No newline at end of file
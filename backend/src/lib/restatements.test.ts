@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { diffRestatements, findSupersessionUpdates, isAmendmentForm, selectAsOf } from './restatements';
+import type { ReportedFact } from './restatements';
+
+function reported(id: string, value: number, filed: string, overrides: Partial<ReportedFact> = {}): ReportedFact {
+  return {
+    id,
+    concept: 'Revenues',
+    periodStart: new Date('2022-10-01'),
+    periodEnd: new Date('2023-09-30'),
+    value,
+    fiscalYear: 2023,
+    fiscalPeriod: 'FY',
+    filingAccession: `0000320193-${filed.slice(2, 4)}-${id.padStart(6, '0')}`,
+    form: '10-K',
+    filed: new Date(filed),
+    superseded: false,
+    supersededBy: null,
+    ...overrides,
+  };
+}
+
+describe('restatements', () => {
+  it('should detect amendment forms', () => {
+    expect(isAmendmentForm('10-K/A')).toBe(true);
+    expect(isAmendmentForm('10-Q/A')).toBe(true);
+    expect(isAmendmentForm('10-K')).toBe(false);
+    expect(isAmendmentForm(undefined)).toBe(false);
+  });
+
+  describe('findSupersessionUpdates', () => {
+    it('should supersede every value but the latest filing for a period', () => {
+      const updates = findSupersessionUpdates([
+        reported('3', 390, '2025-11-01'),
+        reported('1', 383, '2023-11-03'),
+        reported('2', 385, '2024-11-01'),
+      ]);
+
+      expect(updates).toEqual([
+        { id: '1', superseded: true, supersededBy: '0000320193-25-000003' },
+        { id: '2', superseded: true, supersededBy: '0000320193-25-000003' },
+      ]);
+    });
+
+    it('should clear the flag on a value that becomes current again', () => {
+      const updates = findSupersessionUpdates([
+        reported('1', 383, '2023-11-03', { superseded: true, supersededBy: '0000320193-24-000009' }),
+      ]);
+
+      expect(updates).toEqual([{ id: '1', superseded: false, supersededBy: null }]);
+    });
+
+    it('should treat different durations ending on the same date separately', () => {
+      const updates = findSupersessionUpdates([
+        reported('1', 383, '2023-11-03'),
+        reported('2', 90, '2023-11-03', { periodStart: new Date('2023-07-01') }),
+      ]);
+
+      expect(updates).toEqual([]);
+    });
+  });
+
+  describe('diffRestatements', () => {
+    it('should compare the original and latest reported values', () => {
+      const [restatement, ...rest] = diffRestatements([
+        reported('1', 400, '2023-11-03'),
+        reported('2', 400, '2024-11-01'),
+        reported('3', 380, '2024-12-15', { form: '10-K/A' }),
+      ]);
+
+      expect(rest).toEqual([]);
+      expect(restatement).toMatchObject({
+        concept: 'Revenues',
+        original: { value: 400, form: '10-K' },
+        latest: { value: 380, form: '10-K/A' },
+        change: -20,
+        changePercent: -5,
+        amended: true,
+        revisions: 1,
+      });
+    });
+
+    it('should ignore periods re-reported with an unchanged value', () => {
+      const restatements = diffRestatements([
+        reported('1', 383, '2023-11-03'),
+        reported('2', 383, '2024-11-01'),
+      ]);
+
+      expect(restatements).toEqual([]);
+    });
+  });
+
+  describe('selectAsOf', () => {
+    const history = [
+      reported('1', 383, '2023-11-03'),
+      reported('2', 385, '2024-11-01'),
+      reported('3', 390, '2025-11-01'),
+      reported('4', 120, '2024-02-02', { periodStart: new Date('2023-10-01'), periodEnd: new Date('2023-12-30'), fiscalPeriod: 'Q1', form: '10-Q' }),
+    ];
+
+    it('should return the version that was latest on the date', () => {
+      expect(selectAsOf(history, new Date('2024-12-31')).map(fact => fact.id)).toEqual(['2', '4']);
+      expect(selectAsOf(history, new Date('2024-01-01')).map(fact => fact.id)).toEqual(['1']);
+    });
+
+    it('should count facts filed on the date itself', () => {
+      expect(selectAsOf(history, new Date('2025-11-01')).map(fact => fact.id)).toEqual(['3', '4']);
+    });
+
+    it('should leave out facts without a filing date', () => {
+      expect(selectAsOf([reported('1', 383, '2023-11-03', { filed: null })], new Date('2024-01-01'))).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,185 @@
+/**
+ * Restatement tracking for facts re-reported across filings.
+ *
+ * The same period is reported in its original filing, as a comparative in
+ * later filings, and in any 10-K/A or 10-Q/A amendment. The most recently
+ * filed value is current; every earlier value for the period is superseded.
+ */
+
+export interface ReportedFact {
+  id: string;
+  concept: string;
+  periodStart: Date | null;
+  periodEnd: Date;
+  value: number;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  filingAccession: string;
+  form: string;
+  filed: Date | null;
+  superseded: boolean;
+  supersededBy: string | null;
+}
+
+// The fields that identify a version of a reported value
+export type FactVersion = Pick<ReportedFact, 'concept' | 'periodStart' | 'periodEnd' | 'filingAccession' | 'form' | 'filed'>;
+
+export interface SupersessionUpdate {
+  id: string;
+  superseded: boolean;
+  supersededBy: string | null;
+}
+
+export interface ReportedValue {
+  value: number;
+  filingAccession: string;
+  form: string;
+  filed: Date | null;
+}
+
+export interface Restatement {
+  concept: string;
+  periodStart: Date | null;
+  periodEnd: Date;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  original: ReportedValue; // As originally reported
+  latest: ReportedValue;
+  change: number;
+  changePercent: number | null;
+  amended: boolean; // Latest value comes from an amendment (10-K/A, 10-Q/A)
+  revisions: number; // Distinct values reported after the original
+}
+
+export function isAmendmentForm(form: string | null | undefined): boolean {
+  return !!form && /\/A$/i.test(form.trim());
+}
+
+/**
+ * Work out which facts need their superseded flag changed so that only the
+ * latest filing for each (concept, period) is current.
+ */
+export function findSupersessionUpdates(facts: ReportedFact[]): SupersessionUpdate[] {
+  const updates: SupersessionUpdate[] = [];
+
+  for (const history of groupByPeriod(facts).values()) {
+    const latest = history[history.length - 1];
+    if (!latest) continue;
+
+    for (const fact of history) {
+      const isLatest = fact === latest;
+      const supersededBy = isLatest ? null : latest.filingAccession;
+
+      if (fact.superseded !== !isLatest || fact.supersededBy !== supersededBy) {
+        updates.push({ id: fact.id, superseded: !isLatest, supersededBy });
+      }
+    }
+  }
+
+  return updates;
+}
+
+/**
+ * Database filter for the facts to read: the current values, or with `asOf`
+ * every version filed by that date, to be narrowed with selectAsOf
+ */
+export function getFactVersionFilter(asOf?: Date) {
+  return asOf ? { filed: { lte: asOf } } : { superseded: false };
+}
+
+/**
+ * The facts as they stood on `asOf`: of the versions filed by then, the latest
+ * for each (concept, period), so later restatements never leak into the past.
+ * Facts without a filing date are left out since when they were known is
+ * unknown. Input order is kept.
+ */
+export function selectAsOf<T extends FactVersion>(facts: T[], asOf: Date): T[] {
+  const known = facts.filter(fact => fact.filed && fact.filed <= asOf);
+  const latest = new Set<T>();
+
+  for (const history of groupByPeriod(known).values()) {
+    const version = history[history.length - 1];
+    if (version) latest.add(version);
+  }
+
+  return known.filter(fact => latest.has(fact));
+}
+
+/**
+ * Compare each period's originally reported value with its latest value and
+ * return the periods whose value changed, most recent period first.
+ */
+export function diffRestatements(facts: ReportedFact[]): Restatement[] {
+  const restatements: Restatement[] = [];
+
+  for (const history of groupByPeriod(facts).values()) {
+    const original = history[0];
+    const latest = history[history.length - 1];
+    if (!original || !latest || original.value === latest.value) continue;
+
+    const revisions = history
+      .slice(1)
+      .filter((fact, index) => fact.value !== history[index]?.value).length;
+
+    restatements.push({
+      concept: latest.concept,
+      periodStart: latest.periodStart,
+      periodEnd: latest.periodEnd,
+      fiscalYear: original.fiscalYear,
+      fiscalPeriod: original.fiscalPeriod,
+      original: toReportedValue(original),
+      latest: toReportedValue(latest),
+      change: latest.value - original.value,
+      changePercent: original.value !== 0
+        ? ((latest.value - original.value) / Math.abs(original.value)) * 100
+        : null,
+      amended: isAmendmentForm(latest.form),
+      revisions,
+    });
+  }
+
+  return restatements.sort((a, b) =>
+    b.periodEnd.getTime() - a.periodEnd.getTime() || a.concept.localeCompare(b.concept)
+  );
+}
+
+// Facts for the same concept and period, ordered oldest filing first
+function groupByPeriod<T extends FactVersion>(facts: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+
+  for (const fact of facts) {
+    const key = [
+      fact.concept,
+      fact.periodStart?.toISOString() ?? 'instant',
+      fact.periodEnd.toISOString(),
+    ].join('|');
+    groups.set(key, [...(groups.get(key) || []), fact]);
+  }
+
+  for (const history of groups.values()) {
+    history.sort(compareFilingOrder);
+  }
+
+  return groups;
+}
+
+function compareFilingOrder(a: FactVersion, b: FactVersion): number {
+  const filedA = a.filed?.getTime() ?? 0;
+  const filedB = b.filed?.getTime() ?? 0;
+  if (filedA !== filedB) return filedA - filedB;
+
+  // Amendments filed the same day as the original replace it
+  if (isAmendmentForm(a.form) !== isAmendmentForm(b.form)) {
+    return isAmendmentForm(a.form) ? 1 : -1;
+  }
+  return a.filingAccession.localeCompare(b.filingAccession);
+}
+
+function toReportedValue(fact: ReportedFact): ReportedValue {
+  return {
+    value: fact.value,
+    filingAccession: fact.filingAccession,
+    form: fact.form,
+    filed: fact.filed,
+  };
+}
\ No newline at end of file
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { getGrowthPeriods, getScreenMetrics, isCurrencyMetric, isScreenMetric } from './screener';
+
+describe('screener', () => {
+  describe('getScreenMetrics', () => {
+    it('should list filter, column and sort metrics once each', () => {
+      expect(getScreenMetrics(
+        [{ metric: 'NetMargin', op: 'gt', value: 20 }],
+        ['Revenues', 'NetMargin'],
+        { by: 'DebtToEquity', direction: 'asc' }
+      )).toEqual(['NetMargin', 'Revenues', 'DebtToEquity']);
+      expect(getScreenMetrics([{ metric: 'NetMargin', op: 'gt', value: 20 }], [], { by: 'ticker', direction: 'asc' }))
+        .toEqual(['NetMargin']);
+    });
+  });
+
+  describe('isScreenMetric', () => {
+    it('should accept catalog concepts and ratios', () => {
+      expect(isScreenMetric('Revenues')).toBe(true);
+      expect(isScreenMetric('DebtToEquity')).toBe(true);
+      expect(isScreenMetric('Unknown')).toBe(false);
+    });
+  });
+
+  describe('getGrowthPeriods', () => {
+    it('should take the longest growth filter on the metric', () => {
+      expect(getGrowthPeriods([
+        { metric: 'Revenues', op: 'growth', periods: 4, min: 10 },
+        { metric: 'Revenues', op: 'growth', periods: 8, max: 50 },
+        { metric: 'NetIncomeLoss', op: 'growth', periods: 12, min: 0 },
+      ], 'Revenues')).toBe(8);
+      expect(getGrowthPeriods([{ metric: 'Revenues', op: 'gt', value: 0 }], 'Revenues')).toBe(0);
+    });
+  });
+
+  describe('isCurrencyMetric', () => {
+    it('should flag monetary and per-share metrics but not ratios or share counts', () => {
+      expect(isCurrencyMetric('Revenues')).toBe(true);
+      expect(isCurrencyMetric('EarningsPerShareDiluted')).toBe(true);
+      expect(isCurrencyMetric('BookValuePerShare')).toBe(true);
+      expect(isCurrencyMetric('NetMargin')).toBe(false);
+      expect(isCurrencyMetric('WeightedAverageNumberOfDilutedSharesOutstanding')).toBe(false);
+    });
+  });
+});
\ No newline at end of file
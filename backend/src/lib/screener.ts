@@ -0,0 +1,63 @@
+/**
+ * Cross-sectional screening over stored fundamentals.
+ *
+ * A screen is a list of filters that must all hold. Each filter reads one
+ * metric (catalog concept or ratio) at the frequency that compares companies
+ * across fiscal calendars, and tests either the latest value, its percent
+ * rank among peers, or its change over a number of periods. The screener
+ * service runs screens as SQL over the metric views; this module holds the
+ * definitions and the metric bookkeeping.
+ */
+
+import { getConceptDefinition, isCatalogConcept } from './concept-catalog';
+import { RATIO_DEFINITIONS, isRatioMetric } from './metric-views';
+
+export type ComparisonOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'ne';
+
+export type PercentileGroup = 'sector' | 'industry' | 'all';
+
+export type ScreenFilter =
+  | { metric: string; op: ComparisonOperator; value: number }
+  | { metric: string; op: 'between'; min: number; max: number }
+  // Percent rank 0-100 among companies in the same group
+  | { metric: string; op: 'percentile'; within: PercentileGroup; min?: number | undefined; max?: number | undefined }
+  // Percent change between the latest value and the one `periods` earlier
+  | { metric: string; op: 'growth'; periods: number; min?: number | undefined; max?: number | undefined };
+
+export interface ScreenSort {
+  by: string; // ticker, name or a metric
+  direction: 'asc' | 'desc';
+}
+
+export function isScreenMetric(metric: string): boolean {
+  return isCatalogConcept(metric) || isRatioMetric(metric);
+}
+
+/**
+ * Metrics held in the filer's reporting currency: monetary concepts and
+ * per-share figures, including per-share ratios
+ */
+export function isCurrencyMetric(metric: string): boolean {
+  const unit = RATIO_DEFINITIONS[metric]?.unit ?? getConceptDefinition(metric)?.unit;
+  return unit === 'monetary' || unit === 'perShare';
+}
+
+/**
+ * Metrics a screen reads, in first-use order: filters, then extra columns,
+ * then the sort key
+ */
+export function getScreenMetrics(filters: ScreenFilter[], columns: string[] = [], sort?: ScreenSort): string[] {
+  const metrics = [...filters.map(filter => filter.metric), ...columns];
+  if (sort && isScreenMetric(sort.by)) metrics.push(sort.by);
+  return [...new Set(metrics)];
+}
+
+/**
+ * The most periods of history any growth filter on the metric needs
+ */
+export function getGrowthPeriods(filters: ScreenFilter[], metric: string): number {
+  return filters.reduce(
+    (periods, filter) => filter.op === 'growth' && filter.metric === metric ? Math.max(periods, filter.periods) : periods,
+    0
+  );
+}
\ No newline at end of file
@@ -1,18 +1,36 @@
-import { request } from 'undici';
+import { request, type Dispatcher } from 'undici';
 import pRetry from 'p-retry';
-import { CompanyFactsSchema, type CompanyFacts } from '../types/sec';
+import { ZodError, type z } from 'zod';
+import {
+  CompanyFactsSchema,
+  SubmissionFilingsSchema,
+  SubmissionsSchema,
+  type CompanyFacts,
+  type SubmissionFilings,
+  type Submissions,
+} from '../types/sec';
+import { getCurrentFilingsUrl, parseFilingFeed, type FeedFiling } from './filing-feed';
+
+export const COMPANY_TICKERS_URL = 'https://www.sec.gov/files/company_tickers_exchange.json';
+export const SUBMISSIONS_URL = 'https://data.sec.gov/submissions';
 
 export class SECAPIError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
-    public isRateLimit: boolean = false
+    public isRateLimit: boolean = false,
+    public isParseError: boolean = false // The response arrived but wasn't in the expected format
   ) {
     super(message);
     this.name = 'SECAPIError';
   }
 }
 
+// Schema validation and JSON syntax errors
+function isMalformedResponse(error: unknown): boolean {
+  return error instanceof ZodError || error instanceof SyntaxError;
+}
+
 export class SECClient {
   private readonly baseUrl = 'https://data.sec.gov/api/xbrl';
   private readonly userAgent: string;
@@ -24,7 +42,7 @@ export class SECClient {
     this.requestDelay = requestDelay; // Minimum 100ms between requests for 10 req/s limit
   }
 
-  private async rateLimitedRequest(url: string): Promise<Response> {
+  private async rateLimitedRequest(url: string): Promise<Dispatcher.ResponseData> {
     // Ensure we don't exceed 10 requests per second
     const now = Date.now();
     const timeSinceLastRequest = now - this.lastRequestTime;
@@ -78,15 +96,91 @@ export class SECClient {
         }
         
         if (error instanceof Error) {
-          throw new SECAPIError(`Failed to fetch company facts for CIK ${normalizedCik}: ${error.message}`);
+          throw new SECAPIError(
+            `Failed to fetch company facts for CIK ${normalizedCik}: ${error.message}`,
+            undefined,
+            false,
+            isMalformedResponse(error)
+          );
         }
         
         throw new SECAPIError(`Unknown error fetching company facts for CIK ${normalizedCik}`);
       }
     };
 
-    // Retry with exponential backoff, especially for rate limits
-    return pRetry(fetchCompanyFacts, {
+    return this.withRetry(fetchCompanyFacts);
+  }
+
+  /**
+   * Fetch a company's submissions document: filer details plus its most
+   * recent filings (up to 1,000 or a year's worth)
+   */
+  async getSubmissions(cik: string): Promise<Submissions> {
+    const normalizedCik = cik.padStart(10, '0');
+    return this.fetchValidated(
+      `${SUBMISSIONS_URL}/CIK${normalizedCik}.json`,
+      SubmissionsSchema,
+      `submissions for CIK ${normalizedCik}`
+    );
+  }
+
+  /**
+   * Fetch one of the overflow files listed in a submissions document's
+   * `filings.files`; each holds a bare columnar filing list
+   */
+  async getSubmissionsFile(name: string): Promise<SubmissionFilings> {
+    return this.fetchValidated(`${SUBMISSIONS_URL}/${name}`, SubmissionFilingsSchema, `submissions file ${name}`);
+  }
+
+  /**
+   * Fetch EDGAR's latest filings feed, newest first. `form` is a form type
+   * prefix; the feed holds filings accepted in the last few business days
+   */
+  async getCurrentFilings(form = '10-', count = 100): Promise<FeedFiling[]> {
+    return this.withRetry(async () => {
+      try {
+        const response = await this.rateLimitedRequest(getCurrentFilingsUrl(form, count));
+        return parseFilingFeed(await response.body.text());
+      } catch (error) {
+        if (error instanceof SECAPIError) {
+          throw error;
+        }
+        throw new SECAPIError(
+          `Failed to fetch current filings: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          undefined,
+          false,
+          isMalformedResponse(error)
+        );
+      }
+    });
+  }
+
+  private async fetchValidated<T>(
+    url: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    description: string
+  ): Promise<T> {
+    return this.withRetry(async () => {
+      try {
+        const response = await this.rateLimitedRequest(url);
+        return schema.parse(await response.body.json());
+      } catch (error) {
+        if (error instanceof SECAPIError) {
+          throw error;
+        }
+        throw new SECAPIError(
+          `Failed to fetch ${description}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          undefined,
+          false,
+          isMalformedResponse(error)
+        );
+      }
+    });
+  }
+
+  // Retry with exponential backoff, especially for rate limits
+  private withRetry<T>(fetch: () => Promise<T>): Promise<T> {
+    return pRetry(fetch, {
       retries: 3,
       factor: 2,
       minTimeout: 1000,
@@ -102,6 +196,14 @@ export class SECClient {
     });
   }
 
+  /**
+   * Fetch SEC's ticker directory (company_tickers_exchange.json)
+   */
+  async getCompanyTickers(): Promise<unknown> {
+    const response = await this.rateLimitedRequest(COMPANY_TICKERS_URL);
+    return response.body.json();
+  }
+
   async validateCIK(cik: string): Promise<boolean> {
     try {
       await this.getCompanyFacts(cik);
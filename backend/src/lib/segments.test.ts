@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { buildSegmentPeriods, getMemberLabel, rankMembers } from './segments';
+import type { SegmentFactInput } from './segments';
+
+function fact(member: string, start: string, end: string, value: number, fiscalPeriod: string): SegmentFactInput {
+  return {
+    concept: 'Revenues',
+    member,
+    value,
+    periodStart: new Date(start),
+    periodEnd: new Date(end),
+    fiscalYear: 2023,
+    fiscalPeriod,
+    filingAccession: fiscalPeriod === 'FY' ? '0000123456-24-000010' : '0000123456-23-000030',
+    form: fiscalPeriod === 'FY' ? '10-K' : '10-Q',
+  };
+}
+
+describe('segments', () => {
+  it('should label domain members', () => {
+    expect(getMemberLabel('aapl:GreaterChinaSegmentMember')).toBe('Greater China');
+    expect(getMemberLabel('srt:AmericasMember')).toBe('Americas');
+    expect(getMemberLabel('msft:IntelligentCloudMember')).toBe('Intelligent Cloud');
+  });
+
+  it('should pivot annual member values into aligned periods', () => {
+    const periods = buildSegmentPeriods([
+      fact('acme:CloudMember', '2023-01-01', '2023-12-31', 400, 'FY'),
+      fact('acme:DevicesMember', '2023-01-01', '2023-12-31', 600, 'FY'),
+    ], 'annual');
+
+    expect(periods).toHaveLength(1);
+    expect(periods[0]).toMatchObject({
+      fiscalYear: 2023,
+      fiscalPeriod: 'FY',
+      values: { 'acme:CloudMember': 400, 'acme:DevicesMember': 600 },
+      total: 1000,
+      derived: false,
+    });
+    expect(rankMembers(periods)).toEqual(['acme:DevicesMember', 'acme:CloudMember']);
+  });
+
+  it('should derive Q4 per member from the annual value', () => {
+    const periods = buildSegmentPeriods([
+      fact('acme:CloudMember', '2023-01-01', '2023-03-31', 90, 'Q1'),
+      fact('acme:CloudMember', '2023-01-01', '2023-06-30', 190, 'Q2'),
+      fact('acme:CloudMember', '2023-01-01', '2023-09-30', 290, 'Q3'),
+      fact('acme:CloudMember', '2023-01-01', '2023-12-31', 400, 'FY'),
+    ], 'quarterly');
+
+    expect(periods.map(period => period.values['acme:CloudMember'])).toEqual([90, 100, 100, 110]);
+    expect(periods[3]).toMatchObject({ fiscalPeriod: 'Q4', derived: true });
+  });
+});
\ No newline at end of file
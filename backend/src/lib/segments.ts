@@ -0,0 +1,107 @@
+/**
+ * Segment breakdowns from dimensional XBRL facts.
+ *
+ * Filers disaggregate revenue and operating income along an axis (business
+ * segments, geographic areas, products) with one domain member per slice.
+ * This module names the axes we chart, turns member QNames into labels and
+ * pivots per-member facts into aligned periods for stacked-area charts.
+ */
+
+import { normalizePeriods } from './period-normalizer';
+import type { NormalizeOptions, NormalizedPeriodValue, PeriodFact } from './period-normalizer';
+
+export type SegmentAxis = 'business' | 'geographic' | 'product';
+export type SegmentFrequency = 'annual' | 'quarterly';
+
+// Geographic areas moved from us-gaap to srt in 2018; older filings use the us-gaap axis
+export const SEGMENT_AXES: Readonly<Record<SegmentAxis, readonly string[]>> = {
+  business: ['us-gaap:StatementBusinessSegmentsAxis'],
+  geographic: ['srt:StatementGeographicalAxis', 'us-gaap:StatementGeographicalAxis'],
+  product: ['srt:ProductOrServiceAxis', 'us-gaap:ProductOrServiceAxis'],
+};
+
+// Concepts reported per segment under ASC 280
+export const SEGMENT_CONCEPTS = ['Revenues', 'OperatingIncomeLoss'] as const;
+
+export interface SegmentFactInput extends PeriodFact {
+  concept: string;
+  member: string;
+}
+
+export interface SegmentPeriod {
+  periodStart: Date;
+  periodEnd: Date;
+  fiscalYear: number;
+  fiscalPeriod: string;
+  values: Record<string, number>; // Member -> value
+  total: number;
+  derived: boolean; // Some member values were computed from YTD or annual durations
+}
+
+/**
+ * Readable label for a domain member: "aapl:GreaterChinaSegmentMember" -> "Greater China"
+ */
+export function getMemberLabel(member: string): string {
+  const name = member.includes(':') ? member.slice(member.indexOf(':') + 1) : member;
+  const words = name
+    .replace(/Member$/, '')
+    .replace(/(Segment|ReportableSegment|Region)$/, '')
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .trim();
+  return words || name;
+}
+
+/**
+ * Pivot one concept's segment facts into periods, oldest first. Quarterly
+ * values missing from filings (usually Q4) are derived from YTD and annual
+ * durations per member, as for entity-wide facts.
+ */
+export function buildSegmentPeriods(
+  facts: SegmentFactInput[],
+  frequency: SegmentFrequency,
+  options: NormalizeOptions = {}
+): SegmentPeriod[] {
+  const byMember = new Map<string, SegmentFactInput[]>();
+  for (const fact of facts) {
+    byMember.set(fact.member, [...(byMember.get(fact.member) || []), fact]);
+  }
+
+  const periods = new Map<string, SegmentPeriod>();
+  for (const [member, memberFacts] of byMember) {
+    const series = normalizePeriods(memberFacts, options);
+    const values: NormalizedPeriodValue<SegmentFactInput>[] = frequency === 'annual' ? series.annual : series.quarterly;
+
+    for (const value of values) {
+      const key = `${value.periodStart.toISOString().slice(0, 10)}|${value.periodEnd.toISOString().slice(0, 10)}`;
+      const period = periods.get(key) ?? {
+        periodStart: value.periodStart,
+        periodEnd: value.periodEnd,
+        fiscalYear: value.fiscalYear,
+        fiscalPeriod: value.fiscalPeriod,
+        values: {},
+        total: 0,
+        derived: false,
+      };
+
+      period.values[member] = value.value;
+      period.total += value.value;
+      period.derived = period.derived || value.derived;
+      periods.set(key, period);
+    }
+  }
+
+  return Array.from(periods.values()).sort((a, b) => a.periodEnd.getTime() - b.periodEnd.getTime());
+}
+
+/**
+ * Members ordered by their value in the latest period, largest first, so the
+ * biggest segment sits at the bottom of a stacked chart
+ */
+export function rankMembers(periods: SegmentPeriod[]): string[] {
+  const members = new Set(periods.flatMap(period => Object.keys(period.values)));
+  const latest = periods[periods.length - 1]?.values ?? {};
+
+  return Array.from(members).sort((a, b) =>
+    (latest[b] ?? -Infinity) - (latest[a] ?? -Infinity) || a.localeCompare(b)
+  );
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { classifySic, getCompanyClassification } from './sic-taxonomy';
+
+describe('sic-taxonomy', () => {
+  it('should classify by major group and division', () => {
+    expect(classifySic('6022')).toEqual({
+      sic: '6022',
+      division: 'Finance, Insurance and Real Estate',
+      majorGroup: '60',
+      industry: 'Depository Institutions',
+      sector: 'Finance',
+    });
+    expect(classifySic('1311')?.sector).toBe('Energy');
+    expect(classifySic('100')?.division).toBe('Agriculture, Forestry and Fishing'); // Leading zero dropped
+  });
+
+  it('should apply four-digit sector overrides within a major group', () => {
+    expect(classifySic('3571')).toMatchObject({ industry: 'Industrial and Commercial Machinery and Computer Equipment', sector: 'Technology' });
+    expect(classifySic('3560')?.sector).toBe('Industrials');
+    expect(classifySic('2834')?.sector).toBe('Healthcare');
+    expect(classifySic('7372')?.sector).toBe('Technology');
+    expect(classifySic('6798')?.sector).toBe('Real Estate');
+  });
+
+  it('should ignore unknown or malformed codes and prefer stored values', () => {
+    expect(classifySic('1100')).toBeUndefined(); // Major group 11 is unassigned
+    expect(classifySic('ABCD')).toBeUndefined();
+    expect(classifySic(null)).toBeUndefined();
+
+    expect(getCompanyClassification({ sic: '7372', sector: null, industry: null }))
+      .toEqual({ sector: 'Technology', industry: 'Business Services' });
+    expect(getCompanyClassification({ sic: '7372', sector: 'Software', industry: null }))
+      .toEqual({ sector: 'Software', industry: 'Business Services' });
+    expect(getCompanyClassification({ sic: null })).toEqual({});
+  });
+});
\ No newline at end of file
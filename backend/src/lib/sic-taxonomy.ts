@@ -0,0 +1,195 @@
+/**
+ * SIC code classification into divisions, major groups and sectors.
+ *
+ * EDGAR assigns every registrant a four-digit Standard Industrial
+ * Classification code. The first two digits are the major group, which we use
+ * as the company's industry; major groups roll up into the SEC divisions and
+ * into a coarser sector used for peer grouping and health-score benchmarks.
+ */
+
+export type Sector =
+  | 'Technology'
+  | 'Healthcare'
+  | 'Finance'
+  | 'Real Estate'
+  | 'Energy'
+  | 'Materials'
+  | 'Industrials'
+  | 'Consumer Discretionary'
+  | 'Consumer Staples'
+  | 'Communication Services'
+  | 'Utilities'
+  | 'Public Administration'
+  | 'Other';
+
+export interface SicClassification {
+  sic: string;
+  division: string;
+  majorGroup: string; // Two-digit code
+  industry: string; // Major group name
+  sector: Sector;
+}
+
+interface SicDivision {
+  code: string;
+  name: string;
+  from: number; // First major group, inclusive
+  to: number; // Last major group, inclusive
+}
+
+const DIVISIONS: readonly SicDivision[] = [
+  { code: 'A', name: 'Agriculture, Forestry and Fishing', from: 1, to: 9 },
+  { code: 'B', name: 'Mining', from: 10, to: 14 },
+  { code: 'C', name: 'Construction', from: 15, to: 17 },
+  { code: 'D', name: 'Manufacturing', from: 20, to: 39 },
+  { code: 'E', name: 'Transportation, Communications, Electric, Gas and Sanitary Services', from: 40, to: 49 },
+  { code: 'F', name: 'Wholesale Trade', from: 50, to: 51 },
+  { code: 'G', name: 'Retail Trade', from: 52, to: 59 },
+  { code: 'H', name: 'Finance, Insurance and Real Estate', from: 60, to: 67 },
+  { code: 'I', name: 'Services', from: 70, to: 89 },
+  { code: 'J', name: 'Public Administration', from: 91, to: 97 },
+  { code: 'K', name: 'Nonclassifiable Establishments', from: 99, to: 99 },
+];
+
+// Major group -> [industry name, sector]
+const MAJOR_GROUPS: Readonly<Record<number, readonly [string, Sector]>> = {
+  1: ['Agricultural Production - Crops', 'Consumer Staples'],
+  2: ['Agricultural Production - Livestock', 'Consumer Staples'],
+  7: ['Agricultural Services', 'Consumer Staples'],
+  8: ['Forestry', 'Materials'],
+  9: ['Fishing, Hunting and Trapping', 'Consumer Staples'],
+  10: ['Metal Mining', 'Materials'],
+  12: ['Coal Mining', 'Energy'],
+  13: ['Oil and Gas Extraction', 'Energy'],
+  14: ['Mining of Nonmetallic Minerals', 'Materials'],
+  15: ['Building Construction', 'Industrials'],
+  16: ['Heavy Construction', 'Industrials'],
+  17: ['Construction Special Trade Contractors', 'Industrials'],
+  20: ['Food and Kindred Products', 'Consumer Staples'],
+  21: ['Tobacco Products', 'Consumer Staples'],
+  22: ['Textile Mill Products', 'Consumer Discretionary'],
+  23: ['Apparel and Other Textile Products', 'Consumer Discretionary'],
+  24: ['Lumber and Wood Products', 'Materials'],
+  25: ['Furniture and Fixtures', 'Consumer Discretionary'],
+  26: ['Paper and Allied Products', 'Materials'],
+  27: ['Printing and Publishing', 'Communication Services'],
+  28: ['Chemicals and Allied Products', 'Materials'],
+  29: ['Petroleum Refining', 'Energy'],
+  30: ['Rubber and Plastics Products', 'Materials'],
+  31: ['Leather and Leather Products', 'Consumer Discretionary'],
+  32: ['Stone, Clay, Glass and Concrete Products', 'Materials'],
+  33: ['Primary Metal Industries', 'Materials'],
+  34: ['Fabricated Metal Products', 'Industrials'],
+  35: ['Industrial and Commercial Machinery and Computer Equipment', 'Industrials'],
+  36: ['Electronic and Other Electrical Equipment', 'Technology'],
+  37: ['Transportation Equipment', 'Industrials'],
+  38: ['Measuring, Analyzing and Controlling Instruments', 'Industrials'],
+  39: ['Miscellaneous Manufacturing Industries', 'Consumer Discretionary'],
+  40: ['Railroad Transportation', 'Industrials'],
+  41: ['Local and Interurban Passenger Transit', 'Industrials'],
+  42: ['Motor Freight Transportation and Warehousing', 'Industrials'],
+  43: ['United States Postal Service', 'Industrials'],
+  44: ['Water Transportation', 'Industrials'],
+  45: ['Transportation by Air', 'Industrials'],
+  46: ['Pipelines, Except Natural Gas', 'Energy'],
+  47: ['Transportation Services', 'Industrials'],
+  48: ['Communications', 'Communication Services'],
+  49: ['Electric, Gas and Sanitary Services', 'Utilities'],
+  50: ['Wholesale Trade - Durable Goods', 'Industrials'],
+  51: ['Wholesale Trade - Nondurable Goods', 'Consumer Staples'],
+  52: ['Building Materials and Garden Supplies', 'Consumer Discretionary'],
+  53: ['General Merchandise Stores', 'Consumer Discretionary'],
+  54: ['Food Stores', 'Consumer Staples'],
+  55: ['Automotive Dealers and Service Stations', 'Consumer Discretionary'],
+  56: ['Apparel and Accessory Stores', 'Consumer Discretionary'],
+  57: ['Home Furniture and Equipment Stores', 'Consumer Discretionary'],
+  58: ['Eating and Drinking Places', 'Consumer Discretionary'],
+  59: ['Miscellaneous Retail', 'Consumer Discretionary'],
+  60: ['Depository Institutions', 'Finance'],
+  61: ['Nondepository Credit Institutions', 'Finance'],
+  62: ['Security and Commodity Brokers', 'Finance'],
+  63: ['Insurance Carriers', 'Finance'],
+  64: ['Insurance Agents, Brokers and Service', 'Finance'],
+  65: ['Real Estate', 'Real Estate'],
+  67: ['Holding and Other Investment Offices', 'Finance'],
+  70: ['Hotels and Other Lodging Places', 'Consumer Discretionary'],
+  72: ['Personal Services', 'Consumer Discretionary'],
+  73: ['Business Services', 'Industrials'],
+  75: ['Automotive Repair and Services', 'Consumer Discretionary'],
+  76: ['Miscellaneous Repair Services', 'Consumer Discretionary'],
+  78: ['Motion Pictures', 'Communication Services'],
+  79: ['Amusement and Recreation Services', 'Consumer Discretionary'],
+  80: ['Health Services', 'Healthcare'],
+  81: ['Legal Services', 'Industrials'],
+  82: ['Educational Services', 'Consumer Discretionary'],
+  83: ['Social Services', 'Healthcare'],
+  84: ['Museums and Botanical Gardens', 'Consumer Discretionary'],
+  86: ['Membership Organizations', 'Other'],
+  87: ['Engineering, Accounting, Research and Management Services', 'Industrials'],
+  88: ['Private Households', 'Other'],
+  89: ['Miscellaneous Services', 'Other'],
+  91: ['Executive, Legislative and General Government', 'Public Administration'],
+  92: ['Justice, Public Order and Safety', 'Public Administration'],
+  93: ['Public Finance, Taxation and Monetary Policy', 'Public Administration'],
+  94: ['Administration of Human Resource Programs', 'Public Administration'],
+  95: ['Administration of Environmental Quality and Housing Programs', 'Public Administration'],
+  96: ['Administration of Economic Programs', 'Public Administration'],
+  97: ['National Security and International Affairs', 'Public Administration'],
+  99: ['Nonclassifiable Establishments', 'Other'],
+};
+
+// Four-digit ranges whose sector differs from their major group's
+const SECTOR_OVERRIDES: readonly { from: number; to: number; sector: Sector }[] = [
+  { from: 2833, to: 2836, sector: 'Healthcare' }, // Pharmaceuticals and biologicals
+  { from: 3570, to: 3579, sector: 'Technology' }, // Computer and office equipment
+  { from: 3661, to: 3669, sector: 'Technology' }, // Communications equipment
+  { from: 3821, to: 3829, sector: 'Technology' }, // Laboratory and measuring instruments
+  { from: 3841, to: 3851, sector: 'Healthcare' }, // Medical instruments and supplies
+  { from: 4812, to: 4899, sector: 'Communication Services' },
+  { from: 5045, to: 5045, sector: 'Technology' }, // Computer wholesale
+  { from: 5122, to: 5122, sector: 'Healthcare' }, // Drug wholesale
+  { from: 5912, to: 5912, sector: 'Consumer Staples' }, // Drug stores
+  { from: 6798, to: 6798, sector: 'Real Estate' }, // REITs
+  { from: 7370, to: 7379, sector: 'Technology' }, // Computer programming and data processing
+  { from: 8731, to: 8731, sector: 'Healthcare' }, // Commercial physical and biological research
+];
+
+export function classifySic(sic: string | null | undefined): SicClassification | undefined {
+  if (!sic || !/^\d{3,4}$/.test(sic.trim())) return undefined;
+
+  const code = sic.trim().padStart(4, '0');
+  const groupNumber = parseInt(code.slice(0, 2), 10);
+  const group = MAJOR_GROUPS[groupNumber];
+  const division = DIVISIONS.find(d => groupNumber >= d.from && groupNumber <= d.to);
+  if (!group || !division) return undefined;
+
+  const numeric = parseInt(code, 10);
+  const override = SECTOR_OVERRIDES.find(range => numeric >= range.from && numeric <= range.to);
+
+  return {
+    sic: code,
+    division: division.name,
+    majorGroup: code.slice(0, 2),
+    industry: group[0],
+    sector: override?.sector ?? group[1],
+  };
+}
+
+/**
+ * Sector and industry for a company row, preferring stored values and
+ * falling back to its SIC code for rows ingested before classification
+ */
+export function getCompanyClassification(company: {
+  sic?: string | null;
+  sector?: string | null;
+  industry?: string | null;
+}): { sector?: string; industry?: string } {
+  const classified = classifySic(company.sic);
+  const sector = company.sector || classified?.sector;
+  const industry = company.industry || classified?.industry;
+
+  return {
+    ...(sector && { sector }),
+    ...(industry && { industry }),
+  };
+}
\ No newline at end of file
@@ -203,6 +203,20 @@ describe('XBRLParser', () => {
       expect(limitedQuarterly.length).toBeLessThanOrEqual(2);
     });
 
+    it('should derive Q4 from the annual and nine-month YTD values', () => {
+      const result = XBRLParser.parse(mockCompanyFacts);
+      const ytd = {
+        ...result.facts.find(f => f.fiscalPeriod === 'Q3')!,
+        periodStart: new Date('2022-10-01'),
+        value: 300000000000,
+      };
+      const quarterly = XBRLParser.getQuarterlyValues([...result.facts, ytd], 'Revenues');
+
+      expect(quarterly.map(q => q.fiscalPeriod)).toEqual(['Q4', 'Q3']);
+      expect(quarterly[0]?.value).toBe(83285000000);
+      expect(quarterly[0]?.periodStart).toEqual(new Date('2023-07-01'));
+    });
+
     it('should return empty array for non-existent concept', () => {
       const result = XBRLParser.parse(mockCompanyFacts);
       const nonExistent = XBRLParser.getQuarterlyValues(result.facts, 'NonExistentConcept');
@@ -211,6 +225,241 @@ describe('XBRLParser', () => {
     });
   });
 
+  describe('concept catalog', () => {
+    const factsWithExtraConcepts: CompanyFacts = {
+      cik: '0000320193',
+      entityName: 'Apple Inc.',
+      facts: {
+        'us-gaap': {
+          'ResearchAndDevelopmentExpense': {
+            units: {
+              'USD': {
+                val: [
+                  {
+                    end: '2023-09-30',
+                    val: 29915000000,
+                    accn: '0000320193-23-000106',
+                    fy: 2023,
+                    fp: 'FY',
+                    form: '10-K',
+                    filed: '2023-11-03',
+                    start: '2022-10-01',
+                  },
+                ],
+              },
+              'EUR': {
+                val: [
+                  {
+                    end: '2023-09-30',
+                    val: 27000000000,
+                    accn: '0000320193-23-000106',
+                    fy: 2023,
+                    fp: 'FY',
+                    form: '10-K',
+                    filed: '2023-11-03',
+                    start: '2022-10-01',
+                  },
+                ],
+              },
+            },
+          },
+          'SomeUnlistedConcept': {
+            units: {
+              'USD': {
+                val: [
+                  {
+                    end: '2023-09-30',
+                    val: 1,
+                    accn: '0000320193-23-000106',
+                    fy: 2023,
+                    fp: 'FY',
+                    form: '10-K',
+                    filed: '2023-11-03',
+                  },
+                ],
+              },
+            },
+          },
+        },
+      },
+    };
+
+    it('should parse any concept listed in the catalog', () => {
+      const result = XBRLParser.parse(factsWithExtraConcepts);
+
+      expect(result.facts).toHaveLength(1);
+      expect(result.facts[0]?.concept).toBe('ResearchAndDevelopmentExpense');
+      expect(result.facts[0]?.unit).toBe('USD');
+      expect(result.facts[0]?.instant).toBe(false);
+    });
+
+    it('should honour a custom catalog', () => {
+      const result = XBRLParser.parse(factsWithExtraConcepts, {
+        catalog: {
+          SomeUnlistedConcept: {
+            label: 'Some Unlisted Concept',
+            statement: 'balance',
+            periodType: 'instant',
+            unit: 'monetary',
+            sign: 'natural',
+          },
+        },
+      });
+
+      expect(result.facts).toHaveLength(1);
+      expect(result.facts[0]?.concept).toBe('SomeUnlistedConcept');
+      expect(result.facts[0]?.instant).toBe(true);
+    });
+  });
+
+  describe('IFRS taxonomy', () => {
+    const annual = (val: number, accn = '0001046179-24-000010') => ({
+      end: '2023-12-31',
+      start: '2023-01-01',
+      val,
+      accn,
+      fy: 2023,
+      fp: 'FY',
+      form: '20-F',
+      filed: '2024-04-18',
+    });
+
+    const ifrsFacts: CompanyFacts = {
+      cik: '0001046179',
+      entityName: 'Taiwan Semiconductor Manufacturing Co Ltd',
+      facts: {
+        'ifrs-full': {
+          'Revenue': {
+            label: 'Revenue',
+            units: {
+              'TWD': { val: [annual(2161735841000)] },
+              'USD': { val: [annual(70434000000)] }, // Convenience translation
+            },
+          },
+          'ProfitLossAttributableToOwnersOfParent': {
+            label: 'Profit attributable to owners of parent',
+            units: { 'TWD': { val: [annual(838497664000)] } },
+          },
+          'BasicEarningsLossPerShare': {
+            label: 'Basic earnings per share',
+            units: { 'TWD/shares': { val: [annual(32.34)] } },
+          },
+          'DisclosureOfSignificantAccountingPolicies': {
+            label: 'Not in the catalog',
+            units: { 'TWD': { val: [annual(1)] } },
+          },
+        },
+      },
+    };
+
+    it('should map ifrs-full tags onto canonical concepts', () => {
+      const result = XBRLParser.parse(ifrsFacts);
+
+      expect(result.facts.map(f => f.concept).sort()).toEqual([
+        'EarningsPerShareBasic',
+        'NetIncomeLoss',
+        'Revenues',
+      ]);
+      const revenue = result.facts.find(f => f.concept === 'Revenues');
+      expect(revenue?.taxonomy).toBe('ifrs-full');
+      expect(revenue?.sourceConcept).toBe('Revenue');
+    });
+
+    it('should keep native currencies and prefer the reporting currency', () => {
+      const result = XBRLParser.parse(ifrsFacts);
+
+      expect(result.reportingCurrency).toBe('TWD');
+      expect(result.facts.find(f => f.concept === 'Revenues')).toMatchObject({
+        unit: 'TWD',
+        value: 2161735841000,
+      });
+      expect(result.facts.find(f => f.concept === 'EarningsPerShareBasic')?.unit).toBe('TWD');
+    });
+
+    it('should report USD as the reporting currency for us-gaap filers', () => {
+      const result = XBRLParser.parse(mockCompanyFacts);
+
+      expect(result.reportingCurrency).toBe('USD');
+    });
+  });
+
+  describe('concept fallback chains', () => {
+    const revenueValue = (end: string, val: number, start: string) => ({
+      end,
+      val,
+      accn: '0000320193-23-000106',
+      fy: 2023,
+      fp: 'FY',
+      form: '10-K',
+      filed: '2023-11-03',
+      start,
+    });
+
+    const factsWithAliases: CompanyFacts = {
+      cik: '0000320193',
+      entityName: 'Apple Inc.',
+      facts: {
+        'us-gaap': {
+          'Revenues': {
+            units: {
+              'USD': { val: [revenueValue('2023-09-30', 383285000000, '2022-10-01')] },
+            },
+          },
+          'RevenueFromContractWithCustomerExcludingAssessedTax': {
+            units: {
+              'USD': {
+                val: [
+                  revenueValue('2023-09-30', 383000000000, '2022-10-01'),
+                  revenueValue('2022-09-24', 394328000000, '2021-09-26'),
+                ],
+              },
+            },
+          },
+          'SalesRevenueNet': {
+            units: {
+              'USD': { val: [revenueValue('2022-09-24', 1, '2021-09-26')] },
+            },
+          },
+        },
+      },
+    };
+
+    it('should map alias tags onto the canonical concept', () => {
+      const result = XBRLParser.parse(factsWithAliases);
+
+      expect(result.facts.every(f => f.concept === 'Revenues')).toBe(true);
+    });
+
+    it('should prefer the highest-priority tag reported for each period', () => {
+      const result = XBRLParser.parse(factsWithAliases);
+
+      expect(result.facts).toHaveLength(2);
+      expect(result.facts[0]?.sourceConcept).toBe('Revenues');
+      expect(result.facts[0]?.value).toBe(383285000000);
+      expect(result.facts[1]?.sourceConcept).toBe('RevenueFromContractWithCustomerExcludingAssessedTax');
+      expect(result.facts[1]?.value).toBe(394328000000);
+    });
+
+    it('should not fill a concept from a broader tag', () => {
+      const result = XBRLParser.parse({
+        cik: '0000320193',
+        entityName: 'Apple Inc.',
+        facts: {
+          'us-gaap': {
+            // Includes the noncontrolling interests' share
+            'ProfitLoss': {
+              units: {
+                'USD': { val: [revenueValue('2023-09-30', 97000000000, '2022-10-01')] },
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.facts.some(f => f.concept === 'NetIncomeLoss')).toBe(false);
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle empty facts gracefully', () => {
       const emptyFacts: CompanyFacts = {
@@ -1,7 +1,11 @@
 import type { CompanyFacts, Fact } from '../types/sec';
+import { CONCEPT_CATALOG, isSupportedTaxonomy, resolveConcept, selectFallbackFacts } from './concept-catalog';
+import type { ConceptCatalog, ConceptDefinition } from './concept-catalog';
+import { normalizePeriods } from './period-normalizer';
 
 export interface ParsedFact {
   concept: string;
+  sourceConcept: string; // Tag the value was reported under (canonical or alias)
   taxonomy: string;
   unit: string;
   value: number;
@@ -13,55 +17,48 @@ export interface ParsedFact {
   filingAccession: string;
   form: string;
   filed: Date;
+  dimensions?: Record<string, string>; // Axis -> member; absent for entity-wide facts
 }
 
 export interface ParsedFinancialData {
   cik: string;
   entityName: string;
   facts: ParsedFact[];
+  reportingCurrency?: string; // Most common currency across monetary facts
 }
 
-export class XBRLParser {
-  // Key financial concepts we want to extract
-  private static readonly CORE_CONCEPTS = {
-    // Income Statement (duration)
-    'Revenues': 'us-gaap',
-    'CostOfRevenue': 'us-gaap',
-    'GrossProfit': 'us-gaap', 
-    'OperatingIncomeLoss': 'us-gaap',
-    'NetIncomeLoss': 'us-gaap',
-    'EarningsPerShareDiluted': 'us-gaap',
-    'WeightedAverageNumberOfDilutedSharesOutstanding': 'us-gaap',
-    
-    // Balance Sheet (instant)
-    'Assets': 'us-gaap',
-    'AssetsCurrent': 'us-gaap',
-    'Liabilities': 'us-gaap',
-    'LiabilitiesCurrent': 'us-gaap',
-    'StockholdersEquity': 'us-gaap',
-    'CashAndCashEquivalentsAtCarryingValue': 'us-gaap',
-    'LongTermDebtNoncurrent': 'us-gaap',
-    
-    // Cash Flow (duration)
-    'NetCashProvidedByUsedInOperatingActivities': 'us-gaap',
-    'NetCashProvidedByUsedInInvestingActivities': 'us-gaap',
-    'NetCashProvidedByUsedInFinancingActivities': 'us-gaap',
-  };
+export interface ParseOptions {
+  catalog?: ConceptCatalog; // Defaults to CONCEPT_CATALOG
+}
+
+// ISO 4217 currency units as they appear in companyfacts, e.g. EUR or TWD/shares
+const CURRENCY_UNIT = /^([A-Z]{3})$/;
+const CURRENCY_PER_SHARE_UNIT = /^([A-Z]{3})\/shares$/;
 
-  static parse(companyFacts: CompanyFacts): ParsedFinancialData {
+export class XBRLParser {
+  static parse(companyFacts: CompanyFacts, options: ParseOptions = {}): ParsedFinancialData {
+    const catalog = options.catalog ?? CONCEPT_CATALOG;
     const facts: ParsedFact[] = [];
 
     // Process each taxonomy (us-gaap, dei, ifrs-full)
     Object.entries(companyFacts.facts).forEach(([taxonomy, taxonomyFacts]) => {
       if (!taxonomyFacts) return;
 
-      Object.entries(taxonomyFacts).forEach(([concept, fact]) => {
-        // Only process core concepts for now
-        if (taxonomy === 'us-gaap' && !(concept in this.CORE_CONCEPTS)) {
+      Object.entries(taxonomyFacts).forEach(([tag, fact]) => {
+        // Only process us-gaap and ifrs-full tags the catalog knows, directly or as an alias
+        const supported = isSupportedTaxonomy(taxonomy);
+        const resolved = supported ? resolveConcept(tag, catalog, taxonomy) : undefined;
+        if (supported && !resolved) {
           return;
         }
 
-        const parsedFacts = this.parseFact(concept, taxonomy, fact);
+        const parsedFacts = this.parseFact(
+          resolved?.concept ?? tag,
+          tag,
+          taxonomy,
+          fact,
+          resolved?.definition
+        );
         facts.push(...parsedFacts);
       });
     });
@@ -69,27 +66,65 @@ export class XBRLParser {
     return {
       cik: companyFacts.cik,
       entityName: companyFacts.entityName,
-      facts: facts.sort((a, b) => b.periodEnd.getTime() - a.periodEnd.getTime()),
+      ...this.resolveFacts(facts, catalog),
     };
   }
 
-  private static parseFact(concept: string, taxonomy: string, fact: Fact): ParsedFact[] {
+  /**
+   * Pick one tag per concept and period, prefer the reporting currency and sort
+   * newest first. Shared with InlineXBRLParser; dimensional facts are resolved
+   * separately from the entity-wide totals they break down.
+   */
+  static resolveFacts(
+    facts: ParsedFact[],
+    catalog: ConceptCatalog = CONCEPT_CATALOG
+  ): { facts: ParsedFact[]; reportingCurrency?: string } {
+    const byDimensions = new Map<string, ParsedFact[]>();
+    facts.forEach(fact => {
+      const key = dimensionKey(fact);
+      byDimensions.set(key, [...(byDimensions.get(key) || []), fact]);
+    });
+
+    // Where several tags map to one concept, keep the preferred tag per period
+    const resolvedFacts = Array.from(byDimensions.values())
+      .flatMap(group => selectFallbackFacts(group, catalog));
+
+    // Filers that also tag convenience translations report a period twice in
+    // different currencies; keep the reporting currency where both exist
+    const reportingCurrency = this.detectReportingCurrency(resolvedFacts);
+    const currencyFacts = reportingCurrency
+      ? this.preferReportingCurrency(resolvedFacts, reportingCurrency)
+      : resolvedFacts;
+
+    return {
+      facts: currencyFacts.sort((a, b) => b.periodEnd.getTime() - a.periodEnd.getTime()),
+      ...(reportingCurrency && { reportingCurrency }),
+    };
+  }
+
+  private static parseFact(
+    concept: string,
+    sourceConcept: string,
+    taxonomy: string,
+    fact: Fact,
+    definition: ConceptDefinition | undefined
+  ): ParsedFact[] {
     const parsedFacts: ParsedFact[] = [];
 
     Object.entries(fact.units).forEach(([unit, unitData]) => {
       // Prefer USD for monetary values, pure for ratios/counts
-      if (this.shouldSkipUnit(concept, unit)) {
+      if (definition && this.shouldSkipUnit(definition, unit)) {
         return;
       }
 
       unitData.val.forEach((val) => {
         try {
-          const parsedFact = this.parseFactValue(concept, taxonomy, unit, val);
+          const parsedFact = this.parseFactValue(concept, sourceConcept, taxonomy, unit, val, definition);
           if (parsedFact) {
             parsedFacts.push(parsedFact);
           }
         } catch (error) {
-          console.warn(`Failed to parse fact ${concept} for period ${val.end}:`, error);
+          console.warn(`Failed to parse fact ${sourceConcept} for period ${val.end}:`, error);
         }
       });
     });
@@ -99,9 +134,11 @@ export class XBRLParser {
 
   private static parseFactValue(
     concept: string,
+    sourceConcept: string,
     taxonomy: string,
     unit: string,
-    val: any
+    val: any,
+    definition: ConceptDefinition | undefined
   ): ParsedFact | null {
     // Skip non-numeric values for financial metrics
     const numericValue = this.parseNumericValue(val.val);
@@ -114,8 +151,9 @@ export class XBRLParser {
     const periodStart = val.start ? new Date(val.start) : null;
     const filed = new Date(val.filed);
 
-    // Determine if this is an instant or duration measurement
-    const instant = this.isInstantConcept(concept);
+    // Determine if this is an instant or duration measurement; concepts outside
+    // the catalog (dei) are instants when they carry no start date
+    const instant = definition ? definition.periodType === 'instant' : !val.start;
 
     // Normalize unit
     const normalizedUnit = this.normalizeUnit(unit);
@@ -128,6 +166,7 @@ export class XBRLParser {
 
     return {
       concept,
+      sourceConcept,
       taxonomy,
       unit: normalizedUnit.unit,
       value: normalizedValue,
@@ -155,49 +194,23 @@ export class XBRLParser {
     return null;
   }
 
-  private static isInstantConcept(concept: string): boolean {
-    // Balance sheet items are instant, income statement items are duration
-    const instantConcepts = [
-      'Assets',
-      'AssetsCurrent', 
-      'Liabilities',
-      'LiabilitiesCurrent',
-      'StockholdersEquity',
-      'CashAndCashEquivalentsAtCarryingValue',
-      'LongTermDebtNoncurrent',
-    ];
-    
-    return instantConcepts.includes(concept);
-  }
+  static shouldSkipUnit(definition: ConceptDefinition, unit: string): boolean {
+    const unitLower = unit.toLowerCase();
 
-  private static shouldSkipUnit(concept: string, unit: string): boolean {
-    // For monetary concepts, prefer USD and its variations
-    const monetaryConcepts = [
-      'Revenues', 'CostOfRevenue', 'GrossProfit', 'OperatingIncomeLoss',
-      'NetIncomeLoss', 'Assets', 'Liabilities', 'StockholdersEquity',
-      'CashAndCashEquivalentsAtCarryingValue', 'LongTermDebtNoncurrent'
-    ];
-    
-    if (monetaryConcepts.includes(concept)) {
-      return !unit.toLowerCase().includes('usd');
-    }
-    
-    // For share counts and ratios, prefer 'shares' or 'pure'
-    const shareConcepts = ['WeightedAverageNumberOfDilutedSharesOutstanding'];
-    const ratioConcepts = ['EarningsPerShareDiluted'];
-    
-    if (shareConcepts.includes(concept)) {
-      return !unit.toLowerCase().includes('shares');
+    switch (definition.unit) {
+      case 'monetary':
+        // USD and its variations, or any ISO 4217 currency for foreign filers
+        return !unitLower.includes('usd') && !CURRENCY_UNIT.test(unit);
+      case 'shares':
+        return !unitLower.includes('shares');
+      case 'perShare':
+        return !['pure', 'usdpershare', 'usd/shares'].includes(unitLower) && !CURRENCY_PER_SHARE_UNIT.test(unit);
+      case 'pure':
+        return unitLower !== 'pure';
     }
-    
-    if (ratioConcepts.includes(concept)) {
-      return !['pure', 'usdpershare', 'usd/shares'].includes(unit.toLowerCase());
-    }
-    
-    return false;
   }
 
-  private static normalizeUnit(unit: string): { unit: string; scale: number } | null {
+  static normalizeUnit(unit: string): { unit: string; scale: number } | null {
     const unitLower = unit.toLowerCase();
     
     // Handle USD variations
@@ -214,6 +227,12 @@ export class XBRLParser {
       return { unit: 'USD', scale: 1 };
     }
     
+    // Other currencies keep their ISO code (per-share values included, like USD/shares)
+    const currency = CURRENCY_UNIT.exec(unit) ?? CURRENCY_PER_SHARE_UNIT.exec(unit);
+    if (currency?.[1]) {
+      return { unit: currency[1], scale: 1 };
+    }
+
     // Handle shares
     if (unitLower.includes('shares')) {
       return { unit: 'shares', scale: 1 };
@@ -227,8 +246,39 @@ export class XBRLParser {
     return null;
   }
 
+  private static detectReportingCurrency(facts: ParsedFact[]): string | undefined {
+    const counts = new Map<string, number>();
+    facts.forEach(fact => {
+      if (CURRENCY_UNIT.test(fact.unit)) {
+        counts.set(fact.unit, (counts.get(fact.unit) || 0) + 1);
+      }
+    });
+
+    let reportingCurrency: string | undefined;
+    counts.forEach((count, currency) => {
+      if (!reportingCurrency || count > (counts.get(reportingCurrency) || 0)) {
+        reportingCurrency = currency;
+      }
+    });
+    return reportingCurrency;
+  }
+
+  private static preferReportingCurrency(facts: ParsedFact[], reportingCurrency: string): ParsedFact[] {
+    const factKey = (fact: ParsedFact) =>
+      `${fact.concept}|${fact.periodStart?.getTime() ?? ''}|${fact.periodEnd.getTime()}|${fact.filingAccession}|${dimensionKey(fact)}`;
+
+    const reported = new Set(
+      facts.filter(fact => fact.unit === reportingCurrency).map(factKey)
+    );
+
+    return facts.filter(fact =>
+      !CURRENCY_UNIT.test(fact.unit) || fact.unit === reportingCurrency || !reported.has(factKey(fact))
+    );
+  }
+
   private static normalizeScale(value: number, unit: string): number {
-    // Values are already in the correct scale based on unit parsing
+    // Values are already in the correct scale based on unit parsing; a filer's
+    // own scale errors are caught by the anomaly screen at ingestion
     return value;
   }
 
@@ -243,12 +293,28 @@ export class XBRLParser {
     );
   }
 
-  // Helper method to get quarterly values for a concept
+  // Helper method to get discrete three-month values for a concept,
+  // deriving quarters (including Q4) from YTD and annual durations
   static getQuarterlyValues(facts: ParsedFact[], concept: string, quarters = 12): ParsedFact[] {
-    const conceptFacts = facts
-      .filter(f => f.concept === concept && ['Q1', 'Q2', 'Q3', 'Q4'].includes(f.fiscalPeriod))
-      .sort((a, b) => b.periodEnd.getTime() - a.periodEnd.getTime());
-    
-    return conceptFacts.slice(0, quarters);
+    const conceptFacts = facts.filter(f => f.concept === concept && !f.instant);
+    const { quarterly } = normalizePeriods(conceptFacts);
+
+    return quarterly.slice(0, quarters).map(q => ({
+      ...q.source,
+      value: q.value,
+      periodStart: q.periodStart,
+      periodEnd: q.periodEnd,
+      fiscalYear: q.fiscalYear,
+      fiscalPeriod: q.fiscalPeriod,
+    }));
   }
+}
+
+// Stable key for a fact's dimension members; empty for entity-wide facts
+export function dimensionKey(fact: Pick<ParsedFact, 'dimensions'>): string {
+  if (!fact.dimensions) return '';
+  return Object.entries(fact.dimensions)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([axis, member]) => `${axis}=${member}`)
+    .join('|');
 }
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateRawSync } from 'zlib';
+import { ZipArchive, ZipArchiveError } from './zip-archive';
+
+const dir = mkdtempSync(join(tmpdir(), 'zip-archive-'));
+
+// Write a ZIP archive with stored and deflated entries
+function writeZip(name: string, files: { name: string; content: string; deflate?: boolean }[]): string {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const raw = Buffer.from(file.content);
+    const data = file.deflate ? deflateRawSync(raw) : raw;
+    const fileName = Buffer.from(file.name);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(file.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(file.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, data);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(files.length, 8);
+  eocd.writeUInt16LE(files.length, 10);
+  eocd.writeUInt32LE(directory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+
+  const path = join(dir, name);
+  writeFileSync(path, Buffer.concat([...locals, directory, eocd]));
+  return path;
+}
+
+describe('ZipArchive', () => {
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should list entries and read stored and deflated documents', async () => {
+    const path = writeZip('facts.zip', [
+      { name: 'CIK0000320193.json', content: JSON.stringify({ entityName: 'Apple Inc.' }), deflate: true },
+      { name: 'README.txt', content: 'hello' },
+    ]);
+
+    const archive = await ZipArchive.open(path);
+    try {
+      const [facts, readme] = archive.entries;
+      expect(archive.entries.map(entry => entry.name)).toEqual(['CIK0000320193.json', 'README.txt']);
+      expect(facts && await archive.readJson(facts)).toEqual({ entityName: 'Apple Inc.' });
+      expect(readme && (await archive.read(readme)).toString()).toBe('hello');
+    } finally {
+      await archive.close();
+    }
+  });
+
+  it('should reject files that are not ZIP archives', async () => {
+    const path = join(dir, 'not-a-zip.zip');
+    writeFileSync(path, 'plain text');
+
+    await expect(ZipArchive.open(path)).rejects.toThrow(ZipArchiveError);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { open } from 'fs/promises';
+import type { FileHandle } from 'fs/promises';
+import { inflateRawSync } from 'zlib';
+
+/**
+ * Minimal random-access ZIP reader for SEC's bulk archives.
+ *
+ * companyfacts.zip and submissions.zip hold one JSON document per company, so
+ * entries are located through the central directory and inflated one at a
+ * time rather than loading the whole archive into memory. Only the stored and
+ * deflate methods are supported, which is all EDGAR produces.
+ */
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  size: number;
+  localHeaderOffset: number;
+}
+
+export class ZipArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipArchiveError';
+  }
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const MAX_EOCD_SEARCH = 0xffff + 22; // Max comment length plus the record itself
+const UINT32_MAX = 0xffffffff;
+
+export class ZipArchive {
+  private constructor(
+    private handle: FileHandle,
+    readonly entries: ZipEntry[]
+  ) {}
+
+  static async open(path: string): Promise<ZipArchive> {
+    const handle = await open(path, 'r');
+    try {
+      const entries = await readCentralDirectory(handle);
+      return new ZipArchive(handle, entries);
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  async read(entry: ZipEntry): Promise<Buffer> {
+    const header = await readAt(this.handle, entry.localHeaderOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER_SIGNATURE) {
+      throw new ZipArchiveError(`Corrupt local header for ${entry.name}`);
+    }
+
+    const dataOffset = entry.localHeaderOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await readAt(this.handle, dataOffset, entry.compressedSize);
+
+    switch (entry.method) {
+      case 0:
+        return data;
+      case 8:
+        return inflateRawSync(data);
+      default:
+        throw new ZipArchiveError(`Unsupported compression method ${entry.method} for ${entry.name}`);
+    }
+  }
+
+  async readJson<T = unknown>(entry: ZipEntry): Promise<T> {
+    return JSON.parse((await this.read(entry)).toString('utf8')) as T;
+  }
+
+  async close(): Promise<void> {
+    await this.handle.close();
+  }
+}
+
+async function readAt(handle: FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  if (bytesRead !== length) {
+    throw new ZipArchiveError('Unexpected end of archive');
+  }
+  return buffer;
+}
+
+async function readCentralDirectory(handle: FileHandle): Promise<ZipEntry[]> {
+  const { size: fileSize } = await handle.stat();
+  const tailLength = Math.min(fileSize, MAX_EOCD_SEARCH);
+  const tailStart = fileSize - tailLength;
+  const tail = await readAt(handle, tailStart, tailLength);
+
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new ZipArchiveError('End of central directory not found');
+  }
+
+  let entryCount = tail.readUInt16LE(eocd + 10);
+  let directorySize = tail.readUInt32LE(eocd + 12);
+  let directoryOffset = tail.readUInt32LE(eocd + 16);
+
+  // Archives with more than 65535 entries or over 4GB use ZIP64 records
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.readUInt32LE(locator) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const record = await readAt(handle, Number(tail.readBigUInt64LE(locator + 8)), 56);
+    if (record.readUInt32LE(0) !== ZIP64_EOCD_SIGNATURE) {
+      throw new ZipArchiveError('Corrupt ZIP64 end of central directory');
+    }
+    entryCount = Number(record.readBigUInt64LE(32));
+    directorySize = Number(record.readBigUInt64LE(40));
+    directoryOffset = Number(record.readBigUInt64LE(48));
+  }
+
+  const directory = await readAt(handle, directoryOffset, directorySize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.readUInt32LE(offset) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new ZipArchiveError('Corrupt central directory');
+    }
+
+    const nameLength = directory.readUInt16LE(offset + 28);
+    const extraLength = directory.readUInt16LE(offset + 30);
+    const commentLength = directory.readUInt16LE(offset + 32);
+    const name = directory.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    let compressedSize = directory.readUInt32LE(offset + 20);
+    let size = directory.readUInt32LE(offset + 24);
+    let localHeaderOffset = directory.readUInt32LE(offset + 42);
+
+    // ZIP64 extra field carries, in order, whichever values overflowed
+    const extra = directory.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength);
+    for (let e = 0; e + 4 <= extra.length; e += 4 + extra.readUInt16LE(e + 2)) {
+      if (extra.readUInt16LE(e) !== ZIP64_EXTRA_FIELD) continue;
+      let field = e + 4;
+      if (size === UINT32_MAX) { size = Number(extra.readBigUInt64LE(field)); field += 8; }
+      if (compressedSize === UINT32_MAX) { compressedSize = Number(extra.readBigUInt64LE(field)); field += 8; }
+      if (localHeaderOffset === UINT32_MAX) { localHeaderOffset = Number(extra.readBigUInt64LE(field)); }
+    }
+
+    entries.push({
+      name,
+      method: directory.readUInt16LE(offset + 10),
+      compressedSize,
+      size,
+      localHeaderOffset,
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
\ No newline at end of file
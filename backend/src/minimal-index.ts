@@ -11,6 +11,7 @@ import { PromptManager } from './services/prompts';
 import { ComparisonService } from './services/comparisonService';
 import { TrendAnalysisService } from './services/trendAnalysisService';
 import { InsightsService } from './services/insightsService';
+import { getCompanyClassification } from './lib/sic-taxonomy';
 
 // MCP Integration (Sprint 5)
 import { mcpGateway } from './services/mcp/MCPGateway';
@@ -73,7 +74,7 @@ async function createApp() {
   // AI-powered health scoring endpoint
   app.get('/api/companies/:ticker/health-score', async (req, res) => {
     const { ticker } = req.params;
-    const { industry = 'Technology' } = req.query;
+    const { industry } = req.query;
     
     if (!ticker) {
       return res.status(400).json({
@@ -86,13 +87,22 @@ async function createApp() {
       
       // Get company metrics first
       const companyData = await finScopeMetrics.getCompanyMetrics(ticker);
+
+      // Benchmark against the company's SIC sector unless an industry is requested
+      const storedCompany = industry ? null : await prisma.company.findUnique({
+        where: { ticker: ticker.toUpperCase() },
+        select: { sic: true, sector: true, industry: true },
+      });
+      const benchmarkIndustry = (industry as string | undefined)
+        || (storedCompany && getCompanyClassification(storedCompany).sector)
+        || 'Technology';
       
       // Calculate health score with AI analysis
       const healthScore = await healthScoringService.calculateHealthScore(
         companyData.company.name,
         ticker.toUpperCase(),
         companyData.metrics,
-        industry as string
+        benchmarkIndustry
       );
 
       res.json({ 
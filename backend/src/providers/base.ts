@@ -32,6 +32,7 @@ export interface GetFinancialDataOptions {
   concepts?: string[];
   startDate?: Date;
   endDate?: Date;
+  filedSince?: Date; // Only facts from filings filed on or after this date
   forms?: string[];
   includePreliminary?: boolean;
   maxResults?: number;
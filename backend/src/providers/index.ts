@@ -30,6 +30,8 @@ export {
 
 // Concrete provider implementations
 export { SECEdgarProvider, type SECEdgarConfig } from './sec-edgar';
+export { SECBulkArchiveProvider, type SECBulkArchiveConfig } from './sec-bulk';
+export { SECInlineXBRLProvider, type SECInlineXBRLConfig } from './sec-ixbrl';
 export { FinnhubProvider, type FinnhubConfig } from './finnhub';
 export { CompositeProvider } from './composite';
 
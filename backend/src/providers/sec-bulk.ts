@@ -0,0 +1,238 @@
+import { ZipArchive } from '../lib/zip-archive';
+import type { ZipEntry } from '../lib/zip-archive';
+import { XBRLParser } from '../lib/xbrl-parser';
+import type { CompanyFacts } from '../types/sec';
+import type {
+  IFinancialDataProvider,
+  GetFinancialDataOptions,
+} from './base';
+import type {
+  CompanyMetadata,
+  FinancialData,
+  ProviderCapabilities,
+  FinancialMetric,
+} from './types';
+import {
+  DataProviderError,
+  DataNotFoundError,
+} from './types';
+
+export interface SECBulkArchiveConfig {
+  companyFactsPath: string; // companyfacts.zip
+  submissionsPath?: string; // submissions.zip, for tickers, SIC and fiscal year end
+}
+
+// Fields read from a submissions.zip company document
+interface SubmissionSummary {
+  name?: string;
+  tickers?: string[];
+  sic?: string;
+  fiscalYearEnd?: string;
+}
+
+const CIK_ENTRY = /^CIK(\d{10})\.json$/; // Skips CIK##########-submissions-###.json overflow files
+
+/**
+ * Provider that serves SEC data from the nightly bulk archives on local disk
+ * (https://www.sec.gov/edgar/sec-api-documentation), so a full universe can
+ * be ingested without per-company API requests or rate limiting
+ */
+export class SECBulkArchiveProvider implements IFinancialDataProvider {
+  readonly name = 'SEC-BULK';
+  readonly capabilities: ProviderCapabilities = {
+    hasSecFilings: true,
+    hasFundamentals: true,
+    hasRealTimeData: false,
+    hasPeerData: false,
+    hasHistoricalData: true,
+    hasRatioData: false,
+    hasAnalystData: false,
+    hasEconomicData: false,
+    hasNewsData: false,
+    maxHistoryYears: 20,
+  };
+
+  private config: SECBulkArchiveConfig;
+  private companyFacts: ZipArchive | undefined;
+  private submissions: ZipArchive | undefined;
+  private companyFactsIndex = new Map<string, ZipEntry>();
+  private submissionsIndex = new Map<string, ZipEntry>();
+
+  constructor(config: SECBulkArchiveConfig) {
+    this.config = config;
+  }
+
+  configure(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  /**
+   * CIKs with a companyfacts document, in archive order
+   */
+  async listCiks(): Promise<string[]> {
+    await this.open();
+    return Array.from(this.companyFactsIndex.keys());
+  }
+
+  async searchCompanies(query: string): Promise<CompanyMetadata[]> {
+    throw new DataProviderError(
+      'Search functionality not available for SEC bulk archives',
+      this.name,
+      'NOT_SUPPORTED'
+    );
+  }
+
+  async getCompanyMetadata(identifier: string): Promise<CompanyMetadata> {
+    const cik = this.normalizeCIK(identifier);
+    const companyFacts = await this.readCompanyFacts(cik);
+    return this.buildMetadata(cik, companyFacts, await this.readSubmission(cik));
+  }
+
+  async getFinancialData(
+    cik: string,
+    options: GetFinancialDataOptions = {}
+  ): Promise<FinancialData> {
+    const normalizedCik = this.normalizeCIK(cik);
+    const companyFacts = await this.readCompanyFacts(normalizedCik);
+    const parsedData = XBRLParser.parse(companyFacts);
+
+    const company = this.buildMetadata(
+      normalizedCik,
+      companyFacts,
+      await this.readSubmission(normalizedCik)
+    );
+    if (parsedData.reportingCurrency) {
+      company.reportingCurrency = parsedData.reportingCurrency;
+    }
+
+    const metrics: FinancialMetric[] = parsedData.facts
+      .filter(fact =>
+        (!options.concepts?.length || options.concepts.includes(fact.concept)) &&
+        (!options.startDate || fact.periodEnd >= options.startDate) &&
+        (!options.endDate || fact.periodEnd <= options.endDate) &&
+        (!options.filedSince || fact.filed >= options.filedSince) &&
+        (!options.forms?.length || options.forms.includes(fact.form))
+      )
+      .map(fact => ({
+        concept: fact.concept,
+        sourceConcept: fact.sourceConcept,
+        taxonomy: fact.taxonomy,
+        value: fact.value,
+        unit: fact.unit,
+        periodEnd: fact.periodEnd,
+        ...(fact.periodStart && { periodStart: fact.periodStart }),
+        instant: fact.instant,
+        fiscalYear: fact.fiscalYear,
+        fiscalPeriod: fact.fiscalPeriod,
+        filingAccession: fact.filingAccession,
+        form: fact.form,
+        filed: fact.filed,
+      }));
+
+    return {
+      company,
+      metrics,
+      lastUpdated: new Date(),
+      source: this.name,
+    };
+  }
+
+  async getLatestMetrics(cik: string, concepts: string[]): Promise<FinancialData> {
+    const data = await this.getFinancialData(cik, { concepts });
+
+    const latest = new Map<string, FinancialMetric>();
+    for (const metric of data.metrics) {
+      const existing = latest.get(metric.concept);
+      if (!existing || metric.periodEnd > existing.periodEnd) {
+        latest.set(metric.concept, metric);
+      }
+    }
+
+    return { ...data, metrics: Array.from(latest.values()) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      await this.open();
+      return this.companyFactsIndex.size > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    await this.companyFacts?.close();
+    await this.submissions?.close();
+    this.companyFacts = undefined;
+    this.submissions = undefined;
+  }
+
+  private async open(): Promise<void> {
+    if (!this.companyFacts) {
+      this.companyFacts = await ZipArchive.open(this.config.companyFactsPath);
+      this.companyFactsIndex = indexByCik(this.companyFacts.entries);
+    }
+    if (this.config.submissionsPath && !this.submissions) {
+      this.submissions = await ZipArchive.open(this.config.submissionsPath);
+      this.submissionsIndex = indexByCik(this.submissions.entries);
+    }
+  }
+
+  private async readCompanyFacts(cik: string): Promise<CompanyFacts> {
+    await this.open();
+    const entry = this.companyFactsIndex.get(cik);
+    if (!entry || !this.companyFacts) {
+      throw new DataNotFoundError(this.name, cik);
+    }
+
+    try {
+      const document = await this.companyFacts.readJson<CompanyFacts>(entry);
+      return { ...document, cik }; // Archive documents carry the CIK as a number
+    } catch (error) {
+      throw new DataProviderError(
+        `Failed to read ${entry.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        this.name,
+        'ARCHIVE_ERROR'
+      );
+    }
+  }
+
+  private async readSubmission(cik: string): Promise<SubmissionSummary | undefined> {
+    const entry = this.submissionsIndex.get(cik);
+    if (!entry || !this.submissions) {
+      return undefined;
+    }
+    return this.submissions.readJson<SubmissionSummary>(entry);
+  }
+
+  private buildMetadata(cik: string, companyFacts: CompanyFacts, submission?: SubmissionSummary): CompanyMetadata {
+    const tradingSymbol = companyFacts.facts.dei?.['TradingSymbol']?.units['pure']?.val[0]?.val;
+    const ticker = submission?.tickers?.[0] ?? (tradingSymbol ? String(tradingSymbol) : undefined);
+    if (!ticker) {
+      // Tickers are required to serve a company; funds and private filers have none
+      throw new DataProviderError(`No ticker listed for CIK ${cik}`, this.name, 'NO_TICKER');
+    }
+
+    return {
+      cik,
+      ticker: ticker.toUpperCase(),
+      name: submission?.name || companyFacts.entityName,
+      ...(submission?.sic && { sic: submission.sic }),
+      ...(submission?.fiscalYearEnd && { fiscalYearEnd: submission.fiscalYearEnd }),
+    };
+  }
+
+  private normalizeCIK(identifier: string): string {
+    const cleaned = identifier.replace(/^(CIK)?0*/, '');
+    return cleaned.padStart(10, '0');
+  }
+}
+
+function indexByCik(entries: ZipEntry[]): Map<string, ZipEntry> {
+  const index = new Map<string, ZipEntry>();
+  for (const entry of entries) {
+    const cik = CIK_ENTRY.exec(entry.name)?.[1];
+    if (cik) index.set(cik, entry);
+  }
+  return index;
+}
\ No newline at end of file
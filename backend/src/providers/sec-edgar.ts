@@ -1,5 +1,7 @@
 import { SECClient } from '../lib/sec-client';
 import { XBRLParser } from '../lib/xbrl-parser';
+import { parseCompanyTickers, rankDirectoryMatches } from '../lib/company-directory';
+import type { DirectoryEntry } from '../lib/company-directory';
 import type {
   IFinancialDataProvider,
   GetFinancialDataOptions,
@@ -36,6 +38,7 @@ export class SECEdgarProvider implements IFinancialDataProvider {
 
   private client: SECClient;
   private config: SECEdgarConfig;
+  private directory: Promise<DirectoryEntry[]> | undefined;
 
   constructor(config: SECEdgarConfig) {
     this.config = config;
@@ -45,17 +48,22 @@ export class SECEdgarProvider implements IFinancialDataProvider {
   configure(config: Record<string, any>): void {
     this.config = { ...this.config, ...config };
     this.client = new SECClient(this.config.userAgent, this.config.requestDelay);
+    this.directory = undefined;
   }
 
   async searchCompanies(query: string): Promise<CompanyMetadata[]> {
-    // SEC EDGAR doesn't have a search API, so this is limited
-    // In a real implementation, we'd need to use the ticker-to-CIK mapping
-    // For now, we'll treat the query as a potential ticker and try to validate
-    throw new DataProviderError(
-      'Search functionality not available for SEC EDGAR direct API',
-      this.name,
-      'NOT_SUPPORTED'
-    );
+    try {
+      // SEC has no search API; rank the ticker directory instead
+      const entries = await this.getDirectory();
+
+      return rankDirectoryMatches(entries, query, 10).map(({ entry }) => ({
+        cik: entry.cik,
+        ticker: entry.ticker,
+        name: entry.name,
+      }));
+    } catch (error) {
+      throw this.transformError(error, query);
+    }
   }
 
   async getCompanyMetadata(identifier: string): Promise<CompanyMetadata> {
@@ -93,6 +101,7 @@ export class SECEdgarProvider implements IFinancialDataProvider {
         name: parsedData.entityName,
         sic: this.extractSIC(companyFacts),
         fiscalYearEnd: this.extractFiscalYearEnd(companyFacts),
+        ...(parsedData.reportingCurrency && { reportingCurrency: parsedData.reportingCurrency }),
       };
 
       // Filter by concepts if specified
@@ -109,6 +118,11 @@ export class SECEdgarProvider implements IFinancialDataProvider {
         metrics = metrics.filter(fact => fact.periodEnd <= options.endDate!);
       }
 
+      // Filter by filing date (incremental ingestion)
+      if (options.filedSince) {
+        metrics = metrics.filter(fact => fact.filed >= options.filedSince!);
+      }
+
       // Filter by forms
       if (options.forms && options.forms.length > 0) {
         metrics = metrics.filter(fact => 
@@ -124,6 +138,8 @@ export class SECEdgarProvider implements IFinancialDataProvider {
       // Convert parsed facts to our standard format
       const standardMetrics: FinancialMetric[] = metrics.map(fact => ({
         concept: fact.concept,
+        sourceConcept: fact.sourceConcept,
+        taxonomy: fact.taxonomy,
         value: fact.value,
         unit: fact.unit,
         periodEnd: fact.periodEnd,
@@ -181,6 +197,19 @@ export class SECEdgarProvider implements IFinancialDataProvider {
     }
   }
 
+  private getDirectory(): Promise<DirectoryEntry[]> {
+    // Loaded once per provider; the file changes at most daily
+    if (!this.directory) {
+      this.directory = this.client.getCompanyTickers()
+        .then(parseCompanyTickers)
+        .catch((error) => {
+          this.directory = undefined;
+          throw error;
+        });
+    }
+    return this.directory;
+  }
+
   private normalizeCIK(identifier: string): string {
     // Remove any leading zeros or CIK prefix, then pad to 10 digits
     const cleaned = identifier.replace(/^(CIK)?0*/, '');
@@ -218,6 +247,9 @@ export class SECEdgarProvider implements IFinancialDataProvider {
       if (error.statusCode === 429 || error.isRateLimit) {
         return new RateLimitError(this.name);
       }
+      if (error.isParseError) {
+        return new DataProviderError(error.message, this.name, 'PARSE_ERROR', error.statusCode, false);
+      }
       return new DataProviderError(
         error.message,
         this.name,
@@ -0,0 +1,201 @@
+import { readFile } from 'fs/promises';
+import { InlineXBRLParser } from '../lib/ixbrl-parser';
+import type { ParsedInlineXBRL } from '../lib/ixbrl-parser';
+import type {
+  IFinancialDataProvider,
+  GetFinancialDataOptions,
+} from './base';
+import type {
+  CompanyMetadata,
+  FinancialData,
+  ProviderCapabilities,
+  FinancialMetric,
+} from './types';
+import {
+  DataProviderError,
+  DataNotFoundError,
+} from './types';
+
+export interface SECInlineXBRLConfig {
+  files: string[]; // iXBRL instance documents (.htm) on local disk
+  accession?: string; // For a single file whose path does not carry its accession
+  filed?: Date;
+}
+
+/**
+ * Provider that serves facts from individual inline XBRL filings on local
+ * disk, so a 10-K or 10-Q can be ingested as soon as it is published rather
+ * than when the companyfacts API catches up
+ */
+export class SECInlineXBRLProvider implements IFinancialDataProvider {
+  readonly name = 'SEC-IXBRL';
+  readonly capabilities: ProviderCapabilities = {
+    hasSecFilings: true,
+    hasFundamentals: true,
+    hasRealTimeData: false,
+    hasPeerData: false,
+    hasHistoricalData: false,
+    hasRatioData: false,
+    hasAnalystData: false,
+    hasEconomicData: false,
+    hasNewsData: false,
+    maxHistoryYears: 1,
+  };
+
+  private config: SECInlineXBRLConfig;
+  private documents: Map<string, ParsedInlineXBRL[]> | undefined;
+
+  constructor(config: SECInlineXBRLConfig) {
+    this.config = config;
+  }
+
+  configure(config: Record<string, any>): void {
+    this.config = { ...this.config, ...config };
+    this.documents = undefined;
+  }
+
+  /**
+   * CIKs of the filers whose documents were given
+   */
+  async listCiks(): Promise<string[]> {
+    return Array.from((await this.load()).keys());
+  }
+
+  async searchCompanies(query: string): Promise<CompanyMetadata[]> {
+    throw new DataProviderError(
+      'Search functionality not available for inline XBRL files',
+      this.name,
+      'NOT_SUPPORTED'
+    );
+  }
+
+  async getCompanyMetadata(identifier: string): Promise<CompanyMetadata> {
+    const cik = this.normalizeCIK(identifier);
+    return this.buildMetadata(cik, await this.getDocuments(cik));
+  }
+
+  async getFinancialData(
+    cik: string,
+    options: GetFinancialDataOptions = {}
+  ): Promise<FinancialData> {
+    const normalizedCik = this.normalizeCIK(cik);
+    const documents = await this.getDocuments(normalizedCik);
+
+    const metrics: FinancialMetric[] = documents
+      .flatMap(document => document.facts)
+      .filter(fact =>
+        (!options.concepts?.length || options.concepts.includes(fact.concept)) &&
+        (!options.startDate || fact.periodEnd >= options.startDate) &&
+        (!options.endDate || fact.periodEnd <= options.endDate) &&
+        (!options.forms?.length || options.forms.includes(fact.form))
+      )
+      .map(fact => ({
+        concept: fact.concept,
+        sourceConcept: fact.sourceConcept,
+        taxonomy: fact.taxonomy,
+        value: fact.value,
+        unit: fact.unit,
+        periodEnd: fact.periodEnd,
+        ...(fact.periodStart && { periodStart: fact.periodStart }),
+        instant: fact.instant,
+        fiscalYear: fact.fiscalYear,
+        fiscalPeriod: fact.fiscalPeriod,
+        filingAccession: fact.filingAccession,
+        form: fact.form,
+        filed: fact.filed,
+        ...(fact.dimensions && { dimensions: fact.dimensions }),
+      }));
+
+    return {
+      company: this.buildMetadata(normalizedCik, documents),
+      metrics,
+      lastUpdated: new Date(),
+      source: this.name,
+    };
+  }
+
+  async getLatestMetrics(cik: string, concepts: string[]): Promise<FinancialData> {
+    const data = await this.getFinancialData(cik, { concepts });
+
+    const latest = new Map<string, FinancialMetric>();
+    for (const metric of data.metrics) {
+      const existing = latest.get(metric.concept);
+      if (!existing || metric.periodEnd > existing.periodEnd) {
+        latest.set(metric.concept, metric);
+      }
+    }
+
+    return { ...data, metrics: Array.from(latest.values()) };
+  }
+
+  async healthCheck(): Promise<boolean> {
+    try {
+      return (await this.load()).size > 0;
+    } catch {
+      return false;
+    }
+  }
+
+  private async load(): Promise<Map<string, ParsedInlineXBRL[]>> {
+    if (this.documents) return this.documents;
+
+    const documents = new Map<string, ParsedInlineXBRL[]>();
+    for (const file of this.config.files) {
+      const accession = InlineXBRLParser.accessionFromPath(file)
+        ?? (this.config.files.length === 1 ? this.config.accession : undefined);
+      if (!accession) {
+        throw new DataProviderError(
+          `No accession number for ${file}; save it under its EDGAR path or pass one explicitly`,
+          this.name,
+          'NO_ACCESSION'
+        );
+      }
+
+      try {
+        const parsed = InlineXBRLParser.parse(await readFile(file, 'utf8'), {
+          accession,
+          ...(this.config.filed && { filed: this.config.filed }),
+        });
+        documents.set(parsed.cik, [...(documents.get(parsed.cik) || []), parsed]);
+      } catch (error) {
+        throw new DataProviderError(
+          `Failed to parse ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          this.name,
+          'PARSE_ERROR'
+        );
+      }
+    }
+
+    this.documents = documents;
+    return documents;
+  }
+
+  private async getDocuments(cik: string): Promise<ParsedInlineXBRL[]> {
+    const documents = (await this.load()).get(cik);
+    if (!documents?.length) {
+      throw new DataNotFoundError(this.name, cik);
+    }
+    return documents;
+  }
+
+  private buildMetadata(cik: string, documents: ParsedInlineXBRL[]): CompanyMetadata {
+    const latest = documents.reduce((a, b) => (b.fiscalYear > a.fiscalYear ? b : a));
+    const ticker = documents.find(document => document.ticker)?.ticker;
+    if (!ticker) {
+      throw new DataProviderError(`No dei:TradingSymbol tagged for CIK ${cik}`, this.name, 'NO_TICKER');
+    }
+
+    return {
+      cik,
+      ticker,
+      name: latest.entityName,
+      ...(latest.fiscalYearEnd && { fiscalYearEnd: latest.fiscalYearEnd }),
+      ...(latest.reportingCurrency && { reportingCurrency: latest.reportingCurrency }),
+    };
+  }
+
+  private normalizeCIK(identifier: string): string {
+    const cleaned = identifier.replace(/^(CIK)?0*/, '');
+    return cleaned.padStart(10, '0');
+  }
+}
\ No newline at end of file
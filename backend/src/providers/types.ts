@@ -9,10 +9,13 @@ export const CompanyMetadataSchema = z.object({
   fiscalYearEnd: z.string().optional(),
   sector: z.string().optional(),
   industry: z.string().optional(),
+  reportingCurrency: z.string().optional(), // ISO 4217 code of monetary facts
 });
 
 export const FinancialMetricSchema = z.object({
   concept: z.string(),
+  sourceConcept: z.string().optional(), // Tag the value was reported under
+  taxonomy: z.string().optional(), // us-gaap or ifrs-full
   value: z.number(),
   unit: z.string(),
   periodEnd: z.date(),
@@ -23,6 +26,7 @@ export const FinancialMetricSchema = z.object({
   filingAccession: z.string().optional(),
   form: z.string().optional(),
   filed: z.date().optional(),
+  dimensions: z.record(z.string(), z.string()).optional(), // Axis -> member for segment facts
 });
 
 export const FinancialDataSchema = z.object({
@@ -0,0 +1,42 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { METRIC_VIEW_REFRESH_TIMEOUT_MS, MetricViewService } from './services/metricViews';
+
+// Usage: npm run views:rebuild [-- --ticker AAPL]
+// Ingestion keeps views current; this re-derives them for stored companies,
+// e.g. after the metric_views table was recreated
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const tickerIndex = process.argv.indexOf('--ticker');
+  const ticker = tickerIndex >= 0 ? process.argv[tickerIndex + 1]?.toUpperCase() : undefined;
+
+  const companies = await prisma.company.findMany({
+    where: ticker ? { ticker } : {},
+    select: { cik: true, ticker: true },
+    orderBy: { ticker: 'asc' },
+  });
+  const metricViews = new MetricViewService(prisma);
+
+  console.log(`Rebuilding metric views for ${companies.length} companies...`);
+
+  try {
+    let written = 0;
+    for (const company of companies) {
+      const result = await prisma.$transaction(
+        tx => metricViews.refresh(company.cik, tx),
+        { timeout: METRIC_VIEW_REFRESH_TIMEOUT_MS }
+      );
+      written += result.inserted + result.updated + result.deleted;
+    }
+    console.log(`✅ Rebuilt metric views (${written} rows written)`);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Metric view rebuild failed:', error);
+  process.exit(1);
+});
\ No newline at end of file
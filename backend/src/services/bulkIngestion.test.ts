@@ -0,0 +1,111 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BulkIngestionService } from './bulkIngestion';
+import { IngestionService } from './ingestion';
+import type { FinancialData, SECBulkArchiveProvider } from '../providers';
+import { DataProviderError } from '../providers';
+
+// Mock Redis
+vi.mock('../lib/redis', () => ({
+  redis: {
+    setEx: vi.fn(),
+    del: vi.fn(),
+  },
+}));
+
+const mockProvider = {
+  name: 'SEC-BULK',
+  listCiks: vi.fn(),
+  getFinancialData: vi.fn(),
+};
+
+function financialData(cik: string): FinancialData {
+  return {
+    company: { cik, ticker: `T${cik.slice(-3)}`, name: `Company ${cik}` },
+    metrics: [{
+      concept: 'Revenues',
+      value: 1000,
+      unit: 'USD',
+      periodEnd: new Date('2023-12-31'),
+      periodStart: new Date('2023-01-01'),
+      instant: false,
+      fiscalYear: 2023,
+      fiscalPeriod: 'FY',
+    }],
+    lastUpdated: new Date(),
+    source: 'SEC-BULK',
+  };
+}
+
+describe('BulkIngestionService', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'bulk-ingestion-'));
+  let service: BulkIngestionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new BulkIngestionService({} as any, mockProvider as unknown as SECBulkArchiveProvider);
+    vi.spyOn(IngestionService.prototype, 'storeFinancialData').mockImplementation((data) => Promise.resolve({
+      success: true,
+      cik: data.company.cik,
+      metricsIngested: data.metrics.length,
+      source: data.source,
+      lastUpdated: data.lastUpdated,
+    }));
+    vi.spyOn(IngestionService.prototype, 'recordLatestFiling').mockResolvedValue(undefined);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store companies between checkpoints and report skips and failures', async () => {
+    mockProvider.listCiks.mockResolvedValue(['0000000001', '0000000002', '0000000003']);
+    mockProvider.getFinancialData.mockImplementation((cik: string) => {
+      if (cik === '0000000002') {
+        return Promise.reject(new DataProviderError(`No ticker listed for CIK ${cik}`, 'SEC-BULK', 'NO_TICKER'));
+      }
+      if (cik === '0000000003') {
+        return Promise.reject(new Error('Corrupt document'));
+      }
+      return Promise.resolve(financialData(cik));
+    });
+
+    const report = await service.run({ checkpointInterval: 2 });
+
+    expect(IngestionService.prototype.storeFinancialData).toHaveBeenCalledTimes(1);
+    expect(IngestionService.prototype.recordLatestFiling).toHaveBeenCalledWith(
+      '0000000001',
+      financialData('0000000001').metrics,
+      undefined
+    );
+    expect(report).toMatchObject({
+      totalCompanies: 3,
+      processed: 3,
+      completed: 1,
+      skipped: 1,
+      failed: 1,
+      metricsIngested: 1,
+      failures: [{ cik: '0000000003', error: 'Corrupt document' }],
+    });
+  });
+
+  it('should resume from the progress file and retry failed companies', async () => {
+    const progressFile = join(dir, 'progress.json');
+    mockProvider.listCiks.mockResolvedValue(['0000000001', '0000000002']);
+    mockProvider.getFinancialData
+      .mockResolvedValueOnce(financialData('0000000001'))
+      .mockRejectedValueOnce(new Error('Database unavailable'));
+
+    await service.run({ progressFile });
+
+    mockProvider.getFinancialData.mockResolvedValue(financialData('0000000002'));
+    const report = await service.run({ progressFile });
+
+    expect(mockProvider.getFinancialData).toHaveBeenCalledTimes(3);
+    expect(mockProvider.getFinancialData).toHaveBeenLastCalledWith('0000000002', {});
+    expect(report).toMatchObject({ processed: 1, completed: 2, failed: 0 });
+    expect(JSON.parse(readFileSync(progressFile, 'utf8')).completed).toEqual(['0000000001', '0000000002']);
+  });
+});
\ No newline at end of file
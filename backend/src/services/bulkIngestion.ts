@@ -0,0 +1,137 @@
+import { readFile, writeFile } from 'fs/promises';
+import { PrismaClient } from '@prisma/client';
+import { DataProviderError } from '../providers';
+import type { SECBulkArchiveProvider } from '../providers';
+import { IngestionService } from './ingestion';
+
+export interface BulkIngestionOptions {
+  progressFile?: string; // Checkpoint written every checkpointInterval companies; resumes when present
+  checkpointInterval?: number; // Companies ingested, one at a time, between checkpoints
+  limit?: number; // Stop after this many companies (trial runs)
+  concepts?: string[];
+  onProgress?: (progress: BulkIngestionProgress) => void;
+}
+
+export interface BulkIngestionProgress {
+  startedAt: string;
+  updatedAt: string;
+  completed: string[]; // CIKs stored successfully
+  skipped: Record<string, string>; // CIK -> reason (no ticker, no facts)
+  failed: Record<string, string>; // CIK -> error message
+  metricsIngested: number;
+}
+
+export interface BulkIngestionReport {
+  totalCompanies: number;
+  processed: number; // Companies attempted in this run
+  completed: number;
+  skipped: number;
+  failed: number;
+  metricsIngested: number;
+  durationMs: number;
+  failures: { cik: string; error: string }[];
+}
+
+const SKIPPABLE_ERRORS = ['NO_TICKER', 'NOT_FOUND'];
+
+/**
+ * Service for seeding the database from SEC's bulk companyfacts/submissions
+ * archives. Each company is stored through the regular ingestion path in its
+ * own transaction, with progress checkpointed every few companies so an
+ * interrupted run picks up where it stopped; failed companies are retried on
+ * resume.
+ */
+export class BulkIngestionService {
+  private provider: SECBulkArchiveProvider;
+  private ingestion: IngestionService;
+
+  constructor(prisma: PrismaClient, provider: SECBulkArchiveProvider) {
+    this.provider = provider;
+    this.ingestion = new IngestionService(prisma, provider);
+  }
+
+  async run(options: BulkIngestionOptions = {}): Promise<BulkIngestionReport> {
+    const started = Date.now();
+    const checkpointInterval = options.checkpointInterval || 25;
+    const progress = await this.loadProgress(options.progressFile);
+
+    const done = new Set([...progress.completed, ...Object.keys(progress.skipped)]);
+    const ciks = await this.provider.listCiks();
+    const pending = ciks.filter(cik => !done.has(cik)).slice(0, options.limit);
+
+    for (let i = 0; i < pending.length; i += checkpointInterval) {
+      for (const cik of pending.slice(i, i + checkpointInterval)) {
+        await this.ingestCompany(cik, progress, options.concepts);
+      }
+
+      progress.updatedAt = new Date().toISOString();
+      await this.saveProgress(options.progressFile, progress);
+      options.onProgress?.(progress);
+    }
+
+    const failures = Object.entries(progress.failed).map(([cik, error]) => ({ cik, error }));
+
+    return {
+      totalCompanies: ciks.length,
+      processed: pending.length,
+      completed: progress.completed.length,
+      skipped: Object.keys(progress.skipped).length,
+      failed: failures.length,
+      metricsIngested: progress.metricsIngested,
+      durationMs: Date.now() - started,
+      failures,
+    };
+  }
+
+  private async ingestCompany(cik: string, progress: BulkIngestionProgress, concepts?: string[]) {
+    try {
+      const data = await this.provider.getFinancialData(cik, { ...(concepts && { concepts }) });
+
+      if (data.metrics.length === 0) {
+        progress.skipped[cik] = 'No catalog facts';
+      } else {
+        const result = await this.ingestion.storeFinancialData(data);
+        // Later API refreshes then fetch only filings newer than the archive
+        await this.ingestion.recordLatestFiling(result.cik, data.metrics, concepts);
+        progress.completed.push(cik);
+        progress.metricsIngested += result.metricsIngested;
+      }
+      delete progress.failed[cik];
+    } catch (error) {
+      if (error instanceof DataProviderError && SKIPPABLE_ERRORS.includes(error.code || '')) {
+        progress.skipped[cik] = error.message;
+        delete progress.failed[cik];
+        return;
+      }
+      progress.failed[cik] = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  private async loadProgress(path?: string): Promise<BulkIngestionProgress> {
+    if (path) {
+      try {
+        return JSON.parse(await readFile(path, 'utf8')) as BulkIngestionProgress;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+
+    const now = new Date().toISOString();
+    return {
+      startedAt: now,
+      updatedAt: now,
+      completed: [],
+      skipped: {},
+      failed: {},
+      metricsIngested: 0,
+    };
+  }
+
+  private async saveProgress(path: string | undefined, progress: BulkIngestionProgress) {
+    if (path) {
+      await writeFile(path, JSON.stringify(progress, null, 2));
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,205 @@
+import { readFile, stat, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PrismaClient } from '@prisma/client';
+import { SECClient } from '../lib/sec-client';
+import { parseCompanyTickers, rankDirectoryMatches } from '../lib/company-directory';
+import type { DirectoryEntry, DirectoryMatch } from '../lib/company-directory';
+
+export interface CompanyDirectoryOptions {
+  tickersFile?: string; // Local company_tickers_exchange.json; skips the download
+  cacheFile?: string; // Where downloads are cached
+  cacheMaxAge?: number; // Hours before the cached download is refreshed
+  searchCacheTtl?: number; // Milliseconds search keeps the directory in memory
+}
+
+export interface DirectorySyncResult {
+  tickers: number;
+  deactivated: number;
+  names: number;
+  source: string;
+}
+
+const SYNC_CHUNK_SIZE = 500;
+
+/**
+ * Service for the SEC ticker directory: syncs company_tickers_exchange.json
+ * into the ticker_directory table and serves ranked search over every listed
+ * company, including former names, whether or not it has been ingested
+ */
+export class CompanyDirectoryService {
+  private prisma: PrismaClient;
+  private tickersFile: string | undefined;
+  private cacheFile: string;
+  private cacheMaxAge: number;
+  private searchCacheTtl: number;
+  private searchCache: { entries: DirectoryEntry[]; current: Map<string, DirectoryEntry>; loadedAt: number } | undefined;
+
+  constructor(prisma: PrismaClient, options: CompanyDirectoryOptions = {}) {
+    this.prisma = prisma;
+    this.tickersFile = options.tickersFile ?? process.env.COMPANY_TICKERS_FILE;
+    this.cacheFile = options.cacheFile ?? join(tmpdir(), 'company_tickers_exchange.json');
+    this.cacheMaxAge = options.cacheMaxAge ?? 24;
+    this.searchCacheTtl = options.searchCacheTtl ?? 10 * 60 * 1000;
+  }
+
+  /**
+   * Load the directory file and upsert it, deactivating tickers that are no
+   * longer listed and recording any new company names
+   */
+  async sync(): Promise<DirectorySyncResult> {
+    const { document, source } = await this.loadDocument();
+    const entries = parseCompanyTickers(document);
+    const now = new Date();
+
+    for (let i = 0; i < entries.length; i += SYNC_CHUNK_SIZE) {
+      const chunk = entries.slice(i, i + SYNC_CHUNK_SIZE);
+
+      await this.prisma.$transaction(async (tx) => {
+        for (const entry of chunk) {
+          await tx.tickerDirectory.upsert({
+            where: { ticker: entry.ticker },
+            update: {
+              cik: entry.cik,
+              name: entry.name,
+              exchange: entry.exchange,
+              active: true,
+              lastSeen: now,
+            },
+            create: {
+              ticker: entry.ticker,
+              cik: entry.cik,
+              name: entry.name,
+              exchange: entry.exchange,
+              firstSeen: now,
+              lastSeen: now,
+            },
+          });
+        }
+      });
+    }
+
+    // Every listed ticker was just stamped, so older ones have been delisted or renamed
+    const { count: deactivated } = await this.prisma.tickerDirectory.updateMany({
+      where: {
+        active: true,
+        lastSeen: { lt: now },
+      },
+      data: { active: false },
+    });
+
+    // One row per distinct (CIK, name); share classes repeat the company name
+    const names = new Map(entries.map(entry => [`${entry.cik}|${entry.name}`, entry]));
+    const nameEntries = Array.from(names.values());
+
+    for (let i = 0; i < nameEntries.length; i += SYNC_CHUNK_SIZE) {
+      const chunk = nameEntries.slice(i, i + SYNC_CHUNK_SIZE);
+
+      await this.prisma.$transaction(async (tx) => {
+        for (const entry of chunk) {
+          await tx.companyNameHistory.upsert({
+            where: { cik_name: { cik: entry.cik, name: entry.name } },
+            update: { lastSeen: now },
+            create: { cik: entry.cik, name: entry.name, firstSeen: now, lastSeen: now },
+          });
+        }
+      });
+    }
+
+    this.searchCache = undefined;
+
+    return {
+      tickers: entries.length,
+      deactivated,
+      names: nameEntries.length,
+      source,
+    };
+  }
+
+  /**
+   * Rank active tickers against a query: exact ticker, then ticker prefix,
+   * then name tokens (current or former names, with typo tolerance)
+   */
+  async search(query: string, limit = 10): Promise<DirectoryMatch[]> {
+    const { entries, current } = await this.getSearchEntries();
+    const seen = new Set<string>();
+    const results: DirectoryMatch[] = [];
+
+    // Former-name entries share a ticker with the current one; keep the best match
+    for (const { entry, score } of rankDirectoryMatches(entries, query, entries.length)) {
+      if (seen.has(entry.ticker)) continue;
+      seen.add(entry.ticker);
+      results.push({ entry: current.get(entry.ticker) ?? entry, score });
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Look up listed tickers exactly, for companies that have never been
+   * ingested. Tickers the SEC doesn't list are left out.
+   */
+  async find(tickers: string[]): Promise<DirectoryEntry[]> {
+    if (tickers.length === 0) return [];
+
+    return this.prisma.tickerDirectory.findMany({
+      where: { ticker: { in: tickers.map(ticker => ticker.toUpperCase()) }, active: true },
+      select: { cik: true, ticker: true, name: true, exchange: true },
+      orderBy: { ticker: 'asc' },
+    });
+  }
+
+  private async getSearchEntries() {
+    if (this.searchCache && Date.now() - this.searchCache.loadedAt < this.searchCacheTtl) {
+      return this.searchCache;
+    }
+
+    const [tickers, history] = await Promise.all([
+      this.prisma.tickerDirectory.findMany({
+        where: { active: true },
+        select: { cik: true, ticker: true, name: true, exchange: true },
+      }),
+      this.prisma.companyNameHistory.findMany({
+        select: { cik: true, name: true },
+      }),
+    ]);
+
+    const byCik = new Map<string, DirectoryEntry[]>();
+    for (const ticker of tickers) {
+      byCik.set(ticker.cik, [...(byCik.get(ticker.cik) || []), ticker]);
+    }
+
+    // Former names search as aliases of the company's current tickers
+    const formerNames = history.flatMap(({ cik, name }) =>
+      (byCik.get(cik) || [])
+        .filter(current => current.name !== name)
+        .map(current => ({ ...current, name }))
+    );
+
+    this.searchCache = {
+      entries: [...tickers, ...formerNames],
+      current: new Map(tickers.map(ticker => [ticker.ticker, ticker])),
+      loadedAt: Date.now(),
+    };
+    return this.searchCache;
+  }
+
+  private async loadDocument(): Promise<{ document: unknown; source: string }> {
+    if (this.tickersFile) {
+      return {
+        document: JSON.parse(await readFile(this.tickersFile, 'utf8')),
+        source: this.tickersFile,
+      };
+    }
+
+    const cached = await stat(this.cacheFile).catch(() => undefined);
+    if (cached && Date.now() - cached.mtimeMs < this.cacheMaxAge * 60 * 60 * 1000) {
+      return { document: JSON.parse(await readFile(this.cacheFile, 'utf8')), source: this.cacheFile };
+    }
+
+    const document = await new SECClient().getCompanyTickers();
+    await writeFile(this.cacheFile, JSON.stringify(document));
+    return { document, source: 'sec.gov' };
+  }
+}
\ No newline at end of file
@@ -12,6 +12,7 @@ import { PrismaClient } from '@prisma/client';
 import { FinancialRatio } from '../providers/types';
 import { FinancialCalculationsService, CompanyPerformanceMetrics } from './financialCalculations';
 import { Response } from 'express';
+import { getCompanyClassification } from '../lib/sic-taxonomy';
 
 export interface ExportOptions {
   ticker: string;
@@ -100,8 +101,7 @@ export class DataExportService {
       company: {
         ticker: company.ticker,
         name: company.name,
-        sector: company.sector || undefined,
-        industry: company.industry || undefined,
+        ...getCompanyClassification(company),
       },
       financialData,
       exportMetadata: {
@@ -291,6 +291,26 @@ export class DataExportService {
     res.send(content);
   }
 
+  /**
+   * Stream several companies as one file: CSV sections one after another, or a JSON array
+   */
+  async streamBatchExport(name: string, tickers: string[], format: 'csv' | 'json', res: Response): Promise<void> {
+    const exports = await Promise.all(tickers.map(ticker => this.exportData({ ticker, format })));
+    const content = format === 'csv'
+      ? (await Promise.all(exports.map(data => this.generateCSV(data)))).join('\n\n')
+      : JSON.stringify(exports, null, 2);
+
+    const timestamp = new Date().toISOString().split('T')[0];
+    const baseFilename = `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-financial-data-${timestamp}`;
+
+    res.setHeader('Content-Type', format === 'csv' ? 'text/csv' : 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${baseFilename}.${format}"`);
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Pragma', 'no-cache');
+
+    res.send(content);
+  }
+
   // Helper methods
   private groupFactsByPeriod(facts: any[]): Map<string, any[]> {
     const periodData = new Map<string, any[]>();
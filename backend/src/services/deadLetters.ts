@@ -0,0 +1,41 @@
+import { PrismaClient } from '@prisma/client';
+import type { Job } from 'bullmq';
+import { classifyIngestionError } from '../lib/ingestion-errors';
+import type { IngestJobData } from '../lib/queue';
+
+export type FailedIngestJob = Pick<Job<IngestJobData>, 'id' | 'data' | 'attemptsMade' | 'finishedOn'>;
+
+/**
+ * Service for the dead-letter store: ingestion jobs that failed every
+ * attempt are recorded with a classified error so they can be triaged,
+ * retried or discarded from the admin API. BullMQ keeps its own copy of the
+ * failed job until removeOnFail trims it.
+ */
+export class DeadLetterService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async record(job: FailedIngestJob, error: unknown) {
+    const classified = classifyIngestionError(error);
+
+    return this.prisma.failedIngestion.create({
+      data: {
+        jobId: job.id ?? 'unknown',
+        cik: job.data.cik,
+        ticker: job.data.ticker,
+        force: job.data.force ?? false,
+        category: classified.category,
+        provider: classified.provider ?? null,
+        code: classified.code ?? null,
+        statusCode: classified.statusCode ?? null,
+        message: classified.message,
+        stack: error instanceof Error ? error.stack ?? null : null,
+        attempts: job.attemptsMade,
+        failedAt: job.finishedOn ? new Date(job.finishedOn) : new Date(),
+      },
+    });
+  }
+}
\ No newline at end of file
@@ -0,0 +1,113 @@
+import { PrismaClient } from '@prisma/client';
+import { SECClient } from '../lib/sec-client';
+import { parseSubmissionFilings } from '../lib/filings';
+import type { FilingRecord } from '../lib/filings';
+
+export interface FilingSyncOptions {
+  history?: boolean; // Also fetch the overflow files holding filings older than the recent list
+}
+
+export interface FilingSyncResult {
+  cik: string;
+  filings: number;
+  added: number;
+  filerCategory: string | null;
+}
+
+export interface FilingListQuery {
+  forms?: string[];
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+const SYNC_CHUNK_SIZE = 500;
+
+/**
+ * Service for the filing index: syncs a company's SEC submissions document
+ * into the filings table so facts can be traced to the filing that reported them
+ */
+export class FilingService {
+  private prisma: PrismaClient;
+  private client: SECClient;
+
+  constructor(prisma: PrismaClient, client: SECClient = new SECClient()) {
+    this.prisma = prisma;
+    this.client = client;
+  }
+
+  /**
+   * Fetch and store a company's filings; the company must already exist.
+   * Filings are immutable once accepted, so existing rows are left untouched.
+   */
+  async syncFilings(cik: string, options: FilingSyncOptions = {}): Promise<FilingSyncResult> {
+    const { history = true } = options;
+    const normalizedCik = cik.padStart(10, '0');
+
+    const submissions = await this.client.getSubmissions(normalizedCik);
+    const records = parseSubmissionFilings(submissions.filings.recent);
+
+    if (history) {
+      for (const file of submissions.filings.files) {
+        records.push(...parseSubmissionFilings(await this.client.getSubmissionsFile(file.name)));
+      }
+    }
+
+    const added = await this.storeFilings(normalizedCik, records);
+
+    await this.prisma.company.update({
+      where: { cik: normalizedCik },
+      data: {
+        filerCategory: submissions.category || null,
+        filingsSyncedAt: new Date(),
+      },
+    });
+
+    return {
+      cik: normalizedCik,
+      filings: records.length,
+      added,
+      filerCategory: submissions.category || null,
+    };
+  }
+
+  async listFilings(cik: string, query: FilingListQuery) {
+    const where = {
+      cik,
+      ...(query.forms && { form: { in: query.forms } }),
+      ...((query.from || query.to) && {
+        filingDate: {
+          ...(query.from && { gte: query.from }),
+          ...(query.to && { lte: query.to }),
+        },
+      }),
+    };
+
+    const [filings, total] = await Promise.all([
+      this.prisma.filing.findMany({
+        where,
+        orderBy: [{ filingDate: 'desc' }, { accession: 'desc' }],
+        take: query.limit,
+        skip: query.offset,
+      }),
+      this.prisma.filing.count({ where }),
+    ]);
+
+    return { filings, total };
+  }
+
+  private async storeFilings(cik: string, records: FilingRecord[]): Promise<number> {
+    let added = 0;
+
+    for (let i = 0; i < records.length; i += SYNC_CHUNK_SIZE) {
+      const { count } = await this.prisma.filing.createMany({
+        data: records.slice(i, i + SYNC_CHUNK_SIZE).map(record => ({ ...record, cik })),
+        skipDuplicates: true,
+      });
+      added += count;
+    }
+
+    return added;
+  }
+}
\ No newline at end of file
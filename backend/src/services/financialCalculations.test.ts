@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FinancialCalculationsService } from './financialCalculations';
+
+// Mock Prisma Client
+const mockPrisma = {
+  company: {
+    findUnique: vi.fn(),
+  },
+};
+
+function fact(concept: string, start: string | null, end: string, value: number, accession = '0000320193-24-000001', filed = '2024-02-02') {
+  return {
+    concept,
+    value,
+    unit: 'USD',
+    periodStart: start ? new Date(start) : null,
+    periodEnd: new Date(end),
+    instant: start === null,
+    fiscalYear: 2024,
+    fiscalPeriod: 'Q1',
+    filingAccession: accession,
+    form: '10-Q',
+    filed: new Date(filed),
+  };
+}
+
+describe('FinancialCalculationsService', () => {
+  let service: FinancialCalculationsService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new FinancialCalculationsService(mockPrisma as any);
+  });
+
+  describe('calculateAdvancedRatios', () => {
+    it('should compute margins and ROE from trailing-twelve-month figures', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue({
+        ticker: 'TEST',
+        facts: [
+          fact('Revenues', '2023-01-01', '2023-03-31', 100),
+          fact('Revenues', '2023-04-01', '2023-06-30', 100),
+          fact('Revenues', '2023-07-01', '2023-09-30', 100),
+          fact('Revenues', '2023-10-01', '2023-12-31', 700), // Seasonal quarter
+          fact('NetIncomeLoss', '2023-01-01', '2023-03-31', -10),
+          fact('NetIncomeLoss', '2023-04-01', '2023-06-30', -10),
+          fact('NetIncomeLoss', '2023-07-01', '2023-09-30', -10),
+          fact('NetIncomeLoss', '2023-10-01', '2023-12-31', 130),
+          fact('StockholdersEquity', null, '2023-12-31', 450, '0000320193-24-000001'),
+          fact('StockholdersEquity', null, '2023-12-31', 500, '0000320193-24-000009'), // Restated
+        ],
+        corporateActions: [],
+      });
+
+      const ratios = await service.calculateAdvancedRatios('TEST');
+
+      const netMargin = ratios.find(r => r.name === 'Net Profit Margin');
+      const roe = ratios.find(r => r.name === 'Return on Equity');
+      expect(netMargin?.value).toBeCloseTo(10);
+      expect(netMargin?.periodEnd).toEqual(new Date('2023-12-31'));
+      expect(roe?.value).toBeCloseTo(20);
+    });
+
+    it('should put book value per share for periods filed before a split on the current basis', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue({
+        ticker: 'TEST',
+        facts: [
+          fact('StockholdersEquity', null, '2022-12-31', 400, '0000320193-23-000001', '2023-02-03'),
+          fact('CommonStockSharesOutstanding', null, '2022-12-31', 100, '0000320193-23-000001', '2023-02-03'), // Pre-split basis
+          fact('StockholdersEquity', null, '2023-12-31', 500),
+          fact('CommonStockSharesOutstanding', null, '2023-12-31', 400),
+        ],
+        corporateActions: [{ type: 'split', effectiveDate: new Date('2023-06-01'), ratio: 4 }],
+      });
+
+      const ratios = await service.calculateAdvancedRatios('TEST');
+
+      const bookValue = ratios.filter(r => r.name === 'Book Value per Share').map(r => r.value);
+      expect(bookValue).toEqual([1.25, 1]);
+    });
+
+    it('should use the figures known on the as-of date', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue({
+        ticker: 'TEST',
+        facts: [
+          fact('Revenues', '2023-01-01', '2023-03-31', 250),
+          fact('Revenues', '2023-04-01', '2023-06-30', 250),
+          fact('Revenues', '2023-07-01', '2023-09-30', 250),
+          fact('Revenues', '2023-10-01', '2023-12-31', 250),
+          fact('NetIncomeLoss', '2023-01-01', '2023-03-31', 25),
+          fact('NetIncomeLoss', '2023-04-01', '2023-06-30', 25),
+          fact('NetIncomeLoss', '2023-07-01', '2023-09-30', 25),
+          fact('NetIncomeLoss', '2023-10-01', '2023-12-31', 25),
+          fact('StockholdersEquity', null, '2023-12-31', 400, '0000320193-24-000001', '2024-02-02'),
+          fact('StockholdersEquity', null, '2023-12-31', 500, '0000320193-24-000009', '2024-08-02'), // Restated later
+        ],
+        corporateActions: [],
+      });
+
+      const ratios = await service.calculateAdvancedRatios('TEST', 8, new Date('2024-03-01'));
+
+      expect(mockPrisma.company.findUnique).toHaveBeenCalledWith(expect.objectContaining({
+        include: expect.objectContaining({
+          facts: expect.objectContaining({
+            where: expect.objectContaining({ filed: { lte: new Date('2024-03-01') } }),
+          }),
+        }),
+      }));
+      expect(ratios.find(r => r.name === 'Return on Equity')?.value).toBeCloseTo(25);
+    });
+
+    it('should use fiscal years as TTM figures for an annual-only filer', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue({
+        ticker: 'TEST',
+        facts: [
+          fact('Revenues', '2023-01-01', '2023-12-31', 1000, '0000320193-24-000001'),
+          fact('NetIncomeLoss', '2023-01-01', '2023-12-31', 150, '0000320193-24-000001'),
+          fact('StockholdersEquity', null, '2023-12-31', 600),
+        ],
+        corporateActions: [],
+      });
+
+      const ratios = await service.calculateAdvancedRatios('TEST');
+
+      expect(ratios.find(r => r.name === 'Net Profit Margin')?.value).toBeCloseTo(15);
+      expect(ratios.find(r => r.name === 'Return on Equity')?.value).toBeCloseTo(25);
+    });
+
+    it('should take the latest filed balance when accession numbers sort otherwise', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue({
+        ticker: 'TEST',
+        facts: [
+          fact('Revenues', '2023-01-01', '2023-12-31', 1000),
+          fact('NetIncomeLoss', '2023-01-01', '2023-12-31', 100),
+          // A filing agent's accession prefix sorts after the company's own
+          fact('StockholdersEquity', null, '2023-12-31', 400, '0001193125-24-000001', '2024-02-02'),
+          fact('StockholdersEquity', null, '2023-12-31', 500, '0000320193-24-000009', '2024-08-02'), // Restated later
+        ],
+        corporateActions: [],
+      });
+
+      const ratios = await service.calculateAdvancedRatios('TEST');
+
+      expect(ratios.find(r => r.name === 'Return on Equity')?.value).toBeCloseTo(20);
+    });
+
+    it('should return no ratios for an unknown company', async () => {
+      mockPrisma.company.findUnique.mockResolvedValue(null);
+
+      const ratios = await service.calculateAdvancedRatios('NONE');
+
+      expect(ratios).toEqual([]);
+    });
+  });
+});
\ No newline at end of file
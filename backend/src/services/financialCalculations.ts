@@ -6,7 +6,32 @@
  */
 
 import { FinancialRatio, FinancialMetric } from '../providers/types';
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, Fact } from '@prisma/client';
+import { getConceptDefinition } from '../lib/concept-catalog';
+import { computeTrailingTwelveMonths, normalizePeriods } from '../lib/period-normalizer';
+import { adjustForSplits, toCorporateActions } from '../lib/corporate-actions';
+import { getFactVersionFilter, selectAsOf } from '../lib/restatements';
+
+// Concepts read by the ratio calculations below
+const RATIO_CONCEPTS = [
+  'Revenues',
+  'CostOfRevenue',
+  'CostOfGoodsAndServicesSold',
+  'OperatingIncomeLoss',
+  'NetIncomeLoss',
+  'InterestExpense',
+  'Assets',
+  'AssetsCurrent',
+  'InventoryNet',
+  'LiabilitiesCurrent',
+  'LongTermDebtCurrent',
+  'LongTermDebtNoncurrent',
+  'StockholdersEquity',
+  'EarningsPerShareDiluted',
+  'CommonStockSharesOutstanding',
+];
+
+type NumericFact = Omit<Fact, 'value'> & { value: number };
 
 export interface TrendPoint {
   period: string;
@@ -59,9 +84,12 @@ export class FinancialCalculationsService {
   constructor(private prisma: PrismaClient) {}
 
   /**
-   * Calculate comprehensive financial ratios from XBRL data
+   * Calculate comprehensive financial ratios from XBRL data. Income statement
+   * figures are trailing twelve months; balance sheet figures are the instant
+   * at the same period end. With `asOf`, only figures filed by that date are
+   * used, in the version current at the time.
    */
-  async calculateAdvancedRatios(ticker: string, periods: number = 8): Promise<FinancialRatio[]> {
+  async calculateAdvancedRatios(ticker: string, periods: number = 8, asOf?: Date): Promise<FinancialRatio[]> {
     const ratios: FinancialRatio[] = [];
 
     try {
@@ -70,9 +98,10 @@ export class FinancialCalculationsService {
         where: { ticker: ticker.toUpperCase() },
         include: {
           facts: {
+            where: { concept: { in: RATIO_CONCEPTS }, ...getFactVersionFilter(asOf) },
             orderBy: { periodEnd: 'desc' },
-            take: periods * 10, // Get extra to ensure we have enough data
-          }
+          },
+          corporateActions: asOf ? { where: { effectiveDate: { lte: asOf } } } : true,
         }
       });
 
@@ -80,13 +109,19 @@ export class FinancialCalculationsService {
         return ratios;
       }
 
-      // Group facts by period for calculation
-      const periodData = this.groupFactsByPeriod(company.facts);
+      // Per-share figures on the current share basis so splits don't break trends
+      const known = asOf ? selectAsOf(company.facts, asOf) : company.facts;
+      const facts = adjustForSplits(
+        known.map(fact => ({ ...fact, value: Number(fact.value) })),
+        toCorporateActions(company.corporateActions)
+      );
+
+      // Group TTM and instant values by period end, newest first
+      const periodData = this.buildTtmPeriods(facts);
       
       // Calculate ratios for each period
-      for (const [period, facts] of periodData.entries()) {
+      for (const [period, metrics] of Array.from(periodData.entries()).slice(0, periods)) {
         const periodEnd = new Date(period);
-        const metrics = this.factsToMetrics(facts);
         
         // Profitability Ratios
         const grossMargin = this.calculateGrossMargin(metrics);
@@ -154,6 +189,19 @@ export class FinancialCalculationsService {
           });
         }
 
+        const eps = metrics.get('EarningsPerShareDiluted');
+        if (eps !== undefined) {
+          ratios.push({
+            name: 'Diluted EPS (TTM)',
+            category: 'profitability',
+            value: eps,
+            formula: 'Sum of the last four quarters of diluted EPS',
+            description: 'Earnings per diluted share over the trailing twelve months',
+            period: this.getPeriodString(periodEnd),
+            periodEnd,
+          });
+        }
+
         // Liquidity Ratios
         const currentRatio = this.calculateCurrentRatio(metrics);
         if (currentRatio !== null) {
@@ -208,6 +256,20 @@ export class FinancialCalculationsService {
           });
         }
 
+        // Valuation Ratios
+        const bookValuePerShare = this.calculateBookValuePerShare(metrics);
+        if (bookValuePerShare !== null) {
+          ratios.push({
+            name: 'Book Value per Share',
+            category: 'valuation',
+            value: bookValuePerShare,
+            formula: 'Shareholders Equity / Shares Outstanding',
+            description: 'Net assets attributable to each common share',
+            period: this.getPeriodString(periodEnd),
+            periodEnd,
+          });
+        }
+
         // Efficiency Ratios
         const assetTurnover = this.calculateAssetTurnover(metrics);
         if (assetTurnover !== null) {
@@ -223,7 +285,7 @@ export class FinancialCalculationsService {
         }
       }
 
-      return ratios.slice(0, periods * 10); // Limit to reasonable number
+      return ratios.slice(0, periods * 12); // Limit to reasonable number
     } catch (error) {
       console.error('Error calculating advanced ratios:', error);
       return ratios;
@@ -323,28 +385,41 @@ export class FinancialCalculationsService {
   }
 
   // Private helper methods
-  private groupFactsByPeriod(facts: any[]): Map<string, any[]> {
-    const periodData = new Map<string, any[]>();
-    
-    facts.forEach(fact => {
-      const period = fact.periodEnd.toISOString();
+  private buildTtmPeriods(facts: NumericFact[]): Map<string, Map<string, number>> {
+    const periodData = new Map<string, Map<string, number>>();
+    const setValue = (periodEnd: Date, concept: string, value: number) => {
+      const period = periodEnd.toISOString();
       if (!periodData.has(period)) {
-        periodData.set(period, []);
+        periodData.set(period, new Map());
       }
-      periodData.get(period)!.push(fact);
-    });
-
-    return periodData;
-  }
+      periodData.get(period)!.set(concept, value);
+    };
 
-  private factsToMetrics(facts: any[]): Map<string, number> {
-    const metrics = new Map<string, number>();
-    
+    const factsByConcept = new Map<string, NumericFact[]>();
     facts.forEach(fact => {
-      metrics.set(fact.concept, fact.value);
+      factsByConcept.set(fact.concept, [...(factsByConcept.get(fact.concept) || []), fact]);
     });
 
-    return metrics;
+    for (const [concept, conceptFacts] of factsByConcept.entries()) {
+      const isInstant = getConceptDefinition(concept)?.periodType === 'instant'
+        || conceptFacts.every(fact => fact.instant);
+
+      if (isInstant) {
+        // Later filings overwrite earlier values for the same balance sheet date;
+        // a fact without a filing date counts as filed at its period end
+        const filedAt = (fact: NumericFact) => (fact.filed ?? fact.periodEnd).getTime();
+        [...conceptFacts]
+          .sort((a, b) => filedAt(a) - filedAt(b))
+          .forEach(fact => setValue(fact.periodEnd, concept, fact.value));
+      } else {
+        // Annual-only filers get their fiscal years as TTM values
+        const { quarterly, annual } = normalizePeriods(conceptFacts);
+        computeTrailingTwelveMonths(quarterly, annual)
+          .forEach(period => setValue(period.periodEnd, concept, period.value));
+      }
+    }
+
+    return new Map(Array.from(periodData.entries()).sort(([a], [b]) => b.localeCompare(a)));
   }
 
   private calculateGrossMargin(metrics: Map<string, number>): number | null {
@@ -387,6 +462,14 @@ export class FinancialCalculationsService {
     return (netIncome / assets) * 100;
   }
 
+  private calculateBookValuePerShare(metrics: Map<string, number>): number | null {
+    const equity = metrics.get('StockholdersEquity');
+    const shares = metrics.get('CommonStockSharesOutstanding');
+
+    if (equity === undefined || !shares) return null;
+    return equity / shares;
+  }
+
   private calculateCurrentRatio(metrics: Map<string, number>): number | null {
     const currentAssets = metrics.get('AssetsCurrent');
     const currentLiabilities = metrics.get('LiabilitiesCurrent');
@@ -409,7 +492,8 @@ export class FinancialCalculationsService {
                      (metrics.get('LongTermDebtCurrent') || 0);
     const equity = metrics.get('StockholdersEquity');
     
-    if (!equity || totalDebt === 0) return null;
+    if (!equity) return null;
+    if (totalDebt === 0) return equity > 0 ? 0 : null;
     return totalDebt / equity;
   }
 
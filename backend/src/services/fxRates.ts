@@ -0,0 +1,86 @@
+import { readFile } from 'fs/promises';
+import { PrismaClient } from '@prisma/client';
+import { FxRateTable, parseFxRates } from '../lib/fx-rates';
+import type { FxRate } from '../lib/fx-rates';
+
+/**
+ * Service for loading FX rates from the fx_rates table, falling back to the
+ * rates file named by FX_RATES_FILE when the table has none
+ */
+export class FxRateService {
+  private prisma: PrismaClient;
+  private ratesFile: string | undefined;
+
+  constructor(prisma: PrismaClient, ratesFile = process.env.FX_RATES_FILE) {
+    this.prisma = prisma;
+    this.ratesFile = ratesFile;
+  }
+
+  /**
+   * Build a rate table covering the given currencies
+   */
+  async getRateTable(currencies: string[]): Promise<FxRateTable> {
+    const wanted = [...new Set(currencies)].filter(currency => currency !== 'USD');
+    if (wanted.length === 0) {
+      return new FxRateTable();
+    }
+
+    const rows = await this.prisma.fxRate.findMany({
+      where: { currency: { in: wanted } },
+    });
+
+    if (rows.length > 0) {
+      return new FxRateTable(rows.map(row => ({
+        currency: row.currency,
+        month: row.month,
+        average: Number(row.average),
+        closing: Number(row.closing),
+      })));
+    }
+
+    if (!this.ratesFile) {
+      return new FxRateTable();
+    }
+
+    const rates = await this.readRatesFile(this.ratesFile);
+    return new FxRateTable(rates.filter(rate => wanted.includes(rate.currency)));
+  }
+
+  /**
+   * Load a rates file into the fx_rates table, replacing existing months
+   */
+  async importFile(path: string): Promise<number> {
+    const rates = await this.readRatesFile(path);
+    return this.importRates(rates, path.split('/').pop() || 'file');
+  }
+
+  async importRates(rates: FxRate[], source: string): Promise<number> {
+    await this.prisma.$transaction(async (tx) => {
+      for (const rate of rates) {
+        await tx.fxRate.upsert({
+          where: {
+            currency_month: { currency: rate.currency, month: rate.month },
+          },
+          update: {
+            average: rate.average,
+            closing: rate.closing,
+            source,
+          },
+          create: {
+            currency: rate.currency,
+            month: rate.month,
+            average: rate.average,
+            closing: rate.closing,
+            source,
+          },
+        });
+      }
+    });
+
+    return rates.length;
+  }
+
+  private async readRatesFile(path: string): Promise<FxRate[]> {
+    return parseFxRates(await readFile(path, 'utf8'));
+  }
+}
\ No newline at end of file
@@ -8,13 +8,15 @@ const mockPrisma = {
   company: {
     findUnique: vi.fn(),
     upsert: vi.fn(),
+    updateMany: vi.fn(),
   },
   fact: {
     upsert: vi.fn(),
   },
   metricView: {
+    findMany: vi.fn(),
+    createMany: vi.fn(),
     deleteMany: vi.fn(),
-    upsert: vi.fn(),
   },
   $transaction: vi.fn(),
 };
@@ -103,7 +105,10 @@ describe('IngestionService', () => {
       mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
       mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
         callback({
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
           company: {
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
             upsert: vi.fn().mockResolvedValue({
               cik: '0000320193',
               ticker: 'AAPL',
@@ -111,12 +116,16 @@ describe('IngestionService', () => {
             }),
           },
           fact: {
-            upsert: vi.fn().mockResolvedValue({}),
+            createMany: vi.fn().mockResolvedValue({ count: 2 }),
+            findMany: vi.fn().mockResolvedValue([]),
           },
           metricView: {
+            findMany: vi.fn().mockResolvedValue([]),
+            createMany: vi.fn(),
+            update: vi.fn(),
             deleteMany: vi.fn(),
-            upsert: vi.fn().mockResolvedValue({}),
           },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
         })
       );
 
@@ -157,9 +166,15 @@ describe('IngestionService', () => {
       mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
       mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
         callback({
-          company: { upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }) },
-          fact: { upsert: vi.fn().mockResolvedValue({}) },
-          metricView: { deleteMany: vi.fn(), upsert: vi.fn().mockResolvedValue({}) },
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
         })
       );
 
@@ -169,6 +184,38 @@ describe('IngestionService', () => {
       expect(mockProvider.getFinancialData).toHaveBeenCalled();
     });
 
+    it('should re-ingest fresh data incrementally when maxAge is 0', async () => {
+      // Refreshed an hour ago, before a new filing was accepted
+      mockPrisma.company.findUnique = vi.fn().mockResolvedValue({
+        updatedAt: new Date(Date.now() - 1000 * 60 * 60),
+        latestFiledAt: new Date('2023-08-04'),
+        ticker: 'AAPL',
+        _count: { facts: 10 },
+      });
+
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
+        callback({
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+        })
+      );
+
+      const result = await service.ingestCompanyData('320193', { maxAge: 0 });
+
+      expect(result.source).toBe('TestProvider');
+      expect(mockProvider.getFinancialData).toHaveBeenCalledWith('0000320193', {
+        filedSince: new Date('2023-08-04'),
+      });
+    });
+
     it('should handle provider errors gracefully', async () => {
       const providerError = new DataProviderError(
         'Data not found',
@@ -189,9 +236,15 @@ describe('IngestionService', () => {
       mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
       mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
         callback({
-          company: { upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }) },
-          fact: { upsert: vi.fn().mockResolvedValue({}) },
-          metricView: { deleteMany: vi.fn(), upsert: vi.fn().mockResolvedValue({}) },
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
         })
       );
 
@@ -202,15 +255,320 @@ describe('IngestionService', () => {
     });
   });
 
+  describe('concept resolution', () => {
+    it('should store alias tags under the canonical concept', async () => {
+      const factCreateMany = vi.fn().mockResolvedValue({ count: 1 });
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue({
+        ...mockFinancialData,
+        metrics: [
+          { ...mockFinancialData.metrics[0], concept: 'SalesRevenueNet' },
+          { ...mockFinancialData.metrics[0], concept: 'RevenueFromContractWithCustomerExcludingAssessedTax' },
+        ],
+      });
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
+        callback({
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: factCreateMany, findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+        })
+      );
+
+      const result = await service.ingestCompanyData('320193', { force: true });
+
+      expect(result.metricsIngested).toBe(1);
+      expect(factCreateMany.mock.calls[0][0].data).toHaveLength(1);
+      expect(factCreateMany.mock.calls[0][0].data[0]).toMatchObject({
+        concept: 'Revenues',
+        sourceConcept: 'RevenueFromContractWithCustomerExcludingAssessedTax',
+      });
+    });
+  });
+
+  describe('restatement tracking', () => {
+    it('should mark amendment facts and supersede earlier values for the period', async () => {
+      const factCreateMany = vi.fn().mockResolvedValue({ count: 1 });
+      const factUpdateMany = vi.fn().mockResolvedValue({ count: 1 });
+      const reported = {
+        concept: 'Revenues',
+        periodStart: new Date('2022-10-01'),
+        periodEnd: new Date('2023-09-30'),
+        fiscalYear: 2023,
+        fiscalPeriod: 'FY',
+        superseded: false,
+        supersededBy: null,
+      };
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue({
+        ...mockFinancialData,
+        metrics: [{ ...mockFinancialData.metrics[0], form: '10-K/A', filingAccession: '0000320193-24-000002' }],
+      });
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
+        callback({
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: {
+            createMany: factCreateMany,
+            updateMany: factUpdateMany,
+            findMany: vi.fn().mockResolvedValue([
+              {
+                ...reported,
+                id: 'original',
+                value: 383285000000,
+                filingAccession: '0000320193-23-000106',
+                form: '10-K',
+                filed: new Date('2023-11-03'),
+              },
+              {
+                ...reported,
+                id: 'amended',
+                value: 383000000000,
+                filingAccession: '0000320193-24-000002',
+                form: '10-K/A',
+                filed: new Date('2024-01-15'),
+              },
+            ]),
+          },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+        })
+      );
+
+      await service.ingestCompanyData('320193', { force: true });
+
+      expect(factCreateMany.mock.calls[0][0].data[0]).toMatchObject({ form: '10-K/A', amended: true });
+      expect(factUpdateMany).toHaveBeenCalledTimes(1);
+      expect(factUpdateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['original'] } },
+        data: { superseded: true, supersededBy: '0000320193-24-000002' },
+      });
+    });
+  });
+
+  describe('incremental ingestion', () => {
+    it('should fetch filings since the latest stored one and write only new or changed facts', async () => {
+      const stored = mockFinancialData.metrics.map((metric, index) => ({
+        id: `fact-${index}`,
+        concept: metric.concept,
+        periodStart: metric.periodStart || null,
+        periodEnd: metric.periodEnd,
+        durationDays: 365,
+        filingAccession: metric.filingAccession,
+        value: index === 0 ? 383000000000 : metric.value, // Revenue restated in place
+        unit: 'USD',
+        sourceConcept: metric.concept,
+        filed: metric.filed,
+      }));
+      const factCreateMany = vi.fn();
+      const executeRaw = vi.fn().mockResolvedValue(1);
+      mockPrisma.company.findUnique = vi.fn().mockResolvedValue({
+        updatedAt: new Date('2023-11-01'),
+        latestFiledAt: new Date('2023-08-04'),
+      });
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
+        callback({
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: factCreateMany, updateMany: vi.fn(), findMany: vi.fn().mockResolvedValue(stored) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+          $executeRaw: executeRaw,
+        })
+      );
+
+      const result = await service.ingestCompanyData('320193');
+
+      expect(mockProvider.getFinancialData).toHaveBeenCalledWith('0000320193', {
+        filedSince: new Date('2023-08-04'),
+      });
+      expect(result).toMatchObject({ factsInserted: 0, factsUpdated: 1, factsUnchanged: 1 });
+      expect(factCreateMany).not.toHaveBeenCalled();
+      // One batched UPDATE carrying only the restated row
+      expect(executeRaw).toHaveBeenCalledTimes(1);
+      expect(executeRaw.mock.calls[0][1].values.slice(0, 2)).toEqual(['fact-0', 383285000000]);
+      expect(mockPrisma.company.updateMany).toHaveBeenCalledWith({
+        where: {
+          cik: '0000320193',
+          OR: [{ latestFiledAt: null }, { latestFiledAt: { lt: new Date('2023-11-03') } }],
+        },
+        data: { latestAccession: '0000320193-23-000106', latestFiledAt: new Date('2023-11-03') },
+      });
+    });
+
+    it('should not advance the latest filing after a concept-filtered ingestion', async () => {
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
+        callback({
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+        })
+      );
+
+      const result = await service.ingestCompanyData('320193', { force: true, concepts: ['Revenues'] });
+
+      expect(result.factsInserted).toBe(2);
+      expect(mockPrisma.company.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('data quality', () => {
+    it('should reconcile statements in their own transaction after the facts commit', async () => {
+      const transactions: any[] = [];
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) => {
+        const tx = {
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+        };
+        transactions.push(tx);
+        return callback(tx);
+      });
+
+      await service.ingestCompanyData('320193', { force: true });
+
+      expect(mockPrisma.$transaction.mock.calls[0][1]).toEqual({ timeout: expect.any(Number) });
+      expect(transactions[0].dataQualityFlag.deleteMany).not.toHaveBeenCalled();
+      expect(transactions[1].dataQualityFlag.deleteMany).toHaveBeenCalledWith({ where: { cik: '0000320193' } });
+    });
+
+    it('should refresh metric views after the facts commit', async () => {
+      const transactions: any[] = [];
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) => {
+        const tx = {
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+        };
+        transactions.push(tx);
+        return callback(tx);
+      });
+
+      await service.ingestCompanyData('320193', { force: true });
+
+      expect(transactions).toHaveLength(3);
+      expect(transactions[0].metricView.deleteMany).not.toHaveBeenCalled();
+      expect(transactions[2].metricView.findMany).toHaveBeenCalledWith({ where: { cik: '0000320193' } });
+      expect(mockPrisma.$transaction.mock.calls[2][1]).toEqual({ timeout: expect.any(Number) });
+    });
+  });
+
+  describe('anomaly screening', () => {
+    const history = [
+      { concept: 'Revenues', value: 394328000000, periodStart: new Date('2021-09-26'), periodEnd: new Date('2022-09-24'), filingAccession: '0000320193-22-000108' },
+      { concept: 'Revenues', value: 365817000000, periodStart: new Date('2020-09-27'), periodEnd: new Date('2021-09-25'), filingAccession: '0000320193-21-000105' },
+    ];
+
+    function mockTransaction(quarantined: unknown[] = []) {
+      const factCreateMany = vi.fn().mockResolvedValue({ count: 1 });
+      const quarantineUpsert = vi.fn().mockResolvedValue({});
+      mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
+        callback({
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue(quarantined), upsert: quarantineUpsert },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: factCreateMany, updateMany: vi.fn(), findMany: vi.fn().mockResolvedValue(history) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+        })
+      );
+      return { factCreateMany, quarantineUpsert };
+    }
+
+    const misScaled = {
+      ...mockFinancialData,
+      metrics: [{ ...mockFinancialData.metrics[0]!, value: 383285000000000 }, mockFinancialData.metrics[1]!],
+    };
+
+    it('should quarantine a value 1,000x its history instead of storing it', async () => {
+      const { factCreateMany, quarantineUpsert } = mockTransaction();
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue(misScaled);
+
+      const result = await service.ingestCompanyData('320193', { force: true });
+
+      expect(result.metricsIngested).toBe(1);
+      expect(result.factsQuarantined).toBe(1);
+      expect(factCreateMany.mock.calls[0][0].data.map((fact: any) => fact.concept)).toEqual(['NetIncomeLoss']);
+      expect(quarantineUpsert.mock.calls[0][0].create).toMatchObject({
+        concept: 'Revenues',
+        reason: 'scale_jump',
+        expected: 383285000000,
+      });
+      expect(quarantineUpsert.mock.calls[0][0].where).toEqual({
+        cik_concept_periodEnd_durationDays_filingAccession: expect.objectContaining({ concept: 'Revenues' }),
+      });
+    });
+
+    it('should store approved facts without screening them again', async () => {
+      const { factCreateMany, quarantineUpsert } = mockTransaction([{
+        concept: 'Revenues',
+        periodEnd: new Date('2023-09-30'),
+        durationDays: 365,
+        filingAccession: '0000320193-23-000106',
+        status: 'approved',
+      }]);
+      mockProvider.getFinancialData = vi.fn().mockResolvedValue(misScaled);
+
+      const result = await service.ingestCompanyData('320193', { force: true });
+
+      expect(result.metricsIngested).toBe(2);
+      expect(result.factsQuarantined).toBeUndefined();
+      expect(factCreateMany.mock.calls[0][0].data).toHaveLength(2);
+      expect(quarantineUpsert).not.toHaveBeenCalled();
+    });
+  });
+
   describe('ingestLatestMetrics', () => {
     it('should ingest latest metrics for dashboard', async () => {
       const concepts = ['Revenues', 'NetIncomeLoss'];
       mockProvider.getLatestMetrics = vi.fn().mockResolvedValue(mockFinancialData);
       mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
         callback({
-          company: { upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }) },
-          fact: { upsert: vi.fn().mockResolvedValue({}) },
-          metricView: { deleteMany: vi.fn(), upsert: vi.fn().mockResolvedValue({}) },
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
         })
       );
 
@@ -228,9 +586,15 @@ describe('IngestionService', () => {
       mockProvider.getFinancialData = vi.fn().mockResolvedValue(mockFinancialData);
       mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
         callback({
-          company: { upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }) },
-          fact: { upsert: vi.fn().mockResolvedValue({}) },
-          metricView: { deleteMany: vi.fn(), upsert: vi.fn().mockResolvedValue({}) },
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
         })
       );
 
@@ -250,9 +614,15 @@ describe('IngestionService', () => {
       
       mockPrisma.$transaction = vi.fn().mockImplementation((callback) =>
         callback({
-          company: { upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }) },
-          fact: { upsert: vi.fn().mockResolvedValue({}) },
-          metricView: { deleteMany: vi.fn(), upsert: vi.fn().mockResolvedValue({}) },
+          dataQualityFlag: { deleteMany: vi.fn(), createMany: vi.fn() },
+          quarantinedFact: { findMany: vi.fn().mockResolvedValue([]), upsert: vi.fn() },
+          company: {
+            upsert: vi.fn().mockResolvedValue({ cik: '0000320193', ticker: 'AAPL' }),
+            findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }),
+          },
+          fact: { createMany: vi.fn().mockResolvedValue({ count: 2 }), findMany: vi.fn().mockResolvedValue([]) },
+          metricView: { findMany: vi.fn().mockResolvedValue([]), createMany: vi.fn(), update: vi.fn(), deleteMany: vi.fn() },
+          corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
         })
       );
 
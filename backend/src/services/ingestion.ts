@@ -1,12 +1,41 @@
-import { PrismaClient } from '@prisma/client';
-import type { IFinancialDataProvider, FinancialData } from '../providers';
+import { Prisma, PrismaClient } from '@prisma/client';
+import type { IFinancialDataProvider, FinancialData, FinancialMetric } from '../providers';
 import { DataProviderError } from '../providers';
 import { redis } from '../lib/redis';
+import { CONCEPT_CATALOG, isSupportedTaxonomy, listConcepts, resolveConcept, selectFallbackFacts } from '../lib/concept-catalog';
+import { getDurationDays } from '../lib/period-normalizer';
+import { findSupersessionUpdates, isAmendmentForm } from '../lib/restatements';
+import { classifySic } from '../lib/sic-taxonomy';
+import { SHARE_COUNT_CONCEPTS, detectSplits } from '../lib/corporate-actions';
+import { detectAnomalies } from '../lib/anomaly-detection';
+import { getComparableFrequency } from '../lib/metric-views';
+import { METRIC_VIEW_REFRESH_TIMEOUT_MS, MetricViewService } from './metricViews';
+import { ReconciliationService } from './reconciliation';
+
+// A filer's full history is tens of thousands of facts; Prisma's 5 s default
+// interactive transaction timeout is too short for a first ingestion
+const STORE_TRANSACTION_TIMEOUT_MS = 120_000;
+const FACT_UPDATE_CHUNK_SIZE = 500;
+
+// Stored columns an incoming fact is compared against
+const STORED_FACT_SELECT = {
+  id: true,
+  concept: true,
+  periodEnd: true,
+  durationDays: true,
+  filingAccession: true,
+  value: true,
+  unit: true,
+  sourceConcept: true,
+  filed: true,
+} satisfies Prisma.FactSelect;
+
+type StoredFact = Prisma.FactGetPayload<{ select: typeof STORED_FACT_SELECT }>;
 
 export interface IngestionOptions {
   force?: boolean;
   concepts?: string[];
-  maxAge?: number; // Hours before data is considered stale
+  maxAge?: number; // Hours before data is considered stale; 0 always ingests
 }
 
 export interface IngestionResult {
@@ -14,7 +43,14 @@ export interface IngestionResult {
   cik: string;
   ticker?: string;
   metricsIngested: number;
+  segmentFactsIngested?: number;
+  qualityFlags?: number; // Accounting identity breaks found after storing
+  factsQuarantined?: number; // Suspect facts held back for review
+  factsInserted?: number;
+  factsUpdated?: number; // Stored facts whose value changed
+  factsUnchanged?: number; // Re-read facts that were not written
   errors?: string[];
+  providerError?: DataProviderError; // Why the provider fetch failed, for the dead-letter store
   source: string;
   lastUpdated: Date;
 }
@@ -26,10 +62,14 @@ export interface IngestionResult {
 export class IngestionService {
   private prisma: PrismaClient;
   private provider: IFinancialDataProvider;
+  private metricViews: MetricViewService;
+  private reconciliation: ReconciliationService;
 
   constructor(prisma: PrismaClient, provider: IFinancialDataProvider) {
     this.prisma = prisma;
     this.provider = provider;
+    this.metricViews = new MetricViewService(prisma);
+    this.reconciliation = new ReconciliationService(prisma);
   }
 
   /**
@@ -41,7 +81,7 @@ export class IngestionService {
   ): Promise<IngestionResult> {
     const normalizedCik = this.normalizeCIK(cik);
     const cacheKey = `ingestion:${normalizedCik}`;
-    const maxAge = options.maxAge || 24; // Default 24 hours
+    const maxAge = options.maxAge ?? 24; // Default 24 hours
 
     try {
       // Check if we should skip ingestion (unless forced)
@@ -65,15 +105,23 @@ export class IngestionService {
       // Mark ingestion as in progress
       await redis.setEx(`${cacheKey}:lock`, 300, Date.now().toString()); // 5-minute lock
 
+      // Refreshes only need filings from the latest one already stored; forced
+      // ingestions re-read everything
+      const filedSince = options.force ? null : await this.getLatestFiledAt(normalizedCik);
+
       // Fetch data from provider
-      console.log(`Ingesting data for CIK ${normalizedCik} using ${this.provider.name}`);
+      console.log(`Ingesting data for CIK ${normalizedCik} using ${this.provider.name}`
+        + (filedSince ? ` (filings since ${filedSince.toISOString().slice(0, 10)})` : ''));
       const financialData = await this.provider.getFinancialData(normalizedCik, {
-        concepts: options.concepts,
+        ...(options.concepts && { concepts: options.concepts }),
+        ...(filedSince && { filedSince }),
       });
 
       // Store in database
       const result = await this.storeFinancialData(financialData);
 
+      await this.recordLatestFiling(normalizedCik, financialData.metrics, options.concepts);
+
       // Update cache
       await this.updateCache(normalizedCik, result);
 
@@ -92,6 +140,7 @@ export class IngestionService {
           cik: normalizedCik,
           metricsIngested: 0,
           errors: [error.message],
+          providerError: error,
           source: this.provider.name,
           lastUpdated: new Date(),
         };
@@ -114,8 +163,7 @@ export class IngestionService {
       console.log(`Ingesting latest metrics for CIK ${normalizedCik}`);
       const financialData = await this.provider.getLatestMetrics(normalizedCik, concepts);
 
-      // Store only the latest metrics
-      const result = await this.storeFinancialData(financialData, true);
+      const result = await this.storeFinancialData(financialData);
 
       return result;
 
@@ -185,6 +233,37 @@ export class IngestionService {
     return ageHours < maxAgeHours;
   }
 
+  private async getLatestFiledAt(cik: string): Promise<Date | null> {
+    const company = await this.prisma.company.findUnique({
+      where: { cik },
+      select: { latestFiledAt: true },
+    });
+    return company?.latestFiledAt ?? null;
+  }
+
+  /**
+   * Move the company's latest-filing marker forward after a complete
+   * ingestion (also used by bulk archive ingestion). Only a fetch of every
+   * catalog concept can set it: a single filing or a subset of concepts
+   * doesn't prove earlier filings are stored.
+   */
+  async recordLatestFiling(cik: string, metrics: FinancialMetric[], concepts?: string[]) {
+    if (concepts?.length && !listConcepts().every(concept => concepts.includes(concept))) return;
+
+    let latest: FinancialMetric | undefined;
+    for (const metric of metrics) {
+      if (metric.filed && metric.filingAccession && (!latest?.filed || metric.filed > latest.filed)) {
+        latest = metric;
+      }
+    }
+    if (!latest?.filed || !latest.filingAccession) return;
+
+    await this.prisma.company.updateMany({
+      where: { cik, OR: [{ latestFiledAt: null }, { latestFiledAt: { lt: latest.filed } }] },
+      data: { latestAccession: latest.filingAccession, latestFiledAt: latest.filed },
+    });
+  }
+
   private async getExistingData(cik: string) {
     const company = await this.prisma.company.findUnique({
       where: { cik },
@@ -204,11 +283,21 @@ export class IngestionService {
     };
   }
 
-  private async storeFinancialData(
-    data: FinancialData,
-    latestOnly = false
-  ): Promise<IngestionResult> {
-    const { company, metrics } = data;
+  /**
+   * Store already-fetched provider data (also used by bulk archive ingestion)
+   */
+  async storeFinancialData(data: FinancialData): Promise<IngestionResult> {
+    const { company } = data;
+    // Segment facts break entity-wide totals down by axis member and are stored apart
+    const metrics = this.resolveConcepts(data.metrics.filter(metric => !metric.dimensions));
+    const segmentMetrics = data.metrics.filter(metric => Object.keys(metric.dimensions ?? {}).length === 1);
+
+    // SIC classification keeps sectors on one taxonomy; provider labels only fill gaps
+    const sic = classifySic(company.sic);
+    const classification = {
+      sector: sic?.sector || company.sector,
+      industry: sic?.industry || company.industry,
+    };
 
     // Use transaction for data consistency
     const result = await this.prisma.$transaction(async (tx) => {
@@ -219,7 +308,10 @@ export class IngestionService {
           ticker: company.ticker,
           name: company.name,
           sic: company.sic || null,
+          sector: classification.sector || null,
+          industry: classification.industry || null,
           fiscalYearEnd: company.fiscalYearEnd || null,
+          reportingCurrency: company.reportingCurrency || null,
           updatedAt: new Date(),
         },
         create: {
@@ -227,108 +319,402 @@ export class IngestionService {
           ticker: company.ticker,
           name: company.name,
           sic: company.sic || null,
+          sector: classification.sector || null,
+          industry: classification.industry || null,
           fiscalYearEnd: company.fiscalYearEnd || null,
+          reportingCurrency: company.reportingCurrency || null,
         },
       });
 
-      // If latest only, clear existing metric views
-      if (latestOnly) {
-        await tx.metricView.deleteMany({
-          where: { cik: company.cik },
-        });
-      }
+      // Hold back facts that look mis-scaled or sign-flipped for review
+      const { accepted, quarantined } = await this.quarantineAnomalies(tx, company.cik, company.sic, metrics);
 
-      // Store facts
-      const factPromises = metrics.map(metric => 
-        tx.fact.upsert({
-          where: {
-            // Use a composite key for uniqueness
-            cik_concept_periodEnd_filingAccession: {
-              cik: company.cik,
-              concept: metric.concept,
-              periodEnd: metric.periodEnd,
-              filingAccession: metric.filingAccession || 'unknown',
-            }
-          },
-          update: {
-            value: metric.value,
-            unit: metric.unit,
-          },
-          create: {
+      // Store facts, writing only new or changed rows
+      const { inserted, updated, unchanged } = await this.diffFacts(tx, company.cik, accepted);
+
+      if (inserted.length > 0) {
+        await tx.fact.createMany({
+          data: inserted.map(metric => ({
             cik: company.cik,
             concept: metric.concept,
-            taxonomy: 'us-gaap', // Default for now
+            sourceConcept: metric.sourceConcept || null,
+            taxonomy: metric.taxonomy || 'us-gaap',
             unit: metric.unit,
             periodStart: metric.periodStart || null,
             periodEnd: metric.periodEnd,
+            durationDays: getDurationDays(metric.periodStart, metric.periodEnd),
             value: metric.value,
             instant: metric.instant,
             fiscalYear: metric.fiscalYear,
             fiscalPeriod: metric.fiscalPeriod,
             filingAccession: metric.filingAccession || 'unknown',
             form: metric.form || '10-K',
-            amended: false,
-          },
-        })
-      );
+            filed: metric.filed || null,
+            amended: isAmendmentForm(metric.form),
+          })),
+          skipDuplicates: true,
+        });
+      }
 
-      await Promise.all(factPromises);
+      await this.updateFacts(tx, updated);
 
-      // Update metric views for fast queries
-      await this.updateMetricViews(tx, company.cik, metrics);
+      await this.storeSegmentFacts(tx, company.cik, segmentMetrics);
+
+      // Flag values replaced by later filings or amendments
+      await this.markSupersededFacts(tx, company.cik, accepted);
+
+      // Restated share counts reveal stock splits
+      await this.storeDetectedSplits(tx, company.cik, accepted);
 
       return {
         success: true,
         cik: company.cik,
         ticker: company.ticker,
-        metricsIngested: metrics.length,
+        metricsIngested: accepted.length,
+        ...(segmentMetrics.length > 0 && { segmentFactsIngested: segmentMetrics.length }),
+        ...(quarantined > 0 && { factsQuarantined: quarantined }),
+        factsInserted: inserted.length,
+        factsUpdated: updated.length,
+        factsUnchanged: unchanged,
         source: data.source,
         lastUpdated: data.lastUpdated,
       };
+    }, { timeout: STORE_TRANSACTION_TIMEOUT_MS });
+
+    // Derived from the committed facts, so the fact write does not wait on it;
+    // a failure here is healed by the next ingestion, which re-checks every fact
+    const qualityFlags = await this.prisma.$transaction(tx => this.reconciliation.reconcile(company.cik, tx));
+
+    // Re-derive metric views from the current facts, restatements included
+    await this.prisma.$transaction(
+      tx => this.metricViews.refresh(company.cik, tx),
+      { timeout: METRIC_VIEW_REFRESH_TIMEOUT_MS }
+    );
+
+    return {
+      ...result,
+      ...(qualityFlags > 0 && { qualityFlags }),
+    };
+  }
+
+  /**
+   * Map alias tags onto their canonical concept and keep, per period, only the
+   * highest-priority tag in each concept's fallback chain
+   */
+  private resolveConcepts(metrics: FinancialMetric[]): FinancialMetric[] {
+    const canonicalMetrics = metrics.map(metric => {
+      const sourceConcept = metric.sourceConcept ?? metric.concept;
+      const taxonomy = metric.taxonomy && isSupportedTaxonomy(metric.taxonomy) ? metric.taxonomy : 'us-gaap';
+      const resolved = resolveConcept(sourceConcept, CONCEPT_CATALOG, taxonomy);
+      return resolved ? { ...metric, concept: resolved.concept, sourceConcept } : metric;
     });
 
-    return result;
+    return selectFallbackFacts(canonicalMetrics);
   }
 
-  private async updateMetricViews(tx: any, cik: string, metrics: any[]) {
-    // Group metrics by concept and get latest for each
-    const latestMetrics = new Map<string, any>();
-    
-    metrics.forEach(metric => {
-      const existing = latestMetrics.get(metric.concept);
-      if (!existing || metric.periodEnd > existing.periodEnd) {
-        latestMetrics.set(metric.concept, metric);
-      }
+  /**
+   * Split incoming facts into new ones, stored ones whose value changed and
+   * stored ones that are unchanged, matching on the facts unique key
+   */
+  private async diffFacts(tx: Prisma.TransactionClient, cik: string, metrics: FinancialMetric[]): Promise<{
+    inserted: FinancialMetric[];
+    updated: Array<{ id: string; metric: FinancialMetric }>;
+    unchanged: number;
+  }> {
+    if (metrics.length === 0) return { inserted: [], updated: [], unchanged: 0 };
+
+    const accessions = Array.from(new Set(metrics.map(metric => metric.filingAccession || 'unknown')));
+    const stored = await tx.fact.findMany({
+      where: { cik, filingAccession: { in: accessions } },
+      select: STORED_FACT_SELECT,
     });
 
-    // Upsert metric views
-    const viewPromises = Array.from(latestMetrics.values()).map(metric =>
-      tx.metricView.upsert({
+    const factKey = (concept: string, periodEnd: Date, durationDays: number, filingAccession: string) =>
+      `${concept}|${periodEnd.toISOString()}|${durationDays}|${filingAccession}`;
+    const byKey = new Map<string, StoredFact>(stored.map(fact =>
+      [factKey(fact.concept, fact.periodEnd, fact.durationDays, fact.filingAccession), fact]
+    ));
+
+    const inserted: FinancialMetric[] = [];
+    const updated: Array<{ id: string; metric: FinancialMetric }> = [];
+    let unchanged = 0;
+
+    for (const metric of metrics) {
+      const existing = byKey.get(factKey(
+        metric.concept,
+        metric.periodEnd,
+        getDurationDays(metric.periodStart, metric.periodEnd),
+        metric.filingAccession || 'unknown'
+      ));
+
+      if (!existing) {
+        inserted.push(metric);
+      } else if (
+        // Values are stored to four decimal places
+        Math.abs(Number(existing.value) - metric.value) >= 0.00005 ||
+        existing.unit !== metric.unit ||
+        existing.sourceConcept !== (metric.sourceConcept || null) ||
+        existing.filed?.getTime() !== metric.filed?.getTime()
+      ) {
+        updated.push({ id: existing.id, metric });
+      } else {
+        unchanged++;
+      }
+    }
+
+    return { inserted, updated, unchanged };
+  }
+
+  /**
+   * Write changed values back to stored facts, one UPDATE per chunk rather
+   * than one per row
+   */
+  private async updateFacts(tx: Prisma.TransactionClient, updated: Array<{ id: string; metric: FinancialMetric }>) {
+    for (let i = 0; i < updated.length; i += FACT_UPDATE_CHUNK_SIZE) {
+      const rows = updated.slice(i, i + FACT_UPDATE_CHUNK_SIZE).map(({ id, metric }) => Prisma.sql`(
+        ${id}::text,
+        ${metric.value}::decimal,
+        ${metric.unit}::varchar,
+        ${metric.sourceConcept || null}::varchar,
+        ${metric.filed || null}::timestamp(3),
+        ${isAmendmentForm(metric.form)}::boolean
+      )`);
+
+      await tx.$executeRaw`
+        UPDATE facts AS f
+        SET value = u.value, unit = u.unit, "sourceConcept" = u."sourceConcept", filed = u.filed, amended = u.amended
+        FROM (VALUES ${Prisma.join(rows)}) AS u(id, value, unit, "sourceConcept", filed, amended)
+        WHERE f.id = u.id
+      `;
+    }
+  }
+
+  /**
+   * Screen new facts against the company's history and its SIC peers. Suspect
+   * facts are upserted into quarantined_facts instead of being returned for
+   * storage; facts already reviewed keep their decision (approved facts are
+   * stored, rejected ones dropped) without being screened again.
+   */
+  private async quarantineAnomalies(
+    tx: Prisma.TransactionClient,
+    cik: string,
+    sic: string | undefined,
+    metrics: FinancialMetric[]
+  ): Promise<{ accepted: FinancialMetric[]; quarantined: number }> {
+    if (metrics.length === 0) return { accepted: metrics, quarantined: 0 };
+    const concepts = Array.from(new Set(metrics.map(metric => metric.concept)));
+
+    const [history, reviewed, peerViews] = await Promise.all([
+      tx.fact.findMany({
+        where: { cik, concept: { in: concepts }, superseded: false },
+        select: { concept: true, value: true, periodStart: true, periodEnd: true, filingAccession: true },
+      }),
+      tx.quarantinedFact.findMany({
+        where: { cik, status: { in: ['approved', 'rejected'] } },
+        select: { concept: true, periodEnd: true, durationDays: true, filingAccession: true, status: true },
+      }),
+      sic
+        ? tx.metricView.findMany({
+          where: {
+            OR: concepts.map(concept => ({ metric: concept, frequency: getComparableFrequency(concept) })),
+            cik: { not: cik },
+            company: { sic },
+          },
+          select: { metric: true, value: true },
+          orderBy: { periodEnd: 'desc' },
+          distinct: ['cik', 'metric'],
+        })
+        : [],
+    ]);
+
+    const factKey = (concept: string, periodEnd: Date, durationDays: number, filingAccession: string) =>
+      `${concept}|${periodEnd.toISOString()}|${durationDays}|${filingAccession}`;
+    const metricKey = (metric: FinancialMetric) => factKey(
+      metric.concept,
+      metric.periodEnd,
+      getDurationDays(metric.periodStart, metric.periodEnd),
+      metric.filingAccession || 'unknown'
+    );
+
+    const decisions = new Map<string, string>(reviewed.map(row =>
+      [factKey(row.concept, row.periodEnd, row.durationDays, row.filingAccession), row.status]
+    ));
+
+    const peers = new Map<string, number[]>();
+    for (const view of peerViews) {
+      peers.set(view.metric, [...(peers.get(view.metric) || []), Number(view.value)]);
+    }
+
+    const anomalies = detectAnomalies(
+      metrics
+        .filter(metric => !decisions.has(metricKey(metric)))
+        .map(metric => ({ ...metric, filingAccession: metric.filingAccession || 'unknown', metric })),
+      history.map(fact => ({ ...fact, value: Number(fact.value) })),
+      peers
+    );
+
+    await Promise.all(anomalies.map(({ fact: { metric }, reason, expected, message }) => {
+      const durationDays = getDurationDays(metric.periodStart, metric.periodEnd);
+      const filingAccession = metric.filingAccession || 'unknown';
+      return tx.quarantinedFact.upsert({
         where: {
-          cik_metric_periodEnd: {
+          cik_concept_periodEnd_durationDays_filingAccession: {
             cik,
-            metric: metric.concept,
+            concept: metric.concept,
             periodEnd: metric.periodEnd,
+            durationDays,
+            filingAccession,
           },
         },
-        update: {
+        update: { value: metric.value, reason, expected, message },
+        create: {
+          cik,
+          concept: metric.concept,
+          sourceConcept: metric.sourceConcept || null,
+          taxonomy: metric.taxonomy || 'us-gaap',
+          unit: metric.unit,
+          periodStart: metric.periodStart || null,
+          periodEnd: metric.periodEnd,
+          durationDays,
           value: metric.value,
-          fiscalPeriod: metric.fiscalPeriod,
+          instant: metric.instant,
           fiscalYear: metric.fiscalYear,
-          updatedAt: new Date(),
+          fiscalPeriod: metric.fiscalPeriod,
+          filingAccession,
+          form: metric.form || '10-K',
+          filed: metric.filed || null,
+          reason,
+          expected,
+          message,
+        },
+      });
+    }));
+
+    if (anomalies.length > 0) {
+      console.warn(`Quarantined ${anomalies.length} suspect facts for CIK ${cik}`);
+    }
+
+    const suspect = new Set(anomalies.map(anomaly => anomaly.fact.metric));
+    return {
+      accepted: metrics.filter(metric => !suspect.has(metric) && decisions.get(metricKey(metric)) !== 'rejected'),
+      quarantined: anomalies.length,
+    };
+  }
+
+  /**
+   * Store single-axis dimensional facts; facts on more than one axis (segment
+   * by geography, say) are too fine-grained to chart and are dropped
+   */
+  private async storeSegmentFacts(tx: Prisma.TransactionClient, cik: string, metrics: FinancialMetric[]) {
+    await Promise.all(metrics.map(metric => {
+      const [axis, member] = Object.entries(metric.dimensions ?? {})[0] ?? [];
+      if (!axis || !member) return undefined;
+
+      const durationDays = getDurationDays(metric.periodStart, metric.periodEnd);
+      const filingAccession = metric.filingAccession || 'unknown';
+      return tx.segmentFact.upsert({
+        where: {
+          cik_concept_axis_member_periodEnd_durationDays_filingAccession: {
+            cik,
+            concept: metric.concept,
+            axis,
+            member,
+            periodEnd: metric.periodEnd,
+            durationDays,
+            filingAccession,
+          },
+        },
+        update: {
+          value: metric.value,
+          unit: metric.unit,
+          filed: metric.filed || null,
         },
         create: {
           cik,
-          metric: metric.concept,
+          concept: metric.concept,
+          axis,
+          member,
+          unit: metric.unit,
+          periodStart: metric.periodStart || null,
           periodEnd: metric.periodEnd,
+          durationDays,
           value: metric.value,
-          fiscalPeriod: metric.fiscalPeriod,
           fiscalYear: metric.fiscalYear,
+          fiscalPeriod: metric.fiscalPeriod,
+          filingAccession,
+          form: metric.form || '10-K',
+          filed: metric.filed || null,
         },
-      })
+      });
+    }));
+  }
+
+  private async markSupersededFacts(tx: Prisma.TransactionClient, cik: string, metrics: FinancialMetric[]) {
+    const concepts = Array.from(new Set(metrics.map(metric => metric.concept)));
+    if (concepts.length === 0) return;
+
+    const facts = await tx.fact.findMany({
+      where: { cik, concept: { in: concepts } },
+      select: {
+        id: true,
+        concept: true,
+        periodStart: true,
+        periodEnd: true,
+        value: true,
+        fiscalYear: true,
+        fiscalPeriod: true,
+        filingAccession: true,
+        form: true,
+        filed: true,
+        superseded: true,
+        supersededBy: true,
+      },
+    });
+
+    const updates = findSupersessionUpdates(
+      facts.map(fact => ({ ...fact, value: Number(fact.value) }))
     );
 
-    await Promise.all(viewPromises);
+    // Updates share a handful of (superseded, supersededBy) pairs, one updateMany each
+    const groups = new Map<string, { superseded: boolean; supersededBy: string | null; ids: string[] }>();
+    for (const update of updates) {
+      const key = `${update.superseded}|${update.supersededBy}`;
+      const group = groups.get(key) ?? { superseded: update.superseded, supersededBy: update.supersededBy, ids: [] };
+      group.ids.push(update.id);
+      groups.set(key, group);
+    }
+
+    for (const { superseded, supersededBy, ids } of groups.values()) {
+      await tx.fact.updateMany({
+        where: { id: { in: ids } },
+        data: { superseded, supersededBy },
+      });
+    }
+  }
+
+  private async storeDetectedSplits(tx: Prisma.TransactionClient, cik: string, metrics: FinancialMetric[]) {
+    if (!metrics.some(metric => SHARE_COUNT_CONCEPTS.includes(metric.concept))) return;
+
+    const facts = await tx.fact.findMany({
+      where: { cik, concept: { in: SHARE_COUNT_CONCEPTS } },
+      select: {
+        concept: true,
+        value: true,
+        periodStart: true,
+        periodEnd: true,
+        filingAccession: true,
+        filed: true,
+      },
+    });
+
+    const splits = detectSplits(facts.map(fact => ({ ...fact, value: Number(fact.value) })));
+    if (splits.length === 0) return;
+
+    // Existing rows win, so manually entered splits are never overwritten
+    await tx.corporateAction.createMany({
+      data: splits.map(split => ({ cik, ...split, source: 'detected' })),
+      skipDuplicates: true,
+    });
   }
 
   private async updateCache(cik: string, result: IngestionResult) {
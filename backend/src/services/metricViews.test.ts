@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MetricViewService } from './metricViews';
+
+function createTx(facts: any[], views: any[]) {
+  return {
+    company: { findUnique: vi.fn().mockResolvedValue({ fiscalYearEnd: '0930' }) },
+    fact: { findMany: vi.fn().mockResolvedValue(facts) },
+    corporateAction: { findMany: vi.fn().mockResolvedValue([]) },
+    metricView: {
+      findMany: vi.fn().mockResolvedValue(views),
+      createMany: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    $executeRaw: vi.fn().mockResolvedValue(1),
+  };
+}
+
+const balance = (value: number, periodEnd: string, filingAccession: string) => ({
+  concept: 'Assets',
+  value,
+  periodStart: null,
+  periodEnd: new Date(periodEnd),
+  fiscalYear: 2023,
+  fiscalPeriod: 'FY',
+  filingAccession,
+  form: '10-K',
+  filed: null,
+  instant: true,
+});
+
+const view = (id: string, value: number, periodEnd: string, filingAccession: string) => ({
+  id,
+  cik: '0000320193',
+  metric: 'Assets',
+  frequency: 'instant',
+  periodStart: null,
+  periodEnd: new Date(periodEnd),
+  value,
+  fiscalYear: 2023,
+  fiscalPeriod: 'FY',
+  filingAccession,
+  derived: false,
+});
+
+describe('MetricViewService', () => {
+  it('should insert, update and delete only the views that changed', async () => {
+    const tx = createTx(
+      [
+        balance(352583000000, '2023-09-30', '0000320193-23-000106'),
+        // Restated in a later filing
+        balance(352755000000, '2022-09-24', '0000320193-23-000106'),
+        balance(351002000000, '2021-09-25', '0000320193-22-000108'),
+      ],
+      [
+        view('kept', 351002000000, '2021-09-25', '0000320193-22-000108'),
+        view('restated', 352583000000, '2022-09-24', '0000320193-22-000108'),
+        view('stale', 1, '2020-09-26', '0000320193-20-000096'),
+      ]
+    );
+
+    const service = new MetricViewService({} as any);
+    const result = await service.refresh('0000320193', tx as any);
+
+    expect(result).toEqual({ inserted: 1, updated: 1, deleted: 1 });
+    expect(tx.metricView.deleteMany).toHaveBeenCalledWith({ where: { id: { in: ['stale'] } } });
+    expect(tx.metricView.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ cik: '0000320193', metric: 'Assets', frequency: 'instant', value: 352583000000 })],
+      skipDuplicates: true,
+    });
+    // Changed rows go out in one batched UPDATE
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+    expect(tx.$executeRaw.mock.calls[0][1].values).toEqual(
+      expect.arrayContaining(['restated', 352755000000, '0000320193-23-000106'])
+    );
+  });
+
+  it('should read only current facts', async () => {
+    const tx = createTx([], []);
+
+    await new MetricViewService({} as any).refresh('0000320193', tx as any);
+
+    expect(tx.fact.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { cik: '0000320193', superseded: false },
+    }));
+    expect(tx.metricView.createMany).not.toHaveBeenCalled();
+    expect(tx.$executeRaw).not.toHaveBeenCalled();
+  });
+});
\ No newline at end of file
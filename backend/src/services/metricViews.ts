@@ -0,0 +1,126 @@
+import { MetricView, Prisma, PrismaClient } from '@prisma/client';
+import { adjustForSplits, toCorporateActions } from '../lib/corporate-actions';
+import { deriveMetricViews, getViewKey } from '../lib/metric-views';
+import type { MetricViewRow } from '../lib/metric-views';
+
+// Re-deriving a long filing history writes thousands of rows, past Prisma's
+// 5 s default interactive transaction timeout
+export const METRIC_VIEW_REFRESH_TIMEOUT_MS = 120_000;
+const VIEW_UPDATE_CHUNK_SIZE = 500;
+
+export interface MetricViewRefreshResult {
+  inserted: number;
+  updated: number;
+  deleted: number;
+}
+
+/**
+ * Service that keeps a company's metric_views rows in step with its facts.
+ * Views are re-derived from every current fact rather than the batch just
+ * ingested, so a restatement replaces the values it touches and periods that
+ * no longer derive are removed.
+ */
+export class MetricViewService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Re-derive a company's views, writing only rows that changed. Pass a
+   * transaction client (with METRIC_VIEW_REFRESH_TIMEOUT_MS) so readers never
+   * see a half-written set.
+   */
+  async refresh(cik: string, tx: Prisma.TransactionClient = this.prisma): Promise<MetricViewRefreshResult> {
+    const [company, facts, corporateActions, stored] = await Promise.all([
+      tx.company.findUnique({ where: { cik }, select: { fiscalYearEnd: true } }),
+      tx.fact.findMany({
+        where: { cik, superseded: false },
+        select: {
+          concept: true,
+          value: true,
+          periodStart: true,
+          periodEnd: true,
+          fiscalYear: true,
+          fiscalPeriod: true,
+          filingAccession: true,
+          form: true,
+          filed: true,
+          instant: true,
+        },
+      }),
+      tx.corporateAction.findMany({ where: { cik } }),
+      tx.metricView.findMany({ where: { cik } }),
+    ]);
+
+    // Share counts and per-share values on the current share basis
+    const views = deriveMetricViews(adjustForSplits(
+      facts.map(fact => ({ ...fact, value: Number(fact.value) })),
+      toCorporateActions(corporateActions)
+    ), { fiscalYearEnd: company?.fiscalYearEnd });
+
+    const existing = new Map<string, MetricView>(stored.map(row => [getViewKey(row), row]));
+    const inserted: MetricViewRow[] = [];
+    const updated: Array<{ id: string; view: MetricViewRow }> = [];
+
+    for (const view of views) {
+      const key = getViewKey(view);
+      const row = existing.get(key);
+      existing.delete(key);
+
+      if (!row) {
+        inserted.push(view);
+      } else if (this.hasChanged(row, view)) {
+        updated.push({ id: row.id, view });
+      }
+    }
+
+    const deleted = Array.from(existing.values()).map(row => row.id);
+
+    if (deleted.length > 0) {
+      await tx.metricView.deleteMany({ where: { id: { in: deleted } } });
+    }
+
+    if (inserted.length > 0) {
+      await tx.metricView.createMany({
+        data: inserted.map(view => ({ cik, ...view })),
+        skipDuplicates: true,
+      });
+    }
+
+    // One UPDATE per chunk rather than one per row
+    for (let i = 0; i < updated.length; i += VIEW_UPDATE_CHUNK_SIZE) {
+      const rows = updated.slice(i, i + VIEW_UPDATE_CHUNK_SIZE).map(({ id, view }) => Prisma.sql`(
+        ${id}::text,
+        ${view.periodStart}::timestamp(3),
+        ${view.value}::decimal,
+        ${view.fiscalPeriod}::varchar,
+        ${view.fiscalYear}::integer,
+        ${view.filingAccession}::varchar,
+        ${view.derived}::boolean
+      )`);
+
+      await tx.$executeRaw`
+        UPDATE metric_views AS m
+        SET "periodStart" = u."periodStart", value = u.value, "fiscalPeriod" = u."fiscalPeriod",
+          "fiscalYear" = u."fiscalYear", "filingAccession" = u."filingAccession", derived = u.derived,
+          "updatedAt" = NOW()
+        FROM (VALUES ${Prisma.join(rows)}) AS u(id, "periodStart", value, "fiscalPeriod", "fiscalYear", "filingAccession", derived)
+        WHERE m.id = u.id
+      `;
+    }
+
+    return { inserted: inserted.length, updated: updated.length, deleted: deleted.length };
+  }
+
+  private hasChanged(row: MetricView, view: MetricViewRow): boolean {
+    // Stored values are rounded to the column's four decimal places
+    return Number(row.value) !== Number(view.value.toFixed(4))
+      || row.fiscalYear !== view.fiscalYear
+      || row.fiscalPeriod !== view.fiscalPeriod
+      || row.filingAccession !== view.filingAccession
+      || row.derived !== view.derived
+      || row.periodStart?.getTime() !== view.periodStart?.getTime();
+  }
+}
\ No newline at end of file
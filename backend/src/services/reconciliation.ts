@@ -0,0 +1,44 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { RECONCILIATION_CONCEPTS, reconcileFacts } from '../lib/reconciliation';
+
+/**
+ * Service that keeps a company's data-quality flags in step with its facts.
+ * Run it whenever the current facts change, after ingestion or a quarantine
+ * approval, so flags never describe values that have since been replaced.
+ */
+export class ReconciliationService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  /**
+   * Replace the company's data-quality flags with a fresh reconciliation of
+   * its current facts, returning how many were raised
+   */
+  async reconcile(cik: string, tx: Prisma.TransactionClient = this.prisma): Promise<number> {
+    const facts = await tx.fact.findMany({
+      where: { cik, concept: { in: RECONCILIATION_CONCEPTS }, superseded: false },
+      select: {
+        concept: true,
+        value: true,
+        periodStart: true,
+        periodEnd: true,
+        fiscalYear: true,
+        fiscalPeriod: true,
+        filingAccession: true,
+      },
+    });
+
+    const flags = reconcileFacts(facts.map(fact => ({ ...fact, value: Number(fact.value) })));
+
+    await tx.dataQualityFlag.deleteMany({ where: { cik } });
+    if (flags.length > 0) {
+      await tx.dataQualityFlag.createMany({
+        data: flags.map(flag => ({ cik, ...flag })),
+      });
+    }
+    return flags.length;
+  }
+}
\ No newline at end of file
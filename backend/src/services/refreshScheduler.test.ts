@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RefreshScheduler } from './refreshScheduler';
+import { addIngestJob } from '../lib/queue';
+import type { SECClient } from '../lib/sec-client';
+
+vi.mock('../lib/queue', () => ({
+  addIngestJob: vi.fn().mockResolvedValue({ id: 'job-123' }),
+}));
+
+const mockClient = {
+  getCurrentFilings: vi.fn(),
+};
+
+const mockPrisma = {
+  company: {
+    findMany: vi.fn(),
+  },
+};
+
+describe('RefreshScheduler', () => {
+  let scheduler: RefreshScheduler;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2023-11-03T21:00:00Z'));
+    scheduler = new RefreshScheduler(mockPrisma as any, mockClient as unknown as SECClient);
+    mockPrisma.company.findMany.mockResolvedValue([
+      {
+        cik: '0000320193',
+        ticker: 'AAPL',
+        fiscalYearEnd: '0930',
+        latestFiledAt: new Date('2023-08-04'),
+        updatedAt: new Date('2023-11-01T00:00:00Z'),
+      },
+      {
+        cik: '0000789019',
+        ticker: 'MSFT',
+        fiscalYearEnd: '0630',
+        latestFiledAt: new Date('2023-10-24'),
+        updatedAt: new Date('2023-11-01T00:00:00Z'),
+      },
+    ]);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should enqueue prioritized ingest jobs for companies with new filings', async () => {
+    mockClient.getCurrentFilings.mockResolvedValue([{
+      cik: '0000320193',
+      accession: '0000320193-23-000106',
+      form: '10-K',
+      filingDate: new Date('2023-11-03'),
+      acceptedAt: new Date('2023-11-03T20:30:38Z'),
+    }]);
+
+    const summary = await scheduler.run();
+
+    expect(addIngestJob).toHaveBeenCalledTimes(1);
+    expect(addIngestJob).toHaveBeenCalledWith(
+      { cik: '0000320193', ticker: 'AAPL', maxAge: 0 },
+      expect.objectContaining({ priority: 1, jobId: expect.stringMatching(/^scheduled-0000320193-\d+$/) })
+    );
+    expect(summary).toMatchObject({
+      companies: 2,
+      feedFilings: 1,
+      enqueued: 1,
+      byReason: { new_filing: 1, quarter_end: 0, stale: 0 },
+    });
+  });
+
+  it('should still plan from fiscal calendars when the feed is unavailable', async () => {
+    mockClient.getCurrentFilings.mockRejectedValue(new Error('SEC API error: 503'));
+
+    const summary = await scheduler.run({ staleAfterHours: 0 });
+
+    expect(summary.feedError).toBe('SEC API error: 503');
+    expect(summary.enqueued).toBe(2);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { PrismaClient } from '@prisma/client';
+import { SECClient } from '../lib/sec-client';
+import { addIngestJob } from '../lib/queue';
+import { planRefreshes } from '../lib/refresh-schedule';
+import type { FeedFiling } from '../lib/filing-feed';
+import type { RefreshPlanOptions, RefreshReason } from '../lib/refresh-schedule';
+
+export interface RefreshRunSummary {
+  startedAt: string;
+  companies: number;
+  feedFilings: number;
+  feedError?: string;
+  enqueued: number;
+  byReason: Record<RefreshReason, number>;
+}
+
+// The feed's largest page; busier hours can overflow it, and the quarter-end
+// window picks up any filing it missed
+const FEED_SIZE = 100;
+
+/**
+ * Service behind the worker's scheduled refresh job: checks EDGAR's latest
+ * filings and the companies' fiscal calendars, and enqueues prioritized
+ * ingest jobs for the companies that need one
+ */
+export class RefreshScheduler {
+  private prisma: PrismaClient;
+  private client: SECClient;
+
+  constructor(prisma: PrismaClient, client: SECClient = new SECClient()) {
+    this.prisma = prisma;
+    this.client = client;
+  }
+
+  async run(options: RefreshPlanOptions = {}): Promise<RefreshRunSummary> {
+    const startedAt = new Date();
+
+    // Without the feed, filing windows and staleness still drive the run
+    let feed: FeedFiling[] = [];
+    let feedError: string | undefined;
+    try {
+      feed = await this.client.getCurrentFilings('10-', FEED_SIZE);
+    } catch (error) {
+      feedError = error instanceof Error ? error.message : 'Unknown error';
+      console.warn('Failed to fetch the latest filings feed:', feedError);
+    }
+
+    const companies = await this.prisma.company.findMany({
+      select: { cik: true, ticker: true, fiscalYearEnd: true, latestFiledAt: true, updatedAt: true },
+    });
+
+    const planned = planRefreshes(companies, feed, startedAt, options);
+
+    // Run-scoped job ids: a company's manual refresh job id stays free, and a
+    // job left over from an earlier run doesn't block this one. The plan already
+    // knows there is something new, so the jobs skip the freshness check (they
+    // still only fetch filings since the latest stored one)
+    await Promise.all(planned.map(refresh =>
+      addIngestJob(
+        { cik: refresh.cik, ticker: refresh.ticker, maxAge: 0 },
+        { priority: refresh.priority, jobId: `scheduled-${refresh.cik}-${startedAt.getTime()}` }
+      )
+    ));
+
+    const byReason: Record<RefreshReason, number> = { new_filing: 0, quarter_end: 0, stale: 0 };
+    for (const refresh of planned) {
+      byReason[refresh.reason]++;
+    }
+
+    return {
+      startedAt: startedAt.toISOString(),
+      companies: companies.length,
+      feedFilings: feed.length,
+      ...(feedError && { feedError }),
+      enqueued: planned.length,
+      byReason,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Prisma } from '@prisma/client';
+import { ScreenerService } from './screener';
+
+const now = new Date('2024-06-30');
+
+function createPrisma(rows: any[] = [], counts = { total: BigInt(rows.length), nonUsd: BigInt(0) }) {
+  return {
+    $queryRaw: vi.fn()
+      .mockResolvedValueOnce(rows)
+      .mockResolvedValueOnce([counts]),
+  };
+}
+
+// Rebuild the tagged template each query was issued with
+const queries = (prisma: ReturnType<typeof createPrisma>) =>
+  prisma.$queryRaw.mock.calls.map(([strings, ...values]) => Prisma.sql(strings, ...values));
+
+describe('ScreenerService', () => {
+  it('should read each metric at its comparable frequency', async () => {
+    const prisma = createPrisma();
+
+    await new ScreenerService(prisma as any).run({
+      filters: [
+        { metric: 'NetMargin', op: 'gt', value: 20 },
+        { metric: 'Revenues', op: 'growth', periods: 4, min: 10 },
+      ],
+      columns: ['Assets'],
+      limit: 50,
+      offset: 0,
+    }, now);
+
+    const [page] = queries(prisma);
+    expect(page!.sql).toContain('SELECT DISTINCT ON (v.cik) v.cik, v.value, v."periodEnd", v.frequency');
+    expect(page!.values).toEqual(expect.arrayContaining(['NetMargin', 'ttm', 'Revenues', 'Assets', 'instant']));
+    expect(page!.values).toContainEqual(new Date('2022-12-28'));
+    // Four more years of history for the growth filter, whose base is the fifth value back
+    expect(page!.values).toContainEqual(new Date('2018-12-25'));
+    expect(page!.sql).toContain('base.recency = ?');
+    expect(page!.values).toContain(5);
+  });
+
+  it('should filter, sort and page in the query and map the cells', async () => {
+    const prisma = createPrisma([{
+      cik: '0000320193',
+      ticker: 'AAPL',
+      name: 'Apple Inc.',
+      sector: 'Technology',
+      industry: null,
+      m0_value: new Prisma.Decimal(26),
+      m0_periodEnd: new Date('2024-03-30'),
+      m0_frequency: 'ttm',
+    }], { total: BigInt(2), nonUsd: BigInt(0) });
+
+    const result = await new ScreenerService(prisma as any).run({
+      filters: [{ metric: 'NetMargin', op: 'gt', value: 20 }],
+      sort: { by: 'NetMargin', direction: 'desc' },
+      limit: 1,
+      offset: 1,
+    }, now);
+
+    const [page, count] = queries(prisma);
+    expect(page!.sql).toContain('WHERE TRUE AND m0.value > ?');
+    expect(page!.sql).toContain('ORDER BY m0.value DESC NULLS LAST, c.ticker ASC');
+    expect(page!.values.slice(-2)).toEqual([1, 1]);
+    expect(count!.sql).toContain('COUNT(*) FILTER (WHERE m0.value > ?) AS total');
+
+    expect(result).toEqual({
+      total: 2,
+      columns: ['NetMargin'],
+      rows: [{
+        cik: '0000320193',
+        ticker: 'AAPL',
+        name: 'Apple Inc.',
+        sector: 'Technology',
+        industry: null,
+        metrics: { NetMargin: { value: 26, periodEnd: new Date('2024-03-30'), frequency: 'ttm' } },
+      }],
+    });
+  });
+
+  it('should restrict matches to the universe', async () => {
+    const prisma = createPrisma();
+
+    await new ScreenerService(prisma as any).run({
+      universe: { tickers: ['aapl', 'xom'], sector: 'Technology' },
+      filters: [{ metric: 'NetMargin', op: 'between', min: 10, max: 30 }],
+      limit: 50,
+      offset: 0,
+    }, now);
+
+    for (const query of queries(prisma)) {
+      expect(query.sql).toContain('c.ticker IN (?,?) AND LOWER(c.sector) = LOWER(?)');
+      expect(query.values).toEqual(expect.arrayContaining(['AAPL', 'XOM', 'Technology']));
+    }
+  });
+
+  it('should rank percentiles across every company in the group', async () => {
+    const prisma = createPrisma();
+
+    await new ScreenerService(prisma as any).run({
+      universe: { tickers: ['AAPL'] },
+      filters: [{ metric: 'NetMargin', op: 'percentile', within: 'sector', min: 50 }],
+      limit: 50,
+      offset: 0,
+    }, now);
+
+    const [page] = queries(prisma);
+    expect(page!.sql).toContain('percent_rank() OVER (PARTITION BY pc.sector ORDER BY m.value) * 100 AS percentile');
+    expect(page!.sql).toContain('FROM m0 m JOIN companies pc ON pc.cik = m.cik');
+    expect(page!.sql).toContain('p0.percentile IS NOT NULL AND p0.percentile >= ?');
+  });
+
+  it('should read currency metrics for USD filers only and report the rest', async () => {
+    const prisma = createPrisma([], { total: BigInt(0), nonUsd: BigInt(3) });
+
+    const result = await new ScreenerService(prisma as any).run({
+      filters: [
+        { metric: 'Revenues', op: 'gt', value: 1000000000 },
+        { metric: 'NetMargin', op: 'gt', value: 20 },
+      ],
+      limit: 50,
+      offset: 0,
+    }, now);
+
+    const [page] = queries(prisma);
+    const usdOnly = 'AND v.cik IN (SELECT cik FROM companies WHERE COALESCE("reportingCurrency", \'USD\') = \'USD\')';
+    expect(page!.sql.split(usdOnly)).toHaveLength(2);
+    expect(result.currencyExclusion).toEqual({
+      metrics: ['Revenues'],
+      companies: 3,
+      reason: 'Monetary and per-share metrics are only screened for companies reporting in USD',
+    });
+  });
+
+  it('should not report exclusions for a screen without currency metrics', async () => {
+    const prisma = createPrisma([], { total: BigInt(0), nonUsd: BigInt(3) });
+
+    const result = await new ScreenerService(prisma as any).run({
+      filters: [{ metric: 'NetMargin', op: 'gt', value: 20 }],
+      limit: 50,
+      offset: 0,
+    }, now);
+
+    expect(result).not.toHaveProperty('currencyExclusion');
+  });
+});
\ No newline at end of file
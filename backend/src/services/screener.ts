@@ -0,0 +1,258 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { getComparableFrequency } from '../lib/metric-views';
+import { getGrowthPeriods, getScreenMetrics, isCurrencyMetric } from '../lib/screener';
+import type { ComparisonOperator, ScreenFilter, ScreenSort } from '../lib/screener';
+
+// Values older than this are treated as missing, so companies that stopped
+// filing drop out of screens instead of matching on stale figures
+const MAX_VALUE_AGE_DAYS = 550;
+
+// Growth looks back whole years per period so annual-only series have enough history
+const GROWTH_LOOKBACK_DAYS_PER_PERIOD = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SQL_OPERATORS: Record<ComparisonOperator, string> = {
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<=',
+  eq: '=',
+  ne: '<>',
+};
+
+const PERCENTILE_GROUPS = {
+  sector: 'pc.sector',
+  industry: 'pc.industry',
+} as const;
+
+export interface ScreenDefinition {
+  universe?: {
+    sector?: string | undefined;
+    industry?: string | undefined;
+    tickers?: string[] | undefined;
+  } | undefined;
+  filters: ScreenFilter[];
+  columns?: string[] | undefined;
+  sort?: ScreenSort | undefined;
+  limit: number;
+  offset: number;
+}
+
+export interface ScreenRow {
+  cik: string;
+  ticker: string;
+  name: string;
+  sector: string | null;
+  industry: string | null;
+  metrics: Record<string, { value: number; periodEnd: Date; frequency: string } | null>;
+}
+
+// Company columns plus m<i>_value, m<i>_periodEnd and m<i>_frequency per metric
+type ScreenQueryRow = Omit<ScreenRow, 'metrics'> & Record<string, unknown>;
+
+export interface ScreenResult {
+  rows: ScreenRow[];
+  total: number;
+  columns: string[];
+  // Set when the screen reads currency metrics and the universe holds filers
+  // reporting in another currency, whose values for them count as missing
+  currencyExclusion?: { metrics: string[]; companies: number; reason: string } | undefined;
+}
+
+/**
+ * Service that runs screens against the materialized metric views. Every
+ * metric is read at its comparable frequency (TTM or latest instant), and the
+ * whole screen (filters, percent ranks, growth, sort and paging) runs as SQL,
+ * so only the requested page leaves the database.
+ *
+ * Monetary and per-share views are in each filer's reporting currency and are
+ * not converted here: they are only read for USD filers, and the result says
+ * how many companies in the universe that left out.
+ */
+export class ScreenerService {
+  private prisma: PrismaClient;
+
+  constructor(prisma: PrismaClient) {
+    this.prisma = prisma;
+  }
+
+  async run(definition: ScreenDefinition, now: Date = new Date()): Promise<ScreenResult> {
+    const { filters, universe, limit, offset } = definition;
+    const sort = definition.sort ?? { by: 'ticker', direction: 'asc' as const };
+    const columns = getScreenMetrics(filters, definition.columns, sort);
+    const currencyMetrics = columns.filter(isCurrencyMetric);
+
+    const tables = this.buildTables(columns, filters, now);
+    const inUniverse = this.buildUniverse(universe);
+    const matches = Prisma.join(filters.map((filter, index) => this.buildFilter(filter, index, columns)), ' AND ');
+    const cells = Prisma.join(columns.map((_, index) => Prisma.raw(
+      `m${index}.value AS "m${index}_value", m${index}."periodEnd" AS "m${index}_periodEnd", m${index}.frequency AS "m${index}_frequency"`
+    )));
+
+    const [rows, counts] = await Promise.all([
+      this.prisma.$queryRaw<ScreenQueryRow[]>`
+        WITH ${tables.ctes}
+        SELECT c.cik, c.ticker, c.name, c.sector, c.industry, ${cells}
+        FROM companies c ${tables.joins}
+        WHERE ${inUniverse} AND ${matches}
+        ORDER BY ${this.buildOrder(sort, columns)}
+        LIMIT ${limit} OFFSET ${offset}
+      `,
+      this.prisma.$queryRaw<Array<{ total: bigint; nonUsd: bigint }>>`
+        WITH ${tables.ctes}
+        SELECT
+          COUNT(*) FILTER (WHERE ${matches}) AS total,
+          COUNT(*) FILTER (WHERE COALESCE(c."reportingCurrency", 'USD') <> 'USD') AS "nonUsd"
+        FROM companies c ${tables.joins}
+        WHERE ${inUniverse}
+      `,
+    ]);
+
+    const nonUsd = Number(counts[0]?.nonUsd ?? 0);
+
+    return {
+      rows: rows.map(row => ({
+        cik: row.cik,
+        ticker: row.ticker,
+        name: row.name,
+        sector: row.sector,
+        industry: row.industry,
+        metrics: Object.fromEntries(columns.map((metric, index) => {
+          const value = row[`m${index}_value`] as Prisma.Decimal | null;
+          return [metric, value === null ? null : {
+            value: Number(value),
+            periodEnd: row[`m${index}_periodEnd`] as Date,
+            frequency: row[`m${index}_frequency`] as string,
+          }];
+        })),
+      })),
+      total: Number(counts[0]?.total ?? 0),
+      columns,
+      ...(currencyMetrics.length > 0 && nonUsd > 0 && {
+        currencyExclusion: {
+          metrics: currencyMetrics,
+          companies: nonUsd,
+          reason: 'Monetary and per-share metrics are only screened for companies reporting in USD',
+        },
+      }),
+    };
+  }
+
+  /**
+   * One CTE per metric with each company's latest recent value (m<i>), plus
+   * per-filter percent ranks (p<j>) and growth (h<j>, g<j>), left-joined onto
+   * companies so a missing value fails its filter
+   */
+  private buildTables(columns: string[], filters: ScreenFilter[], now: Date): { ctes: Prisma.Sql; joins: Prisma.Sql } {
+    const recent = new Date(now.getTime() - MAX_VALUE_AGE_DAYS * DAY_MS);
+    const ctes: Prisma.Sql[] = [];
+    const joins: Prisma.Sql[] = [];
+
+    columns.forEach((metric, index) => {
+      const usdOnly = isCurrencyMetric(metric)
+        ? Prisma.sql`AND v.cik IN (SELECT cik FROM companies WHERE COALESCE("reportingCurrency", 'USD') = 'USD')`
+        : Prisma.empty;
+
+      ctes.push(Prisma.sql`${Prisma.raw(`m${index}`)} AS (
+        SELECT DISTINCT ON (v.cik) v.cik, v.value, v."periodEnd", v.frequency
+        FROM metric_views v
+        WHERE v.metric = ${metric} AND v.frequency = ${getComparableFrequency(metric)}
+          AND v."periodEnd" >= ${recent} ${usdOnly}
+        ORDER BY v.cik, v."periodEnd" DESC
+      )`);
+      joins.push(Prisma.raw(`LEFT JOIN m${index} ON m${index}.cik = c.cik`));
+    });
+
+    filters.forEach((filter, index) => {
+      if (filter.op === 'percentile') {
+        // percent_rank() sorts each group once: ties share the lower rank, a
+        // group of one ranks 0, and companies without a group stay unranked
+        const latest = `m${columns.indexOf(filter.metric)}`;
+        const group = filter.within === 'all' ? null : PERCENTILE_GROUPS[filter.within];
+
+        ctes.push(Prisma.raw(`p${index} AS (
+          SELECT m.cik, percent_rank() OVER (${group ? `PARTITION BY ${group} ` : ''}ORDER BY m.value) * 100 AS percentile
+          FROM ${latest} m JOIN companies pc ON pc.cik = m.cik
+          ${group ? `WHERE ${group} IS NOT NULL` : ''}
+        )`));
+        joins.push(Prisma.raw(`LEFT JOIN p${index} ON p${index}.cik = c.cik`));
+      }
+
+      if (filter.op === 'growth') {
+        // Growth looks back from a current value, whatever the filer's currency
+        const lookback = new Date(now.getTime()
+          - (MAX_VALUE_AGE_DAYS + getGrowthPeriods(filters, filter.metric) * GROWTH_LOOKBACK_DAYS_PER_PERIOD) * DAY_MS);
+
+        ctes.push(Prisma.sql`${Prisma.raw(`h${index}`)} AS (
+          SELECT v.cik, v.value, v."periodEnd", ROW_NUMBER() OVER (PARTITION BY v.cik ORDER BY v."periodEnd" DESC) AS recency
+          FROM metric_views v
+          WHERE v.metric = ${filter.metric} AND v.frequency = ${getComparableFrequency(filter.metric)}
+            AND v."periodEnd" >= ${lookback}
+        )`);
+        ctes.push(Prisma.sql`${Prisma.raw(`g${index}`)} AS (
+          SELECT latest.cik, (latest.value - base.value) / ABS(base.value) * 100 AS growth
+          FROM ${Prisma.raw(`h${index}`)} latest
+          JOIN ${Prisma.raw(`h${index}`)} base ON base.cik = latest.cik AND base.recency = ${filter.periods + 1}
+          WHERE latest.recency = 1 AND latest."periodEnd" >= ${recent} AND base.value <> 0
+        )`);
+        joins.push(Prisma.raw(`LEFT JOIN g${index} ON g${index}.cik = c.cik`));
+      }
+    });
+
+    return { ctes: Prisma.join(ctes, ',\n'), joins: Prisma.join(joins, '\n') };
+  }
+
+  private buildFilter(filter: ScreenFilter, index: number, columns: string[]): Prisma.Sql {
+    const latest = Prisma.raw(`m${columns.indexOf(filter.metric)}.value`);
+
+    switch (filter.op) {
+      case 'between':
+        return Prisma.sql`${latest} BETWEEN ${filter.min} AND ${filter.max}`;
+      case 'percentile':
+        return this.buildRange(Prisma.raw(`p${index}.percentile`), filter.min, filter.max);
+      case 'growth':
+        return this.buildRange(Prisma.raw(`g${index}.growth`), filter.min, filter.max);
+      default:
+        return Prisma.sql`${latest} ${Prisma.raw(SQL_OPERATORS[filter.op])} ${filter.value}`;
+    }
+  }
+
+  // Inclusive bounds; a missing value is out of range
+  private buildRange(column: Prisma.Sql, min?: number, max?: number): Prisma.Sql {
+    return Prisma.join([
+      Prisma.sql`${column} IS NOT NULL`,
+      ...(min === undefined ? [] : [Prisma.sql`${column} >= ${min}`]),
+      ...(max === undefined ? [] : [Prisma.sql`${column} <= ${max}`]),
+    ], ' AND ');
+  }
+
+  private buildUniverse(universe: ScreenDefinition['universe']): Prisma.Sql {
+    const conditions: Prisma.Sql[] = [];
+
+    if (universe?.tickers) {
+      conditions.push(Prisma.sql`c.ticker IN (${Prisma.join(universe.tickers.map(ticker => ticker.toUpperCase()))})`);
+    }
+    if (universe?.sector) {
+      conditions.push(Prisma.sql`LOWER(c.sector) = LOWER(${universe.sector})`);
+    }
+    if (universe?.industry) {
+      conditions.push(Prisma.sql`LOWER(c.industry) = LOWER(${universe.industry})`);
+    }
+
+    return conditions.length > 0 ? Prisma.join(conditions, ' AND ') : Prisma.sql`TRUE`;
+  }
+
+  // Companies without a value for the sort metric go last whichever the direction
+  private buildOrder(sort: ScreenSort, columns: string[]): Prisma.Sql {
+    const direction = sort.direction === 'asc' ? 'ASC' : 'DESC';
+
+    if (sort.by === 'ticker') {
+      return Prisma.raw(`c.ticker ${direction}`);
+    }
+    if (sort.by === 'name') {
+      return Prisma.raw(`c.name ${direction}, c.ticker ASC`);
+    }
+    return Prisma.raw(`m${columns.indexOf(sort.by)}.value ${direction} NULLS LAST, c.ticker ASC`);
+  }
+}
\ No newline at end of file
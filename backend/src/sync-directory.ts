@@ -0,0 +1,34 @@
+import 'dotenv/config';
+import { PrismaClient } from '@prisma/client';
+import { CompanyDirectoryService } from './services/companyDirectory';
+
+// Usage: npm run directory:sync [-- --file ./data/company_tickers_exchange.json]
+// Without --file, COMPANY_TICKERS_FILE or a cached download from sec.gov is used
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const fileIndex = process.argv.indexOf('--file');
+  const tickersFile = fileIndex >= 0 ? process.argv[fileIndex + 1] : undefined;
+
+  const directory = new CompanyDirectoryService(prisma, {
+    ...(tickersFile && { tickersFile }),
+  });
+
+  console.log('Syncing SEC ticker directory...');
+
+  try {
+    const result = await directory.sync();
+    console.log(
+      `✅ Synced ${result.tickers} tickers from ${result.source} ` +
+      `(${result.deactivated} deactivated, ${result.names} company names)`
+    );
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error('Directory sync failed:', error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -70,7 +70,39 @@ export const CompanyFactsSchema = z.object({
   }),
 });
 
+// Submissions filing lists are columnar: one array per field, aligned by index
+export const SubmissionFilingsSchema = z.object({
+  accessionNumber: z.array(z.string()),
+  filingDate: z.array(z.string()),
+  reportDate: z.array(z.string()).optional(),
+  acceptanceDateTime: z.array(z.string()).optional(),
+  form: z.array(z.string()),
+  primaryDocument: z.array(z.string()).optional(),
+  primaryDocDescription: z.array(z.string()).optional(),
+  isXBRL: z.array(z.number()).optional(),
+  isInlineXBRL: z.array(z.number()).optional(),
+  size: z.array(z.number()).optional(),
+});
+
+export const SubmissionsSchema = z.object({
+  cik: z.string(),
+  name: z.string(),
+  category: z.string().optional(), // Filer status, e.g. "Large accelerated filer"
+  filings: z.object({
+    recent: SubmissionFilingsSchema,
+    // Older filings overflow into CIK##########-submissions-###.json files
+    files: z.array(z.object({
+      name: z.string(),
+      filingCount: z.number(),
+      filingFrom: z.string(),
+      filingTo: z.string(),
+    })).default([]),
+  }),
+});
+
 export type CompanyInfo = z.infer<typeof CompanyInfoSchema>;
+export type SubmissionFilings = z.infer<typeof SubmissionFilingsSchema>;
+export type Submissions = z.infer<typeof SubmissionsSchema>;
 export type CompanyFacts = z.infer<typeof CompanyFactsSchema>;
 export type Fact = z.infer<typeof FactSchema>;
 export type FactUnit = z.infer<typeof FactUnitSchema>;
\ No newline at end of file
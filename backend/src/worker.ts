@@ -4,10 +4,20 @@ import { PrismaClient } from '@prisma/client';
 import { connectRedis } from './lib/redis';
 import { createDefaultProvider } from './providers';
 import { IngestionService } from './services/ingestion';
-import type { IngestJobData } from './lib/queue';
+import { FilingService } from './services/filings';
+import { RefreshScheduler } from './services/refreshScheduler';
+import { DeadLetterService } from './services/deadLetters';
+import { listConcepts } from './lib/concept-catalog';
+import { getBatchFailures, recordBatchFailure, scheduleRefreshes } from './lib/queue';
+import type { BatchIngestJobData, IngestJobData } from './lib/queue';
 
 const prisma = new PrismaClient();
 
+const connection = {
+  host: process.env.REDIS_HOST || 'localhost',
+  port: parseInt(process.env.REDIS_PORT || '6379'),
+};
+
 async function main() {
   console.log('Starting financial data ingestion worker...');
 
@@ -24,12 +34,14 @@ async function main() {
 
   // Create ingestion service
   const ingestionService = new IngestionService(prisma, provider);
+  const filingService = new FilingService(prisma);
+  const deadLetters = new DeadLetterService(prisma);
 
   // Create worker
   const worker = new Worker(
     'ingest',
     async (job) => {
-      const { cik, ticker, force } = job.data as IngestJobData;
+      const { cik, ticker, force, maxAge } = job.data as IngestJobData;
       
       try {
         console.log(`Processing ingestion job for ${ticker || cik} (${cik})`);
@@ -37,36 +49,40 @@ async function main() {
         // Update job progress
         await job.updateProgress(10);
 
-        // Key financial concepts for MVP dashboard
-        const dashboardConcepts = [
-          'Revenues',
-          'NetIncomeLoss', 
-          'CashAndCashEquivalentsAtCarryingValue',
-          'LongTermDebtNoncurrent',
-          'Assets',
-          'Liabilities',
-          'StockholdersEquity',
-        ];
+        // Every concept in the catalog is ingested
+        const catalogConcepts = listConcepts();
 
         await job.updateProgress(30);
 
         // Ingest company data
         const result = await ingestionService.ingestCompanyData(cik, {
           force: force || false,
-          concepts: dashboardConcepts,
-          maxAge: 24, // 24 hours
+          concepts: catalogConcepts,
+          maxAge: maxAge ?? 24, // 24 hours unless the job says otherwise
         });
 
         await job.updateProgress(90);
 
         if (!result.success) {
-          throw new Error(`Ingestion failed: ${result.errors?.join(', ')}`);
+          // The provider's error keeps its name and code for the dead-letter store
+          throw result.providerError ?? new Error(`Ingestion failed: ${result.errors?.join(', ')}`);
         }
 
         console.log(
           `✅ Successfully ingested ${result.metricsIngested} metrics for ${result.ticker} (${cik}) from ${result.source}`
+          + (result.factsInserted !== undefined
+            ? ` (${result.factsInserted} new, ${result.factsUpdated} changed, ${result.factsUnchanged} unchanged)`
+            : '')
         );
 
+        // Keep the filing index current so new facts link to their filings
+        try {
+          const filings = await filingService.syncFilings(cik);
+          console.log(`Indexed ${filings.added} new filings for ${result.ticker} (${cik})`);
+        } catch (error) {
+          console.warn(`Filing sync failed for ${result.ticker} (${cik}):`, error);
+        }
+
         await job.updateProgress(100);
 
         return {
@@ -74,23 +90,77 @@ async function main() {
           cik,
           ticker: result.ticker,
           metricsIngested: result.metricsIngested,
+          ...(result.factsInserted !== undefined && {
+            factsInserted: result.factsInserted,
+            factsUpdated: result.factsUpdated,
+            factsUnchanged: result.factsUnchanged,
+          }),
           source: result.source,
         };
 
       } catch (error) {
         console.error(`❌ Job failed for ${ticker || cik} (${cik}):`, error);
+
+        // Out of retries in a batch: the job leaves the batch when it fails, so
+        // the reason is recorded first for the status endpoint and batch worker
+        if (job.parent && job.attemptsMade + 1 >= (job.opts.attempts ?? 1)) {
+          await recordBatchFailure(job.parent.id, job.data as IngestJobData, error);
+        }
         throw error;
       }
     },
     {
-      connection: {
-        host: process.env.REDIS_HOST || 'localhost',
-        port: parseInt(process.env.REDIS_PORT || '6379'),
-      },
+      connection,
       concurrency: 2, // Process 2 jobs concurrently to respect rate limits
     }
   );
 
+  // Batch refreshes: the parent job runs once every company's job completed or failed
+  const batchWorker = new Worker(
+    'ingest-batch',
+    async (job) => {
+      const { batchId, total } = job.data as BatchIngestJobData;
+      const [values, failures] = await Promise.all([
+        job.getChildrenValues<{ metricsIngested?: number }>(),
+        getBatchFailures(batchId),
+      ]);
+      const results = Object.values(values);
+      const metricsIngested = results.reduce((sum, result) => sum + (result.metricsIngested ?? 0), 0);
+
+      console.log(
+        `${failures.length > 0 ? '⚠️' : '✅'} Batch ${batchId} ingested ${metricsIngested} metrics for`
+        + ` ${results.length} of ${total} companies (${failures.length} failed)`
+      );
+      return { batchId, total, completed: results.length, failed: failures.length, metricsIngested };
+    },
+    { connection }
+  );
+
+  // Scheduled refreshes: each run enqueues prioritized ingest jobs
+  const refreshScheduler = new RefreshScheduler(prisma);
+  const refreshWorker = new Worker(
+    'refresh-schedule',
+    async () => {
+      const summary = await refreshScheduler.run({
+        maxJobs: parseInt(process.env.REFRESH_MAX_JOBS || '50'),
+      });
+      console.log(
+        `Scheduled refresh queued ${summary.enqueued} of ${summary.companies} companies`
+        + ` (${summary.byReason.new_filing} new filings, ${summary.byReason.quarter_end} quarter ends, ${summary.byReason.stale} stale)`
+      );
+      return summary;
+    },
+    { connection }
+  );
+
+  const refreshPattern = process.env.REFRESH_SCHEDULE_CRON || '0 * * * *';
+  await scheduleRefreshes(refreshPattern);
+  console.log(`Scheduled refreshes registered (${refreshPattern})`);
+
+  refreshWorker.on('failed', (job, err) => {
+    console.error(`Scheduled refresh ${job?.id} failed:`, err);
+  });
+
   // Event handlers
   worker.on('ready', () => {
     console.log('Worker is ready and waiting for jobs');
@@ -102,6 +172,13 @@ async function main() {
 
   worker.on('failed', (job, err) => {
     console.error(`Job ${job?.id} failed:`, err);
+
+    // Out of retries: keep the job for triage under /api/admin/dead-letters
+    if (job && job.attemptsMade >= (job.opts.attempts ?? 1)) {
+      deadLetters.record(job, err).catch((error) => {
+        console.error(`Failed to record dead letter for job ${job.id}:`, error);
+      });
+    }
   });
 
   worker.on('stalled', (jobId) => {
@@ -112,6 +189,8 @@ async function main() {
   process.on('SIGINT', async () => {
     console.log('Shutting down worker...');
     await worker.close();
+    await batchWorker.close();
+    await refreshWorker.close();
     await prisma.$disconnect();
     process.exit(0);
   });
@@ -119,6 +198,8 @@ async function main() {
   process.on('SIGTERM', async () => {
     console.log('Shutting down worker...');
     await worker.close();
+    await batchWorker.close();
+    await refreshWorker.close();
     await prisma.$disconnect();
     process.exit(0);
   });